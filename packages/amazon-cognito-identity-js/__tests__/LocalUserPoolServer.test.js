@@ -0,0 +1,269 @@
+import { createHash } from 'crypto';
+import AuthenticationDetails from '../src/AuthenticationDetails';
+import CognitoUser from '../src/CognitoUser';
+import CognitoUserAttribute from '../src/CognitoUserAttribute';
+import CognitoUserPool from '../src/CognitoUserPool';
+import LocalUserPoolServer from '../src/LocalUserPoolServer';
+
+const password = 'Passw0rd!';
+
+const promisify = fn =>
+	new Promise((resolve, reject) =>
+		fn((err, result) => (err ? reject(err) : resolve(result)))
+	);
+
+const signIn = (user, pw = password) =>
+	new Promise((resolve, reject) => {
+		user.authenticateUser(
+			new AuthenticationDetails({ Username: user.getUsername(), Password: pw }),
+			{
+				onSuccess: resolve,
+				onFailure: reject,
+				mfaRequired: (challengeName, challengeParameters) =>
+					resolve({ challengeName, challengeParameters }),
+			}
+		);
+	});
+
+describe('LocalUserPoolServer', () => {
+	let server;
+	let pool;
+
+	const createCognitoUser = username =>
+		new CognitoUser({ Username: username, Pool: pool });
+
+	beforeEach(() => {
+		localStorage.clear();
+		server = new LocalUserPoolServer();
+		server.install();
+		pool = new CognitoUserPool({
+			UserPoolId: server.userPoolId,
+			ClientId: server.clientId,
+			endpoint: server.endpoint,
+		});
+	});
+
+	afterEach(() => {
+		server.uninstall();
+	});
+
+	test('sign up, confirm the sign up and sign in with SRP', async () => {
+		const { userConfirmed, codeDeliveryDetails } = await promisify(callback =>
+			pool.signUp(
+				'alice',
+				password,
+				[
+					new CognitoUserAttribute({
+						Name: 'email',
+						Value: 'alice@example.com',
+					}),
+				],
+				null,
+				callback
+			)
+		);
+		expect(userConfirmed).toBe(false);
+		expect(codeDeliveryDetails).toEqual({
+			AttributeName: 'email',
+			DeliveryMedium: 'EMAIL',
+			Destination: 'a***@e***',
+		});
+
+		const user = createCognitoUser('alice');
+		await expect(signIn(user)).rejects.toMatchObject({
+			code: 'UserNotConfirmedException',
+		});
+		await expect(
+			promisify(callback => user.confirmRegistration('000000', false, callback))
+		).rejects.toMatchObject({ code: 'CodeMismatchException' });
+		await promisify(callback =>
+			user.confirmRegistration(server.getLastCode('alice'), false, callback)
+		);
+
+		const session = await signIn(user);
+		expect(session.isValid()).toBe(true);
+		expect(session.getIdToken().decodePayload()).toMatchObject({
+			aud: server.clientId,
+			iss: server.getIssuer(),
+			token_use: 'id',
+			'cognito:username': 'alice',
+			email: 'alice@example.com',
+			email_verified: true,
+		});
+		const attributes = await promisify(callback =>
+			user.getUserAttributes(callback)
+		);
+		expect(attributes.map(attribute => attribute.getName())).toEqual([
+			'sub',
+			'email',
+			'email_verified',
+		]);
+	});
+
+	test('reject a wrong password', async () => {
+		server.createUser('bob', password);
+		const user = createCognitoUser('bob');
+
+		await expect(signIn(user, 'wrong password')).rejects.toMatchObject({
+			code: 'NotAuthorizedException',
+			message: 'Incorrect username or password.',
+		});
+		user.setAuthenticationFlowType('USER_PASSWORD_AUTH');
+		await expect(signIn(user, 'wrong password')).rejects.toMatchObject({
+			code: 'NotAuthorizedException',
+		});
+		expect((await signIn(user)).isValid()).toBe(true);
+	});
+
+	test('sign in with SMS MFA', async () => {
+		server.createUser('carol', password, { phone_number: '+15555551234' });
+		const user = createCognitoUser('carol');
+		await signIn(user);
+		await promisify(callback =>
+			user.setUserMfaPreference(
+				{ PreferredMfa: true, Enabled: true },
+				null,
+				callback
+			)
+		);
+
+		const otherUser = createCognitoUser('carol');
+		expect(await signIn(otherUser)).toEqual({
+			challengeName: 'SMS_MFA',
+			challengeParameters: {
+				CODE_DELIVERY_DELIVERY_MEDIUM: 'SMS',
+				CODE_DELIVERY_DESTINATION: '+*******1234',
+			},
+		});
+		const session = await new Promise((resolve, reject) =>
+			otherUser.sendMFACode(server.getLastCode('carol'), {
+				onSuccess: resolve,
+				onFailure: reject,
+			})
+		);
+		expect(session.getAccessToken().decodePayload().username).toEqual('carol');
+	});
+
+	test('reset a forgotten password', async () => {
+		server.createUser('dave', password, { email: 'dave@example.com' });
+		const user = createCognitoUser('dave');
+
+		await new Promise((resolve, reject) =>
+			user.forgotPassword({ onSuccess: resolve, onFailure: reject })
+		);
+		await new Promise((resolve, reject) =>
+			user.confirmPassword(server.getLastCode('dave'), 'NewPassw0rd!', {
+				onSuccess: resolve,
+				onFailure: reject,
+			})
+		);
+
+		await expect(signIn(user)).rejects.toMatchObject({
+			code: 'NotAuthorizedException',
+		});
+		expect((await signIn(user, 'NewPassw0rd!')).isValid()).toBe(true);
+	});
+
+	test('update and verify an attribute', async () => {
+		server.createUser('erin', password, {
+			email: 'erin@example.com',
+			email_verified: 'true',
+		});
+		const user = createCognitoUser('erin');
+		await signIn(user);
+
+		await promisify(callback =>
+			user.updateAttributes(
+				[{ Name: 'email', Value: 'erin@example.org' }],
+				callback
+			)
+		);
+		expect(server.users.erin.attributes.email_verified).toEqual('false');
+		await new Promise((resolve, reject) =>
+			user.verifyAttribute('email', server.getLastCode('erin'), {
+				onSuccess: resolve,
+				onFailure: reject,
+			})
+		);
+		expect(server.users.erin.attributes).toMatchObject({
+			email: 'erin@example.org',
+			email_verified: 'true',
+		});
+	});
+
+	test('refresh the session until the refresh token is revoked', async () => {
+		server.createUser('frank', password);
+		const user = createCognitoUser('frank');
+		const session = await signIn(user);
+
+		const refreshed = await promisify(callback =>
+			user.refreshSession(session.getRefreshToken(), callback)
+		);
+		expect(refreshed.getRefreshToken().getToken()).toEqual(
+			session.getRefreshToken().getToken()
+		);
+
+		await promisify(callback => user.signOut(callback));
+		await expect(
+			promisify(callback =>
+				user.refreshSession(session.getRefreshToken(), callback)
+			)
+		).rejects.toMatchObject({ code: 'NotAuthorizedException' });
+		expect(
+			await server.handleRequest('GetUser', {
+				AccessToken: refreshed.getAccessToken().getJwtToken(),
+			})
+		).toEqual({
+			statusCode: 400,
+			body: {
+				__type: 'NotAuthorizedException',
+				message: 'Access Token has been revoked',
+			},
+		});
+	});
+
+	test('sign the tokens with the key of the JWKS', async () => {
+		server.createUser('grace', password);
+		const session = await signIn(createCognitoUser('grace'));
+		const response = await fetch(`${server.getIssuer()}/.well-known/jwks.json`);
+		const {
+			keys: [jwk],
+		} = await response.json();
+
+		const [header, payload, signature] = session
+			.getIdToken()
+			.getJwtToken()
+			.split('.');
+		expect(JSON.parse(Buffer.from(header, 'base64').toString())).toEqual({
+			kid: jwk.kid,
+			alg: 'RS256',
+		});
+		// with RS256 the signature to the power of the exponent modulo the modulus ends with the SHA-256 of the token
+		const toBigInt = value =>
+			BigInt(`0x${Buffer.from(value, 'base64').toString('hex')}`);
+		const n = toBigInt(jwk.n);
+		let exponent = toBigInt(jwk.e);
+		let base = toBigInt(signature) % n;
+		let message = BigInt(1);
+		for (; exponent > 0; exponent >>= BigInt(1)) {
+			if (exponent & BigInt(1)) {
+				message = (message * base) % n;
+			}
+			base = (base * base) % n;
+		}
+		const digest = createHash('sha256')
+			.update(`${header}.${payload}`)
+			.digest('hex');
+		expect(message.toString(16).endsWith(digest)).toBe(true);
+	});
+
+	test('respond with an error to an unsupported operation', async () => {
+		expect(await server.handleRequest('AdminCreateUser', {})).toEqual({
+			statusCode: 400,
+			body: {
+				__type: 'UnknownOperationException',
+				message: 'AdminCreateUser is not supported by the local user pool',
+			},
+		});
+	});
+});
@@ -421,3 +421,45 @@ declare module 'amazon-cognito-identity-js' {
 		toString(): string;
 	}
 }
+
+declare module 'amazon-cognito-identity-js/lib/LocalUserPoolServer' {
+	export interface ILocalUserPoolServerOptions {
+		userPoolId?: string;
+		clientId?: string;
+		endpoint?: string;
+		tokenValidity?: number;
+	}
+
+	export interface ILocalCodeDelivery {
+		username: string;
+		code: string;
+		attributeName: string;
+		deliveryMedium: string;
+		destination: string;
+	}
+
+	export default class LocalUserPoolServer {
+		constructor(options?: ILocalUserPoolServerOptions);
+
+		readonly userPoolId: string;
+		readonly clientId: string;
+		readonly endpoint: string;
+		readonly codeDeliveries: ILocalCodeDelivery[];
+
+		public getIssuer(): string;
+		public getJwks(): { keys: any[] };
+		public createUser(
+			username: string,
+			password: string,
+			attributes?: { [name: string]: string }
+		): void;
+		public getLastCode(username: string): string | undefined;
+		public install(): void;
+		public uninstall(): void;
+		public fetch(url: string, options?: any): Promise<any>;
+		public handleRequest(
+			operation: string,
+			params: any
+		): Promise<{ statusCode: number; body: any }>;
+	}
+}
@@ -0,0 +1,931 @@
+/*!
+ * Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Buffer } from 'buffer';
+import { generateKeyPairSync, randomBytes, sign, verify } from 'crypto';
+import CryptoJS from 'crypto-js/core';
+import 'crypto-js/lib-typedarrays'; // necessary for crypto js
+import Base64 from 'crypto-js/enc-base64';
+import HmacSHA256 from 'crypto-js/hmac-sha256';
+import AuthenticationHelper from './AuthenticationHelper';
+import BigInteger from './BigInteger';
+
+const TARGET_PREFIX = 'AWSCognitoIdentityProviderService.';
+const DEFAULT_TOKEN_VALIDITY = 60 * 60;
+const MINIMUM_PASSWORD_LENGTH = 8;
+const USER_ADMIN_SCOPE = 'aws.cognito.signin.user.admin';
+
+/**
+ * Returns a random hex string of nBytes bytes
+ * @param {number} nBytes Number of random bytes.
+ * @returns {string} hex-encoded random bytes.
+ */
+function randomHex(nBytes) {
+	return randomBytes(nBytes).toString('hex');
+}
+
+/**
+ * Returns a random UUID, the format of the sub of the users and the jti of the tokens
+ * @returns {string} a random UUID.
+ */
+function randomUuid() {
+	const hex = randomHex(16);
+	return [
+		hex.substr(0, 8),
+		hex.substr(8, 4),
+		hex.substr(12, 4),
+		hex.substr(16, 4),
+		hex.substr(20),
+	].join('-');
+}
+
+/**
+ * Returns a random 6 digit confirmation code
+ * @returns {string} the code.
+ */
+function randomCode() {
+	const code = randomBytes(4).readUInt32BE(0) % 1000000;
+	return `00000${code}`.slice(-6);
+}
+
+/**
+ * Base64url-encodes a JSON value or a buffer
+ * @param {object|Buffer} value Value to encode.
+ * @returns {string} base64url-encoded value.
+ */
+function base64Url(value) {
+	const buffer = Buffer.isBuffer(value)
+		? value
+		: Buffer.from(JSON.stringify(value), 'utf8');
+	return buffer
+		.toString('base64')
+		.replace(/=+$/, '')
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_');
+}
+
+/**
+ * Reads the modulus and the exponent of an RSA public key, Node.js only exports keys as JWK from 15.9
+ * @param {KeyObject} publicKey The RSA public key.
+ * @returns {object} the big-endian modulus and exponent, in the n and e buffers.
+ */
+function readRsaPublicKey(publicKey) {
+	// RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+	const der = publicKey.export({ type: 'pkcs1', format: 'der' });
+	let offset = 0;
+	const readLength = () => {
+		const length = der[offset++];
+		if (length < 0x80) {
+			return length;
+		}
+		let value = 0;
+		for (let i = 0; i < (length & 0x7f); i++) {
+			value = value * 256 + der[offset++];
+		}
+		return value;
+	};
+	const readInteger = () => {
+		offset++; // INTEGER tag
+		const length = readLength();
+		const value = der.slice(offset, offset + length);
+		offset += length;
+		// a leading zero byte keeps the DER integer positive, JWK integers are unsigned
+		return value[0] === 0 ? value.slice(1) : value;
+	};
+	offset++; // SEQUENCE tag
+	readLength();
+	return { n: readInteger(), e: readInteger() };
+}
+
+/**
+ * Masks an email address or a phone number like Cognito does in code delivery details
+ * @param {string} destination Email address or phone number.
+ * @returns {string} the masked destination.
+ */
+function maskDestination(destination) {
+	const at = destination.indexOf('@');
+	if (at === -1) {
+		return `+*******${destination.slice(-4)}`;
+	}
+	return `${destination[0]}***@${destination[at + 1]}***`;
+}
+
+/**
+ * Returns an error the local user pool responds with
+ * @param {string} code Name of the exception, e.g. NotAuthorizedException.
+ * @param {string} message Message of the exception.
+ * @returns {Error} the error.
+ */
+function serviceError(code, message) {
+	const error = new Error(message);
+	error.code = code;
+	return error;
+}
+
+/**
+ * Returns a fetch Response-like object
+ * @param {number} status HTTP status code.
+ * @param {object} body JSON body.
+ * @returns {object} the response.
+ */
+function jsonResponse(status, body) {
+	const json = JSON.stringify(body);
+	return {
+		ok: status >= 200 && status < 300,
+		status,
+		headers: { get: () => null },
+		json: () => Promise.resolve(JSON.parse(json)),
+	};
+}
+
+/**
+ * An in-process stand-in for a Cognito User Pool, to test sign up, sign in, MFA and forgot password flows
+ * offline. It answers the requests the Client sends to the Cognito Identity Provider API, verifies SRP with the
+ * AuthenticationHelper and issues tokens signed with RS256. It requires the crypto module of Node.js.
+ *
+ * Configure the user pool with the endpoint of the server and install it in place of the global fetch:
+ *
+ *     const server = new LocalUserPoolServer();
+ *     server.install();
+ *     const pool = new CognitoUserPool({
+ *         UserPoolId: server.userPoolId,
+ *         ClientId: server.clientId,
+ *         endpoint: server.endpoint,
+ *     });
+ *
+ * The codes which Cognito would send by email or SMS are kept in `codeDeliveries`.
+ * @class
+ */
+export default class LocalUserPoolServer {
+	/**
+	 * Constructs a new LocalUserPoolServer object
+	 * @param {object=} options Options of the local user pool.
+	 * @param {string=} options.userPoolId Id of the user pool.
+	 * @param {string=} options.clientId Id of the app client.
+	 * @param {string=} options.endpoint Endpoint the Client sends the requests to.
+	 * @param {number=} options.tokenValidity Validity of the access and ID tokens in seconds.
+	 */
+	constructor(options = {}) {
+		this.userPoolId = options.userPoolId || 'local_LocalUserPool';
+		this.clientId = options.clientId || 'localClientId';
+		this.endpoint = options.endpoint || 'http://localhost:9229/';
+		this.tokenValidity = options.tokenValidity || DEFAULT_TOKEN_VALIDITY;
+
+		this.poolName = this.userPoolId.split('_')[1];
+		this.authenticationHelper = new AuthenticationHelper(this.poolName);
+
+		const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+			modulusLength: 2048,
+		});
+		this.publicKey = publicKey;
+		this.privateKey = privateKey;
+		this.keyId = randomHex(16);
+
+		this.users = {};
+		this.sessions = {};
+		this.refreshTokens = {};
+		this.revokedTokenOrigins = {};
+		this.codeDeliveries = [];
+		this.originalFetch = null;
+		this.fetch = this.fetch.bind(this);
+	}
+
+	/**
+	 * @returns {string} the issuer of the tokens.
+	 */
+	getIssuer() {
+		return `${this.endpoint.replace(/\/$/, '')}/${this.userPoolId}`;
+	}
+
+	/**
+	 * @returns {object} the JSON Web Key Set to verify the signature of the tokens with.
+	 */
+	getJwks() {
+		const { n, e } = readRsaPublicKey(this.publicKey);
+		return {
+			keys: [
+				{
+					kty: 'RSA',
+					n: base64Url(n),
+					e: base64Url(e),
+					kid: this.keyId,
+					alg: 'RS256',
+					use: 'sig',
+				},
+			],
+		};
+	}
+
+	/**
+	 * Creates a confirmed user, e.g. to set up a test
+	 * @param {string} username Name of the user.
+	 * @param {string} password Password of the user.
+	 * @param {object=} attributes Attributes of the user by name.
+	 * @returns {void}
+	 */
+	createUser(username, password, attributes = {}) {
+		this.addUser(username, password, attributes).confirmed = true;
+	}
+
+	/**
+	 * @param {string} username Name of the user.
+	 * @returns {string|undefined} the last code delivered to the user.
+	 */
+	getLastCode(username) {
+		const deliveries = this.codeDeliveries.filter(
+			delivery => delivery.username === username
+		);
+		return deliveries.length
+			? deliveries[deliveries.length - 1].code
+			: undefined;
+	}
+
+	/**
+	 * Replaces the global fetch such that the requests to the endpoint are answered by the local user pool
+	 * @returns {void}
+	 */
+	install() {
+		const root = typeof window !== 'undefined' ? window : global;
+		this.originalFetch = root.fetch;
+		root.fetch = this.fetch;
+	}
+
+	/**
+	 * Restores the global fetch replaced by install
+	 * @returns {void}
+	 */
+	uninstall() {
+		const root = typeof window !== 'undefined' ? window : global;
+		root.fetch = this.originalFetch;
+		this.originalFetch = null;
+	}
+
+	/**
+	 * Answers a request of the fetch API, the requests to other URLs are passed to the original fetch
+	 * @param {string} url URL of the request.
+	 * @param {object=} options Options of the request.
+	 * @returns {Promise<object>} the response.
+	 */
+	fetch(url, options = {}) {
+		if (url === this.endpoint && options.method === 'POST') {
+			const target = options.headers['X-Amz-Target'] || '';
+			return this.handleRequest(
+				target.replace(TARGET_PREFIX, ''),
+				JSON.parse(options.body || '{}')
+			).then(({ statusCode, body }) => jsonResponse(statusCode, body));
+		}
+		if (url === `${this.getIssuer()}/.well-known/jwks.json`) {
+			return Promise.resolve(jsonResponse(200, this.getJwks()));
+		}
+		if (this.originalFetch) {
+			return this.originalFetch(url, options);
+		}
+		return Promise.reject(new TypeError('Network request failed'));
+	}
+
+	/**
+	 * Answers a request of the Cognito Identity Provider API
+	 * @param {string} operation API operation, e.g. SignUp.
+	 * @param {object} params Input parameters.
+	 * @returns {Promise<{statusCode: number, body: object}>} the status code and the body of the response.
+	 */
+	handleRequest(operation, params) {
+		const handlers = {
+			SignUp: this.signUp,
+			ConfirmSignUp: this.confirmSignUp,
+			ResendConfirmationCode: this.resendConfirmationCode,
+			InitiateAuth: this.initiateAuth,
+			RespondToAuthChallenge: this.respondToAuthChallenge,
+			GetUser: this.getUser,
+			UpdateUserAttributes: this.updateUserAttributes,
+			VerifyUserAttribute: this.verifyUserAttribute,
+			SetUserMFAPreference: this.setUserMFAPreference,
+			ForgotPassword: this.forgotPassword,
+			ConfirmForgotPassword: this.confirmForgotPassword,
+			RevokeToken: this.revokeToken,
+		};
+		return Promise.resolve()
+			.then(() => {
+				if (!handlers[operation]) {
+					throw serviceError(
+						'UnknownOperationException',
+						`${operation} is not supported by the local user pool`
+					);
+				}
+				return handlers[operation].call(this, params);
+			})
+			.then(
+				body => ({ statusCode: 200, body }),
+				error => ({
+					statusCode: error.code ? 400 : 500,
+					body: {
+						__type: error.code || 'InternalErrorException',
+						message: error.message,
+					},
+				})
+			);
+	}
+
+	/**
+	 * @param {object} params SignUp input.
+	 * @returns {object} SignUp output.
+	 */
+	signUp({ ClientId, Username, Password, UserAttributes = [] }) {
+		this.checkClientId(ClientId);
+		if (this.users[Username]) {
+			throw serviceError('UsernameExistsException', 'User already exists');
+		}
+		const attributes = {};
+		UserAttributes.forEach(({ Name, Value }) => {
+			attributes[Name] = Value;
+		});
+		const user = this.addUser(Username, Password, attributes);
+		return {
+			UserConfirmed: false,
+			UserSub: user.attributes.sub,
+			CodeDeliveryDetails: this.deliverCode(user),
+		};
+	}
+
+	/**
+	 * @param {object} params ConfirmSignUp input.
+	 * @returns {object} ConfirmSignUp output.
+	 */
+	confirmSignUp({ ClientId, Username, ConfirmationCode }) {
+		this.checkClientId(ClientId);
+		const user = this.findUser(Username);
+		if (user.confirmed) {
+			throw serviceError(
+				'NotAuthorizedException',
+				'User cannot be confirmed. Current status is CONFIRMED'
+			);
+		}
+		const { attributeName } = this.checkCode(user, ConfirmationCode);
+		user.confirmed = true;
+		if (attributeName) {
+			user.attributes[`${attributeName}_verified`] = 'true';
+		}
+		return {};
+	}
+
+	/**
+	 * @param {object} params ResendConfirmationCode input.
+	 * @returns {object} ResendConfirmationCode output.
+	 */
+	resendConfirmationCode({ ClientId, Username }) {
+		this.checkClientId(ClientId);
+		return { CodeDeliveryDetails: this.deliverCode(this.findUser(Username)) };
+	}
+
+	/**
+	 * Starts the USER_SRP_AUTH, USER_PASSWORD_AUTH and REFRESH_TOKEN_AUTH flows
+	 * @param {object} params InitiateAuth input.
+	 * @returns {object} InitiateAuth output.
+	 */
+	initiateAuth({ ClientId, AuthFlow, AuthParameters = {} }) {
+		this.checkClientId(ClientId);
+		switch (AuthFlow) {
+			case 'USER_SRP_AUTH': {
+				const user = this.findUser(AuthParameters.USERNAME);
+				const { N, g, k } = this.authenticationHelper;
+				const A = new BigInteger(AuthParameters.SRP_A, 16);
+				if (A.mod(N).equals(BigInteger.ZERO)) {
+					throw serviceError('InvalidParameterException', 'Invalid SRP_A');
+				}
+				const b = new BigInteger(randomHex(128), 16);
+				const v = this.passwordVerifier(user);
+				const B = k
+					.multiply(v)
+					.add(g.modPow(b, N, () => {}))
+					.mod(N);
+				const secretBlock = randomBytes(64).toString('base64');
+				return {
+					ChallengeName: 'PASSWORD_VERIFIER',
+					ChallengeParameters: {
+						SALT: user.salt,
+						SRP_B: B.toString(16),
+						SECRET_BLOCK: secretBlock,
+						USERNAME: user.username,
+						USER_ID_FOR_SRP: user.username,
+					},
+					Session: this.addSession(user, 'PASSWORD_VERIFIER', {
+						A,
+						b,
+						B,
+						secretBlock,
+					}),
+				};
+			}
+			case 'USER_PASSWORD_AUTH': {
+				const user = this.findUser(AuthParameters.USERNAME);
+				if (user.password !== AuthParameters.PASSWORD) {
+					throw serviceError(
+						'NotAuthorizedException',
+						'Incorrect username or password.'
+					);
+				}
+				return this.authenticate(user);
+			}
+			case 'REFRESH_TOKEN_AUTH':
+			case 'REFRESH_TOKEN': {
+				const refreshToken = this.refreshTokens[AuthParameters.REFRESH_TOKEN];
+				if (!refreshToken || refreshToken.revoked) {
+					throw serviceError(
+						'NotAuthorizedException',
+						refreshToken
+							? 'Refresh Token has been revoked'
+							: 'Invalid Refresh Token'
+					);
+				}
+				const user = this.findUser(refreshToken.username);
+				return {
+					ChallengeParameters: {},
+					AuthenticationResult: this.issueTokens(user, refreshToken.originJti),
+				};
+			}
+			default:
+				throw serviceError(
+					'InvalidParameterException',
+					`${AuthFlow} is not supported by the local user pool`
+				);
+		}
+	}
+
+	/**
+	 * Answers the PASSWORD_VERIFIER and SMS_MFA challenges
+	 * @param {object} params RespondToAuthChallenge input.
+	 * @returns {object} RespondToAuthChallenge output.
+	 */
+	respondToAuthChallenge({
+		ClientId,
+		ChallengeName,
+		ChallengeResponses = {},
+		Session,
+	}) {
+		this.checkClientId(ClientId);
+		const session = this.sessions[Session];
+		if (!session || session.challengeName !== ChallengeName) {
+			throw serviceError(
+				'NotAuthorizedException',
+				'Invalid session for the user.'
+			);
+		}
+		delete this.sessions[Session];
+		const user = this.findUser(session.username);
+
+		if (ChallengeName === 'PASSWORD_VERIFIER') {
+			if (
+				ChallengeResponses.PASSWORD_CLAIM_SECRET_BLOCK !==
+					session.secretBlock ||
+				ChallengeResponses.PASSWORD_CLAIM_SIGNATURE !==
+					this.passwordClaimSignature(
+						user,
+						session,
+						ChallengeResponses.TIMESTAMP
+					)
+			) {
+				throw serviceError(
+					'NotAuthorizedException',
+					'Incorrect username or password.'
+				);
+			}
+			return this.authenticate(user);
+		}
+
+		if (ChallengeResponses.SMS_MFA_CODE !== session.code) {
+			throw serviceError(
+				'CodeMismatchException',
+				'Invalid code or auth state for the user.'
+			);
+		}
+		return {
+			ChallengeParameters: {},
+			AuthenticationResult: this.issueTokens(user),
+		};
+	}
+
+	/**
+	 * @param {object} params GetUser input.
+	 * @returns {object} GetUser output.
+	 */
+	getUser({ AccessToken }) {
+		const user = this.authorize(AccessToken);
+		return {
+			Username: user.username,
+			UserAttributes: Object.keys(user.attributes).map(Name => ({
+				Name,
+				Value: user.attributes[Name],
+			})),
+			PreferredMfaSetting: user.mfaEnabled ? 'SMS_MFA' : undefined,
+			UserMFASettingList: user.mfaEnabled ? ['SMS_MFA'] : [],
+		};
+	}
+
+	/**
+	 * Updates the attributes of a user, a changed email address or phone number has to be verified again
+	 * @param {object} params UpdateUserAttributes input.
+	 * @returns {object} UpdateUserAttributes output.
+	 */
+	updateUserAttributes({ AccessToken, UserAttributes = [] }) {
+		const user = this.authorize(AccessToken);
+		const codeDeliveryDetailsList = [];
+		UserAttributes.forEach(({ Name, Value }) => {
+			const changed = user.attributes[Name] !== Value;
+			user.attributes[Name] = Value;
+			if (changed && (Name === 'email' || Name === 'phone_number')) {
+				user.attributes[`${Name}_verified`] = 'false';
+				codeDeliveryDetailsList.push(this.deliverCode(user, Name));
+			}
+		});
+		return { CodeDeliveryDetailsList: codeDeliveryDetailsList };
+	}
+
+	/**
+	 * @param {object} params VerifyUserAttribute input.
+	 * @returns {object} VerifyUserAttribute output.
+	 */
+	verifyUserAttribute({ AccessToken, AttributeName, Code }) {
+		const user = this.authorize(AccessToken);
+		const { attributeName } = this.checkCode(user, Code);
+		if (attributeName !== AttributeName) {
+			throw serviceError(
+				'CodeMismatchException',
+				'Invalid verification code provided, please try again.'
+			);
+		}
+		user.attributes[`${AttributeName}_verified`] = 'true';
+		return {};
+	}
+
+	/**
+	 * Enables or disables SMS MFA, the local user pool does not support TOTP MFA
+	 * @param {object} params SetUserMFAPreference input.
+	 * @returns {object} SetUserMFAPreference output.
+	 */
+	setUserMFAPreference({
+		AccessToken,
+		SMSMfaSettings,
+		SoftwareTokenMfaSettings,
+	}) {
+		const user = this.authorize(AccessToken);
+		if (SoftwareTokenMfaSettings && SoftwareTokenMfaSettings.Enabled) {
+			throw serviceError(
+				'InvalidParameterException',
+				'TOTP MFA is not supported by the local user pool'
+			);
+		}
+		if (SMSMfaSettings) {
+			if (SMSMfaSettings.Enabled && !user.attributes.phone_number) {
+				throw serviceError(
+					'InvalidParameterException',
+					'User does not have delivery config set to turn on SMS_MFA'
+				);
+			}
+			user.mfaEnabled = !!SMSMfaSettings.Enabled;
+		}
+		return {};
+	}
+
+	/**
+	 * @param {object} params ForgotPassword input.
+	 * @returns {object} ForgotPassword output.
+	 */
+	forgotPassword({ ClientId, Username }) {
+		this.checkClientId(ClientId);
+		return { CodeDeliveryDetails: this.deliverCode(this.findUser(Username)) };
+	}
+
+	/**
+	 * @param {object} params ConfirmForgotPassword input.
+	 * @returns {object} ConfirmForgotPassword output.
+	 */
+	confirmForgotPassword({ ClientId, Username, ConfirmationCode, Password }) {
+		this.checkClientId(ClientId);
+		const user = this.findUser(Username);
+		this.checkPassword(Password);
+		this.checkCode(user, ConfirmationCode);
+		user.password = Password;
+		return {};
+	}
+
+	/**
+	 * Revokes a refresh token and the access tokens issued with it
+	 * @param {object} params RevokeToken input.
+	 * @returns {object} RevokeToken output.
+	 */
+	revokeToken({ ClientId, Token }) {
+		this.checkClientId(ClientId);
+		const refreshToken = this.refreshTokens[Token];
+		if (refreshToken) {
+			refreshToken.revoked = true;
+			this.revokedTokenOrigins[refreshToken.originJti] = true;
+		}
+		return {};
+	}
+
+	/**
+	 * @param {string} username Name of the user.
+	 * @param {string} password Password of the user.
+	 * @param {object} attributes Attributes of the user by name.
+	 * @returns {object} the new user.
+	 */
+	addUser(username, password, attributes) {
+		if (!username) {
+			throw serviceError(
+				'InvalidParameterException',
+				'Username cannot be empty'
+			);
+		}
+		this.checkPassword(password);
+		const user = {
+			username,
+			password,
+			// the salt of the password verifier, as an unambiguous hex string
+			salt: this.authenticationHelper.padHex(new BigInteger(randomHex(16), 16)),
+			attributes: Object.assign({ sub: randomUuid() }, attributes),
+			confirmed: false,
+			mfaEnabled: false,
+			code: null,
+		};
+		this.users[username] = user;
+		return user;
+	}
+
+	/**
+	 * @param {string} username Name of the user.
+	 * @returns {object} the user.
+	 */
+	findUser(username) {
+		const user = this.users[username];
+		if (!user) {
+			throw serviceError('UserNotFoundException', 'User does not exist.');
+		}
+		return user;
+	}
+
+	/**
+	 * @param {string} clientId Id of the app client of the request.
+	 * @returns {void}
+	 */
+	checkClientId(clientId) {
+		if (clientId !== this.clientId) {
+			throw serviceError(
+				'ResourceNotFoundException',
+				`User pool client ${clientId} does not exist.`
+			);
+		}
+	}
+
+	/**
+	 * @param {string} password Password to check against the password policy.
+	 * @returns {void}
+	 */
+	checkPassword(password) {
+		if (!password || password.length < MINIMUM_PASSWORD_LENGTH) {
+			throw serviceError(
+				'InvalidPasswordException',
+				'Password did not conform with policy: Password not long enough'
+			);
+		}
+	}
+
+	/**
+	 * Checks the code last delivered to a user, a code can be used once
+	 * @param {object} user The user.
+	 * @param {string} code Code sent by the user.
+	 * @returns {object} the code delivery.
+	 */
+	checkCode(user, code) {
+		const delivery = user.code;
+		if (!delivery || delivery.code !== code) {
+			throw serviceError(
+				'CodeMismatchException',
+				'Invalid verification code provided, please try again.'
+			);
+		}
+		user.code = null;
+		return delivery;
+	}
+
+	/**
+	 * Records a code as if it were sent to the email address or the phone number of a user
+	 * @param {object} user The user.
+	 * @param {string=} attributeName Attribute to send the code to, email or phone_number.
+	 * @returns {object|undefined} the code delivery details, undefined if the user has no email or phone number.
+	 */
+	deliverCode(user, attributeName) {
+		const name =
+			attributeName ||
+			['email', 'phone_number'].filter(n => user.attributes[n])[0];
+		if (!name) {
+			return undefined;
+		}
+		const delivery = {
+			username: user.username,
+			code: randomCode(),
+			attributeName: name,
+			deliveryMedium: name === 'email' ? 'EMAIL' : 'SMS',
+			destination: user.attributes[name],
+		};
+		user.code = delivery;
+		this.codeDeliveries.push(delivery);
+		return {
+			AttributeName: name,
+			DeliveryMedium: delivery.deliveryMedium,
+			Destination: maskDestination(delivery.destination),
+		};
+	}
+
+	/**
+	 * @param {object} user The user.
+	 * @param {string} challengeName Name of the challenge the session waits for.
+	 * @param {object} state State of the challenge.
+	 * @returns {string} the session.
+	 */
+	addSession(user, challengeName, state) {
+		const session = randomHex(32);
+		this.sessions[session] = Object.assign(
+			{ username: user.username, challengeName },
+			state
+		);
+		return session;
+	}
+
+	/**
+	 * Finishes an authentication once the password has been verified, with the SMS_MFA challenge if MFA is enabled
+	 * @param {object} user The user.
+	 * @returns {object} InitiateAuth or RespondToAuthChallenge output.
+	 */
+	authenticate(user) {
+		if (!user.confirmed) {
+			throw serviceError('UserNotConfirmedException', 'User is not confirmed.');
+		}
+		if (user.mfaEnabled) {
+			const delivery = this.deliverCode(user, 'phone_number');
+			return {
+				ChallengeName: 'SMS_MFA',
+				ChallengeParameters: {
+					CODE_DELIVERY_DELIVERY_MEDIUM: delivery.DeliveryMedium,
+					CODE_DELIVERY_DESTINATION: delivery.Destination,
+				},
+				Session: this.addSession(user, 'SMS_MFA', {
+					code: user.code.code,
+				}),
+			};
+		}
+		return {
+			ChallengeParameters: {},
+			AuthenticationResult: this.issueTokens(user),
+		};
+	}
+
+	/**
+	 * Computes the SRP verifier v = g^x of the password of a user
+	 * @param {object} user The user.
+	 * @returns {BigInteger} the verifier.
+	 */
+	passwordVerifier(user) {
+		const helper = this.authenticationHelper;
+		const usernamePasswordHash = helper.hash(
+			`${this.poolName}${user.username}:${user.password}`
+		);
+		const x = new BigInteger(
+			helper.hexHash(user.salt + usernamePasswordHash),
+			16
+		);
+		return helper.g.modPow(x, helper.N, () => {});
+	}
+
+	/**
+	 * Computes the signature the client sends with the PASSWORD_VERIFIER challenge from the server side
+	 * S = (A * v^u)^b of the SRP protocol
+	 * @param {object} user The user.
+	 * @param {object} session The PASSWORD_VERIFIER session.
+	 * @param {string} timestamp Timestamp sent by the client.
+	 * @returns {string} the base64 encoded signature.
+	 */
+	passwordClaimSignature(user, session, timestamp) {
+		const helper = this.authenticationHelper;
+		const { A, b, B, secretBlock } = session;
+		const u = helper.calculateU(A, B);
+		const v = this.passwordVerifier(user);
+		const S = A.multiply(v.modPow(u, helper.N, () => {}))
+			.mod(helper.N)
+			.modPow(b, helper.N, () => {});
+		const hkdf = helper.computehkdf(
+			Buffer.from(helper.padHex(S), 'hex'),
+			Buffer.from(helper.padHex(u), 'hex')
+		);
+		const message = CryptoJS.lib.WordArray.create(
+			Buffer.concat([
+				Buffer.from(this.poolName, 'utf8'),
+				Buffer.from(user.username, 'utf8'),
+				Buffer.from(secretBlock, 'base64'),
+				Buffer.from(timestamp || '', 'utf8'),
+			])
+		);
+		return Base64.stringify(
+			HmacSHA256(message, CryptoJS.lib.WordArray.create(hkdf))
+		);
+	}
+
+	/**
+	 * Issues the ID and access tokens of a user, and a refresh token unless they are issued with one
+	 * @param {object} user The user.
+	 * @param {string=} originJti Id of the authentication the refresh token has been issued by.
+	 * @returns {object} the AuthenticationResult.
+	 */
+	issueTokens(user, originJti) {
+		const now = Math.floor(Date.now() / 1000);
+		const claims = {
+			sub: user.attributes.sub,
+			iss: this.getIssuer(),
+			origin_jti: originJti || randomUuid(),
+			event_id: randomUuid(),
+			auth_time: now,
+			iat: now,
+			exp: now + this.tokenValidity,
+		};
+		const idTokenClaims = {
+			aud: this.clientId,
+			token_use: 'id',
+			'cognito:username': user.username,
+			jti: randomUuid(),
+		};
+		Object.keys(user.attributes).forEach(name => {
+			const value = user.attributes[name];
+			// Cognito puts the verified flags into the ID token as booleans
+			idTokenClaims[name] = /_verified$/.test(name) ? value === 'true' : value;
+		});
+		const result = {
+			AccessToken: this.signToken(
+				Object.assign({}, claims, {
+					client_id: this.clientId,
+					token_use: 'access',
+					scope: USER_ADMIN_SCOPE,
+					jti: randomUuid(),
+					username: user.username,
+				})
+			),
+			IdToken: this.signToken(Object.assign({}, claims, idTokenClaims)),
+			ExpiresIn: this.tokenValidity,
+			TokenType: 'Bearer',
+		};
+		if (!originJti) {
+			result.RefreshToken = randomHex(64);
+			this.refreshTokens[result.RefreshToken] = {
+				username: user.username,
+				originJti: claims.origin_jti,
+				revoked: false,
+			};
+		}
+		return result;
+	}
+
+	/**
+	 * @param {object} payload Claims of the token.
+	 * @returns {string} the JWT signed with RS256.
+	 */
+	signToken(payload) {
+		const content = `${base64Url({
+			kid: this.keyId,
+			alg: 'RS256',
+		})}.${base64Url(payload)}`;
+		const signature = sign('sha256', Buffer.from(content), this.privateKey);
+		return `${content}.${base64Url(signature)}`;
+	}
+
+	/**
+	 * Verifies the access token of a request
+	 * @param {string} accessToken The access token.
+	 * @returns {object} the user of the access token.
+	 */
+	authorize(accessToken) {
+		const [header, payload, signature] = (accessToken || '').split('.');
+		const claims =
+			signature &&
+			verify(
+				'sha256',
+				Buffer.from(`${header}.${payload}`),
+				this.publicKey,
+				Buffer.from(signature, 'base64')
+			)
+				? JSON.parse(Buffer.from(payload, 'base64').toString('utf8'))
+				: {};
+		if (claims.token_use !== 'access' || !this.users[claims.username]) {
+			throw serviceError('NotAuthorizedException', 'Invalid Access Token');
+		}
+		if (this.revokedTokenOrigins[claims.origin_jti]) {
+			throw serviceError(
+				'NotAuthorizedException',
+				'Access Token has been revoked'
+			);
+		}
+		if (claims.exp <= Math.floor(Date.now() / 1000)) {
+			throw serviceError('NotAuthorizedException', 'Access Token has expired');
+		}
+		return this.users[claims.username];
+	}
+}
@@ -256,6 +256,19 @@ jest.mock('amazon-cognito-identity-js/lib/CognitoUser', () => {
 	CognitoUser.prototype.listDevices = (limit, paginationToken, callback) => {
 		callback.onSuccess('success');
 	};
+	CognitoUser.prototype.associateSoftwareToken = callback => {
+		callback.associateSecretCode('secretCode');
+	};
+	CognitoUser.prototype.verifySoftwareToken = (
+		challengeAnswer,
+		device,
+		callback
+	) => {
+		callback.onSuccess('session');
+	};
+	CognitoUser.prototype.sendMFASelectionAnswer = (mfaType, callback) => {
+		callback.totpRequired('SOFTWARE_TOKEN_MFA', {});
+	};
 
 	return CognitoUser;
 });
@@ -1294,6 +1307,222 @@ describe('auth unit test', () => {
 		});
 	});
 
+	describe('startSignIn', () => {
+		const signInWithChallenge = async (
+			auth: Auth,
+			challenge: string,
+			...args
+		) => {
+			jest
+				.spyOn(CognitoUser.prototype, 'authenticateUser')
+				.mockImplementationOnce((authenticationDetails, callback) => {
+					callback[challenge](...args);
+				});
+			return auth.startSignIn('username', 'password');
+		};
+
+		const mockCurrentUser = (auth: Auth) =>
+			jest
+				.spyOn(auth, 'currentUserPoolUser')
+				.mockImplementation(() =>
+					Promise.resolve(
+						new CognitoUser({ Username: 'username', Pool: userPool })
+					)
+				);
+
+		beforeEach(() => {
+			// drop the implementations left over by the signIn tests
+			jest.restoreAllMocks();
+		});
+
+		afterEach(() => {
+			jest.restoreAllMocks();
+		});
+
+		test('sign in without a challenge', async () => {
+			const auth = new Auth(authOptions);
+			mockCurrentUser(auth);
+
+			expect(await signInWithChallenge(auth, 'onSuccess', session)).toEqual({
+				isSignedIn: true,
+				nextStep: { signInStep: 'DONE' },
+			});
+		});
+
+		test('confirm the sign in with an SMS code', async () => {
+			const auth = new Auth(authOptions);
+			mockCurrentUser(auth);
+			const spyon = jest.spyOn(CognitoUser.prototype, 'sendMFACode');
+
+			expect(
+				await signInWithChallenge(auth, 'mfaRequired', 'SMS_MFA', {
+					CODE_DELIVERY_DELIVERY_MEDIUM: 'SMS',
+					CODE_DELIVERY_DESTINATION: '+*******1234',
+				})
+			).toEqual({
+				isSignedIn: false,
+				nextStep: {
+					signInStep: 'CONFIRM_SIGN_IN_WITH_SMS_CODE',
+					codeDeliveryDetails: {
+						deliveryMedium: 'SMS',
+						destination: '+*******1234',
+					},
+				},
+			});
+			expect(await auth.confirmSignIn({ challengeResponse: '123456' })).toEqual(
+				{ isSignedIn: true, nextStep: { signInStep: 'DONE' } }
+			);
+			expect(spyon).toBeCalledWith(
+				'123456',
+				authCallbacks,
+				'SMS_MFA',
+				undefined
+			);
+		});
+
+		test('select the MFA type of the sign in', async () => {
+			const auth = new Auth(authOptions);
+			const spyon = jest.spyOn(CognitoUser.prototype, 'sendMFASelectionAnswer');
+
+			expect(
+				await signInWithChallenge(auth, 'selectMFAType', 'SELECT_MFA_TYPE', {
+					MFAS_CAN_CHOOSE: '["SMS_MFA","SOFTWARE_TOKEN_MFA"]',
+				})
+			).toEqual({
+				isSignedIn: false,
+				nextStep: {
+					signInStep: 'CONTINUE_SIGN_IN_WITH_MFA_SELECTION',
+					allowedMFATypes: ['SMS', 'TOTP'],
+				},
+			});
+			expect(await auth.confirmSignIn({ challengeResponse: 'TOTP' })).toEqual({
+				isSignedIn: false,
+				nextStep: { signInStep: 'CONFIRM_SIGN_IN_WITH_TOTP_CODE' },
+			});
+			expect(spyon).toBeCalledWith('SOFTWARE_TOKEN_MFA', authCallbacks);
+		});
+
+		test('reject an MFA type which cannot be selected', async () => {
+			const auth = new Auth(authOptions);
+			await signInWithChallenge(auth, 'selectMFAType', 'SELECT_MFA_TYPE', {
+				MFAS_CAN_CHOOSE: '["SMS_MFA"]',
+			});
+
+			await expect(
+				auth.confirmSignIn({ challengeResponse: 'EMAIL' })
+			).rejects.toThrow(new AuthError(AuthErrorTypes.InvalidMFA));
+		});
+
+		test('set a new password with the missing attributes', async () => {
+			const auth = new Auth(authOptions);
+			mockCurrentUser(auth);
+			const spyon = jest.spyOn(
+				CognitoUser.prototype,
+				'completeNewPasswordChallenge'
+			);
+
+			expect(
+				await signInWithChallenge(auth, 'newPasswordRequired', {}, ['email'])
+			).toEqual({
+				isSignedIn: false,
+				nextStep: {
+					signInStep: 'CONFIRM_SIGN_IN_WITH_NEW_PASSWORD_REQUIRED',
+					missingAttributes: ['email'],
+				},
+			});
+			expect(
+				await auth.confirmSignIn({
+					challengeResponse: 'newPassword',
+					options: { userAttributes: { email: 'email' } },
+				})
+			).toEqual({ isSignedIn: true, nextStep: { signInStep: 'DONE' } });
+			expect(spyon).toBeCalledWith(
+				'newPassword',
+				{ email: 'email' },
+				authCallbacks,
+				undefined
+			);
+		});
+
+		test('answer a custom challenge', async () => {
+			const auth = new Auth(authOptions);
+
+			expect(
+				await signInWithChallenge(auth, 'customChallenge', { hint: 'hint' })
+			).toEqual({
+				isSignedIn: false,
+				nextStep: {
+					signInStep: 'CONFIRM_SIGN_IN_WITH_CUSTOM_CHALLENGE',
+					additionalInfo: { hint: 'hint' },
+				},
+			});
+		});
+
+		test('set up TOTP during the sign in', async () => {
+			const auth = new Auth({ ...authOptions, totpIssuer: 'My App' });
+			mockCurrentUser(auth);
+			const spyon = jest.spyOn(CognitoUser.prototype, 'verifySoftwareToken');
+
+			expect(
+				await signInWithChallenge(auth, 'mfaSetup', 'MFA_SETUP', {
+					MFAS_CAN_SETUP: '["SOFTWARE_TOKEN_MFA"]',
+				})
+			).toEqual({
+				isSignedIn: false,
+				nextStep: {
+					signInStep: 'CONTINUE_SIGN_IN_WITH_TOTP_SETUP',
+					totpSetupUri:
+						'otpauth://totp/My%20App:username?secret=secretCode&issuer=My%20App',
+				},
+			});
+			expect(
+				await auth.confirmSignIn({
+					challengeResponse: '123456',
+					options: { friendlyDeviceName: 'phone' },
+				})
+			).toEqual({ isSignedIn: true, nextStep: { signInStep: 'DONE' } });
+			expect(spyon).toBeCalledWith('123456', 'phone', authCallbacks);
+		});
+
+		test('reject an MFA setup which cannot set up TOTP', async () => {
+			const auth = new Auth(authOptions);
+			const spyon = jest.spyOn(auth, 'setupTOTP');
+
+			await expect(
+				signInWithChallenge(auth, 'mfaSetup', 'MFA_SETUP', {
+					MFAS_CAN_SETUP: '["SMS_MFA"]',
+				})
+			).rejects.toThrow(new AuthError(AuthErrorTypes.NoTOTPSetup));
+			expect(spyon).not.toBeCalled();
+			await expect(
+				auth.confirmSignIn({ challengeResponse: '123456' })
+			).rejects.toThrow(new AuthError(AuthErrorTypes.NoSignInInProgress));
+		});
+
+		test('reject a challenge which is not supported', async () => {
+			const auth = new Auth(authOptions);
+
+			const error = await signInWithChallenge(
+				auth,
+				'mfaRequired',
+				'EMAIL_OTP',
+				{}
+			).catch(e => e);
+			expect(error).toBeInstanceOf(AuthError);
+			expect(error.message).toEqual(
+				new AuthError(AuthErrorTypes.UnsupportedChallenge).message
+			);
+		});
+
+		test('confirm a sign in which has not been started', async () => {
+			const auth = new Auth(authOptions);
+
+			await expect(
+				auth.confirmSignIn({ challengeResponse: '123456' })
+			).rejects.toThrow(new AuthError(AuthErrorTypes.NoSignInInProgress));
+		});
+	});
+
 	describe('completeNewPassword', () => {
 		test('happy case', async () => {
 			const spyon = jest
@@ -0,0 +1,286 @@
+import { Credentials, Hub } from '@aws-amplify/core';
+import OAuth from '../src/OAuth/OAuth';
+import { AuthClass as Auth } from '../src/Auth';
+
+const issuer = 'https://idp.example.com/realms/amplify';
+const clientId = 'clientId';
+const redirectSignIn = 'http://localhost/';
+const redirectSignOut = 'http://localhost/signout/';
+
+const oidcConfiguration = {
+	issuer,
+	authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+	token_endpoint: `${issuer}/protocol/openid-connect/token`,
+	end_session_endpoint: `${issuer}/protocol/openid-connect/logout`,
+};
+
+const base64Url = (value: object) =>
+	Buffer.from(JSON.stringify(value))
+		.toString('base64')
+		.replace(/=/g, '')
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_');
+
+// the ID tokens of the token endpoint are not verified, their signature does not matter
+const createIdToken = (claims: object) =>
+	`${base64Url({ alg: 'RS256' })}.${base64Url({
+		iss: issuer,
+		aud: clientId,
+		sub: 'sub',
+		email: 'alice@example.com',
+		exp: Math.floor(Date.now() / 1000) + 3600,
+		...claims,
+	})}.signature`;
+
+const mockFetch = (tokenResponse: object, configuration: object = {}) => {
+	const fetch = jest.fn(async (url: string, init?: any) => ({
+		ok: true,
+		json: async () =>
+			url === oidcConfiguration.token_endpoint
+				? tokenResponse
+				: { ...oidcConfiguration, ...configuration },
+	}));
+	(global as any).fetch = fetch;
+	return fetch;
+};
+
+const parseQuery = (url: string) =>
+	url
+		.split('?')[1]
+		.split('&')
+		.map(entry => entry.split('='))
+		.reduce(
+			(params, [k, v]) => ({ ...params, [k]: decodeURIComponent(v) }),
+			{} as { [key: string]: string }
+		);
+
+describe('OpenID Connect', () => {
+	let urlOpener: jest.Mock;
+	const oauthOpts = () => ({
+		issuer,
+		clientId,
+		scope: ['openid', 'email'],
+		redirectSignIn,
+		redirectSignOut,
+		urlOpener,
+	});
+
+	beforeEach(() => {
+		window.sessionStorage.clear();
+		urlOpener = jest.fn();
+		// crypto-js is not available to the tests
+		jest
+			.spyOn(OAuth.prototype as any, '_generateChallenge')
+			.mockImplementation(code => `challenge of ${code}`);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+		delete (global as any).fetch;
+	});
+
+	describe('OAuth', () => {
+		let oauth: OAuth;
+
+		beforeEach(() => {
+			oauth = new OAuth({
+				config: oauthOpts(),
+				cognitoClientId: clientId,
+				scopes: ['openid', 'email'],
+			});
+		});
+
+		const signIn = async (customState?: string) => {
+			await oauth.oidcSignIn(customState);
+			return parseQuery(urlOpener.mock.calls[0][0]);
+		};
+
+		test('redirect to the discovered authorization endpoint with PKCE and a nonce', async () => {
+			const fetch = mockFetch({});
+
+			const params = await signIn('custom state');
+			expect(urlOpener.mock.calls[0][0]).toMatch(
+				new RegExp(`^${oidcConfiguration.authorization_endpoint}\\?`)
+			);
+			expect(params).toMatchObject({
+				redirect_uri: redirectSignIn,
+				response_type: 'code',
+				client_id: clientId,
+				scope: 'openid email',
+				code_challenge: `challenge of ${window.sessionStorage.getItem(
+					'ouath_pkce_key'
+				)}`,
+				code_challenge_method: 'S256',
+				nonce: window.sessionStorage.getItem('oauth_nonce'),
+				state: window.sessionStorage.getItem('oauth_state'),
+			});
+			expect(params.state).toMatch(/-/);
+
+			await oauth.getOidcConfiguration();
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(fetch).toHaveBeenCalledWith(
+				`${issuer}/.well-known/openid-configuration`
+			);
+		});
+
+		test('reject a discovery document of another issuer', async () => {
+			mockFetch({}, { issuer: 'https://attacker.example.com' });
+
+			await expect(oauth.oidcSignIn()).rejects.toThrow(
+				'Invalid issuer in the OpenID configuration'
+			);
+			expect(urlOpener).not.toHaveBeenCalled();
+		});
+
+		test('exchange the code for tokens and validate the ID token', async () => {
+			const fetch = mockFetch({});
+			const { state, nonce } = await signIn();
+			const idToken = createIdToken({ nonce });
+			mockFetch({
+				access_token: 'accessToken',
+				refresh_token: 'refreshToken',
+				id_token: idToken,
+			});
+
+			expect(
+				await oauth.handleAuthResponse(
+					`${redirectSignIn}?code=code&state=${state}`
+				)
+			).toEqual({
+				accessToken: 'accessToken',
+				refreshToken: 'refreshToken',
+				idToken,
+				state,
+			});
+			const [url, { body }] = (global as any).fetch.mock.calls[0];
+			expect(url).toEqual(oidcConfiguration.token_endpoint);
+			expect(parseQuery(`?${body}`)).toMatchObject({
+				grant_type: 'authorization_code',
+				code: 'code',
+				client_id: clientId,
+				redirect_uri: redirectSignIn,
+			});
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+
+		test('reject an ID token with another nonce, audience or issuer', async () => {
+			const handleResponse = async (claims: object) => {
+				mockFetch({});
+				const { state } = await signIn();
+				urlOpener.mockClear();
+				mockFetch({
+					access_token: 'accessToken',
+					id_token: createIdToken(claims),
+				});
+				return oauth.handleAuthResponse(
+					`${redirectSignIn}?code=code&state=${state}`
+				);
+			};
+
+			await expect(handleResponse({ nonce: 'other' })).rejects.toThrow(
+				'Invalid ID token in OpenID Connect flow'
+			);
+			await expect(handleResponse({ aud: 'other' })).rejects.toThrow(
+				'Invalid ID token in OpenID Connect flow'
+			);
+			await expect(
+				handleResponse({ iss: 'https://attacker.example.com' })
+			).rejects.toThrow('Invalid ID token in OpenID Connect flow');
+		});
+
+		test('reject a response to a sign in which has not been started', async () => {
+			const fetch = mockFetch({});
+
+			await expect(
+				oauth.handleAuthResponse(`${redirectSignIn}?code=code&state=state`)
+			).rejects.toThrow('Invalid state in OAuth flow');
+			expect(fetch).not.toHaveBeenCalled();
+		});
+
+		test('refresh the tokens', async () => {
+			const idToken = createIdToken({});
+			mockFetch({ access_token: 'newAccessToken', id_token: idToken });
+
+			expect(await oauth.refreshOidcTokens('refreshToken')).toEqual({
+				accessToken: 'newAccessToken',
+				refreshToken: 'refreshToken',
+				idToken,
+			});
+			const [, { body }] = (global as any).fetch.mock.calls[1];
+			expect(parseQuery(`?${body}`)).toEqual({
+				grant_type: 'refresh_token',
+				refresh_token: 'refreshToken',
+				client_id: clientId,
+			});
+
+			mockFetch({ error: 'invalid_grant' });
+			await expect(
+				oauth.refreshOidcTokens('refreshToken')
+			).rejects.toMatchObject({ nonRetryable: true });
+		});
+
+		test('redirect to the end session endpoint on sign out', async () => {
+			mockFetch({});
+
+			await oauth.signOut('idToken');
+			const [url, redirectUrl] = urlOpener.mock.calls[0];
+			expect(url.split('?')[0]).toEqual(oidcConfiguration.end_session_endpoint);
+			expect(parseQuery(url)).toEqual({
+				client_id: clientId,
+				post_logout_redirect_uri: redirectSignOut,
+				id_token_hint: 'idToken',
+			});
+			expect(redirectUrl).toEqual(redirectSignOut);
+		});
+	});
+
+	describe('Auth', () => {
+		test('exchange the ID token for AWS credentials and refresh it', async () => {
+			const configure = jest.spyOn(Credentials, 'configure');
+			const set = jest
+				.spyOn(Credentials, 'set')
+				.mockResolvedValue('credentials' as any);
+			const listener = jest.fn();
+			Hub.listen('auth', listener);
+			const auth = new Auth({
+				region: 'us-east-1',
+				identityPoolId: 'us-east-1:identityPoolId',
+				oauth: oauthOpts(),
+			});
+
+			mockFetch({});
+			await auth.federatedSignIn();
+			const { state, nonce } = parseQuery(urlOpener.mock.calls[0][0]);
+			const idToken = createIdToken({ nonce });
+			mockFetch({
+				access_token: 'accessToken',
+				refresh_token: 'refreshToken',
+				id_token: idToken,
+			});
+
+			await (auth as any)._handleAuthResponse(
+				`${redirectSignIn}?code=code&state=${state}`
+			);
+			expect(set).toHaveBeenCalledWith(
+				{
+					provider: 'idp.example.com/realms/amplify',
+					token: idToken,
+					user: { name: 'alice@example.com', email: 'alice@example.com' },
+					expires_at: expect.any(Number),
+				},
+				'federation'
+			);
+			expect(listener.mock.calls.map(([{ payload }]) => payload.event)).toEqual(
+				expect.arrayContaining(['signIn'])
+			);
+
+			const refreshedIdToken = createIdToken({});
+			mockFetch({ access_token: 'newAccessToken', id_token: refreshedIdToken });
+			const { refreshHandlers } = configure.mock.calls[0][0];
+			expect(await refreshHandlers['idp.example.com/realms/amplify']()).toEqual(
+				{ token: refreshedIdToken, expires_at: expect.any(Number) }
+			);
+			Hub.remove('auth', listener);
+		});
+	});
+});
@@ -0,0 +1,273 @@
+import { Hub } from '@aws-amplify/core';
+import { SessionSync } from '../src/SessionSync';
+import { AuthClass as Auth } from '../src/Auth';
+
+class MockBroadcastChannel {
+	static channels: MockBroadcastChannel[] = [];
+	name: string;
+	onmessage: (event: { data: any }) => void;
+
+	constructor(name: string) {
+		this.name = name;
+		MockBroadcastChannel.channels.push(this);
+	}
+
+	postMessage(data) {
+		MockBroadcastChannel.channels
+			.filter(channel => channel !== this && channel.name === this.name)
+			.forEach(channel => channel.onmessage({ data }));
+	}
+
+	close() {
+		MockBroadcastChannel.channels = MockBroadcastChannel.channels.filter(
+			channel => channel !== this
+		);
+	}
+}
+
+// grants a lock to one request at a time, like the Web Locks of a browser
+class MockLockManager {
+	private held: { [name: string]: Promise<void> } = {};
+
+	async request(name: string, options, callback) {
+		while (this.held[name]) {
+			if (options.ifAvailable) {
+				return callback(null);
+			}
+			await this.held[name];
+		}
+		const result = Promise.resolve(callback({ name }));
+		this.held[name] = result.then(() => {
+			delete this.held[name];
+		});
+		return result;
+	}
+}
+
+// a user which refreshes its session once it is no longer in the storage
+class MockUser {
+	getSession(callback) {
+		const session = localStorage.getItem('session');
+		if (session) {
+			callback(null, session);
+		} else {
+			this.refreshSession('refreshToken', callback);
+		}
+	}
+
+	refreshSession(refreshToken, callback, clientMetadata?) {
+		localStorage.setItem('session', 'refreshed session');
+		callback(null, 'refreshed session');
+	}
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('SessionSync', () => {
+	let tabs: SessionSync[];
+	const openTab = (onEvent = jest.fn()) => {
+		const tab = new SessionSync(onEvent);
+		tabs.push(tab);
+		return tab;
+	};
+
+	beforeEach(() => {
+		localStorage.clear();
+		tabs = [];
+		(global as any).BroadcastChannel = MockBroadcastChannel;
+	});
+
+	afterEach(() => {
+		tabs.forEach(tab => tab.close());
+		delete (global as any).BroadcastChannel;
+		jest.restoreAllMocks();
+	});
+
+	test('broadcast the auth events to the other tabs', () => {
+		const onEvent = jest.fn();
+		const otherOnEvent = jest.fn();
+		const tab = openTab(onEvent);
+		openTab(otherOnEvent);
+
+		tab.broadcast('signIn');
+		tab.broadcast('configured');
+		tab.broadcast('tokenRefresh');
+
+		expect(otherOnEvent.mock.calls).toEqual([['signIn'], ['tokenRefresh']]);
+		expect(onEvent).not.toHaveBeenCalled();
+	});
+
+	test('broadcast with storage events without BroadcastChannel', () => {
+		delete (global as any).BroadcastChannel;
+		const setItem = jest.spyOn(Storage.prototype, 'setItem');
+		const onEvent = jest.fn();
+		const otherOnEvent = jest.fn();
+		const tab = openTab(onEvent);
+		openTab(otherOnEvent);
+
+		tab.broadcast('signOut');
+		const [key, newValue] = setItem.mock.calls[0];
+		expect(key).toEqual('amplify-auth-message');
+		expect(localStorage.getItem(key)).toBeNull();
+
+		// the browser only fires the storage event in the other tabs
+		window.dispatchEvent(new StorageEvent('storage', { key, newValue }));
+		window.dispatchEvent(
+			new StorageEvent('storage', { key, newValue: 'not a message' })
+		);
+		expect(otherOnEvent.mock.calls).toEqual([['signOut']]);
+		expect(onEvent).not.toHaveBeenCalled();
+	});
+
+	test('elect one tab to refresh the tokens', async () => {
+		const tab = openTab();
+		const otherTab = openTab();
+
+		expect(await tab.electRefresher()).toBe(true);
+		const elected = otherTab.electRefresher();
+		tab.broadcast('tokenRefresh');
+		expect(await elected).toBe(false);
+
+		tab.releaseRefresher();
+		expect(localStorage.getItem('amplify-auth-refresh-lock')).toBeNull();
+		expect(await otherTab.electRefresher()).toBe(true);
+	});
+
+	test('stop waiting for a tab which does not release the lock', async () => {
+		const tab = openTab();
+		const otherTab = openTab();
+
+		await tab.electRefresher();
+		jest.useFakeTimers();
+		const elected = otherTab.electRefresher();
+		jest.advanceTimersByTime(10 * 1000);
+		expect(await elected).toBe(false);
+		jest.useRealTimers();
+	});
+
+	test('elect one of two tabs electing at the same time', async () => {
+		// both tabs read the lock before either of them has written its own
+		jest
+			.spyOn(Storage.prototype, 'getItem')
+			.mockReturnValueOnce(null)
+			.mockReturnValueOnce(null);
+		const electors = [openTab(), openTab()];
+		const results: boolean[] = [];
+		const elections = electors.map((tab, i) =>
+			tab.electRefresher().then(elected => (results[i] = elected))
+		);
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		// the lock of the last tab has overwritten the lock of the first one
+		expect(results).toEqual([undefined, true]);
+		electors[1].broadcast('tokenRefresh');
+		expect(await Promise.all(elections)).toEqual([false, true]);
+	});
+
+	describe('Web Locks', () => {
+		beforeEach(() => {
+			Object.defineProperty(navigator, 'locks', {
+				value: new MockLockManager(),
+				configurable: true,
+			});
+		});
+
+		afterEach(() => {
+			delete (navigator as any).locks;
+		});
+
+		test('elect one of two tabs electing at the same time', async () => {
+			const electors = [openTab(), openTab()];
+			const results: boolean[] = [];
+			const elections = electors.map((tab, i) =>
+				tab.electRefresher().then(elected => (results[i] = elected))
+			);
+
+			await flushPromises();
+			expect(results).toEqual([true]);
+			electors[0].broadcast('tokenRefresh');
+			expect(await Promise.all(elections)).toEqual([true, false]);
+			expect(localStorage.getItem('amplify-auth-refresh-lock')).toBeNull();
+		});
+
+		test('elect another tab once the lock is released', async () => {
+			const tab = openTab();
+			const otherTab = openTab();
+
+			expect(await tab.electRefresher()).toBe(true);
+			expect(await tab.electRefresher()).toBe(true);
+			const elected = otherTab.electRefresher();
+			tab.broadcast('tokenRefresh');
+			expect(await elected).toBe(false);
+
+			tab.releaseRefresher();
+			await flushPromises();
+			expect(await otherTab.electRefresher()).toBe(true);
+		});
+	});
+
+	describe('Auth', () => {
+		let auth: Auth;
+
+		beforeEach(() => {
+			auth = new Auth({
+				userPoolId: 'us-east-1_abcdefghi',
+				userPoolWebClientId: 'clientId',
+				region: 'us-east-1',
+				crossTabSync: true,
+			});
+		});
+
+		afterEach(() => {
+			auth.configure({ crossTabSync: false });
+		});
+
+		test('relay the events between the tabs', async () => {
+			const otherOnEvent = jest.fn();
+			const otherTab = openTab(otherOnEvent);
+			const listener = jest.fn();
+			Hub.listen('auth', listener);
+
+			otherTab.broadcast('tokenRefresh');
+			otherTab.broadcast('signOut');
+			await flushPromises();
+			expect(listener.mock.calls.map(([{ payload }]) => payload.event)).toEqual(
+				['tokenRefresh', 'signOut']
+			);
+			// the relayed events are not broadcast back
+			expect(otherOnEvent).not.toHaveBeenCalled();
+
+			Hub.dispatch(
+				'auth',
+				{ event: 'signIn', data: null, message: '' },
+				'Auth',
+				Symbol.for('amplify_default')
+			);
+			expect(otherOnEvent).toHaveBeenCalledWith('signIn');
+			Hub.remove('auth', listener);
+		});
+
+		test('read the session refreshed by another tab', async () => {
+			const refreshSession = jest.spyOn(MockUser.prototype, 'refreshSession');
+			const otherTab = openTab();
+			await otherTab.electRefresher();
+
+			const session = auth.userSession(new MockUser());
+			await flushPromises();
+			localStorage.setItem('session', 'session of the other tab');
+			otherTab.broadcast('tokenRefresh');
+
+			expect(await session).toEqual('session of the other tab');
+			expect(refreshSession).not.toHaveBeenCalled();
+		});
+
+		test('refresh the session when this tab is elected', async () => {
+			openTab();
+
+			expect(await auth.userSession(new MockUser())).toEqual(
+				'refreshed session'
+			);
+			expect(localStorage.getItem('amplify-auth-refresh-lock')).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,268 @@
+import * as nodeCrypto from 'crypto';
+import { TokenVerifier } from '../src/TokenVerifier';
+import { TokenVerificationError } from '../src/Errors';
+import { AuthClass as Auth } from '../src/Auth';
+import { TokenVerificationErrorStrings } from '../src/common/AuthErrorStrings';
+import { TokenVerifierCrypto } from '../src/types';
+import { mockKeys as keys } from './mockKeys';
+
+const userPoolId = 'us-east-1_abcdefghi';
+const clientId = 'clientId';
+const issuer = `https://cognito-idp.us-east-1.amazonaws.com/${userPoolId}`;
+
+// PEM encoded public keys of the imported keys
+const publicKeys = new WeakMap<CryptoKey, string>();
+
+const toBuffer = (data: BufferSource) =>
+	ArrayBuffer.isView(data)
+		? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+		: Buffer.from(data);
+
+// RS256 of WebCrypto on top of the crypto module, which Node.js only implements from 15
+const mockCrypto: TokenVerifierCrypto = {
+	subtle: {
+		importKey: async (format: string, keyData: JsonWebKey | BufferSource) => {
+			const key: CryptoKey = {
+				algorithm: { name: 'RSASSA-PKCS1-v1_5' },
+				extractable: false,
+				type: 'public',
+				usages: ['verify'],
+			};
+			const { publicKey } = keys.find(
+				({ jwk }) => 'n' in keyData && jwk.n === keyData.n
+			);
+			publicKeys.set(key, publicKey);
+			return key;
+		},
+		verify: async (algorithm, key, signature, data) =>
+			nodeCrypto
+				.createVerify('RSA-SHA256')
+				.update(toBuffer(data))
+				.verify(publicKeys.get(key), toBuffer(signature)),
+	},
+};
+
+const base64Url = (buffer: Buffer) =>
+	buffer
+		.toString('base64')
+		.replace(/=/g, '')
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_');
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const createToken = (claims: object, { kid = 'key1', alg = 'RS256' } = {}) => {
+	const { privateKey } = keys.find(key => key.jwk.kid === kid) || keys[0];
+	const header = base64Url(Buffer.from(JSON.stringify({ kid, alg })));
+	const payload = base64Url(
+		Buffer.from(
+			JSON.stringify({
+				iss: issuer,
+				token_use: 'id',
+				aud: clientId,
+				exp: now() + 3600,
+				...claims,
+			})
+		)
+	);
+	const signature = nodeCrypto
+		.createSign('RSA-SHA256')
+		.update(`${header}.${payload}`)
+		.sign(privateKey);
+	return `${header}.${payload}.${base64Url(signature)}`;
+};
+
+describe('TokenVerifier', () => {
+	let jwksFetcher: jest.Mock;
+	let verifier: TokenVerifier;
+
+	beforeEach(() => {
+		jwksFetcher = jest.fn(async () => ({ keys: [keys[0].jwk] }));
+		verifier = new TokenVerifier({
+			userPoolId,
+			jwksFetcher,
+			crypto: mockCrypto,
+		});
+	});
+
+	test('verify an ID and an access token', async () => {
+		const idToken = createToken({ 'cognito:username': 'alice' });
+		const accessToken = createToken({
+			token_use: 'access',
+			aud: undefined,
+			client_id: clientId,
+		});
+
+		expect(
+			await verifier.verifyToken(idToken, { tokenUse: 'id', clientId })
+		).toMatchObject({ iss: issuer, 'cognito:username': 'alice' });
+		expect(
+			await verifier.verifyToken(accessToken, { tokenUse: 'access', clientId })
+		).toMatchObject({ client_id: clientId });
+		expect(jwksFetcher).toHaveBeenCalledTimes(1);
+		expect(jwksFetcher).toHaveBeenCalledWith(`${issuer}/.well-known/jwks.json`);
+	});
+
+	test('reject a token with a tampered payload or signed with another key', async () => {
+		const [header, , signature] = createToken({}).split('.');
+		const payload = base64Url(
+			Buffer.from(
+				JSON.stringify({
+					iss: issuer,
+					token_use: 'id',
+					aud: clientId,
+					exp: now() + 3600,
+					'cognito:groups': ['admin'],
+				})
+			)
+		);
+		const forgedToken = createToken({}, { kid: 'key2' })
+			.split('.')
+			.map((part, i) => (i === 0 ? header : part))
+			.join('.');
+
+		await expect(
+			verifier.verifyToken(`${header}.${payload}.${signature}`, {
+				tokenUse: 'id',
+				clientId,
+			})
+		).rejects.toThrow(TokenVerificationErrorStrings.INVALID_SIGNATURE);
+		await expect(
+			verifier.verifyToken(forgedToken, { tokenUse: 'id', clientId })
+		).rejects.toThrow(TokenVerificationErrorStrings.INVALID_SIGNATURE);
+	});
+
+	test('reject a token with invalid claims', async () => {
+		const verify = (claims: object, tokenUse: 'id' | 'access' = 'id') =>
+			verifier.verifyToken(createToken(claims), { tokenUse, clientId });
+
+		await expect(verify({ iss: 'https://example.com' })).rejects.toThrow(
+			TokenVerificationErrorStrings.INVALID_ISSUER
+		);
+		await expect(verify({}, 'access')).rejects.toThrow(
+			TokenVerificationErrorStrings.INVALID_TOKEN_USE
+		);
+		await expect(verify({ aud: 'otherClientId' })).rejects.toThrow(
+			TokenVerificationErrorStrings.INVALID_CLIENT
+		);
+		await expect(
+			verify({ token_use: 'access', client_id: 'otherClientId' }, 'access')
+		).rejects.toThrow(TokenVerificationErrorStrings.INVALID_CLIENT);
+		await expect(verify({ exp: now() - 120 })).rejects.toBeInstanceOf(
+			TokenVerificationError
+		);
+		// expired, but within the tolerated clock skew
+		expect(await verify({ exp: now() - 30 })).toBeTruthy();
+	});
+
+	test('reject a malformed token or one not signed with RS256', async () => {
+		await expect(
+			verifier.verifyToken('not a token', { tokenUse: 'id', clientId })
+		).rejects.toThrow(TokenVerificationErrorStrings.MALFORMED_TOKEN);
+		await expect(
+			verifier.verifyToken('a.b.c', { tokenUse: 'id', clientId })
+		).rejects.toThrow(TokenVerificationErrorStrings.MALFORMED_TOKEN);
+		await expect(
+			verifier.verifyToken(createToken({}, { alg: 'none' }), {
+				tokenUse: 'id',
+				clientId,
+			})
+		).rejects.toThrow(TokenVerificationErrorStrings.UNSUPPORTED_ALGORITHM);
+		expect(jwksFetcher).not.toHaveBeenCalled();
+	});
+
+	test('fetch the JWKS again for a rotated key, at most once a minute', async () => {
+		const dateNow = jest.spyOn(Date, 'now');
+		const token = createToken({}, { kid: 'key2' });
+
+		await expect(
+			verifier.verifyToken(token, { tokenUse: 'id', clientId })
+		).rejects.toThrow(TokenVerificationErrorStrings.UNKNOWN_KEY);
+		jwksFetcher.mockResolvedValue({ keys: [keys[0].jwk, keys[1].jwk] });
+		await expect(
+			verifier.verifyToken(token, { tokenUse: 'id', clientId })
+		).rejects.toThrow(TokenVerificationErrorStrings.UNKNOWN_KEY);
+		expect(jwksFetcher).toHaveBeenCalledTimes(1);
+
+		dateNow.mockReturnValue(new Date().getTime() + 61 * 1000);
+		await Promise.all([
+			verifier.verifyToken(token, { tokenUse: 'id', clientId }),
+			verifier.verifyToken(token, { tokenUse: 'id', clientId }),
+		]);
+		expect(jwksFetcher).toHaveBeenCalledTimes(2);
+		dateNow.mockRestore();
+	});
+
+	test('fetch the JWKS from a custom endpoint', async () => {
+		const proxyVerifier = new TokenVerifier({
+			userPoolId,
+			endpoint: 'https://proxy.example.com/',
+			jwksFetcher,
+			crypto: mockCrypto,
+		});
+
+		expect(proxyVerifier.getIssuer()).toEqual(issuer);
+		expect(
+			await proxyVerifier.verifyToken(createToken({}), {
+				tokenUse: 'id',
+				clientId,
+			})
+		).toEqual(expect.objectContaining({ iss: issuer }));
+		expect(jwksFetcher).toHaveBeenCalledWith(
+			`https://proxy.example.com/${userPoolId}/.well-known/jwks.json`
+		);
+	});
+
+	test('use the issuer of a user pool which is not hosted by Cognito', async () => {
+		const localVerifier = new TokenVerifier({
+			userPoolId,
+			endpoint: 'http://localhost:9229',
+			issuer: `http://localhost:9229/${userPoolId}`,
+			jwksFetcher,
+			crypto: mockCrypto,
+		});
+
+		expect(localVerifier.getIssuer()).toEqual(
+			`http://localhost:9229/${userPoolId}`
+		);
+		await expect(
+			localVerifier.verifyToken(createToken({}), { tokenUse: 'id', clientId })
+		).rejects.toThrow(TokenVerificationErrorStrings.INVALID_ISSUER);
+	});
+
+	test('reject without WebCrypto', async () => {
+		const verifierWithoutCrypto = new TokenVerifier({
+			userPoolId,
+			jwksFetcher,
+			crypto: null,
+		});
+
+		await expect(
+			verifierWithoutCrypto.verifyToken(createToken({}), {
+				tokenUse: 'id',
+				clientId,
+			})
+		).rejects.toThrow(TokenVerificationErrorStrings.NO_CRYPTO);
+	});
+
+	test('verify a token with the user pool of the Auth config', async () => {
+		const verifyToken = jest
+			.spyOn(TokenVerifier.prototype, 'verifyToken')
+			.mockResolvedValue({ iss: issuer, token_use: 'access', exp: 0 });
+		const auth = new Auth({
+			userPoolId,
+			userPoolWebClientId: clientId,
+			region: 'us-east-1',
+		});
+
+		await auth.verifyToken('token', { tokenUse: 'access' });
+		expect(verifyToken).toHaveBeenCalledWith('token', {
+			tokenUse: 'access',
+			clientId,
+		});
+		await expect(
+			new Auth(null).verifyToken('token', { tokenUse: 'id' })
+		).rejects.toThrow();
+		verifyToken.mockRestore();
+	});
+});
@@ -30,7 +30,18 @@ import {
 	LegacyProvider,
 	FederatedSignInOptions,
 	AwsCognitoOAuthOpts,
+	Auth0OAuthOpts,
 	ClientMetaData,
+	SignInResult,
+	AuthSignInStep,
+	AuthMFAType,
+	ConfirmSignInParams,
+	isConfirmSignInParams,
+	VerifyTokenOptions,
+	JwtPayload,
+	isOidcOpts,
+	OidcOAuthOpts,
+	OAuthTokens,
 } from './types';
 
 import {
@@ -44,6 +55,7 @@ import {
 	browserOrNode,
 	UniversalStorage,
 	urlSafeDecode,
+	NonRetryableError,
 } from '@aws-amplify/core';
 import {
 	CookieStorage,
@@ -68,6 +80,9 @@ import { parse } from 'url';
 import OAuth from './OAuth/OAuth';
 import { default as urlListener } from './urlListener';
 import { AuthError, NoUserPoolError } from './Errors';
+import { TokenVerifier } from './TokenVerifier';
+import { SessionSync, SessionSyncEvent } from './SessionSync';
+import { decodeJwtPayload } from './common/JwtUtils';
 import {
 	AuthErrorTypes,
 	CognitoHostedUIIdentityProvider,
@@ -80,6 +95,22 @@ const USER_ADMIN_SCOPE = 'aws.cognito.signin.user.admin';
 // 10 sec, following this guide https://www.nngroup.com/articles/response-times-3-important-limits/
 const OAUTH_FLOW_MS_TIMEOUT = 10 * 1000;
 
+// issuer shown by the authenticator apps when the TOTP setup of a sign in has no configured issuer
+const DEFAULT_TOTP_ISSUER = 'AWSCognito';
+const DEFAULT_TOTP_DEVICE_NAME = 'My TOTP device';
+
+const MFA_TYPES: { [challengeName: string]: AuthMFAType } = {
+	SMS_MFA: 'SMS',
+	SOFTWARE_TOKEN_MFA: 'TOTP',
+};
+
+// tokens of a sign in with an OpenID Connect provider
+const OIDC_TOKENS_KEY = 'amplify-oidc-tokens';
+
+// Cognito Identity identifies an OpenID Connect provider by the URL of its issuer without the protocol
+const getOidcProviderName = (issuer: string) =>
+	issuer.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+
 const AMPLIFY_SYMBOL = (
 	typeof Symbol !== 'undefined' && typeof Symbol.for === 'function'
 		? Symbol.for('amplify_default')
@@ -101,12 +132,18 @@ const MAX_DEVICES = 60;
 export class AuthClass {
 	private _config: AuthOptions;
 	private userPool: CognitoUserPool = null;
+	private tokenVerifier: TokenVerifier = null;
 	private user: any = null;
 	private _oAuthHandler: OAuth;
 	private _storage;
 	private _storageSync;
 	private oAuthFlowInProgress: boolean = false;
 	private pendingSignIn: ReturnType<AuthClass['signInWithPassword']> | null;
+	// user of the sign in started with startSignIn, until it is done
+	private signInStepUser: CognitoUser | any = null;
+	private sessionSync: SessionSync = null;
+	// true while an event received from another tab is dispatched, so it is not broadcast back
+	private relayingCrossTabEvent: boolean = false;
 
 	Credentials = Credentials;
 
@@ -121,6 +158,10 @@ export class AuthClass {
 
 		Hub.listen('auth', ({ payload }) => {
 			const { event } = payload;
+			// the tab which dispatched the event has already updated the shared storage
+			if (this.relayingCrossTabEvent) {
+				return;
+			}
 			switch (event) {
 				case 'signIn':
 					this._storage.setItem('amplify-signin-with-hostedUI', 'false');
@@ -132,6 +173,9 @@ export class AuthClass {
 					this._storage.setItem('amplify-signin-with-hostedUI', 'true');
 					break;
 			}
+			if (this.sessionSync) {
+				this.sessionSync.broadcast(event);
+			}
 		});
 	}
 
@@ -161,6 +205,7 @@ export class AuthClass {
 			identityPoolRegion,
 			clientMetadata,
 			endpoint,
+			crossTabSync,
 		} = this._config;
 
 		if (!this._config.storage) {
@@ -196,6 +241,21 @@ export class AuthClass {
 				userPoolData,
 				this.wrapRefreshSessionCallback
 			);
+			this.tokenVerifier = new TokenVerifier({ userPoolId, endpoint });
+		}
+
+		if (this.sessionSync) {
+			this.sessionSync.close();
+			this.sessionSync = null;
+		}
+		if (crossTabSync) {
+			if (SessionSync.isSupported()) {
+				this.sessionSync = new SessionSync(event =>
+					this.relayCrossTabEvent(event)
+				);
+			} else {
+				logger.debug('cross tab sync is only supported in browsers');
+			}
 		}
 
 		this.Credentials.configure({
@@ -203,7 +263,12 @@ export class AuthClass {
 			region: identityPoolRegion || region,
 			userPoolId,
 			identityPoolId,
-			refreshHandlers,
+			refreshHandlers: isOidcOpts(oauth)
+				? {
+						...refreshHandlers,
+						[getOidcProviderName(oauth.issuer)]: () => this.refreshOidcToken(),
+				  }
+				: refreshHandlers,
 			storage: this._storage,
 		});
 
@@ -215,7 +280,13 @@ export class AuthClass {
 				: (<any>oauth).awsCognito
 			: undefined;
 
-		if (cognitoHostedUIConfig) {
+		if (isOidcOpts(oauth)) {
+			this._oAuthHandler = new OAuth({
+				scopes: oauth.scope,
+				config: oauth,
+				cognitoClientId: oauth.clientId,
+			});
+		} else if (cognitoHostedUIConfig) {
 			const cognitoAuthParams = Object.assign(
 				{
 					cognitoClientId: userPoolWebClientId,
@@ -237,7 +308,9 @@ export class AuthClass {
 				config: cognitoAuthParams,
 				cognitoClientId: cognitoAuthParams.cognitoClientId,
 			});
+		}
 
+		if (isOidcOpts(oauth) || cognitoHostedUIConfig) {
 			// **NOTE** - Remove this in a future major release as it is a breaking change
 			// Prevents _handleAuthResponse from being called multiple times in Expo
 			// See https://github.com/aws-amplify/amplify-js/issues/4388
@@ -517,6 +590,116 @@ export class AuthClass {
 		}
 	}
 
+	/**
+	 * Sign in and tell the next step of the sign in, confirmSignIn advances the sign in until it is done
+	 * @param {String | SignInOpts} usernameOrSignInOpts - The username to be signed in or the sign in options
+	 * @param {String} password - The password of the username
+	 * @return - A promise resolves whether the user is signed in and the next step of the sign in
+	 */
+	public async startSignIn(
+		usernameOrSignInOpts: string | SignInOpts,
+		pw?: string,
+		clientMetadata: ClientMetaData = this._config.clientMetadata
+	): Promise<SignInResult> {
+		this.signInStepUser = null;
+		const user = await this.signIn(usernameOrSignInOpts, pw, clientMetadata);
+		return this.nextSignInStep(user);
+	}
+
+	/**
+	 * Tell the next step of a sign in from the challenge set on the user by the authentication callbacks
+	 * @param {CognitoUser} user - the user the authentication callbacks resolved
+	 * @return - whether the user is signed in and the next step of the sign in
+	 */
+	private async nextSignInStep(user: CognitoUser | any): Promise<SignInResult> {
+		const { challengeName, challengeParam = {} } = user;
+		if (!challengeName) {
+			this.signInStepUser = null;
+			return {
+				isSignedIn: true,
+				nextStep: { signInStep: AuthSignInStep.DONE },
+			};
+		}
+		this.signInStepUser = user;
+
+		switch (challengeName) {
+			case 'SMS_MFA':
+				return {
+					isSignedIn: false,
+					nextStep: {
+						signInStep: AuthSignInStep.CONFIRM_SIGN_IN_WITH_SMS_CODE,
+						codeDeliveryDetails: {
+							destination: challengeParam.CODE_DELIVERY_DESTINATION,
+							deliveryMedium: challengeParam.CODE_DELIVERY_DELIVERY_MEDIUM,
+						},
+					},
+				};
+			case 'SOFTWARE_TOKEN_MFA':
+				return {
+					isSignedIn: false,
+					nextStep: {
+						signInStep: AuthSignInStep.CONFIRM_SIGN_IN_WITH_TOTP_CODE,
+					},
+				};
+			case 'CUSTOM_CHALLENGE':
+				return {
+					isSignedIn: false,
+					nextStep: {
+						signInStep: AuthSignInStep.CONFIRM_SIGN_IN_WITH_CUSTOM_CHALLENGE,
+						additionalInfo: challengeParam,
+					},
+				};
+			case 'NEW_PASSWORD_REQUIRED':
+				return {
+					isSignedIn: false,
+					nextStep: {
+						signInStep:
+							AuthSignInStep.CONFIRM_SIGN_IN_WITH_NEW_PASSWORD_REQUIRED,
+						missingAttributes: challengeParam.requiredAttributes,
+					},
+				};
+			case 'SELECT_MFA_TYPE':
+				// the MFA types to choose from are a JSON array of challenge names
+				const mfaTypes: string[] = JSON.parse(
+					challengeParam.MFAS_CAN_CHOOSE || '[]'
+				);
+				return {
+					isSignedIn: false,
+					nextStep: {
+						signInStep: AuthSignInStep.CONTINUE_SIGN_IN_WITH_MFA_SELECTION,
+						allowedMFATypes: mfaTypes
+							.map(mfaType => MFA_TYPES[mfaType])
+							.filter(mfaType => !!mfaType),
+					},
+				};
+			case 'MFA_SETUP':
+				// the MFA types which can be set up are a JSON array of challenge names
+				const setupTypes: string[] = JSON.parse(
+					challengeParam.MFAS_CAN_SETUP || '[]'
+				);
+				if (setupTypes.indexOf('SOFTWARE_TOKEN_MFA') === -1) {
+					this.signInStepUser = null;
+					return this.rejectAuthError(AuthErrorTypes.NoTOTPSetup);
+				}
+				const secretCode = await this.setupTOTP(user);
+				const issuer = encodeURIComponent(
+					this._config.totpIssuer || DEFAULT_TOTP_ISSUER
+				);
+				const username = encodeURIComponent(user.getUsername());
+				return {
+					isSignedIn: false,
+					nextStep: {
+						signInStep: AuthSignInStep.CONTINUE_SIGN_IN_WITH_TOTP_SETUP,
+						totpSetupUri: `otpauth://totp/${issuer}:${username}?secret=${secretCode}&issuer=${issuer}`,
+					},
+				};
+			default:
+				logger.debug('Unsupported sign in challenge', challengeName);
+				this.signInStepUser = null;
+				return this.rejectAuthError(AuthErrorTypes.UnsupportedChallenge);
+		}
+	}
+
 	/**
 	 * Return an object with the authentication callbacks
 	 * @param {CognitoUser} user - the cognito user object
@@ -1005,6 +1188,12 @@ export class AuthClass {
 		});
 	}
 
+	/**
+	 * Advance the sign in started with startSignIn with the response to its next step
+	 * @param {ConfirmSignInParams} params - The challenge response and its options
+	 * @return - A promise resolves whether the user is signed in and the next step of the sign in
+	 */
+	public confirmSignIn(params: ConfirmSignInParams): Promise<SignInResult>;
 	/**
 	 * Send MFA code to confirm sign in
 	 * @param {Object} user - The CognitoUser object
@@ -1014,8 +1203,17 @@ export class AuthClass {
 		user: CognitoUser | any,
 		code: string,
 		mfaType?: 'SMS_MFA' | 'SOFTWARE_TOKEN_MFA' | null,
+		clientMetadata?: ClientMetaData
+	): Promise<CognitoUser | any>;
+	public confirmSignIn(
+		user: CognitoUser | any,
+		code?: string,
+		mfaType?: 'SMS_MFA' | 'SOFTWARE_TOKEN_MFA' | null,
 		clientMetadata: ClientMetaData = this._config.clientMetadata
-	): Promise<CognitoUser | any> {
+	): Promise<CognitoUser | SignInResult | any> {
+		if (isConfirmSignInParams(user)) {
+			return this.confirmSignInStep(user);
+		}
 		if (!code) {
 			return this.rejectAuthError(AuthErrorTypes.EmptyCode);
 		}
@@ -1055,6 +1253,78 @@ export class AuthClass {
 		});
 	}
 
+	/**
+	 * Respond to the challenge of the current step of the sign in started with startSignIn
+	 * @private
+	 * @param {ConfirmSignInParams} params - The challenge response and its options
+	 * @return - A promise resolves whether the user is signed in and the next step of the sign in
+	 */
+	private async confirmSignInStep({
+		challengeResponse,
+		options = {},
+	}: ConfirmSignInParams): Promise<SignInResult> {
+		const user = this.signInStepUser;
+		if (!user) {
+			return this.rejectAuthError(AuthErrorTypes.NoSignInInProgress);
+		}
+		if (!challengeResponse) {
+			return this.rejectAuthError(AuthErrorTypes.EmptyChallengeResponse);
+		}
+		const {
+			userAttributes = {},
+			friendlyDeviceName = DEFAULT_TOTP_DEVICE_NAME,
+			clientMetadata = this._config.clientMetadata,
+		} = options;
+
+		const nextUser = await new Promise((resolve, reject) => {
+			const callbacks = this.authCallbacks(user, resolve, reject);
+			switch (user.challengeName) {
+				case 'SMS_MFA':
+				case 'SOFTWARE_TOKEN_MFA':
+					user.sendMFACode(
+						challengeResponse,
+						callbacks,
+						user.challengeName,
+						clientMetadata
+					);
+					break;
+				case 'CUSTOM_CHALLENGE':
+					user.sendCustomChallengeAnswer(
+						challengeResponse,
+						callbacks,
+						clientMetadata
+					);
+					break;
+				case 'NEW_PASSWORD_REQUIRED':
+					user.completeNewPasswordChallenge(
+						challengeResponse,
+						userAttributes,
+						callbacks,
+						clientMetadata
+					);
+					break;
+				case 'SELECT_MFA_TYPE':
+					const mfaType = Object.keys(MFA_TYPES).find(
+						challengeName => MFA_TYPES[challengeName] === challengeResponse
+					);
+					if (!mfaType) {
+						reject(new AuthError(AuthErrorTypes.InvalidMFA));
+						break;
+					}
+					user.sendMFASelectionAnswer(mfaType, callbacks);
+					break;
+				case 'MFA_SETUP':
+					user.verifySoftwareToken(
+						challengeResponse,
+						friendlyDeviceName,
+						callbacks
+					);
+					break;
+			}
+		});
+		return this.nextSignInStep(nextUser);
+	}
+
 	public completeNewPassword(
 		user: CognitoUser | any,
 		password: string,
@@ -1663,6 +1933,103 @@ export class AuthClass {
 		});
 	}
 
+	/**
+	 * Let only the tab elected by the session sync refresh the tokens of the user, the other tabs wait for it and
+	 * read the new tokens from the storage
+	 * @param {Object} user - The CognitoUser object
+	 */
+	private coordinateRefresh(user: CognitoUser) {
+		// the refreshSession of the user has already been wrapped
+		if (user.hasOwnProperty('refreshSession')) {
+			return;
+		}
+		const refreshSession = user.refreshSession;
+		user.refreshSession = (refreshToken, callback, clientMetadata) => {
+			this.sessionSync.electRefresher().then(elected => {
+				if (elected) {
+					refreshSession.call(
+						user,
+						refreshToken,
+						(err, session) => {
+							this.sessionSync.releaseRefresher();
+							callback(err, session);
+						},
+						clientMetadata
+					);
+				} else {
+					// getSession only refreshes the tokens itself when the other tab has failed to
+					delete user.refreshSession;
+					user.getSession(callback, { clientMetadata });
+				}
+			});
+		};
+	}
+
+	/**
+	 * Dispatch an event received from another tab on the auth channel of the Hub
+	 * @param {String} event - the sign in, sign out or token refresh event
+	 */
+	private async relayCrossTabEvent(event: SessionSyncEvent) {
+		let data;
+		let message;
+		switch (event) {
+			case 'signIn':
+				try {
+					data = await this.currentAuthenticatedUser();
+				} catch (e) {
+					logger.debug('Failed to get the user signed in by another tab', e);
+					return;
+				}
+				message = `A user ${data.username} has been signed in`;
+				break;
+			case 'signOut':
+				try {
+					await this.cleanCachedItems();
+				} catch (e) {
+					logger.debug('failed to clear cached items');
+				}
+				data = this.user;
+				this.user = null;
+				message = `A user has been signed out`;
+				break;
+			case 'tokenRefresh':
+				message = `New token retrieved`;
+				break;
+			case 'tokenRefresh_failure':
+				message = `Failed to retrieve new token`;
+				break;
+		}
+
+		this.relayingCrossTabEvent = true;
+		try {
+			dispatchAuthEvent(event, data, message);
+		} finally {
+			this.relayingCrossTabEvent = false;
+		}
+	}
+
+	/**
+	 * Verify the signature and the claims of an ID or access token issued by the user pool
+	 * @param {String} token - the JWT
+	 * @param {Object} options - the expected token_use, and the client which defaults to the web client of the config
+	 * @return - A promise resolves to the payload of the token if it is valid
+	 */
+	public verifyToken(
+		token: string,
+		{
+			tokenUse,
+			clientId,
+		}: Partial<VerifyTokenOptions> & Pick<VerifyTokenOptions, 'tokenUse'>
+	): Promise<JwtPayload> {
+		if (!this.userPool) {
+			return this.rejectNoUserPool();
+		}
+		return this.tokenVerifier.verifyToken(token, {
+			tokenUse,
+			clientId: clientId || this._config.userPoolWebClientId,
+		});
+	}
+
 	/**
 	 * Get the corresponding user session
 	 * @param {Object} user - The CognitoUser object
@@ -1675,6 +2042,10 @@ export class AuthClass {
 		}
 		const clientMetadata = this._config.clientMetadata; // TODO: verify behavior if this is override during signIn
 
+		if (this.sessionSync) {
+			this.coordinateRefresh(user);
+		}
+
 		return new Promise((res, rej) => {
 			logger.debug('Getting the session from this user:', user);
 			user.getSession(
@@ -1949,6 +2320,17 @@ export class AuthClass {
 			logger.debug('no Cognito User pool');
 		}
 
+		const oidcTokens = this._storage.getItem(OIDC_TOKENS_KEY);
+		this._storage.removeItem(OIDC_TOKENS_KEY);
+		if (oidcTokens && isOidcOpts(this._config.oauth)) {
+			try {
+				// RP-initiated logout, which redirects to the provider
+				await this._oAuthHandler.signOut(JSON.parse(oidcTokens).idToken);
+			} catch (e) {
+				logger.debug('failed to sign out from the OpenID Connect provider', e);
+			}
+		}
+
 		/**
 		 * Note for future refactor - no reliable way to get username with
 		 * Cognito User Pools vs Identity when federating with Social Providers
@@ -2173,6 +2555,18 @@ export class AuthClass {
 			);
 		}
 
+		if (
+			isOidcOpts(this._config.oauth) &&
+			(typeof providerOrOptions === 'undefined' ||
+				hasCustomState(providerOrOptions))
+		) {
+			await this._oAuthHandler.oidcSignIn(
+				providerOrOptions &&
+					(providerOrOptions as FederatedSignInOptionsCustom).customState
+			);
+			return;
+		}
+
 		// Ensure backwards compatability
 		if (typeof providerOrOptions === 'undefined') {
 			if (this._config.identityPoolId && !this._config.userPoolId) {
@@ -2200,17 +2594,20 @@ export class AuthClass {
 				: (options as FederatedSignInOptionsCustom).customState;
 
 			if (this._config.userPoolId) {
-				const client_id = isCognitoHostedOpts(this._config.oauth)
+				const oauth = this._config.oauth as
+					| AwsCognitoOAuthOpts
+					| Auth0OAuthOpts;
+				const client_id = isCognitoHostedOpts(oauth)
 					? this._config.userPoolWebClientId
-					: this._config.oauth.clientID;
+					: oauth.clientID;
 				/*Note: Invenstigate automatically adding trailing slash */
-				const redirect_uri = isCognitoHostedOpts(this._config.oauth)
-					? this._config.oauth.redirectSignIn
-					: this._config.oauth.redirectUri;
+				const redirect_uri = isCognitoHostedOpts(oauth)
+					? oauth.redirectSignIn
+					: oauth.redirectUri;
 
 				this._oAuthHandler.oauthSignIn(
-					this._config.oauth.responseType,
-					this._config.oauth.domain,
+					oauth.responseType,
+					oauth.domain,
 					redirect_uri,
 					client_id,
 					provider,
@@ -2260,7 +2657,7 @@ export class AuthClass {
 
 		try {
 			this.oAuthFlowInProgress = true;
-			if (!this._config.userPoolId) {
+			if (!this._config.userPoolId && !isOidcOpts(this._config.oauth)) {
 				throw new Error(
 					`OAuth responses require a User Pool defined in config`
 				);
@@ -2286,6 +2683,10 @@ export class AuthClass {
 				.map(entry => entry.split('='))
 				.find(([k]) => k === 'access_token' || k === 'error');
 
+			if (hasCodeOrError && isOidcOpts(this._config.oauth)) {
+				return await this._handleOidcResponse(currentUrl);
+			}
+
 			if (hasCodeOrError || hasTokenOrError) {
 				this._storage.setItem('amplify-redirected-from-hosted-ui', 'true');
 				try {
@@ -2393,6 +2794,112 @@ export class AuthClass {
 		}
 	}
 
+	/**
+	 * Complete the sign in with an OpenID Connect provider, its ID token is exchanged for AWS credentials when an
+	 * Identity Pool is defined in config
+	 * @param {String} currentUrl - the URL the provider has redirected to
+	 */
+	private async _handleOidcResponse(currentUrl: string) {
+		const oauth = this._config.oauth as OidcOAuthOpts;
+		try {
+			const {
+				accessToken,
+				idToken,
+				refreshToken,
+				state,
+			} = await this._oAuthHandler.handleAuthResponse(currentUrl);
+			const tokens: OAuthTokens = { accessToken, idToken, refreshToken };
+			this._storage.setItem(OIDC_TOKENS_KEY, JSON.stringify(tokens));
+
+			const payload = decodeJwtPayload(idToken);
+			const user: FederatedUser = {
+				name: payload.preferred_username || payload.email || payload.sub,
+				email: payload.email,
+			};
+
+			let credentials;
+			if (this._config.identityPoolId) {
+				credentials = await this.Credentials.set(
+					{
+						provider: getOidcProviderName(oauth.issuer),
+						token: idToken,
+						user,
+						expires_at: payload.exp * 1000,
+					},
+					'federation'
+				);
+				logger.debug('AWS credentials', credentials);
+			}
+
+			if (window && typeof window.history !== 'undefined') {
+				window.history.replaceState({}, null, oauth.redirectSignIn);
+			}
+
+			dispatchAuthEvent(
+				'signIn',
+				user,
+				`A user ${user.name} has been signed in`
+			);
+
+			// the custom state follows the first dash of the state, see OAuth.oidcSignIn
+			if (/-/.test(state)) {
+				const customState = state.split('-').splice(1).join('-');
+
+				dispatchAuthEvent(
+					'customOAuthState',
+					urlSafeDecode(customState),
+					`State for user ${user.name}`
+				);
+			}
+
+			return credentials;
+		} catch (err) {
+			logger.debug('Error in OpenID Connect auth response', err);
+
+			// the code has been spent, reloading the page must not handle it again
+			if (window && typeof window.history !== 'undefined') {
+				window.history.replaceState({}, null, oauth.redirectSignIn);
+			}
+
+			dispatchAuthEvent(
+				'signIn_failure',
+				err,
+				`The OAuth response flow failed`
+			);
+			dispatchAuthEvent(
+				'customState_failure',
+				err,
+				`A failure occurred when returning state`
+			);
+		}
+	}
+
+	/**
+	 * Refresh handler of the Credentials for the OpenID Connect provider, it refreshes the tokens with the stored
+	 * refresh token
+	 * @return - A promise resolves to the new ID token and its expiration
+	 */
+	private async refreshOidcToken() {
+		let tokens: OAuthTokens;
+		try {
+			tokens = JSON.parse(this._storage.getItem(OIDC_TOKENS_KEY));
+		} catch (e) {
+			logger.debug('failed to parse the OpenID Connect tokens', e);
+		}
+		if (!tokens || !tokens.refreshToken) {
+			throw new NonRetryableError('No OpenID Connect refresh token');
+		}
+
+		const refreshedTokens = await this._oAuthHandler.refreshOidcTokens(
+			tokens.refreshToken
+		);
+		this._storage.setItem(OIDC_TOKENS_KEY, JSON.stringify(refreshedTokens));
+		dispatchAuthEvent('tokenRefresh', undefined, `New token retrieved`);
+
+		const { exp } = decodeJwtPayload(refreshedTokens.idToken);
+		return { token: refreshedTokens.idToken, expires_at: exp * 1000 };
+	}
+
 	/**
 	 * Compact version of credentials
 	 * @param {Object} credentials
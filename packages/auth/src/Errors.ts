@@ -13,7 +13,10 @@
 
 import { AuthErrorMessages, AuthErrorTypes } from './types';
 import { ConsoleLogger as Logger } from '@aws-amplify/core';
-import { AuthErrorStrings } from './common/AuthErrorStrings';
+import {
+	AuthErrorStrings,
+	TokenVerificationErrorStrings,
+} from './common/AuthErrorStrings';
 
 const logger = new Logger('AuthError');
 
@@ -48,6 +51,19 @@ export class NoUserPoolError extends AuthError {
 	}
 }
 
+export class TokenVerificationError extends Error {
+	constructor(message: TokenVerificationErrorStrings) {
+		super(message);
+
+		// Hack for making the custom error class work when transpiled to es5
+		// TODO: Delete the following 2 lines after we change the build target to >= es2015
+		this.constructor = TokenVerificationError;
+		Object.setPrototypeOf(this, TokenVerificationError.prototype);
+
+		this.name = 'TokenVerificationError';
+	}
+}
+
 export const authErrorMessages: AuthErrorMessages = {
 	noConfig: {
 		message: AuthErrorStrings.DEFAULT_MSG,
@@ -101,6 +117,15 @@ export const authErrorMessages: AuthErrorMessages = {
 	emptyChallengeResponse: {
 		message: AuthErrorStrings.EMPTY_CHALLENGE,
 	},
+	noSignInInProgress: {
+		message: AuthErrorStrings.NO_SIGN_IN_IN_PROGRESS,
+	},
+	unsupportedChallenge: {
+		message: AuthErrorStrings.UNSUPPORTED_CHALLENGE,
+	},
+	noTOTPSetup: {
+		message: AuthErrorStrings.NO_TOTP_SETUP,
+	},
 	noUserSession: {
 		message: AuthErrorStrings.NO_USER_SESSION,
 	},
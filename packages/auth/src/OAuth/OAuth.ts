@@ -18,10 +18,19 @@ import * as oAuthStorage from './oauthStorage';
 import {
 	OAuthOpts,
 	isCognitoHostedOpts,
+	isOidcOpts,
 	CognitoHostedUIIdentityProvider,
+	OidcConfiguration,
+	OAuthTokens,
 } from '../types/Auth';
+import { decodeJwtPayload } from '../common/JwtUtils';
 
-import { ConsoleLogger as Logger, Hub, urlSafeEncode } from '@aws-amplify/core';
+import {
+	ConsoleLogger as Logger,
+	Hub,
+	NonRetryableError,
+	urlSafeEncode,
+} from '@aws-amplify/core';
 
 import sha256 from 'crypto-js/sha256';
 import Base64 from 'crypto-js/enc-base64';
@@ -42,6 +51,7 @@ export default class OAuth {
 	private _config;
 	private _cognitoClientId;
 	private _scopes;
+	private _oidcConfiguration: Promise<OidcConfiguration>;
 
 	constructor({
 		config,
@@ -117,6 +127,85 @@ export default class OAuth {
 		this._urlOpener(URL, redirectSignIn);
 	}
 
+	/**
+	 * Redirect to the authorization endpoint of the OpenID Connect provider, with PKCE and a nonce
+	 * @param {String} customState - optional state returned by the customOAuthState event
+	 */
+	public async oidcSignIn(customState?: string) {
+		if (!isOidcOpts(this._config)) {
+			throw new Error('oidcSignIn requires an OpenID Connect issuer');
+		}
+		const { clientId, redirectSignIn } = this._config;
+		const { authorization_endpoint } = await this.getOidcConfiguration();
+
+		const generatedState = this._generateState(32);
+		const state = customState
+			? `${generatedState}-${urlSafeEncode(customState)}`
+			: generatedState;
+		oAuthStorage.setState(state);
+
+		const pkce_key = this._generateRandom(128);
+		oAuthStorage.setPKCE(pkce_key);
+
+		// the ID token must contain the nonce, which binds it to this browser session
+		const nonce = this._generateRandom(32);
+		oAuthStorage.setNonce(nonce);
+
+		const queryString = Object.entries({
+			redirect_uri: redirectSignIn,
+			response_type: 'code',
+			client_id: clientId,
+			scope: this._scopes.join(' '),
+			state,
+			nonce,
+			code_challenge: this._generateChallenge(pkce_key),
+			code_challenge_method: 'S256',
+		})
+			.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+			.join('&');
+
+		const URL = `${authorization_endpoint}?${queryString}`;
+		logger.debug(`Redirecting to ${URL}`);
+		this._urlOpener(URL, redirectSignIn);
+	}
+
+	/**
+	 * Get the endpoints of the OpenID Connect provider from the discovery document of its issuer, which is fetched
+	 * once
+	 */
+	public getOidcConfiguration(): Promise<OidcConfiguration> {
+		if (!this._oidcConfiguration) {
+			this._oidcConfiguration = this._fetchOidcConfiguration();
+			// fetch it again on the next call after a failure
+			this._oidcConfiguration.catch(() => {
+				this._oidcConfiguration = undefined;
+			});
+		}
+		return this._oidcConfiguration;
+	}
+
+	private async _fetchOidcConfiguration(): Promise<OidcConfiguration> {
+		const { issuer } = this._config;
+		const discoveryEndpoint = `${issuer.replace(
+			/\/+$/,
+			''
+		)}/.well-known/openid-configuration`;
+		logger.debug(`Fetching the OpenID configuration from ${discoveryEndpoint}`);
+
+		const response = await fetch(discoveryEndpoint);
+		if (!response.ok) {
+			throw new Error(
+				`Failed to fetch the OpenID configuration from ${discoveryEndpoint}`
+			);
+		}
+		const configuration: OidcConfiguration = await response.json();
+		// OpenID Connect Discovery 1.0 section 4.3
+		if (configuration.issuer !== issuer) {
+			throw new Error('Invalid issuer in the OpenID configuration');
+		}
+		return configuration;
+	}
+
 	private async _handleCodeFlow(currentUrl: string) {
 		/* Convert URL into an object with parameters as keys
     { redirect_uri: 'http://localhost:3000/', response_type: 'code', ...} */
@@ -133,8 +222,9 @@ export default class OAuth {
 			return;
 		}
 
-		const oAuthTokenEndpoint =
-			'https://' + this._config.domain + '/oauth2/token';
+		const oAuthTokenEndpoint = isOidcOpts(this._config)
+			? (await this.getOidcConfiguration()).token_endpoint
+			: 'https://' + this._config.domain + '/oauth2/token';
 
 		dispatchAuthEvent(
 			'codeFlow',
@@ -142,13 +232,16 @@ export default class OAuth {
 			`Retrieving tokens from ${oAuthTokenEndpoint}`
 		);
 
-		const client_id = isCognitoHostedOpts(this._config)
+		const client_id = isOidcOpts(this._config)
+			? this._config.clientId
+			: isCognitoHostedOpts(this._config)
 			? this._cognitoClientId
 			: this._config.clientID;
 
-		const redirect_uri = isCognitoHostedOpts(this._config)
-			? this._config.redirectSignIn
-			: this._config.redirectUri;
+		const redirect_uri =
+			isCognitoHostedOpts(this._config) || isOidcOpts(this._config)
+				? this._config.redirectSignIn
+				: this._config.redirectUri;
 
 		const code_verifier = oAuthStorage.getPKCE();
 
@@ -186,6 +279,11 @@ export default class OAuth {
 			throw new Error(error);
 		}
 
+		if (isOidcOpts(this._config)) {
+			// a missing nonce fails the validation like a different one
+			this._validateIdToken(id_token, oAuthStorage.getNonce() || null);
+		}
+
 		return {
 			accessToken: access_token,
 			refreshToken: refresh_token,
@@ -193,6 +291,80 @@ export default class OAuth {
 		};
 	}
 
+	/**
+	 * Refresh the tokens of the OpenID Connect provider
+	 * @param {String} refreshToken - the refresh token returned along with the tokens
+	 * @return - A promise resolved with the new tokens, the refresh token is kept unless the provider rotates it
+	 */
+	public async refreshOidcTokens(refreshToken: string): Promise<OAuthTokens> {
+		if (!isOidcOpts(this._config)) {
+			throw new Error('refreshOidcTokens requires an OpenID Connect issuer');
+		}
+		const { token_endpoint } = await this.getOidcConfiguration();
+
+		const body = Object.entries({
+			grant_type: 'refresh_token',
+			refresh_token: refreshToken,
+			client_id: this._config.clientId,
+		})
+			.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+			.join('&');
+
+		logger.debug(`Refreshing the tokens with ${token_endpoint}`);
+		const {
+			access_token,
+			refresh_token,
+			id_token,
+			error,
+		} = await ((await fetch(token_endpoint, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/x-www-form-urlencoded',
+			},
+			body,
+		})) as any).json();
+
+		// the refresh token has expired or has been revoked, retrying does not help
+		if (error) {
+			throw new NonRetryableError(error);
+		}
+		// unlike the ID token of the sign in, the one of a refresh has no nonce
+		this._validateIdToken(id_token);
+
+		return {
+			accessToken: access_token,
+			refreshToken: refresh_token || refreshToken,
+			idToken: id_token,
+		};
+	}
+
+	/**
+	 * Validate the claims of an ID token returned by the token endpoint. Its signature does not have to be verified
+	 * since it has been received from the issuer over TLS (OpenID Connect Core 1.0 section 3.1.3.7).
+	 */
+	private _validateIdToken(idToken: string, nonce?: string | null) {
+		if (!isOidcOpts(this._config)) {
+			return;
+		}
+		let payload;
+		try {
+			payload = decodeJwtPayload(idToken);
+		} catch (e) {
+			throw new NonRetryableError('Invalid ID token in OpenID Connect flow');
+		}
+		const { iss, aud, exp } = payload;
+		const audiences: string[] = Array.isArray(aud) ? aud : [aud];
+
+		if (
+			iss !== this._config.issuer ||
+			audiences.indexOf(this._config.clientId) === -1 ||
+			!(exp * 1000 > Date.now()) ||
+			(nonce !== undefined && payload.nonce !== nonce)
+		) {
+			throw new NonRetryableError('Invalid ID token in OpenID Connect flow');
+		}
+	}
+
 	private async _handleImplicitFlow(currentUrl: string) {
 		// hash is `null` if `#` doesn't exist on URL
 		const { id_token, access_token } = (parse(currentUrl).hash || '#')
@@ -240,7 +412,7 @@ export default class OAuth {
 			logger.debug(
 				`Starting ${this._config.responseType} flow with ${currentUrl}`
 			);
-			if (this._config.responseType === 'code') {
+			if (this._config.responseType === 'code' || isOidcOpts(this._config)) {
 				return { ...(await this._handleCodeFlow(currentUrl)), state };
 			} else {
 				return { ...(await this._handleImplicitFlow(currentUrl)), state };
@@ -259,14 +431,25 @@ export default class OAuth {
 		const savedState = oAuthStorage.getState();
 		const { state: returnedState } = urlParams;
 
-		// This is because savedState only exists if the flow was initiated by Amplify
-		if (savedState && savedState !== returnedState) {
+		// This is because savedState only exists if the flow was initiated by Amplify, which an OpenID Connect flow must be
+		if (
+			(savedState || isOidcOpts(this._config)) &&
+			savedState !== returnedState
+		) {
 			throw new Error('Invalid state in OAuth flow');
 		}
 		return returnedState;
 	}
 
-	public async signOut() {
+	/**
+	 * Redirect to the sign out of the Cognito Hosted UI, or to the end session endpoint of the OpenID Connect provider
+	 * @param {String} idToken - optional ID token hint of the RP-initiated logout of OpenID Connect
+	 */
+	public async signOut(idToken?: string) {
+		if (isOidcOpts(this._config)) {
+			return this._oidcSignOut(idToken);
+		}
+
 		let oAuthLogoutEndpoint = 'https://' + this._config.domain + '/logout?';
 
 		const client_id = isCognitoHostedOpts(this._config)
@@ -294,6 +477,35 @@ export default class OAuth {
 		return this._urlOpener(oAuthLogoutEndpoint, signout_uri);
 	}
 
+	private async _oidcSignOut(idToken?: string) {
+		const { clientId, redirectSignOut } = this._config;
+		const { end_session_endpoint } = await this.getOidcConfiguration();
+		if (!end_session_endpoint) {
+			logger.debug('The OpenID Connect provider does not support logout');
+			return;
+		}
+
+		const oAuthLogoutEndpoint =
+			end_session_endpoint +
+			'?' +
+			Object.entries({
+				client_id: clientId,
+				post_logout_redirect_uri: redirectSignOut,
+				...(idToken ? { id_token_hint: idToken } : {}),
+			})
+				.map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+				.join('&');
+
+		dispatchAuthEvent(
+			'oAuthSignOut',
+			{ oAuth: 'signOut' },
+			`Signing out from ${oAuthLogoutEndpoint}`
+		);
+		logger.debug(`Signing out from ${oAuthLogoutEndpoint}`);
+
+		return this._urlOpener(oAuthLogoutEndpoint, redirectSignOut);
+	}
+
 	private _generateState(length: number) {
 		let result = '';
 		let i = length;
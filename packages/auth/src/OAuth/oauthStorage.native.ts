@@ -14,6 +14,7 @@
 const obj: {
 	oauth_state?: string;
 	ouath_pkce_key?: string;
+	oauth_nonce?: string;
 } = {};
 
 export const setState = (state: string) => {
@@ -36,7 +37,18 @@ export const getPKCE = () => {
 	return ouath_pkce_key;
 };
 
+export const setNonce = (nonce: string) => {
+	obj.oauth_nonce = nonce;
+};
+
+export const getNonce = () => {
+	const oauth_nonce = obj.oauth_nonce;
+	obj.oauth_nonce = undefined;
+	return oauth_nonce;
+};
+
 export const clearAll = () => {
 	obj.ouath_pkce_key = undefined;
 	obj.oauth_state = undefined;
+	obj.oauth_nonce = undefined;
 };
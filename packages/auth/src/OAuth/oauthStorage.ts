@@ -31,7 +31,18 @@ export const getPKCE = () => {
 	return ouath_pkce_key;
 };
 
+export const setNonce = (nonce: string) => {
+	window.sessionStorage.setItem('oauth_nonce', nonce);
+};
+
+export const getNonce = () => {
+	const oauth_nonce = window.sessionStorage.getItem('oauth_nonce');
+	window.sessionStorage.removeItem('oauth_nonce');
+	return oauth_nonce;
+};
+
 export const clearAll = () => {
 	window.sessionStorage.removeItem('ouath_pkce_key');
 	window.sessionStorage.removeItem('oauth_state');
+	window.sessionStorage.removeItem('oauth_nonce');
 };
@@ -0,0 +1,272 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { ConsoleLogger as Logger } from '@aws-amplify/core';
+
+const logger = new Logger('SessionSync');
+
+const CHANNEL_NAME = 'amplify-auth';
+// key of the storage written to broadcast a message where BroadcastChannel is not available
+const MESSAGE_KEY = 'amplify-auth-message';
+const REFRESH_LOCK_KEY = 'amplify-auth-refresh-lock';
+// a tab which does not release the lock in time, e.g. because it was closed while refreshing, loses it
+const REFRESH_LOCK_TTL_IN_MS = 10 * 1000;
+// time for the other tabs which have read the lock at the same time to write theirs, the last write wins
+const REFRESH_LOCK_CONFIRM_DELAY_IN_MS = 50;
+
+export type SessionSyncEvent =
+	| 'signIn'
+	| 'signOut'
+	| 'tokenRefresh'
+	| 'tokenRefresh_failure';
+
+const SYNCED_EVENTS: SessionSyncEvent[] = [
+	'signIn',
+	'signOut',
+	'tokenRefresh',
+	'tokenRefresh_failure',
+];
+
+// events which end a refresh of the tokens by another tab
+const REFRESH_RESULT_EVENTS: SessionSyncEvent[] = [
+	'signOut',
+	'tokenRefresh',
+	'tokenRefresh_failure',
+];
+
+interface SessionSyncMessage {
+	event: SessionSyncEvent;
+	tabId: string;
+	sentAt: number;
+}
+
+interface RefreshLock {
+	tabId: string;
+	expiresAt: number;
+}
+
+// the Web Locks API, which the DOM types of TypeScript do not include yet
+interface WebLocks {
+	request(
+		name: string,
+		options: { ifAvailable?: boolean },
+		callback: (lock: object | null) => Promise<void> | void
+	): Promise<void>;
+}
+
+const getWebLocks = (): WebLocks | undefined =>
+	typeof navigator !== 'undefined'
+		? (navigator as Navigator & { locks?: WebLocks }).locks
+		: undefined;
+
+const createTabId = () =>
+	`${Date.now().toString(36)}-${Math.random().toString(36).substr(2)}`;
+
+/**
+ * Broadcasts the auth events between the tabs of a browser which share the local storage, with a BroadcastChannel or
+ * with storage events where it is not available, and elects the tab which refreshes the tokens with a Web Lock or,
+ * where it is not available, with a lock in the local storage.
+ */
+export class SessionSync {
+	private readonly tabId = createTabId();
+	private readonly storage: Storage;
+	private readonly onEvent: (event: SessionSyncEvent) => void;
+	private channel: BroadcastChannel | null = null;
+	private refreshWaiters: (() => void)[] = [];
+	// releases the Web Lock held by this tab
+	private releaseWebLock: (() => void) | null = null;
+
+	public static isSupported() {
+		try {
+			return typeof window !== 'undefined' && !!window.localStorage;
+		} catch (error) {
+			// accessing the local storage throws when it is disabled
+			return false;
+		}
+	}
+
+	/**
+	 * @param {Function} onEvent - called with the events broadcast by the other tabs
+	 */
+	constructor(onEvent: (event: SessionSyncEvent) => void) {
+		this.storage = window.localStorage;
+		this.onEvent = onEvent;
+		this._onStorage = this._onStorage.bind(this);
+
+		if (typeof BroadcastChannel === 'function') {
+			this.channel = new BroadcastChannel(CHANNEL_NAME);
+			this.channel.onmessage = ({ data }) => this._receive(data);
+		} else {
+			window.addEventListener('storage', this._onStorage);
+		}
+	}
+
+	/**
+	 * Send an auth event to the other tabs, other events than sign in, sign out and token refresh are ignored
+	 * @param {String} event - the event of the auth Hub channel
+	 */
+	public broadcast(event: string) {
+		if (SYNCED_EVENTS.indexOf(event as SessionSyncEvent) === -1) {
+			return;
+		}
+		const message: SessionSyncMessage = {
+			event: event as SessionSyncEvent,
+			tabId: this.tabId,
+			sentAt: Date.now(),
+		};
+		logger.debug('broadcasting', message);
+
+		if (this.channel) {
+			this.channel.postMessage(message);
+		} else {
+			// a storage event is only fired in the other tabs when the value changes, the sender and its clock make it
+			// unique enough
+			this.storage.setItem(MESSAGE_KEY, JSON.stringify(message));
+			this.storage.removeItem(MESSAGE_KEY);
+		}
+	}
+
+	/**
+	 * Elect this tab to refresh the tokens, unless another tab is refreshing them
+	 * @return - A promise resolved with true if this tab has been elected, with false once the other tab has
+	 * refreshed the tokens, has failed to, or has lost the lock
+	 */
+	public electRefresher(): Promise<boolean> {
+		const webLocks = getWebLocks();
+		return webLocks
+			? this._electWithWebLock(webLocks)
+			: this._electWithStorageLock();
+	}
+
+	/**
+	 * Release the lock taken by electRefresher once the tokens have been refreshed
+	 */
+	public releaseRefresher() {
+		if (this.releaseWebLock) {
+			this.releaseWebLock();
+			this.releaseWebLock = null;
+			return;
+		}
+		const lock = this._readLock();
+		if (lock && lock.tabId === this.tabId) {
+			this.storage.removeItem(REFRESH_LOCK_KEY);
+		}
+	}
+
+	/**
+	 * Stop receiving the events of the other tabs
+	 */
+	public close() {
+		if (this.channel) {
+			this.channel.close();
+			this.channel = null;
+		} else {
+			window.removeEventListener('storage', this._onStorage);
+		}
+		this.refreshWaiters.forEach(stopWaiting => stopWaiting());
+		this.releaseRefresher();
+	}
+
+	private _electWithWebLock(webLocks: WebLocks): Promise<boolean> {
+		if (this.releaseWebLock) {
+			return Promise.resolve(true);
+		}
+		return new Promise(resolve => {
+			webLocks.request(REFRESH_LOCK_KEY, { ifAvailable: true }, lock => {
+				if (!lock) {
+					resolve(this._waitForRefresher(Date.now() + REFRESH_LOCK_TTL_IN_MS));
+					return;
+				}
+				resolve(true);
+				// the browser releases the lock of a closed tab
+				return new Promise<void>(release => {
+					this.releaseWebLock = release;
+				});
+			});
+		});
+	}
+
+	private async _electWithStorageLock(): Promise<boolean> {
+		let lock = this._readLock();
+		if (!lock || lock.tabId === this.tabId || lock.expiresAt <= Date.now()) {
+			const ownLock: RefreshLock = {
+				tabId: this.tabId,
+				expiresAt: Date.now() + REFRESH_LOCK_TTL_IN_MS,
+			};
+			this.storage.setItem(REFRESH_LOCK_KEY, JSON.stringify(ownLock));
+			// reading and writing the storage is not atomic, the tab is only elected if its lock has not been overwritten
+			await new Promise(resolve =>
+				setTimeout(resolve, REFRESH_LOCK_CONFIRM_DELAY_IN_MS)
+			);
+			lock = this._readLock();
+			if (!lock || lock.tabId === this.tabId) {
+				// no lock means that the tab which overwrote it has already released it
+				return !!lock;
+			}
+		}
+		return this._waitForRefresher(lock.expiresAt);
+	}
+
+	private _waitForRefresher(expiresAt: number): Promise<boolean> {
+		logger.debug('waiting for another tab to refresh the tokens');
+		return new Promise(resolve => {
+			const stopWaiting = () => {
+				clearTimeout(timeout);
+				this.refreshWaiters = this.refreshWaiters.filter(
+					waiter => waiter !== stopWaiting
+				);
+				resolve(false);
+			};
+			const timeout = setTimeout(stopWaiting, expiresAt - Date.now());
+			this.refreshWaiters.push(stopWaiting);
+		});
+	}
+
+	private _onStorage({ key, newValue }: StorageEvent) {
+		if (key !== MESSAGE_KEY || !newValue) {
+			return;
+		}
+		let message: SessionSyncMessage;
+		try {
+			message = JSON.parse(newValue);
+		} catch (error) {
+			logger.debug('failed to parse the message', newValue);
+			return;
+		}
+		this._receive(message);
+	}
+
+	private _receive(message: SessionSyncMessage) {
+		if (
+			!message ||
+			message.tabId === this.tabId ||
+			SYNCED_EVENTS.indexOf(message.event) === -1
+		) {
+			return;
+		}
+		logger.debug('received', message);
+
+		if (REFRESH_RESULT_EVENTS.indexOf(message.event) !== -1) {
+			this.refreshWaiters.forEach(stopWaiting => stopWaiting());
+		}
+		this.onEvent(message.event);
+	}
+
+	private _readLock(): RefreshLock | null {
+		try {
+			return JSON.parse(this.storage.getItem(REFRESH_LOCK_KEY));
+		} catch (error) {
+			return null;
+		}
+	}
+}
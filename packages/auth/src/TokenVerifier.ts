@@ -0,0 +1,231 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { ConsoleLogger as Logger } from '@aws-amplify/core';
+
+import {
+	JsonWebKeySet,
+	JwksFetcher,
+	JwtPayload,
+	TokenVerifierCrypto,
+	TokenVerifierOptions,
+	VerifyTokenOptions,
+} from './types';
+import { TokenVerificationError } from './Errors';
+import { TokenVerificationErrorStrings } from './common/AuthErrorStrings';
+import { base64UrlToBytes, decodeBase64Url } from './common/JwtUtils';
+
+const logger = new Logger('TokenVerifier');
+
+const DEFAULT_CLOCK_SKEW_IN_SECONDS = 60;
+// the JWKS is fetched again for a token signed with an unknown key at most once in this interval
+const JWKS_REFETCH_INTERVAL_IN_MS = 60 * 1000;
+const SIGNATURE_ALGORITHM = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+
+const fetchJwks: JwksFetcher = async jwksUri => {
+	const response = await fetch(jwksUri);
+	if (!response.ok) {
+		throw new TokenVerificationError(
+			TokenVerificationErrorStrings.JWKS_UNAVAILABLE
+		);
+	}
+	return response.json();
+};
+
+// the global crypto is available in browsers and in Node.js since version 19
+const getGlobalCrypto = () =>
+	typeof crypto !== 'undefined' ? crypto : undefined;
+
+const asciiToBytes = (ascii: string) => {
+	const bytes = new Uint8Array(ascii.length);
+	for (let i = 0; i < ascii.length; i += 1) {
+		bytes[i] = ascii.charCodeAt(i);
+	}
+	return bytes;
+};
+
+/**
+ * Verifies the ID and access tokens issued by a user pool: the RS256 signature with the keys of the JWKS of the
+ * user pool, which are cached, and the issuer, client, token_use and expiry claims. It only needs fetch and
+ * WebCrypto, both can be passed in, so it can be used in Node.js backends and SSR handlers as well.
+ */
+export class TokenVerifier {
+	private readonly issuer: string;
+	private readonly jwksUri: string;
+	private readonly clockSkewInSeconds: number;
+	private readonly jwksFetcher: JwksFetcher;
+	private readonly crypto: TokenVerifierCrypto | undefined;
+	// imported public keys of the JWKS by their kid
+	private keys: { [kid: string]: CryptoKey } = {};
+	private pendingJwks: Promise<void> | null = null;
+	private jwksFetchedAt = 0;
+
+	constructor({
+		userPoolId,
+		endpoint,
+		issuer,
+		clockSkewInSeconds = DEFAULT_CLOCK_SKEW_IN_SECONDS,
+		jwksFetcher = fetchJwks,
+		crypto = getGlobalCrypto(),
+	}: TokenVerifierOptions) {
+		const region = userPoolId.split('_')[0];
+		// Cognito issues the tokens from its regional endpoint, whichever endpoint they have been requested from
+		this.issuer =
+			issuer || `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+		this.jwksUri = endpoint
+			? `${endpoint.replace(/\/+$/, '')}/${userPoolId}/.well-known/jwks.json`
+			: `${this.issuer}/.well-known/jwks.json`;
+		this.clockSkewInSeconds = clockSkewInSeconds;
+		this.jwksFetcher = jwksFetcher;
+		this.crypto = crypto;
+	}
+
+	public getIssuer() {
+		return this.issuer;
+	}
+
+	/**
+	 * Verify a token issued by the user pool
+	 * @param {String} token - the JWT
+	 * @param {VerifyTokenOptions} options - the expected token_use and client of the token
+	 * @return - A promise resolved with the payload of the token if it is valid, rejected with a
+	 * TokenVerificationError otherwise
+	 */
+	public async verifyToken(
+		token: string,
+		{ tokenUse, clientId }: VerifyTokenOptions
+	): Promise<JwtPayload> {
+		if (!this.crypto || !this.crypto.subtle) {
+			throw new TokenVerificationError(TokenVerificationErrorStrings.NO_CRYPTO);
+		}
+
+		const parts = typeof token === 'string' ? token.split('.') : [];
+		if (parts.length !== 3) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.MALFORMED_TOKEN
+			);
+		}
+		const [encodedHeader, encodedPayload, encodedSignature] = parts;
+		let header;
+		let payload: JwtPayload;
+		let signature: Uint8Array;
+		try {
+			header = JSON.parse(decodeBase64Url(encodedHeader));
+			payload = JSON.parse(decodeBase64Url(encodedPayload));
+			signature = base64UrlToBytes(encodedSignature);
+		} catch (error) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.MALFORMED_TOKEN
+			);
+		}
+
+		if (header.alg !== 'RS256') {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.UNSUPPORTED_ALGORITHM
+			);
+		}
+		const key = await this._getKey(header.kid);
+		const isValidSignature = await this.crypto.subtle.verify(
+			SIGNATURE_ALGORITHM,
+			key,
+			signature,
+			asciiToBytes(`${encodedHeader}.${encodedPayload}`)
+		);
+		if (!isValidSignature) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.INVALID_SIGNATURE
+			);
+		}
+
+		if (payload.iss !== this.issuer) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.INVALID_ISSUER
+			);
+		}
+		if (payload.token_use !== tokenUse) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.INVALID_TOKEN_USE
+			);
+		}
+		// unlike ID tokens, access tokens have no aud claim
+		const client = tokenUse === 'id' ? payload.aud : payload.client_id;
+		if (client !== clientId) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.INVALID_CLIENT
+			);
+		}
+		const now = Math.floor(Date.now() / 1000);
+		if (
+			typeof payload.exp !== 'number' ||
+			payload.exp + this.clockSkewInSeconds <= now
+		) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.EXPIRED_TOKEN
+			);
+		}
+
+		return payload;
+	}
+
+	private async _getKey(kid: string): Promise<CryptoKey> {
+		// a kid which is not cached yet may belong to a key added by a key rotation of the user pool
+		if (
+			!this.keys.hasOwnProperty(kid) &&
+			(this.pendingJwks ||
+				Date.now() - this.jwksFetchedAt >= JWKS_REFETCH_INTERVAL_IN_MS)
+		) {
+			await this._refreshKeys();
+		}
+		if (!this.keys.hasOwnProperty(kid)) {
+			throw new TokenVerificationError(
+				TokenVerificationErrorStrings.UNKNOWN_KEY
+			);
+		}
+		return this.keys[kid];
+	}
+
+	private _refreshKeys(): Promise<void> {
+		// concurrent verifications share one request for the JWKS
+		if (!this.pendingJwks) {
+			this.jwksFetchedAt = Date.now();
+			this.pendingJwks = this._fetchKeys().then(
+				() => {
+					this.pendingJwks = null;
+				},
+				error => {
+					this.pendingJwks = null;
+					this.jwksFetchedAt = 0;
+					throw error;
+				}
+			);
+		}
+		return this.pendingJwks;
+	}
+
+	private async _fetchKeys() {
+		logger.debug('fetching the JWKS', this.jwksUri);
+		const { keys }: JsonWebKeySet = await this.jwksFetcher(this.jwksUri);
+		const rsaKeys = keys.filter(({ kty }) => kty === 'RSA');
+		const cryptoKeys = await Promise.all(
+			rsaKeys.map(jwk =>
+				this.crypto.subtle.importKey('jwk', jwk, SIGNATURE_ALGORITHM, false, [
+					'verify',
+				])
+			)
+		);
+		this.keys = {};
+		rsaKeys.forEach(({ kid }, i) => {
+			this.keys[kid] = cryptoKeys[i];
+		});
+	}
+}
@@ -10,7 +10,23 @@ export enum AuthErrorStrings {
 	NO_MFA = 'No valid MFA method provided',
 	INVALID_MFA = 'Invalid MFA type',
 	EMPTY_CHALLENGE = 'Challenge response cannot be empty',
+	NO_SIGN_IN_IN_PROGRESS = 'No sign in is in progress, start one with Auth.startSignIn',
+	UNSUPPORTED_CHALLENGE = 'The challenge of the sign in is not supported',
+	NO_TOTP_SETUP = 'TOTP cannot be set up for the user, the sign in requires to set up another MFA type',
 	NO_USER_SESSION = 'Failed to get the session because the user is empty',
 	NETWORK_ERROR = 'Network Error',
 	DEVICE_CONFIG = 'Device tracking has not been configured in this User Pool',
 }
+
+export enum TokenVerificationErrorStrings {
+	MALFORMED_TOKEN = 'The token is not a valid JWT',
+	UNSUPPORTED_ALGORITHM = 'The token is not signed with RS256',
+	UNKNOWN_KEY = 'The token is signed with a key which is not in the JWKS of the user pool',
+	INVALID_SIGNATURE = 'The signature of the token is invalid',
+	INVALID_ISSUER = 'The token has not been issued by the user pool',
+	INVALID_TOKEN_USE = 'The token_use claim of the token does not match',
+	INVALID_CLIENT = 'The token has not been issued to the client',
+	EXPIRED_TOKEN = 'The token has expired',
+	JWKS_UNAVAILABLE = 'Failed to fetch the JWKS of the user pool',
+	NO_CRYPTO = 'WebCrypto is not available, pass its implementation as the crypto option',
+}
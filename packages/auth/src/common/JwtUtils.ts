@@ -0,0 +1,52 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+const BASE64_URL_CHARSET =
+	'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export const base64UrlToBytes = (base64Url: string) => {
+	const bytes = new Uint8Array(Math.floor((base64Url.length * 3) / 4));
+	let bits = 0;
+	let bitCount = 0;
+	let length = 0;
+	for (let i = 0; i < base64Url.length; i += 1) {
+		const value = BASE64_URL_CHARSET.indexOf(base64Url.charAt(i));
+		if (value === -1) {
+			throw new Error(`Invalid base64url character ${base64Url.charAt(i)}`);
+		}
+		bits = ((bits << 6) | value) & 0xffff;
+		bitCount += 6;
+		if (bitCount >= 8) {
+			bitCount -= 8;
+			bytes[length] = (bits >>> bitCount) & 0xff;
+			length += 1;
+		}
+	}
+	return bytes.subarray(0, length);
+};
+
+export const decodeBase64Url = (base64Url: string) => {
+	const bytes = base64UrlToBytes(base64Url);
+	let encoded = '';
+	for (let i = 0; i < bytes.length; i += 1) {
+		encoded += `%${(bytes[i] < 16 ? '0' : '') + bytes[i].toString(16)}`;
+	}
+	// the header and the payload of a JWT are UTF-8 encoded JSON
+	return decodeURIComponent(encoded);
+};
+
+/**
+ * Decode the payload of a JWT without verifying it
+ */
+export const decodeJwtPayload = (token: string) =>
+	JSON.parse(decodeBase64Url((token || '').split('.')[1] || ''));
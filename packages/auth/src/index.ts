@@ -16,6 +16,13 @@ import {
 	CognitoHostedUIIdentityProvider,
 	SignUpParams,
 	GRAPHQL_AUTH_MODE,
+	AuthSignInStep,
+	SignInResult,
+	ConfirmSignInParams,
+	TokenVerifierCrypto,
+	TokenVerifierOptions,
+	VerifyTokenOptions,
+	JwtPayload,
 } from './types/Auth';
 import {
 	CognitoUser,
@@ -23,6 +30,8 @@ import {
 	appendToCognitoUserAgent,
 } from 'amazon-cognito-identity-js';
 import { AuthErrorStrings } from './common/AuthErrorStrings';
+import { TokenVerifier } from './TokenVerifier';
+import { TokenVerificationError } from './Errors';
 
 /**
  * @deprecated use named import
@@ -37,4 +46,13 @@ export {
 	appendToCognitoUserAgent,
 	AuthErrorStrings,
 	GRAPHQL_AUTH_MODE,
+	AuthSignInStep,
+	SignInResult,
+	ConfirmSignInParams,
+	TokenVerifier,
+	TokenVerificationError,
+	TokenVerifierCrypto,
+	TokenVerifierOptions,
+	VerifyTokenOptions,
+	JwtPayload,
 };
@@ -50,6 +50,10 @@ export interface AuthOptions {
 	identityPoolRegion?: string;
 	clientMetadata?: any;
 	endpoint?: string;
+	totpIssuer?: string;
+	// broadcast the sign in, sign out and token refresh events between the tabs of a browser and let one of them
+	// refresh the tokens, the tabs must share the storage
+	crossTabSync?: boolean;
 }
 
 export enum CognitoHostedUIIdentityProvider {
@@ -141,7 +145,10 @@ export interface AwsCognitoOAuthOpts {
 export function isCognitoHostedOpts(
 	oauth: OAuthOpts
 ): oauth is AwsCognitoOAuthOpts {
-	return (<AwsCognitoOAuthOpts>oauth).redirectSignIn !== undefined;
+	return (
+		(<AwsCognitoOAuthOpts>oauth).redirectSignIn !== undefined &&
+		!isOidcOpts(oauth)
+	);
 }
 
 export interface Auth0OAuthOpts {
@@ -161,7 +168,40 @@ export interface Auth0OAuthOpts {
 //     auth0?: any
 // }
 
-export type OAuthOpts = AwsCognitoOAuthOpts | Auth0OAuthOpts;
+/**
+ * Options of an OpenID Connect provider, e.g. Okta, Keycloak or Azure AD, whose endpoints are discovered from the
+ * .well-known/openid-configuration of its issuer
+ */
+export interface OidcOAuthOpts {
+	issuer: string;
+	clientId: string;
+	scope: Array<string>;
+	redirectSignIn: string;
+	redirectSignOut: string;
+	urlOpener?: (url: string, redirectUrl: string) => Promise<any>;
+}
+
+export function isOidcOpts(oauth: OAuthOpts): oauth is OidcOAuthOpts {
+	return !!oauth && (<OidcOAuthOpts>oauth).issuer !== undefined;
+}
+
+/**
+ * The subset of the OpenID Provider Metadata used by the sign in, token refresh and sign out
+ */
+export interface OidcConfiguration {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	end_session_endpoint?: string;
+}
+
+export interface OAuthTokens {
+	accessToken: string;
+	idToken: string;
+	refreshToken: string;
+}
+
+export type OAuthOpts = AwsCognitoOAuthOpts | Auth0OAuthOpts | OidcOAuthOpts;
 
 export interface ConfirmSignUpOptions {
 	forceAliasCreation?: boolean;
@@ -197,6 +237,9 @@ export enum AuthErrorTypes {
 	NoMFA = 'noMFA',
 	InvalidMFA = 'invalidMFA',
 	EmptyChallengeResponse = 'emptyChallengeResponse',
+	NoSignInInProgress = 'noSignInInProgress',
+	UnsupportedChallenge = 'unsupportedChallenge',
+	NoTOTPSetup = 'noTOTPSetup',
 	NoUserSession = 'noUserSession',
 	Default = 'default',
 	DeviceConfig = 'deviceConfig',
@@ -223,6 +266,108 @@ export function isUsernamePasswordOpts(obj: any): obj is UsernamePasswordOpts {
 	return !!(obj as UsernamePasswordOpts).username;
 }
 
+/**
+ * The next step of a sign in started with Auth.startSignIn
+ */
+export enum AuthSignInStep {
+	CONFIRM_SIGN_IN_WITH_SMS_CODE = 'CONFIRM_SIGN_IN_WITH_SMS_CODE',
+	CONFIRM_SIGN_IN_WITH_TOTP_CODE = 'CONFIRM_SIGN_IN_WITH_TOTP_CODE',
+	CONFIRM_SIGN_IN_WITH_CUSTOM_CHALLENGE = 'CONFIRM_SIGN_IN_WITH_CUSTOM_CHALLENGE',
+	CONFIRM_SIGN_IN_WITH_NEW_PASSWORD_REQUIRED = 'CONFIRM_SIGN_IN_WITH_NEW_PASSWORD_REQUIRED',
+	CONTINUE_SIGN_IN_WITH_MFA_SELECTION = 'CONTINUE_SIGN_IN_WITH_MFA_SELECTION',
+	CONTINUE_SIGN_IN_WITH_TOTP_SETUP = 'CONTINUE_SIGN_IN_WITH_TOTP_SETUP',
+	DONE = 'DONE',
+}
+
+export type AuthMFAType = 'SMS' | 'TOTP';
+
+export interface AuthCodeDeliveryDetails {
+	destination: string;
+	deliveryMedium: string;
+}
+
+export interface AuthNextSignInStep {
+	signInStep: AuthSignInStep;
+	// where the code of CONFIRM_SIGN_IN_WITH_SMS_CODE has been sent
+	codeDeliveryDetails?: AuthCodeDeliveryDetails;
+	// attributes to send along with the new password of CONFIRM_SIGN_IN_WITH_NEW_PASSWORD_REQUIRED
+	missingAttributes?: string[];
+	// MFA types to choose from with CONTINUE_SIGN_IN_WITH_MFA_SELECTION
+	allowedMFATypes?: AuthMFAType[];
+	// otpauth:// URI to add to an authenticator app with CONTINUE_SIGN_IN_WITH_TOTP_SETUP
+	totpSetupUri?: string;
+	// parameters of the challenge of CONFIRM_SIGN_IN_WITH_CUSTOM_CHALLENGE
+	additionalInfo?: { [key: string]: string };
+}
+
+export interface SignInResult {
+	isSignedIn: boolean;
+	nextStep: AuthNextSignInStep;
+}
+
+/**
+ * Parameters to advance a sign in started with Auth.startSignIn. The challenge response is the code, the new
+ * password, the custom challenge answer or the selected MFA type depending on the sign in step.
+ */
+export interface ConfirmSignInParams {
+	challengeResponse: string;
+	options?: {
+		// required attributes along with a new password
+		userAttributes?: { [key: string]: string };
+		// name of the authenticator app of a TOTP setup
+		friendlyDeviceName?: string;
+		clientMetadata?: ClientMetaData;
+	};
+}
+
+export function isConfirmSignInParams(obj: any): obj is ConfirmSignInParams {
+	return !!obj && obj.hasOwnProperty('challengeResponse');
+}
+
+export type TokenUse = 'id' | 'access';
+
+export interface JsonWebKeySet {
+	keys: (JsonWebKey & { kid: string })[];
+}
+
+/**
+ * Fetches the JSON Web Key Set of a user pool, by default with the global fetch
+ */
+export type JwksFetcher = (jwksUri: string) => Promise<JsonWebKeySet>;
+
+/**
+ * The part of WebCrypto the token verifier uses
+ */
+export type TokenVerifierCrypto = {
+	subtle: Pick<SubtleCrypto, 'importKey' | 'verify'>;
+};
+
+export interface TokenVerifierOptions {
+	userPoolId: string;
+	// endpoint the JWKS of the user pool is fetched from instead of Cognito, e.g. a proxy or a local user pool
+	endpoint?: string;
+	// iss claim of the tokens of a user pool which is not hosted by Cognito, defaults to the Cognito issuer
+	issuer?: string;
+	// tolerated difference between the clock of the issuer and the local clock
+	clockSkewInSeconds?: number;
+	jwksFetcher?: JwksFetcher;
+	// WebCrypto implementation, e.g. require('crypto').webcrypto in Node.js versions without a global crypto
+	crypto?: TokenVerifierCrypto;
+}
+
+export interface VerifyTokenOptions {
+	tokenUse: TokenUse;
+	// expected aud claim of an ID token or client_id claim of an access token
+	clientId: string;
+}
+
+export interface JwtPayload {
+	iss: string;
+	token_use: TokenUse;
+	exp: number;
+	[claim: string]: any;
+}
+
 export interface IAuthDevice {
 	id: string;
 	name: string;
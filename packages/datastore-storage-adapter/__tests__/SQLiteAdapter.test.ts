@@ -3,15 +3,19 @@ sqlite3.verbose();
 
 import SQLiteAdapter from '../src/SQLiteAdapter/SQLiteAdapter';
 import SQLiteDatabase from '../src/SQLiteAdapter/SQLiteDatabase';
+import { CommonSQLiteAdapter } from '../src/common/CommonSQLiteAdapter';
+import { modelInsertStatement } from '../src/common/SQLiteUtils';
 import { ParameterizedStatement } from '../src/common/types';
 import {
 	DataStore as DataStoreType,
 	StorageAdapter,
 	PersistentModelConstructor,
 	initSchema as initSchemaType,
+	InternalSchema,
 } from '@aws-amplify/datastore';
 import { Model, Post, Comment, testSchema } from './helpers';
 import { SyncEngine } from '@aws-amplify/datastore/lib/sync';
+import { inMemoryAggregate } from '@aws-amplify/datastore/lib/util';
 import Observable from 'zen-observable';
 import {
 	pause,
@@ -30,7 +34,7 @@ jest.mock('@aws-amplify/datastore/src/sync/datastoreConnectivity', () => {
 jest.mock('react-native-sqlite-storage', () => {
 	return {
 		async openDatabase(name, version, displayname, size) {
-			return new InnerSQLiteDatabase();
+			return mockExistingDatabase || new InnerSQLiteDatabase();
 		},
 		async deleteDatabase(name) {},
 		enablePromise(enabled) {},
@@ -41,13 +45,15 @@ jest.mock('react-native-sqlite-storage', () => {
 let initSchema: typeof initSchemaType;
 let DataStore: typeof DataStoreType;
 let sqlog: any[];
+// the database of an app that is upgraded, instead of a new one
+let mockExistingDatabase: InnerSQLiteDatabase;
 
 /**
  * A lower-level SQLite wrapper to test SQLiteAdapter against.
  * It's intended to be fast, using an in-memory database.
  */
 class InnerSQLiteDatabase {
-	private innerDB;
+	protected innerDB;
 
 	constructor() {
 		this.innerDB = new sqlite3.Database(':memory:');
@@ -60,7 +66,8 @@ class InnerSQLiteDatabase {
 		logger = undefined
 	) {
 		sqlog.push(`${statement}; ${JSON.stringify(params)}`);
-		if (statement.trim().toLowerCase().startsWith('select')) {
+		// PRAGMA statements return rows too, e.g. the columns of a table
+		if (/^(select|pragma)/.test(statement.trim().toLowerCase())) {
 			return new Promise(async resolve => {
 				const rows = [];
 				const resultSet = {
@@ -101,6 +108,58 @@ class InnerSQLiteDatabase {
 	async close() {}
 }
 
+/**
+ * Like react-native-sqlite-storage, runs one transaction at a time and rolls
+ * back the whole transaction when one of its statements fails
+ */
+class TransactionalSQLiteDatabase extends InnerSQLiteDatabase {
+	private transactions: Promise<void> = Promise.resolve();
+
+	async transaction(fn) {
+		const transaction = this.transactions.then(() => this.runTransaction(fn));
+		this.transactions = transaction.catch(() => {});
+
+		return transaction;
+	}
+
+	private async runTransaction(fn) {
+		const results = [];
+
+		await this.run('BEGIN');
+		await fn({
+			executeSql: (statement, params = [], callback = undefined) =>
+				results.push(
+					(/^(select|pragma)/.test(statement.trim().toLowerCase())
+						? this.executeSql(statement, params, callback)
+						: this.run(statement, params).then(
+								() => callback && callback(this, {})
+						  )
+					).then(
+						() => undefined,
+						err => err
+					)
+				),
+		});
+
+		const [err] = (await Promise.all(results)).filter(Boolean);
+
+		await this.run(err ? 'ROLLBACK' : 'COMMIT');
+
+		if (err) throw err;
+	}
+
+	// unlike executeSql, fails when the statement does
+	private run(statement, params = []) {
+		sqlog.push(`${statement}; ${JSON.stringify(params)}`);
+
+		return new Promise<void>((resolve, reject) =>
+			this.innerDB.run(statement, params, err =>
+				err ? reject(err) : resolve()
+			)
+		);
+	}
+}
+
 describe('SQLiteAdapter', () => {
 	let Comment: PersistentModelConstructor<Comment>;
 	let Model: PersistentModelConstructor<Model>;
@@ -241,4 +300,178 @@ describe('SQLiteAdapter', () => {
 			});
 		});
 	});
+
+	describe('aggregate', () => {
+		// the models of the test schema have no boolean field
+		const schema: InternalSchema = {
+			namespaces: {
+				user: {
+					name: 'user',
+					enums: {},
+					models: {
+						Todo: {
+							name: 'Todo',
+							pluralName: 'Todos',
+							fields: {
+								id: {
+									name: 'id',
+									type: 'ID',
+									isRequired: true,
+									isArray: false,
+								},
+								done: { name: 'done', type: 'Boolean', isArray: false },
+								tags: { name: 'tags', type: 'String', isArray: true },
+							},
+						},
+					},
+				},
+			},
+			version: '1',
+		};
+		const todos: any[] = [
+			{ id: '1', done: true, tags: ['home'] },
+			{ id: '2', done: false, tags: ['work'] },
+			{ id: '3', done: true },
+		];
+		let adapter: CommonSQLiteAdapter;
+
+		beforeAll(async () => {
+			const db = new SQLiteDatabase();
+			adapter = new CommonSQLiteAdapter(db);
+			await adapter.setUp(schema, () => 'user', undefined, undefined);
+
+			for (const todo of todos) {
+				const [statement, params] = modelInsertStatement(todo, 'Todo');
+				await db.save(statement, params);
+			}
+		});
+
+		it('returns the keys and values with the types of their fields, like in-memory aggregation', async () => {
+			const Todo = <PersistentModelConstructor<any>>(<unknown>{ name: 'Todo' });
+
+			for (const aggregation of [
+				{ count: true, groupBy: 'done' },
+				{ count: true, min: 'done', max: 'done' },
+				{ count: true, groupBy: 'tags' },
+			]) {
+				expect(await adapter.aggregate(Todo, undefined, aggregation)).toEqual(
+					inMemoryAggregate(todos, aggregation)
+				);
+			}
+		});
+	});
+
+	describe('upgrading the local store', () => {
+		afterEach(async () => {
+			mockExistingDatabase = undefined;
+			await DataStore.clear();
+		});
+
+		it('adds the columns of newer versions to the tables of the sync models', async () => {
+			mockExistingDatabase = new InnerSQLiteDatabase();
+			// the outbox table before the mutation attempts were persisted
+			await mockExistingDatabase.executeSql(
+				'CREATE TABLE "MutationEvent" ("id" PRIMARY KEY NOT NULL, "model" TEXT NOT NULL, "data" TEXT NOT NULL, ' +
+					'"modelId" TEXT NOT NULL, "operation" TEXT NOT NULL, "condition" TEXT NOT NULL)'
+			);
+
+			DataStore.configure({
+				storageAdapter: SQLiteAdapter,
+			});
+			initSchema(testSchema());
+			await DataStore.start();
+
+			const db: SQLiteDatabase = (DataStore as any).storageAdapter.db;
+			const columns = await db.getAll<any>(
+				'PRAGMA table_info("MutationEvent")',
+				[]
+			);
+			expect(columns.map(({ name }) => name)).toEqual(
+				expect.arrayContaining(['attempts', 'error'])
+			);
+
+			await db.save(
+				`insert into "MutationEvent" (
+					"id", "model", "data", "modelId", "operation", "condition"
+				) VALUES (?, ?, ?, ?, ?, ?)`,
+				['mutation-id', 'Model', '{}', 'model-id', 'Create', '{}']
+			);
+			await db.save(
+				'update "MutationEvent" set "attempts"=?, "error"=? where "id"=?',
+				[1, 'Network error', 'mutation-id']
+			);
+			const mutation = await db.get<any>(
+				'select * from "MutationEvent" where "id"=?',
+				['mutation-id']
+			);
+			expect(mutation).toMatchObject({ attempts: 1, error: 'Network error' });
+		});
+
+		it('leaves the tables as they were when a migration fails', async () => {
+			mockExistingDatabase = new TransactionalSQLiteDatabase();
+			DataStore.configure({
+				storageAdapter: SQLiteAdapter,
+			});
+			const classes = initSchema(testSchema());
+			const { Model, Post } = classes as {
+				Model: PersistentModelConstructor<Model>;
+				Post: PersistentModelConstructor<Post>;
+			};
+			await DataStore.start();
+			await DataStore.save(
+				new Model({
+					field1: 'original',
+					dateCreated: new Date().toISOString(),
+					emails: ['original@example.com'],
+				})
+			);
+			await DataStore.save(new Post({ title: 'original' }));
+
+			// the app is started again with a newer version of the schema
+			const {
+				schema,
+				namespaceResolver,
+				modelInstanceCreator,
+				getModelConstructorByModelName,
+			} = (DataStore as any).storageAdapter;
+			const adapter = new CommonSQLiteAdapter(new SQLiteDatabase());
+			await adapter.setUp(
+				{ ...schema, version: '2' },
+				namespaceResolver,
+				modelInstanceCreator,
+				getModelConstructorByModelName,
+				undefined,
+				[
+					{
+						fromVersion: '1',
+						toVersion: '2',
+						// the Post records violate the NOT NULL of the title column
+						migrate: ({ modelName, record }) => ({
+							modelName,
+							record:
+								modelName === 'Post'
+									? { ...record, title: null }
+									: { ...record, field1: 'migrated' },
+						}),
+					},
+				]
+			);
+			await expect((adapter as any).initPromise).rejects.toThrow(
+				'NOT NULL constraint failed'
+			);
+
+			const db: SQLiteDatabase = (adapter as any).db;
+			expect(await db.getAll<any>('select * from "Model"', [])).toEqual([
+				expect.objectContaining({ field1: 'original' }),
+			]);
+			expect(await db.getAll<any>('select * from "Post"', [])).toEqual([
+				expect.objectContaining({ title: 'original' }),
+			]);
+			expect(
+				await db.get<any>('select * from "Setting" where "key"=?', [
+					'schemaVersion',
+				])
+			).toMatchObject({ value: JSON.stringify('1') });
+		});
+	});
 });
@@ -11,7 +11,13 @@ import {
 	deleteByIdStatement,
 	deleteByPredicateStatement,
 	modelCreateTableStatement,
+	modelColumnNames,
 	implicitAuthFieldsForModel,
+	aggregateStatement,
+	queryPageStatement,
+	searchSchemaStatements,
+	searchStatement,
+	journalInsertStatement,
 } from '../src/common/SQLiteUtils';
 import {
 	InternalSchema,
@@ -81,6 +87,26 @@ describe('SQLiteUtils tests', () => {
 		});
 	});
 
+	describe('modelColumnNames', () => {
+		it('should list the columns of the CREATE TABLE statement of a model', () => {
+			const columnNames = [
+				'id',
+				'post',
+				'postID',
+				'editor',
+				'editorID',
+				'createdAt',
+				'updatedAt',
+				'_version',
+				'_lastChangedAt',
+				'_deleted',
+			];
+
+			expect(modelColumnNames(postEditorImplicit, true)).toEqual(columnNames);
+			expect(modelColumnNames(postEditorExplicit, true)).toEqual(columnNames);
+		});
+	});
+
 	describe('implicitAuthFieldsForModel', () => {
 		it('should extract implicitly defined owner field from model attributes', () => {
 			expect(implicitAuthFieldsForModel(ownerAuthImplicit)).toEqual(['owner']);
@@ -269,6 +295,43 @@ describe('SQLiteUtils tests', () => {
 
 			expect(whereClauseFromPredicate(predicateGroup as any)).toEqual(expected);
 		});
+
+		it('should generate a subquery for relational predicates', () => {
+			const predicateGroup = {
+				type: 'and',
+				predicates: [
+					{
+						field: 'content',
+						operator: 'ne',
+						operand: 'spam',
+					},
+					{
+						relationField: 'post',
+						relationType: 'BELONGS_TO',
+						relatedModelName: 'Post',
+						localKey: 'postId',
+						relatedKey: 'id',
+						predicates: {
+							type: 'and',
+							predicates: [
+								{
+									field: 'title',
+									operator: 'beginsWith',
+									operand: 'Hello',
+								},
+							],
+						},
+					},
+				],
+			};
+
+			const expected = [
+				`WHERE ("content" != ? AND "postId" IN (SELECT "id" FROM "Post" WHERE ("title" LIKE ?)))`,
+				['spam', 'Hello%'],
+			];
+
+			expect(whereClauseFromPredicate(predicateGroup as any)).toEqual(expected);
+		});
 	});
 
 	describe('limitClauseFromPagination', () => {
@@ -367,6 +430,135 @@ describe('SQLiteUtils tests', () => {
 			).toEqual(expected);
 		});
 	});
+
+	describe('queryPageStatement', () => {
+		it('should generate valid SELECT statement for the first page', () => {
+			const expected = [
+				'SELECT * FROM "Model" ORDER BY "id" ASC LIMIT ?',
+				[10],
+			];
+
+			expect(queryPageStatement('Model', undefined, undefined, 10, {})).toEqual(
+				expected
+			);
+		});
+
+		it('should generate valid SELECT statement - with sort & cursor', () => {
+			const sortPredicateGroup = [
+				{
+					field: 'sortOrder',
+					sortDirection: 'ASCENDING',
+				},
+			];
+
+			const expected = [
+				'SELECT * FROM "Model" WHERE (("sortOrder" > ?) OR ("sortOrder" = ? AND "id" > ?)) ORDER BY "sortOrder" ASC, "id" ASC LIMIT ?',
+				[5, 5, 'abc', 10],
+			];
+
+			expect(
+				queryPageStatement('Model', undefined, sortPredicateGroup as any, 10, {
+					after: { id: 'abc', sortOrder: 5 } as any,
+				})
+			).toEqual(expected);
+		});
+	});
+
+	describe('aggregateStatement', () => {
+		it('should generate valid aggregate SELECT statement', () => {
+			const expected = [
+				'SELECT COUNT(*) AS "count", TOTAL("postId") AS "sum", MIN("title") AS "min", MAX("postId") AS "max", AVG("postId") AS "avg" FROM "Post"',
+				[],
+			];
+
+			expect(
+				aggregateStatement('Post', {
+					count: true,
+					sum: 'postId',
+					min: 'title',
+					max: 'postId',
+					avg: 'postId',
+				})
+			).toEqual(expected);
+		});
+
+		it('should generate valid aggregate SELECT statement - with predicates & groupBy', () => {
+			const predicateGroup = {
+				type: 'and',
+				predicates: [
+					{
+						field: 'postId',
+						operator: 'gt',
+						operand: 5,
+					},
+				],
+			};
+
+			const expected = [
+				'SELECT COUNT(*) AS "count", "title" AS "key" FROM "Post" WHERE ("postId" > ?) GROUP BY "title" ORDER BY "title" ASC',
+				[5],
+			];
+
+			expect(
+				aggregateStatement(
+					'Post',
+					{ count: true, groupBy: 'title' },
+					predicateGroup as any
+				)
+			).toEqual(expected);
+		});
+	});
+
+	describe('searchSchemaStatements', () => {
+		it('should generate an FTS5 table with triggers on the model table', () => {
+			const deleteOld = `INSERT INTO "Post_search"("Post_search", rowid, "title", "body") VALUES ('delete', old.rowid, old."title", old."body");`;
+			const insertNew = `INSERT INTO "Post_search"(rowid, "title", "body") VALUES (new.rowid, new."title", new."body");`;
+
+			expect(searchSchemaStatements('Post', ['title', 'body'])).toEqual([
+				`CREATE VIRTUAL TABLE IF NOT EXISTS "Post_search" USING fts5("title", "body", content='Post', content_rowid='rowid');`,
+				`CREATE TRIGGER IF NOT EXISTS "Post_search_insert" AFTER INSERT ON "Post" BEGIN ${insertNew} END;`,
+				`CREATE TRIGGER IF NOT EXISTS "Post_search_delete" AFTER DELETE ON "Post" BEGIN ${deleteOld} END;`,
+				`CREATE TRIGGER IF NOT EXISTS "Post_search_update" AFTER UPDATE ON "Post" BEGIN ${deleteOld} ${insertNew} END;`,
+			]);
+		});
+	});
+
+	describe('searchStatement', () => {
+		it('should generate a ranked MATCH query on the searched columns', () => {
+			const expected = [
+				'SELECT "Post".* FROM "Post_search" JOIN "Post" ON "Post".rowid = "Post_search".rowid WHERE "Post_search" MATCH ? ORDER BY bm25("Post_search", 1, 0), "Post"."id" LIMIT ?',
+				['{title} : ("offline" OR "notes")', 10],
+			];
+
+			expect(
+				searchStatement('Post', ['title', 'body'], 'Offline, notes NOTES', {
+					fields: ['title'],
+					limit: 10,
+				})
+			).toEqual(expected);
+		});
+	});
+
+	describe('journalInsertStatement', () => {
+		it('should keep the record as it was before a write', () => {
+			const record = { id: 'abc', field1: 'test', _version: 1 };
+
+			const expected = [
+				'INSERT INTO "__transactionJournal" ("tableName", "modelId", "record") VALUES (?, ?, ?)',
+				['Model', 'abc', JSON.stringify(record)],
+			];
+
+			expect(journalInsertStatement('Model', 'abc', <any>record)).toEqual(
+				expected
+			);
+		});
+
+		it('should keep records that did not exist as NULL', () => {
+			const [, params] = journalInsertStatement('Model', 'abc', undefined);
+
+			expect(params).toEqual(['Model', 'abc', null]);
+		});
+	});
 });
 
 const postEditorImplicit: SchemaModel = {
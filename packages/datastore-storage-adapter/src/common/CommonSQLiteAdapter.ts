@@ -1,13 +1,31 @@
 import { ConsoleLogger as Logger } from '@aws-amplify/core';
 import {
 	generateSchemaStatements,
+	modelCreateTableStatement,
+	modelColumnNames,
+	modelAddColumnStatements,
+	dropTableStatement,
+	tablesStatement,
+	tableColumnsStatement,
 	queryByIdStatement,
 	modelUpdateStatement,
 	modelInsertStatement,
 	queryAllStatement,
+	queryPageStatement,
 	queryOneStatement,
 	deleteByIdStatement,
 	deleteByPredicateStatement,
+	aggregateStatement,
+	searchTableName,
+	searchSchemaStatements,
+	dropSearchStatements,
+	rebuildSearchStatement,
+	searchStatement,
+	journalCreateTableStatement,
+	journalInsertStatement,
+	journalQueryStatement,
+	journalClearStatement,
+	valueFromSQLite,
 } from '../common/SQLiteUtils';
 
 import {
@@ -27,16 +45,30 @@ import {
 	PredicateObject,
 	PredicatesGroup,
 	QueryOne,
+	AggregateInput,
+	AggregateGroupResult,
+	SchemaMigration,
+	MigrationStoreReplacement,
+	LocalSearchFields,
+	SearchInput,
 	utils,
 } from '@aws-amplify/datastore';
 import { CommonSQLiteDatabase, ParameterizedStatement } from './types';
 
-const { traverseModel, validatePredicate, isModelConstructor } = utils;
+const {
+	traverseModel,
+	validatePredicate,
+	isModelConstructor,
+	migrateLocalStore,
+	getSearchableFields,
+	USER,
+} = utils;
 
 const logger = new Logger('DataStore');
 
 export class CommonSQLiteAdapter implements StorageAdapter {
 	private schema: InternalSchema;
+	private localSearchFields: LocalSearchFields;
 	private namespaceResolver: NamespaceResolver;
 	private modelInstanceCreator: ModelInstanceCreator;
 	private getModelConstructorByModelName: (
@@ -47,6 +79,7 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 	private initPromise: Promise<void>;
 	private resolve: (value?: any) => void;
 	private reject: (value?: any) => void;
+	private inTransaction = false;
 
 	constructor(db: CommonSQLiteDatabase) {
 		this.db = db;
@@ -59,7 +92,10 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 		getModelConstructorByModelName: (
 			namsespaceName: string,
 			modelName: string
-		) => PersistentModelConstructor<any>
+		) => PersistentModelConstructor<any>,
+		sessionId?: string,
+		migrations?: SchemaMigration[],
+		localSearchFields?: LocalSearchFields
 	) {
 		if (!this.initPromise) {
 			this.initPromise = new Promise((res, rej) => {
@@ -71,6 +107,7 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 			return;
 		}
 		this.schema = theSchema;
+		this.localSearchFields = localSearchFields;
 		this.namespaceResolver = namespaceResolver;
 		this.modelInstanceCreator = modelInstanceCreator;
 		this.getModelConstructorByModelName = getModelConstructorByModelName;
@@ -78,7 +115,32 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 		try {
 			await this.db.init();
 			const statements = generateSchemaStatements(this.schema);
-			await this.db.createSchema(statements);
+			await this.db.createSchema([
+				...statements,
+				journalCreateTableStatement(),
+			]);
+
+			await this.addMissingSyncColumns();
+
+			// a transaction that was open when the app was closed
+			await this.rollbackJournal();
+
+			const migrated = await migrateLocalStore(theSchema, migrations, {
+				getModelNames: namespaceName => this.getModelNames(namespaceName),
+				getAll: (_namespaceName, modelName) => {
+					const [queryStatement, params] = queryAllStatement(modelName);
+
+					return this.db.getAll(queryStatement, params);
+				},
+				replaceAll: replacements => this.replaceAll(replacements),
+			});
+
+			if (migrated) {
+				logger.debug(`Local data migrated to version ${theSchema.version}`);
+			}
+
+			// migrated tables were recreated without their search triggers
+			await this.setUpSearch(migrated);
 
 			this.resolve();
 		} catch (error) {
@@ -86,12 +148,220 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 		}
 	}
 
+	/**
+	 * CREATE TABLE IF NOT EXISTS leaves the tables of an older version as
+	 * they are. The user tables are recreated by the schema migrations, the
+	 * tables of the other namespaces get the columns added by this version.
+	 */
+	private async addMissingSyncColumns(): Promise<void> {
+		for (const [namespaceName, namespace] of Object.entries(
+			this.schema.namespaces
+		)) {
+			if (namespaceName === USER) {
+				continue;
+			}
+
+			for (const model of Object.values(namespace.models)) {
+				const [columnsStatement, columnsParams] = tableColumnsStatement(
+					model.name
+				);
+				const columns = await this.db.getAll<any>(
+					columnsStatement,
+					columnsParams
+				);
+				const statements = modelAddColumnStatements(
+					model,
+					new Set(columns.map(({ name }) => name))
+				);
+
+				if (statements.length > 0) {
+					await this.db.createSchema(statements);
+				}
+			}
+		}
+	}
+
+	/**
+	 * The models of a namespace that have a table, including the models that
+	 * are no longer part of the schema. Tables are named after their model,
+	 * so the models of the other namespaces are left out by name.
+	 */
+	private async getModelNames(namespaceName: string): Promise<string[]> {
+		const [statement, params] = tablesStatement();
+		const tables = await this.db.getAll<any>(statement, params);
+
+		// search tables and the tables FTS5 keeps their index in
+		const searchTables = tables
+			.filter(({ sql }) => /^CREATE VIRTUAL TABLE/i.test(sql))
+			.map(({ name }) => name);
+		const otherModels = new Set(
+			Object.keys(this.schema.namespaces)
+				.filter(name => name !== namespaceName)
+				.flatMap(name => Object.keys(this.schema.namespaces[name].models))
+		);
+
+		return tables
+			.map(({ name }) => <string>name)
+			.filter(
+				name =>
+					!name.startsWith('sqlite_') &&
+					!name.startsWith('__') &&
+					!otherModels.has(name) &&
+					!searchTables.some(
+						searchTable =>
+							name === searchTable || name.startsWith(`${searchTable}_`)
+					)
+			);
+	}
+
+	/**
+	 * Recreates the tables of the models, since their columns may have changed
+	 * with the schema, and fills them with the new records. The tables of the
+	 * models that are no longer part of the schema are dropped. All of it
+	 * happens in a single SQL transaction, so that an interrupted migration
+	 * leaves every table as it was.
+	 */
+	private async replaceAll(
+		replacements: MigrationStoreReplacement[]
+	): Promise<void> {
+		const statements = new Set<ParameterizedStatement>();
+
+		for (const { namespaceName, modelName, records } of replacements) {
+			const model = this.schema.namespaces[namespaceName].models[modelName];
+
+			if (model === undefined) {
+				for (const statement of [
+					...dropSearchStatements(modelName),
+					dropTableStatement(modelName),
+				]) {
+					statements.add([statement, []]);
+				}
+
+				continue;
+			}
+
+			const userModel = namespaceName === USER;
+
+			statements.add([dropTableStatement(modelName), []]);
+			statements.add([modelCreateTableStatement(model, userModel), []]);
+
+			// fields that aren't columns of the new table can't be inserted
+			const columnNames = new Set(modelColumnNames(model, userModel));
+
+			records.forEach(record =>
+				statements.add(
+					modelInsertStatement(
+						Object.keys(record)
+							.filter(key => columnNames.has(key))
+							.reduce(
+								(row, key) => ({ ...row, [key]: record[key] }),
+								<PersistentModel>{}
+							),
+						modelName
+					)
+				)
+			);
+		}
+
+		await this.db.batchSave(statements);
+	}
+
+	/**
+	 * Creates the search tables of the models indexed for search. A search
+	 * table is recreated when its columns no longer match the searchable
+	 * fields, and rebuilt whenever its rows may be out of date.
+	 */
+	private async setUpSearch(rebuild: boolean): Promise<void> {
+		const { models } = this.schema.namespaces[USER];
+
+		for (const model of Object.values(models)) {
+			const fields = getSearchableFields(model, this.localSearchFields);
+
+			if (fields.length === 0) {
+				continue;
+			}
+
+			const [columnsStatement, columnsParams] = tableColumnsStatement(
+				searchTableName(model.name)
+			);
+			const columns = await this.db.getAll<any>(
+				columnsStatement,
+				columnsParams
+			);
+			const upToDate = columns.map(({ name }) => name).join() === fields.join();
+
+			await this.db.createSchema([
+				...(upToDate ? [] : dropSearchStatements(model.name)),
+				...searchSchemaStatements(model.name, fields),
+			]);
+
+			if (!upToDate || rebuild) {
+				const [statement, params] = rebuildSearchStatement(model.name);
+				await this.db.save(statement, params);
+			}
+		}
+	}
+
 	async clear(): Promise<void> {
 		await this.db.clear();
 
 		this.initPromise = undefined;
 	}
 
+	async startTransaction(): Promise<void> {
+		this.inTransaction = true;
+	}
+
+	async commitTransaction(): Promise<void> {
+		this.inTransaction = false;
+
+		const [statement, params] = journalClearStatement();
+		await this.db.save(statement, params);
+	}
+
+	async rollbackTransaction(): Promise<void> {
+		this.inTransaction = false;
+
+		await this.rollbackJournal();
+	}
+
+	/**
+	 * Restores the records written since the transaction started, from the
+	 * oldest journal entry of each, and empties the journal. The journal
+	 * entries of a write are saved in the SQL transaction of the write, and
+	 * the rollback happens in a single SQL transaction too.
+	 */
+	private async rollbackJournal(): Promise<void> {
+		const [queryStatement, queryParams] = journalQueryStatement();
+		const entries = await this.db.getAll<any>(queryStatement, queryParams);
+
+		if (entries.length === 0) {
+			return;
+		}
+
+		const restored = new Set<string>();
+		const statements = new Set<ParameterizedStatement>();
+
+		for (const { tableName, modelId, record } of entries) {
+			const entryKey = JSON.stringify([tableName, modelId]);
+
+			if (restored.has(entryKey)) {
+				continue;
+			}
+
+			restored.add(entryKey);
+			statements.add(deleteByIdStatement(modelId, tableName));
+
+			if (record !== null) {
+				statements.add(modelInsertStatement(JSON.parse(record), tableName));
+			}
+		}
+
+		statements.add(journalClearStatement());
+
+		await this.db.batchSave(statements);
+	}
+
 	async save<T extends PersistentModel>(
 		model: T,
 		condition?: ModelPredicate<T>
@@ -148,6 +418,10 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 				: modelInsertStatement(instance, modelName);
 
 			if (id === model.id || opType === OpType.INSERT) {
+				if (this.inTransaction) {
+					saveStatements.add(journalInsertStatement(modelName, id, fromDB));
+				}
+
 				saveStatements.add(saveStatement);
 				result.push([instance, opType]);
 			}
@@ -262,10 +536,23 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 			ModelSortPredicateCreator.getPredicates(pagination.sort);
 		const limit = pagination && pagination.limit;
 		const page = limit && pagination.page;
+		const cursor = pagination && pagination.cursor;
 
 		const queryById = predicates && this.idFromPredicate(predicates);
 
 		const records: T[] = <T[]>await (async () => {
+			if (cursor) {
+				const [queryStatement, params] = queryPageStatement(
+					tableName,
+					predicates,
+					sortPredicates,
+					limit,
+					cursor
+				);
+
+				return await this.db.getAll(queryStatement, params);
+			}
+
 			if (queryById) {
 				const record = await this.getById(tableName, queryById);
 				return record ? [record] : [];
@@ -323,6 +610,63 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 		return modelInstance;
 	}
 
+	async aggregate<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		predicate: ModelPredicate<T> | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<AggregateGroupResult<T>[]> {
+		const { name: tableName } = modelConstructor;
+
+		const predicates =
+			predicate && ModelPredicateCreator.getPredicates(predicate);
+
+		const [statement, params] = aggregateStatement(
+			tableName,
+			aggregation,
+			predicates
+		);
+
+		const rows = await this.db.getAll<any>(statement, params);
+
+		const namespaceName = this.namespaceResolver(modelConstructor);
+		const { fields } = this.schema.namespaces[namespaceName].models[tableName];
+		const { groupBy, min, max } = aggregation;
+
+		// ungrouped aggregations don't select a key column
+		return rows.map(({ key = null, ...result }) => ({
+			...result,
+			key: valueFromSQLite(fields[<string>groupBy], key),
+			...(min !== undefined && {
+				min: valueFromSQLite(fields[<string>min], result.min),
+			}),
+			...(max !== undefined && {
+				max: valueFromSQLite(fields[<string>max], result.max),
+			}),
+		}));
+	}
+
+	async search<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		search: SearchInput
+	): Promise<T[]> {
+		const namespaceName = this.namespaceResolver(modelConstructor);
+		const { name: tableName } = modelConstructor;
+		const modelDefinition =
+			this.schema.namespaces[namespaceName].models[tableName];
+
+		const [statement, params] = searchStatement(
+			tableName,
+			getSearchableFields(modelDefinition, this.localSearchFields),
+			text,
+			search
+		);
+
+		const records = await this.db.getAll<T>(statement, params);
+
+		return await this.load(namespaceName, modelConstructor.name, records);
+	}
+
 	// Currently does not cascade
 	// TODO: use FKs in relations and have `ON DELETE CASCADE` set
 	// For Has Many and Has One relations to have SQL handle cascades automatically
@@ -341,10 +685,9 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 			const queryStatement = queryAllStatement(tableName, predicates);
 			const deleteStatement = deleteByPredicateStatement(tableName, predicates);
 
-			const models = await this.db.selectAndDelete(
-				queryStatement,
-				deleteStatement
-			);
+			const models = this.inTransaction
+				? await this.journaledDelete(tableName, queryStatement, deleteStatement)
+				: await this.db.selectAndDelete(queryStatement, deleteStatement);
 
 			const modelInstances = await this.load(
 				namespaceName,
@@ -390,7 +733,17 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 					model.id,
 					tableName
 				);
-				await this.db.save(deleteStatement, deleteParams);
+
+				if (this.inTransaction) {
+					await this.db.batchSave(
+						new Set([
+							journalInsertStatement(tableName, model.id, fromDB),
+							<ParameterizedStatement>[deleteStatement, deleteParams],
+						])
+					);
+				} else {
+					await this.db.save(deleteStatement, deleteParams);
+				}
 
 				return [[model], [model]];
 			} else {
@@ -398,13 +751,47 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 					model.id,
 					tableName
 				);
-				await this.db.save(deleteStatement, params);
+
+				if (this.inTransaction) {
+					await this.journaledDelete(
+						tableName,
+						queryByIdStatement(model.id, tableName),
+						[deleteStatement, params]
+					);
+				} else {
+					await this.db.save(deleteStatement, params);
+				}
 
 				return [[model], [model]];
 			}
 		}
 	}
 
+	/**
+	 * Deletes records in a transaction, together with their journal entries
+	 *
+	 * @return the deleted records
+	 */
+	private async journaledDelete<T extends PersistentModel>(
+		tableName: string,
+		queryParameterizedStatement: ParameterizedStatement,
+		deleteParameterizedStatement: ParameterizedStatement
+	): Promise<T[]> {
+		const [queryStatement, queryParams] = queryParameterizedStatement;
+		const records = await this.db.getAll<T>(queryStatement, queryParams);
+
+		await this.db.batchSave(
+			new Set([
+				...records.map(record =>
+					journalInsertStatement(tableName, record.id, record)
+				),
+				deleteParameterizedStatement,
+			])
+		);
+
+		return records;
+	}
+
 	async batchSave<T extends PersistentModel>(
 		modelConstructor: PersistentModelConstructor<any>,
 		items: ModelInstanceMetadata[]
@@ -420,6 +807,7 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 		// the delete operation will be a no-op
 		const deleteStatements = new Set<ParameterizedStatement>();
 		const saveStatements = new Set<ParameterizedStatement>();
+		const deletedIds: string[] = [];
 
 		for (const item of items) {
 			const connectedModels = traverseModel(
@@ -440,6 +828,7 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 				// create the delete statements right away
 				const deleteStatement = deleteByIdStatement(instance.id, tableName);
 				deleteStatements.add(deleteStatement);
+				deletedIds.push(id);
 				result.push([<T>(<unknown>item), OpType.DELETE]);
 			} else {
 				// query statements for the saves at first
@@ -453,6 +842,24 @@ export class CommonSQLiteAdapter implements StorageAdapter {
 		// returns the query results for each of the save items
 		const queryResponses = await this.db.batchQuery(queryStatements);
 
+		if (this.inTransaction) {
+			// the journal is saved before the deletes, which run separately
+			const deletedRecords = await this.db.batchQuery(
+				new Set(deletedIds.map(id => queryByIdStatement(id, tableName)))
+			);
+
+			deletedIds.forEach((id, idx) =>
+				saveStatements.add(
+					journalInsertStatement(tableName, id, deletedRecords[idx])
+				)
+			);
+			queryResponses.forEach((response, idx) =>
+				saveStatements.add(
+					journalInsertStatement(tableName, itemsToSave[idx].id, response)
+				)
+			);
+		}
+
 		queryResponses.forEach((response, idx) => {
 			if (response === undefined) {
 				const insertStatement = modelInsertStatement(
@@ -10,18 +10,24 @@ import {
 	SortPredicatesGroup,
 	PredicateObject,
 	isPredicateGroup,
+	isRelationalPredicateObj,
+	RelationalPredicateObject,
 	isModelFieldType,
+	isNonModelFieldType,
 	isTargetNameAssociation,
 	isModelAttributeAuth,
 	ModelAttributeAuth,
 	ModelAuthRule,
 	utils,
 	GraphQLScalarType,
+	AggregateInput,
+	PaginationCursor,
+	SearchInput,
 } from '@aws-amplify/datastore';
 
 import { ParameterizedStatement } from './types';
 
-const { USER, isNonModelConstructor, isModelConstructor } = utils;
+const { USER, isNonModelConstructor, isModelConstructor, tokenize } = utils;
 
 const keysFromModel = model =>
 	Object.keys(model)
@@ -71,6 +77,38 @@ function prepareValueForDML(value: unknown): any {
 	return `${value}`;
 }
 
+/**
+ * Converts a value read from the column of `field` back to the type of the
+ * field: SQLite stores booleans as integers, and lists, AWSJSON, model and
+ * non-model fields as JSON text
+ */
+export function valueFromSQLite(
+	field: ModelField | undefined,
+	value: any
+): any {
+	const { isArray, type } = field || {};
+
+	if (
+		typeof value === 'string' &&
+		(isArray ||
+			type === 'AWSJSON' ||
+			isNonModelFieldType(type) ||
+			isModelFieldType(type))
+	) {
+		try {
+			return JSON.parse(value);
+		} catch {
+			return value;
+		}
+	}
+
+	if (typeof value === 'number' && type === 'Boolean') {
+		return Boolean(value);
+	}
+
+	return value;
+}
+
 export function getSQLiteType(
 	scalar: keyof Omit<
 		typeof GraphQLScalarType,
@@ -205,6 +243,75 @@ export function modelCreateTableStatement(
 	return createTableStatement;
 }
 
+/**
+ * The names of the columns of the table that `modelCreateTableStatement`
+ * creates for a model
+ */
+export function modelColumnNames(
+	model: SchemaModel,
+	userModel: boolean = false
+): string[] {
+	const columnNames = Object.values(model.fields).reduce(
+		(acc, field: ModelField) => {
+			acc.push(field.name);
+
+			// BELONGS_TO relations also have a column for their targetName
+			if (
+				isModelFieldType(field.type) &&
+				isTargetNameAssociation(field.association) &&
+				!model.fields[field.association.targetName]
+			) {
+				acc.push(field.association.targetName);
+			}
+
+			return acc;
+		},
+		<string[]>[]
+	);
+
+	return [
+		...columnNames,
+		...implicitAuthFieldsForModel(model),
+		...(userModel ? ['_version', '_lastChangedAt', '_deleted'] : []),
+	];
+}
+
+/**
+ * Adds the scalar fields of a model that aren't columns of its table yet,
+ * e.g. the fields a newer version added to a sync model. Existing rows have
+ * no value for them, so the columns are added without NOT NULL.
+ */
+export function modelAddColumnStatements(
+	model: SchemaModel,
+	columnNames: Set<string>
+): string[] {
+	return Object.values(model.fields).reduce((acc, field: ModelField) => {
+		if (isGraphQLScalarType(field.type) && !columnNames.has(field.name)) {
+			acc.push(
+				`ALTER TABLE "${model.name}" ADD COLUMN "${field.name}" ${getSQLiteType(
+					field.type
+				)};`
+			);
+		}
+
+		return acc;
+	}, <string[]>[]);
+}
+
+export function dropTableStatement(tableName: string): string {
+	return `DROP TABLE IF EXISTS "${tableName}";`;
+}
+
+export function tablesStatement(): ParameterizedStatement {
+	return [`SELECT "name", "sql" FROM sqlite_master WHERE "type" = 'table'`, []];
+}
+
+export function tableColumnsStatement(
+	tableName: string
+): ParameterizedStatement {
+	return [`PRAGMA table_info("${tableName}")`, []];
+}
+
 export function modelInsertStatement(
 	model: PersistentModel,
 	tableName: string
@@ -348,7 +455,10 @@ export function whereClauseFromPredicate<T extends PersistentModel>(
 	return [whereClause, params];
 
 	function recurse(
-		predicate: PredicatesGroup<T> | PredicateObject<T>,
+		predicate:
+			| PredicatesGroup<T>
+			| PredicateObject<T>
+			| RelationalPredicateObject<T>,
 		result = [],
 		params = []
 	): void {
@@ -382,12 +492,38 @@ export function whereClauseFromPredicate<T extends PersistentModel>(
 			const [condition, conditionParams] =
 				whereConditionFromPredicateObject(predicate);
 
+			result.push(condition);
+			params.push(...conditionParams);
+		} else if (isRelationalPredicateObj(predicate)) {
+			const [condition, conditionParams] =
+				whereConditionFromRelationalPredicate(predicate);
+
 			result.push(condition);
 			params.push(...conditionParams);
 		}
 	}
 }
 
+// the related records are selected with a subquery, so that relational predicates
+// are evaluated by SQLite instead of loading the related records
+function whereConditionFromRelationalPredicate<T extends PersistentModel>({
+	relatedModelName,
+	localKey,
+	relatedKey,
+	predicates,
+}: RelationalPredicateObject<T>): ParameterizedStatement {
+	let subquery = `SELECT "${relatedKey}" FROM "${relatedModelName}"`;
+	let params = [];
+
+	if (predicates.predicates.length) {
+		const [whereClause, whereParams] = whereClauseFromPredicate(predicates);
+		subquery += ` ${whereClause}`;
+		params = whereParams;
+	}
+
+	return [`"${localKey}" IN (${subquery})`, params];
+}
+
 const sortDirectionMap = {
 	ASCENDING: 'ASC',
 	DESCENDING: 'DESC',
@@ -450,6 +586,168 @@ export function queryAllStatement<T extends PersistentModel>(
 	return [statement, params];
 }
 
+/**
+ * Builds the keyset condition that selects the records coming after `cursor.after`
+ * when ordered by the sort fields and then by id.
+ * NULLs sort first in ascending order (and last in descending order), which matches
+ * SQLite's own ordering.
+ *
+ * @param sortPredicate sort fields of the query
+ * @param cursor cursor of the page being requested
+ * @returns (ParameterizedStatement | null) The condition or `null` for the first page.
+ */
+export function cursorConditionFromSort<T extends PersistentModel>(
+	sortPredicate: SortPredicatesGroup<T> = [],
+	cursor: PaginationCursor<T> = {}
+): ParameterizedStatement | null {
+	const { after } = cursor;
+
+	if (!after) {
+		return null;
+	}
+
+	const keyFields = [
+		...sortPredicate,
+		{ field: 'id', sortDirection: 'ASCENDING' },
+	] as SortPredicatesGroup<T>;
+
+	const terms = [];
+	const params = [];
+
+	keyFields.forEach(({ field, sortDirection }, i) => {
+		const value = after[field];
+		const isNull = value === null || value === undefined;
+
+		// nothing comes after NULL in descending order
+		if (isNull && sortDirection === 'DESCENDING') {
+			return;
+		}
+
+		const termParts = [];
+		const termParams = [];
+
+		for (const { field: prevField } of keyFields.slice(0, i)) {
+			const prevValue = after[prevField];
+
+			if (prevValue === null || prevValue === undefined) {
+				termParts.push(`"${prevField}" IS NULL`);
+			} else {
+				termParts.push(`"${prevField}" = ?`);
+				termParams.push(prevValue);
+			}
+		}
+
+		if (isNull) {
+			termParts.push(`"${field}" IS NOT NULL`);
+		} else if (sortDirection === 'ASCENDING') {
+			termParts.push(`"${field}" > ?`);
+			termParams.push(value);
+		} else {
+			termParts.push(`("${field}" < ? OR "${field}" IS NULL)`);
+			termParams.push(value);
+		}
+
+		terms.push(`(${termParts.join(' AND ')})`);
+		params.push(...termParams);
+	});
+
+	return [`(${terms.join(' OR ')})`, params];
+}
+
+export function queryPageStatement<T extends PersistentModel>(
+	tableName: string,
+	predicate?: PredicatesGroup<T>,
+	sort?: SortPredicatesGroup<T>,
+	limit?: number,
+	cursor?: PaginationCursor<T>
+): ParameterizedStatement {
+	let statement = `SELECT * FROM "${tableName}"`;
+	const params = [];
+	const conditions = [];
+
+	if (predicate && predicate.predicates.length) {
+		const [whereClause, whereParams] = whereClauseFromPredicate(predicate);
+		conditions.push(whereClause.replace(/^WHERE /, ''));
+		params.push(...whereParams);
+	}
+
+	const cursorCondition = cursorConditionFromSort(sort, cursor);
+	if (cursorCondition) {
+		const [condition, conditionParams] = cursorCondition;
+		conditions.push(condition);
+		params.push(...conditionParams);
+	}
+
+	if (conditions.length) {
+		statement += ` WHERE ${conditions.join(' AND ')}`;
+	}
+
+	const orderByParts = (sort || []).map(
+		({ field, sortDirection }) =>
+			`"${field}" ${sortDirectionMap[sortDirection]}`
+	);
+	orderByParts.push(`"id" ${sortDirectionMap.ASCENDING}`);
+	statement += ` ORDER BY ${orderByParts.join(', ')}`;
+
+	if (limit) {
+		const [limitClause, limitParams] = limitClauseFromPagination(limit);
+		statement += ` ${limitClause}`;
+		params.push(...limitParams);
+	}
+
+	return [statement, params];
+}
+
+export function aggregateStatement<T extends PersistentModel>(
+	tableName: string,
+	aggregation: AggregateInput<T>,
+	predicate?: PredicatesGroup<T>
+): ParameterizedStatement {
+	const { count, sum, min, max, avg, groupBy } = aggregation;
+	const columns = [];
+	const params = [];
+
+	if (count) {
+		columns.push('COUNT(*) AS "count"');
+	}
+
+	// TOTAL() returns 0 instead of NULL when there are no values to add up
+	if (sum !== undefined) {
+		columns.push(`TOTAL("${sum}") AS "sum"`);
+	}
+
+	if (min !== undefined) {
+		columns.push(`MIN("${min}") AS "min"`);
+	}
+
+	if (max !== undefined) {
+		columns.push(`MAX("${max}") AS "max"`);
+	}
+
+	if (avg !== undefined) {
+		columns.push(`AVG("${avg}") AS "avg"`);
+	}
+
+	if (groupBy !== undefined) {
+		columns.push(`"${groupBy}" AS "key"`);
+	}
+
+	let statement = `SELECT ${columns.join(', ')} FROM "${tableName}"`;
+
+	if (predicate && predicate.predicates.length) {
+		const [whereClause, whereParams] = whereClauseFromPredicate(predicate);
+		statement += ` ${whereClause}`;
+		params.push(...whereParams);
+	}
+
+	if (groupBy !== undefined) {
+		// NULL sorts first in ascending order, same as in-memory aggregation
+		statement += ` GROUP BY "${groupBy}" ORDER BY "${groupBy}" ASC`;
+	}
+
+	return [statement, params];
+}
+
 export function queryOneStatement(
 	firstOrLast,
 	tableName: string
@@ -486,3 +784,115 @@ export function deleteByPredicateStatement<T extends PersistentModel>(
 	}
 	return [statement, params];
 }
+
+// GraphQL reserves names starting with `__`, so no model has a table by this name
+const JOURNAL_TABLE_NAME = '__transactionJournal';
+
+/**
+ * The records written by the open transaction, as they were before it
+ * started. `record` is `NULL` for records that didn't exist.
+ */
+export function journalCreateTableStatement(): string {
+	return `CREATE TABLE IF NOT EXISTS "${JOURNAL_TABLE_NAME}" ("tableName" TEXT NOT NULL, "modelId" TEXT NOT NULL, "record" TEXT);`;
+}
+
+export function journalInsertStatement(
+	tableName: string,
+	id: string,
+	record: PersistentModel | undefined
+): ParameterizedStatement {
+	return [
+		`INSERT INTO "${JOURNAL_TABLE_NAME}" ("tableName", "modelId", "record") VALUES (?, ?, ?)`,
+		[tableName, id, record === undefined ? null : JSON.stringify(record)],
+	];
+}
+
+// entries in the order they were written
+export function journalQueryStatement(): ParameterizedStatement {
+	return [`SELECT * FROM "${JOURNAL_TABLE_NAME}" ORDER BY _rowid_`, []];
+}
+
+export function journalClearStatement(): ParameterizedStatement {
+	return [`DELETE FROM "${JOURNAL_TABLE_NAME}"`, []];
+}
+
+export function searchTableName(tableName: string): string {
+	return `${tableName}_search`;
+}
+
+/**
+ * An FTS5 table indexing the searchable fields of a model table, kept in sync
+ * by triggers on the model table
+ */
+export function searchSchemaStatements(
+	tableName: string,
+	fields: string[]
+): string[] {
+	const searchTable = searchTableName(tableName);
+	const columns = fields.map(field => `"${field}"`).join(', ');
+	const newValues = fields.map(field => `new."${field}"`).join(', ');
+	const oldValues = fields.map(field => `old."${field}"`).join(', ');
+
+	const insertNew = `INSERT INTO "${searchTable}"(rowid, ${columns}) VALUES (new.rowid, ${newValues});`;
+	const deleteOld = `INSERT INTO "${searchTable}"("${searchTable}", rowid, ${columns}) VALUES ('delete', old.rowid, ${oldValues});`;
+
+	return [
+		`CREATE VIRTUAL TABLE IF NOT EXISTS "${searchTable}" USING fts5(${columns}, content='${tableName}', content_rowid='rowid');`,
+		`CREATE TRIGGER IF NOT EXISTS "${searchTable}_insert" AFTER INSERT ON "${tableName}" BEGIN ${insertNew} END;`,
+		`CREATE TRIGGER IF NOT EXISTS "${searchTable}_delete" AFTER DELETE ON "${tableName}" BEGIN ${deleteOld} END;`,
+		`CREATE TRIGGER IF NOT EXISTS "${searchTable}_update" AFTER UPDATE ON "${tableName}" BEGIN ${deleteOld} ${insertNew} END;`,
+	];
+}
+
+export function dropSearchStatements(tableName: string): string[] {
+	const searchTable = searchTableName(tableName);
+
+	return [
+		`DROP TRIGGER IF EXISTS "${searchTable}_insert";`,
+		`DROP TRIGGER IF EXISTS "${searchTable}_delete";`,
+		`DROP TRIGGER IF EXISTS "${searchTable}_update";`,
+		dropTableStatement(searchTable),
+	];
+}
+
+// re-indexes every row of the model table
+export function rebuildSearchStatement(
+	tableName: string
+): ParameterizedStatement {
+	const searchTable = searchTableName(tableName);
+
+	return [
+		`INSERT INTO "${searchTable}"("${searchTable}") VALUES ('rebuild')`,
+		[],
+	];
+}
+
+export function searchStatement(
+	tableName: string,
+	searchableFields: string[],
+	text: string,
+	{ fields, limit }: SearchInput
+): ParameterizedStatement {
+	const searchTable = searchTableName(tableName);
+
+	// terms are quoted so that they are never read as FTS5 operators
+	const terms = Array.from(new Set(tokenize(text)))
+		.map(term => `"${term.replace(/"/g, '""')}"`)
+		.join(' OR ');
+	const match = `{${fields.join(' ')}} : (${terms})`;
+
+	// columns that aren't searched don't count towards the rank
+	const weights = searchableFields
+		.map(field => (fields.includes(field) ? 1 : 0))
+		.join(', ');
+
+	let statement = `SELECT "${tableName}".* FROM "${searchTable}" JOIN "${tableName}" ON "${tableName}".rowid = "${searchTable}".rowid WHERE "${searchTable}" MATCH ? ORDER BY bm25("${searchTable}", ${weights}), "${tableName}"."id"`;
+	const params: (string | number)[] = [match];
+
+	if (limit !== undefined) {
+		statement += ' LIMIT ?';
+		params.push(limit);
+	}
+
+	return [statement, params];
+}
@@ -5,7 +5,16 @@ import {
 	syncClasses,
 } from '../src/datastore/datastore';
 import { PersistentModelConstructor, SortDirection } from '../src/types';
-import { pause, Model, User, Profile, testSchema } from './helpers';
+import {
+	pause,
+	Model,
+	User,
+	Profile,
+	Post,
+	PostComposite,
+	testSchema,
+	testLocalSearchFields,
+} from './helpers';
 import { Predicates } from '../src/predicates';
 import { addCommonQueryTests } from './commonAdapterTests';
 
@@ -247,4 +256,91 @@ describe('AsyncStorageAdapter tests', () => {
 			expect(user.profile).toEqual(profile);
 		});
 	});
+
+	describe('Transaction', () => {
+		let Post: PersistentModelConstructor<Post>;
+		let PostComposite: PersistentModelConstructor<PostComposite>;
+
+		beforeAll(async () => {
+			({ initSchema, DataStore } = require('../src/datastore/datastore'));
+
+			const classes = initSchema(testSchema());
+
+			({ Post, PostComposite } = classes as {
+				Post: PersistentModelConstructor<Post>;
+				PostComposite: PersistentModelConstructor<PostComposite>;
+			});
+
+			DataStore.configure({ localSearchFields: testLocalSearchFields });
+			await DataStore.clear();
+		});
+
+		it('should roll back a transaction that was open when the app was closed', async () => {
+			const original = await DataStore.save(new Post({ title: 'original' }));
+			const other = await DataStore.save(new Post({ title: 'other' }));
+
+			await ASAdapter.startTransaction();
+			await ASAdapter.save(
+				Post.copyOf(original, draft => {
+					draft.title = 'updated';
+				})
+			);
+			await ASAdapter.save(new Post({ title: 'created' }));
+			await ASAdapter.delete(other);
+
+			// the app is closed before the transaction is committed, its
+			// storage is read again when it starts
+			await ASAdapter.db.init();
+
+			const titles = (await DataStore.query(Post)).map(({ title }) => title);
+
+			expect(titles.sort()).toEqual(['original', 'other']);
+		});
+
+		it('should roll back a save whose search index was not updated when the app was closed', async () => {
+			const travel = await DataStore.save(
+				new PostComposite({
+					title: 'Travel',
+					description: 'passport',
+					created: 'today',
+					sort: 1,
+				})
+			);
+
+			expect(await DataStore.search(PostComposite, 'passport')).toHaveLength(1);
+
+			// the app is closed after the record is written, before its index is
+			const save = ASAdapter.db.save.bind(ASAdapter.db);
+			const saveSpy = jest
+				.spyOn(ASAdapter.db, 'save')
+				.mockImplementation((item, storeName: string) =>
+					storeName.endsWith('_search')
+						? Promise.reject(new Error('closed'))
+						: save(item, storeName)
+				);
+			const rollbackSpy = jest
+				.spyOn(ASAdapter.db, 'rollbackTransaction')
+				.mockResolvedValue(undefined);
+
+			await expect(
+				ASAdapter.save(
+					PostComposite.copyOf(travel, draft => {
+						draft.description = 'visa';
+					})
+				)
+			).rejects.toThrow('closed');
+
+			saveSpy.mockRestore();
+			rollbackSpy.mockRestore();
+			await ASAdapter.db.init();
+
+			const saved = await DataStore.query(PostComposite, travel.id);
+
+			expect(saved.description).toEqual('passport');
+			expect(
+				(await DataStore.search(PostComposite, 'passport')).map(({ id }) => id)
+			).toEqual([travel.id]);
+			expect(await DataStore.search(PostComposite, 'visa')).toEqual([]);
+		});
+	});
 });
@@ -9,9 +9,11 @@ import {
 import { Predicates } from '../src/predicates';
 import { ExclusiveStorage as StorageType } from '../src/storage/storage';
 import {
+	DataStoreSnapshot,
 	NonModelTypeConstructor,
 	PersistentModel,
 	PersistentModelConstructor,
+	SortDirection,
 } from '../src/types';
 import {
 	Comment,
@@ -854,6 +856,62 @@ describe('DataStore observeQuery, with fake-indexeddb and fake sync', () => {
 			done(error);
 		}
 	});
+
+	test('keeps a window of `limit` sorted items and reports what changed', async () => {
+		for (let i = 0; i < 5; i++) {
+			await DataStore.save(new Post({ title: `the post ${i}` }));
+		}
+
+		const snapshots: DataStoreSnapshot<Post>[] = [];
+		const titles = (items: Post[]) => items.map(({ title }) => title);
+
+		const sub = DataStore.observeQuery(Post, Predicates.ALL, {
+			sort: s => s.title(SortDirection.ASCENDING),
+			limit: 3,
+		}).subscribe(snapshot => snapshots.push(snapshot));
+
+		await pause(100);
+		((DataStore as any).sync as any).getModelSyncedStatus = (model: any) =>
+			true;
+
+		const [post0, post1, post2] = snapshots[0].items;
+		await DataStore.delete(post0);
+		await pause(100);
+
+		// past the end of the window, no snapshot is emitted
+		await DataStore.save(new Post({ title: 'zzz post' }));
+		await pause(100);
+
+		await DataStore.save(
+			Post.copyOf(post2, draft => {
+				draft.title = 'a post';
+			})
+		);
+		await pause(100);
+
+		sub.unsubscribe();
+
+		expect(snapshots.map(({ items }) => titles(items))).toEqual([
+			['the post 0', 'the post 1', 'the post 2'],
+			['the post 1', 'the post 2', 'the post 3'],
+			['a post', 'the post 1', 'the post 3'],
+		]);
+
+		const [, afterDelete, afterMove] = snapshots.map(({ changes }) => changes);
+
+		expect(titles(afterDelete.removed.map(({ item }) => item))).toEqual([
+			'the post 0',
+		]);
+		expect(afterDelete.added.map(({ index }) => index)).toEqual([2]);
+		expect(afterDelete.moved).toEqual([]);
+
+		expect(afterMove.added).toEqual([]);
+		expect(afterMove.removed).toEqual([]);
+		expect(afterMove.moved).toEqual([
+			{ item: snapshots[2].items[0], index: 0, previousIndex: 1 },
+		]);
+		expect(post1.id).toEqual(snapshots[2].items[1].id);
+	});
 });
 
 describe('DataStore tests', () => {
@@ -197,4 +197,99 @@ describe('IndexedDBAdapter tests', () => {
 			expect(profile).toBeUndefined;
 		});
 	});
+
+	describe('Transaction', () => {
+		let Model: PersistentModelConstructor<Model>;
+		let Post: PersistentModelConstructor<Post>;
+
+		beforeAll(async () => {
+			({ initSchema, DataStore } = require('../src/datastore/datastore'));
+
+			const classes = initSchema(testSchema());
+
+			({ Model, Post } = classes as {
+				Model: PersistentModelConstructor<Model>;
+				Post: PersistentModelConstructor<Post>;
+			});
+
+			await DataStore.clear();
+		});
+
+		it('should roll back a transaction that was open when the app was closed', async () => {
+			const original = await DataStore.save(new Post({ title: 'original' }));
+			const other = await DataStore.save(new Post({ title: 'other' }));
+
+			await IDBAdapter.startTransaction();
+			await IDBAdapter.save(
+				Post.copyOf(original, draft => {
+					draft.title = 'updated';
+				})
+			);
+			await IDBAdapter.save(new Post({ title: 'created' }));
+			await IDBAdapter.delete(other);
+
+			// the app is closed before the transaction is committed
+			IDBAdapter.db.close();
+			IDBAdapter.db = undefined;
+			IDBAdapter.initPromise = undefined;
+			IDBAdapter.inTransaction = false;
+			await DataStore.stop();
+			await DataStore.start();
+
+			const titles = (await DataStore.query(Post)).map(({ title }) => title);
+
+			expect(titles.sort()).toEqual(['original', 'other']);
+		});
+
+		it('should leave the stores as they were when a migration fails', async () => {
+			await DataStore.save(
+				new Model({
+					field1: 'original',
+					dateCreated: new Date().toISOString(),
+				})
+			);
+			await DataStore.save(new Post({ title: 'original' }));
+
+			// the app is started again with a newer version of the schema
+			const {
+				schema,
+				namespaceResolver,
+				modelInstanceCreator,
+				getModelConstructorByModelName,
+			} = IDBAdapter;
+			IDBAdapter.db.close();
+			IDBAdapter.db = undefined;
+			IDBAdapter.initPromise = undefined;
+			await IDBAdapter.setUp(
+				{ ...schema, version: '2' },
+				namespaceResolver,
+				modelInstanceCreator,
+				getModelConstructorByModelName,
+				undefined,
+				[
+					{
+						fromVersion: '1',
+						toVersion: '2',
+						// a function can't be stored, the Post records fail to be put
+						migrate: ({ modelName, record }) => ({
+							modelName,
+							record:
+								modelName === 'Post'
+									? { ...record, title: () => 'migrated' }
+									: { ...record, field1: 'migrated' },
+						}),
+					},
+				]
+			);
+			await expect(IDBAdapter.initPromise).rejects.toThrow();
+
+			const models = await IDBAdapter.db.getAll('user_Model');
+			const posts = await IDBAdapter.db.getAll('user_Post');
+			const settings = await IDBAdapter.db.getAll('datastore_Setting');
+
+			expect(models.map(({ field1 }) => field1)).toEqual(['original']);
+			expect(posts.map(({ title }) => title)).toContain('original');
+			expect(settings.map(({ value }) => value)).toEqual([JSON.stringify('1')]);
+		});
+	});
 });
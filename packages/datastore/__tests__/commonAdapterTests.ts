@@ -1,6 +1,8 @@
 import {
 	DataStore as DataStoreType,
 	PersistentModelConstructor,
+	Predicates,
+	SortDirection,
 	initSchema as initSchemaType,
 } from '../src/';
 
@@ -12,7 +14,10 @@ import {
 	Profile,
 	Post,
 	Comment,
+	PostComposite,
+	PostCustomPK,
 	testSchema,
+	testLocalSearchFields,
 } from './helpers';
 
 export { pause };
@@ -214,6 +219,467 @@ export function addCommonQueryTests({
 		});
 	});
 
+	describe('Common cursor pagination cases', () => {
+		let PostCustomPK: PersistentModelConstructor<PostCustomPK>;
+
+		beforeEach(async () => {
+			DataStore.configure({ storageAdapter });
+
+			const classes = initSchema(testSchema());
+			({ PostCustomPK } = classes as {
+				PostCustomPK: PersistentModelConstructor<PostCustomPK>;
+			});
+			await DataStore.clear();
+
+			for (const postId of [3, 1, 5, 2, 4]) {
+				await DataStore.save(
+					new PostCustomPK({ postId, title: `title ${postId}` })
+				);
+			}
+		});
+
+		afterAll(async () => {
+			await DataStore.clear();
+		});
+
+		it('should return pages that cover every record once', async () => {
+			const firstPage = await DataStore.query(PostCustomPK, undefined, {
+				limit: 2,
+				cursor: null,
+			});
+			expect(firstPage.items.length).toEqual(2);
+			expect(firstPage.nextCursor).not.toBeNull();
+
+			const secondPage = await DataStore.query(PostCustomPK, undefined, {
+				limit: 2,
+				cursor: firstPage.nextCursor,
+			});
+			expect(secondPage.items.length).toEqual(2);
+
+			const lastPage = await DataStore.query(PostCustomPK, undefined, {
+				limit: 2,
+				cursor: secondPage.nextCursor,
+			});
+			expect(lastPage.items.length).toEqual(1);
+			expect(lastPage.nextCursor).toBeNull();
+
+			const ids = [
+				...firstPage.items,
+				...secondPage.items,
+				...lastPage.items,
+			].map(({ id }) => id);
+			expect(new Set(ids).size).toEqual(5);
+		});
+
+		it('should page through sorted records', async () => {
+			const firstPage = await DataStore.query(PostCustomPK, undefined, {
+				sort: s => s.postId('DESCENDING'),
+				limit: 3,
+				cursor: null,
+			});
+			expect(firstPage.items.map(({ postId }) => postId)).toEqual([5, 4, 3]);
+
+			const secondPage = await DataStore.query(PostCustomPK, undefined, {
+				sort: s => s.postId('DESCENDING'),
+				limit: 3,
+				cursor: firstPage.nextCursor,
+			});
+			expect(secondPage.items.map(({ postId }) => postId)).toEqual([2, 1]);
+			expect(secondPage.nextCursor).toBeNull();
+		});
+
+		it('should page through records sorted by id', async () => {
+			const pages = [];
+			let cursor = null;
+
+			do {
+				const page = await DataStore.query(PostCustomPK, undefined, {
+					sort: s => s.id('DESCENDING'),
+					limit: 2,
+					cursor,
+				});
+				pages.push(page.items.map(({ id }) => id));
+				cursor = page.nextCursor;
+			} while (cursor !== null);
+
+			const ids = (await DataStore.query(PostCustomPK))
+				.map(({ id }) => id)
+				.sort()
+				.reverse();
+			expect(pages).toEqual([ids.slice(0, 2), ids.slice(2, 4), ids.slice(4)]);
+		});
+
+		it('should not skip records saved between pages', async () => {
+			const firstPage = await DataStore.query(PostCustomPK, undefined, {
+				sort: s => s.postId('ASCENDING'),
+				limit: 2,
+				cursor: null,
+			});
+			expect(firstPage.items.map(({ postId }) => postId)).toEqual([1, 2]);
+
+			await DataStore.save(new PostCustomPK({ postId: 0, title: 'title 0' }));
+
+			const secondPage = await DataStore.query(PostCustomPK, undefined, {
+				sort: s => s.postId('ASCENDING'),
+				limit: 2,
+				cursor: firstPage.nextCursor,
+			});
+			expect(secondPage.items.map(({ postId }) => postId)).toEqual([3, 4]);
+		});
+
+		it('should apply predicates to each page', async () => {
+			const page = await DataStore.query(PostCustomPK, p => p.postId('gt', 2), {
+				sort: s => s.postId('ASCENDING'),
+				limit: 5,
+				cursor: null,
+			});
+			expect(page.items.map(({ postId }) => postId)).toEqual([3, 4, 5]);
+			expect(page.nextCursor).toBeNull();
+		});
+
+		it('should reject a cursor created for a different sort', async () => {
+			const { nextCursor } = await DataStore.query(PostCustomPK, undefined, {
+				limit: 2,
+				cursor: null,
+			});
+
+			await expect(
+				DataStore.query(PostCustomPK, undefined, {
+					sort: s => s.postId('ASCENDING'),
+					limit: 2,
+					cursor: nextCursor,
+				})
+			).rejects.toThrow('Invalid cursor');
+		});
+
+		it('should iterate over all records in batches', async () => {
+			const postIds = [];
+
+			for await (const post of DataStore.iterate(PostCustomPK, undefined, {
+				sort: s => s.postId('ASCENDING'),
+				batchSize: 2,
+			})) {
+				postIds.push(post.postId);
+			}
+
+			expect(postIds).toEqual([1, 2, 3, 4, 5]);
+		});
+	});
+
+	describe('Common relational predicate cases', () => {
+		let Comment: PersistentModelConstructor<Comment>;
+		let Post: PersistentModelConstructor<Post>;
+
+		beforeEach(async () => {
+			DataStore.configure({ storageAdapter });
+
+			const classes = initSchema(testSchema());
+			({ Comment, Post } = classes as {
+				Comment: PersistentModelConstructor<Comment>;
+				Post: PersistentModelConstructor<Post>;
+			});
+			await DataStore.clear();
+
+			const first = await DataStore.save(new Post({ title: 'first post' }));
+			const second = await DataStore.save(new Post({ title: 'second post' }));
+			await DataStore.save(new Post({ title: 'third post' }));
+
+			await DataStore.save(new Comment({ content: 'great', post: first }));
+			await DataStore.save(new Comment({ content: 'meh', post: first }));
+			await DataStore.save(new Comment({ content: 'great', post: second }));
+		});
+
+		afterAll(async () => {
+			await DataStore.clear();
+		});
+
+		it('should filter on fields of a belongsTo model', async () => {
+			const comments = await DataStore.query(Comment, c =>
+				c.post(p => p.title('eq', 'first post'))
+			);
+
+			expect(comments.map(({ content }) => content).sort()).toEqual([
+				'great',
+				'meh',
+			]);
+		});
+
+		it('should filter on fields of hasMany models', async () => {
+			const posts = await DataStore.query(Post, p =>
+				p.comments(c => c.content('eq', 'great'))
+			);
+
+			expect(posts.map(({ title }) => title).sort()).toEqual([
+				'first post',
+				'second post',
+			]);
+		});
+
+		it('should combine relational and scalar predicates', async () => {
+			const posts = await DataStore.query(Post, p =>
+				p
+					.comments(c => c.content('eq', 'meh'))
+					.or(o => o.title('eq', 'third post').title('eq', 'first post'))
+			);
+
+			expect(posts.map(({ title }) => title)).toEqual(['first post']);
+		});
+
+		it('should filter on nested relations', async () => {
+			const posts = await DataStore.query(Post, p =>
+				p.comments(c => c.post(p => p.title('eq', 'second post')))
+			);
+
+			expect(posts.map(({ title }) => title)).toEqual(['second post']);
+		});
+
+		it('should return nothing when no related records match', async () => {
+			const comments = await DataStore.query(Comment, c =>
+				c.post(p => p.title('eq', 'does not exist'))
+			);
+
+			expect(comments).toEqual([]);
+		});
+
+		it('should aggregate with relational predicates', async () => {
+			const { count } = await DataStore.aggregate(
+				Comment,
+				c => c.post(p => p.title('beginsWith', 'first')),
+				{ count: true }
+			);
+
+			expect(count).toEqual(2);
+		});
+
+		it('should reject relational predicates in observe', () => {
+			expect(() =>
+				DataStore.observe(Comment, c =>
+					c.post(p => p.title('eq', 'first post'))
+				)
+			).toThrow('Relational predicates are not supported here');
+		});
+	});
+
+	describe('Common `aggregate()` cases', () => {
+		let PostCustomPK: PersistentModelConstructor<PostCustomPK>;
+
+		beforeEach(async () => {
+			DataStore.configure({ storageAdapter });
+
+			const classes = initSchema(testSchema());
+			({ PostCustomPK } = classes as {
+				PostCustomPK: PersistentModelConstructor<PostCustomPK>;
+			});
+			await DataStore.clear();
+
+			const posts = [
+				{ postId: 1, title: 'a', description: 'first' },
+				{ postId: 2, title: 'b' },
+				{ postId: 3, title: 'a', description: 'third' },
+				{ postId: 6, title: 'c', description: 'fourth' },
+			];
+
+			for (const post of posts) {
+				await DataStore.save(new PostCustomPK(post));
+			}
+		});
+
+		afterAll(async () => {
+			await DataStore.clear();
+		});
+
+		it('should aggregate all records', async () => {
+			const result = await DataStore.aggregate(PostCustomPK, undefined, {
+				count: true,
+				sum: 'postId',
+				min: 'title',
+				max: 'postId',
+				avg: 'postId',
+			});
+
+			expect(result).toEqual({
+				count: 4,
+				sum: 12,
+				min: 'a',
+				max: 6,
+				avg: 3,
+			});
+		});
+
+		it('should only aggregate records matching the predicate', async () => {
+			const result = await DataStore.aggregate(
+				PostCustomPK,
+				p => p.postId('lt', 6),
+				{ count: true, sum: 'postId' }
+			);
+
+			expect(result).toEqual({ count: 3, sum: 6 });
+		});
+
+		it('should return empty values when no records match', async () => {
+			const result = await DataStore.aggregate(
+				PostCustomPK,
+				p => p.postId('gt', 10),
+				{ count: true, sum: 'postId', max: 'postId', avg: 'postId' }
+			);
+
+			expect(result).toEqual({ count: 0, sum: 0, max: null, avg: null });
+		});
+
+		it('should group by field', async () => {
+			const result = await DataStore.aggregate(PostCustomPK, undefined, {
+				count: true,
+				sum: 'postId',
+				groupBy: 'title',
+			});
+
+			expect(result).toEqual([
+				{ key: 'a', count: 2, sum: 4 },
+				{ key: 'b', count: 1, sum: 2 },
+				{ key: 'c', count: 1, sum: 6 },
+			]);
+		});
+
+		it('should group records without a value under a null key', async () => {
+			const result = await DataStore.aggregate(PostCustomPK, undefined, {
+				count: true,
+				groupBy: 'description',
+			});
+
+			expect(result.length).toEqual(4);
+			expect(result[0]).toEqual({ key: null, count: 1 });
+		});
+
+		it('should reject aggregating a non-numeric field', async () => {
+			await expect(
+				DataStore.aggregate(PostCustomPK, undefined, { sum: 'title' })
+			).rejects.toThrow('Field title should be a numeric field');
+		});
+
+		it('should reject an aggregation without any operation', async () => {
+			await expect(
+				DataStore.aggregate(PostCustomPK, undefined, { groupBy: 'title' })
+			).rejects.toThrow(
+				'At least one of count, sum, min, max or avg is required to aggregate'
+			);
+		});
+	});
+
+	describe('Common `search()` cases', () => {
+		let Post: PersistentModelConstructor<Post>;
+		let PostComposite: PersistentModelConstructor<PostComposite>;
+
+		beforeEach(async () => {
+			DataStore.configure({
+				storageAdapter,
+				localSearchFields: testLocalSearchFields,
+			});
+
+			const classes = initSchema(testSchema());
+			({ Post, PostComposite } = classes as {
+				Post: PersistentModelConstructor<Post>;
+				PostComposite: PersistentModelConstructor<PostComposite>;
+			});
+			await DataStore.clear();
+
+			const posts = [
+				{
+					title: 'Offline notes',
+					description: 'Notes about syncing offline',
+					created: 'notes',
+					sort: 1,
+				},
+				{
+					title: 'Shopping list',
+					description: 'apples, bread, NOTES',
+					created: 'today',
+					sort: 2,
+				},
+				{
+					title: 'Travel',
+					description: 'passport',
+					created: 'today',
+					sort: 3,
+				},
+			];
+
+			for (const post of posts) {
+				await DataStore.save(new PostComposite(post));
+			}
+		});
+
+		afterAll(async () => {
+			await DataStore.clear();
+		});
+
+		it('should return matches ordered by relevance', async () => {
+			const results = await DataStore.search(PostComposite, 'Notes');
+
+			expect(results.map(({ title }) => title)).toEqual([
+				'Offline notes',
+				'Shopping list',
+			]);
+		});
+
+		it('should only match the given fields', async () => {
+			const results = await DataStore.search(PostComposite, 'notes', {
+				fields: ['title'],
+			});
+
+			expect(results.map(({ title }) => title)).toEqual(['Offline notes']);
+		});
+
+		it('should match any of the terms', async () => {
+			const results = await DataStore.search(PostComposite, 'passport apples');
+
+			expect(results.map(({ title }) => title).sort()).toEqual([
+				'Shopping list',
+				'Travel',
+			]);
+		});
+
+		it('should respect the limit', async () => {
+			const results = await DataStore.search(PostComposite, 'notes', {
+				limit: 1,
+			});
+
+			expect(results.map(({ title }) => title)).toEqual(['Offline notes']);
+		});
+
+		it('should keep the index up to date on save and delete', async () => {
+			const [travel] = await DataStore.search(PostComposite, 'passport');
+			await DataStore.save(
+				PostComposite.copyOf(travel, draft => {
+					draft.description = 'visa';
+				})
+			);
+
+			expect(await DataStore.search(PostComposite, 'passport')).toEqual([]);
+			expect(
+				(await DataStore.search(PostComposite, 'visa')).map(({ id }) => id)
+			).toEqual([travel.id]);
+
+			await DataStore.delete(PostComposite, travel.id);
+
+			expect(await DataStore.search(PostComposite, 'visa')).toEqual([]);
+		});
+
+		it('should return no results without search terms', async () => {
+			expect(await DataStore.search(PostComposite, ' ,. ')).toEqual([]);
+		});
+
+		it('should reject models and fields that are not searchable', async () => {
+			await expect(DataStore.search(Post, 'notes')).rejects.toThrow(
+				'Model Post has no searchable fields'
+			);
+			await expect(
+				DataStore.search(PostComposite, 'notes', { fields: ['created'] })
+			).rejects.toThrow(
+				'Fields created are not searchable in model PostComposite'
+			);
+		});
+	});
+
 	describe('Common `save()` cases', () => {
 		let Comment: PersistentModelConstructor<Comment>;
 		let Post: PersistentModelConstructor<Post>;
@@ -367,4 +833,222 @@ export function addCommonQueryTests({
 			});
 		});
 	});
+
+	describe('Common `transaction()` cases', () => {
+		let Comment: PersistentModelConstructor<Comment>;
+		let Post: PersistentModelConstructor<Post>;
+		let PostComposite: PersistentModelConstructor<PostComposite>;
+		let adapter: any;
+
+		beforeEach(async () => {
+			DataStore.configure({
+				storageAdapter,
+				localSearchFields: testLocalSearchFields,
+			});
+
+			// a fake appsync endpoint starts the sync engine, so we can inspect
+			// the outbox. see `save()` cases.
+			(DataStore as any).amplifyConfig.aws_appsync_graphqlEndpoint =
+				'https://0.0.0.0/does/not/exist/graphql';
+
+			const classes = initSchema(testSchema());
+			({ Comment, Post, PostComposite } = classes as {
+				Comment: PersistentModelConstructor<Comment>;
+				Post: PersistentModelConstructor<Post>;
+				PostComposite: PersistentModelConstructor<PostComposite>;
+			});
+			await DataStore.clear();
+			await DataStore.start();
+
+			adapter = (DataStore as any).storageAdapter;
+			const syncEngine = (DataStore as any).sync;
+			(syncEngine as any).mutationsProcessor.isReady = () => false;
+		});
+
+		afterEach(async () => {
+			// committed changes are enqueued in the outbox asynchronously, let
+			// that finish before the next clear()
+			await pause(250);
+		});
+
+		afterAll(async () => {
+			await DataStore.clear();
+			(DataStore as any).amplifyConfig.aws_appsync_graphqlEndpoint = '';
+		});
+
+		it('should commit saves and deletes together', async () => {
+			const stale = await DataStore.save(new Post({ title: 'stale post' }));
+			await clearOutbox(adapter);
+
+			const comment = await DataStore.transaction(async tx => {
+				const post = await tx.save(new Post({ title: 'new post' }));
+				await tx.delete(stale);
+
+				return tx.save(new Comment({ content: 'new comment', post }));
+			});
+
+			expect(comment.content).toEqual('new comment');
+			expect((await DataStore.query(Post)).map(({ title }) => title)).toEqual([
+				'new post',
+			]);
+			expect(await DataStore.query(Comment, comment.id)).toBeDefined();
+
+			const mutations = await getMutations(adapter);
+
+			expect(mutations.map(({ operation }) => operation).sort()).toEqual([
+				'Create',
+				'Create',
+				'Delete',
+			]);
+		});
+
+		it('should see its own writes', async () => {
+			const titles = await DataStore.transaction(async tx => {
+				await tx.save(new Post({ title: 'first' }));
+				await tx.save(new Post({ title: 'second' }));
+
+				const posts = await tx.query(Post, Predicates.ALL, {
+					sort: s => s.title(SortDirection.ASCENDING),
+				});
+
+				return posts.map(({ title }) => title);
+			});
+
+			expect(titles).toEqual(['first', 'second']);
+		});
+
+		it('should roll back every change when the callback rejects', async () => {
+			const original = await DataStore.save(new Post({ title: 'original' }));
+			const other = await DataStore.save(new Post({ title: 'other' }));
+			await clearOutbox(adapter);
+
+			await expect(
+				DataStore.transaction(async tx => {
+					await tx.save(
+						Post.copyOf(original, draft => {
+							draft.title = 'updated';
+						})
+					);
+					await tx.save(new Post({ title: 'created' }));
+					await tx.delete(other);
+
+					throw new Error('abort');
+				})
+			).rejects.toThrow('abort');
+
+			const titles = (await DataStore.query(Post)).map(({ title }) => title);
+
+			expect(titles.sort()).toEqual(['original', 'other']);
+			expect(await getMutations(adapter)).toEqual([]);
+		});
+
+		it('should restore the records of a rolled back delete of all records', async () => {
+			await DataStore.save(new Post({ title: 'first' }));
+			await DataStore.save(new Post({ title: 'second' }));
+
+			await expect(
+				DataStore.transaction(async tx => {
+					await tx.delete(Post, Predicates.ALL);
+
+					throw new Error('abort');
+				})
+			).rejects.toThrow('abort');
+
+			const titles = (await DataStore.query(Post)).map(({ title }) => title);
+
+			expect(titles.sort()).toEqual(['first', 'second']);
+		});
+
+		it('should restore the search index of rolled back records', async () => {
+			const travel = await DataStore.save(
+				new PostComposite({
+					title: 'Travel',
+					description: 'passport',
+					created: 'today',
+					sort: 1,
+				})
+			);
+
+			await expect(
+				DataStore.transaction(async tx => {
+					await tx.save(
+						PostComposite.copyOf(travel, draft => {
+							draft.description = 'visa';
+						})
+					);
+
+					throw new Error('abort');
+				})
+			).rejects.toThrow('abort');
+
+			expect(
+				(await DataStore.search(PostComposite, 'passport')).map(({ id }) => id)
+			).toEqual([travel.id]);
+			expect(await DataStore.search(PostComposite, 'visa')).toEqual([]);
+		});
+
+		it('should emit observe events only after commit', async () => {
+			const events = [];
+			const subscription = DataStore.observe(Post).subscribe(({ element }) =>
+				events.push(element.title)
+			);
+
+			// observe() subscribes to the storage asynchronously
+			await pause(1);
+
+			try {
+				await DataStore.transaction(async tx => {
+					await tx.save(new Post({ title: 'first' }));
+					await tx.save(new Post({ title: 'second' }));
+
+					expect(events).toEqual([]);
+				});
+
+				// observe() re-queries each element before emitting it
+				await pause(50);
+
+				expect(events).toEqual(['first', 'second']);
+			} finally {
+				subscription.unsubscribe();
+			}
+		});
+
+		it('should not emit observe events for a rolled back transaction', async () => {
+			const events = [];
+			const subscription = DataStore.observe(Post).subscribe(({ element }) =>
+				events.push(element.title)
+			);
+
+			// observe() subscribes to the storage asynchronously
+			await pause(1);
+
+			try {
+				await expect(
+					DataStore.transaction(async tx => {
+						await tx.save(new Post({ title: 'first' }));
+
+						throw new Error('abort');
+					})
+				).rejects.toThrow('abort');
+
+				await pause(50);
+
+				expect(events).toEqual([]);
+			} finally {
+				subscription.unsubscribe();
+			}
+		});
+
+		it('should reject operations after the transaction has finished', async () => {
+			let transaction;
+
+			await DataStore.transaction(async tx => {
+				transaction = tx;
+			});
+
+			await expect(
+				transaction.save(new Post({ title: 'too late' }))
+			).rejects.toThrow('Transaction is no longer active');
+		});
+	});
 }
@@ -333,4 +333,65 @@ describe('DataStore PredicateGroups to GraphQL filter', () => {
 			JSON.stringify(groupExpected)
 		);
 	});
+
+	test('Relational predicate on the id of a belongsTo model', () => {
+		const group: PredicatesGroup<any> = {
+			type: 'and',
+			predicates: [
+				{
+					relationField: 'post',
+					relationType: 'BELONGS_TO',
+					relatedModelName: 'Post',
+					localKey: 'postId',
+					relatedKey: 'id',
+					predicates: {
+						type: 'or',
+						predicates: [
+							{ field: 'id', operator: 'eq', operand: 'post1' },
+							{ field: 'id', operator: 'eq', operand: 'post2' },
+						],
+					},
+				},
+			],
+		};
+
+		const groupExpected = {
+			and: [
+				{
+					or: [{ postId: { eq: 'post1' } }, { postId: { eq: 'post2' } }],
+				},
+			],
+		};
+
+		const gqlResult = predicateToGraphQLFilter(group);
+
+		expect(JSON.stringify(gqlResult)).toStrictEqual(
+			JSON.stringify(groupExpected)
+		);
+	});
+
+	test('Relational predicate that AppSync does not support', () => {
+		const group: PredicatesGroup<any> = {
+			type: 'and',
+			predicates: [
+				{
+					relationField: 'comments',
+					relationType: 'HAS_MANY',
+					relatedModelName: 'Comment',
+					localKey: 'id',
+					relatedKey: 'postId',
+					predicates: {
+						type: 'and',
+						predicates: [
+							{ field: 'content', operator: 'eq', operand: 'value' },
+						],
+					},
+				},
+			],
+		};
+
+		expect(() => predicateToGraphQLFilter(group)).toThrow(
+			"Relational predicate on comments can't be translated to a GraphQL filter"
+		);
+	});
 });
@@ -3,6 +3,7 @@ import {
 	MutableModel,
 	Schema,
 	InternalSchema,
+	LocalSearchFields,
 	SchemaModel,
 } from '../src/types';
 
@@ -120,6 +121,7 @@ export declare class Metadata {
 export declare class Post {
 	public readonly id: string;
 	public readonly title: string;
+	public readonly comments?: Comment[];
 }
 
 export declare class Comment {
@@ -695,6 +697,14 @@ export function testSchema(): Schema {
 	};
 }
 
+/**
+ * The `localSearchFields` DataStore config that indexes the models of
+ * `testSchema()` for search.
+ */
+export const testLocalSearchFields: LocalSearchFields = {
+	PostComposite: ['title', 'description'],
+};
+
 export function internalTestSchema(): InternalSchema {
 	return {
 		namespaces: {
@@ -887,6 +897,14 @@ export function internalTestSchema(): InternalSchema {
 						indexes: [],
 						relationTypes: [],
 					},
+					FailedMutationEvent: {
+						indexes: [],
+						relationTypes: [],
+					},
+					MutationEventBase: {
+						indexes: [],
+						relationTypes: [],
+					},
 					ModelMetadata: {
 						indexes: [],
 						relationTypes: [],
@@ -943,6 +961,112 @@ export function internalTestSchema(): InternalSchema {
 								isArray: false,
 								isRequired: true,
 							},
+							attempts: {
+								name: 'attempts',
+								type: 'Int',
+								isRequired: false,
+								isArray: false,
+							},
+							error: {
+								name: 'error',
+								type: 'String',
+								isRequired: false,
+								isArray: false,
+							},
+						},
+					},
+					FailedMutationEvent: {
+						name: 'FailedMutationEvent',
+						pluralName: 'FailedMutationEvents',
+						syncable: false,
+						fields: {
+							id: {
+								name: 'id',
+								type: 'ID',
+								isRequired: true,
+								isArray: false,
+							},
+							model: {
+								name: 'model',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
+							data: {
+								name: 'data',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
+							modelId: {
+								name: 'modelId',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
+							operation: {
+								name: 'operation',
+								type: {
+									enum: 'Operationtype',
+								},
+								isArray: false,
+								isRequired: true,
+							},
+							condition: {
+								name: 'condition',
+								type: 'String',
+								isArray: false,
+								isRequired: true,
+							},
+							attempts: {
+								name: 'attempts',
+								type: 'Int',
+								isRequired: true,
+								isArray: false,
+							},
+							error: {
+								name: 'error',
+								type: 'String',
+								isRequired: false,
+								isArray: false,
+							},
+						},
+					},
+					MutationEventBase: {
+						name: 'MutationEventBase',
+						pluralName: 'MutationEventBases',
+						syncable: false,
+						fields: {
+							id: {
+								name: 'id',
+								type: 'ID',
+								isRequired: true,
+								isArray: false,
+							},
+							model: {
+								name: 'model',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
+							modelId: {
+								name: 'modelId',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
+							data: {
+								name: 'data',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
+							localChangedAt: {
+								name: 'localChangedAt',
+								type: 'String',
+								isRequired: true,
+								isArray: false,
+							},
 						},
 					},
 					ModelMetadata: {
@@ -55,8 +55,11 @@ describe('Indexed db storage test', () => {
 		const createdObjStores = db.objectStoreNames;
 		const expectedStores = [
 			`${DATASTORE}_Setting`,
+			`${SYNC}_FailedMutationEvent`,
 			`${SYNC}_ModelMetadata`,
 			`${SYNC}_MutationEvent`,
+			`${SYNC}_MutationEventBase`,
+			'transactionJournal',
 			`${USER}_Author`,
 			`${USER}_Blog`,
 			`${USER}_BlogOwner`,
@@ -557,10 +560,17 @@ describe('DB versions migration', () => {
 				// but before migration
 				`${USER}_Comment`,
 				`${USER}_Person`,
+				// Added to the sync namespace after v1
+				`${SYNC}_FailedMutationEvent`,
+				`${SYNC}_MutationEventBase`,
+				'transactionJournal',
 			].sort()
 		);
 
-		for (const storeName of db.objectStoreNames) {
+		// the journal of transactions isn't the store of a model
+		for (const storeName of [...db.objectStoreNames].filter(
+			storeName => storeName !== 'transactionJournal'
+		)) {
 			expect(db.transaction(storeName).store.indexNames).toContain('byId');
 		}
 
@@ -580,7 +590,9 @@ describe('DB versions migration', () => {
 		const exportedJSON = await readBlob(exportedBlob);
 		const exported = JSON.parse(exportedJSON);
 
-		for (const { schema } of exported.data.tables) {
+		for (const { schema } of exported.data.tables.filter(
+			({ name }) => name !== 'transactionJournal'
+		)) {
 			expect(schema.split(',')).toContain('&id');
 		}
 
@@ -1,3 +1,4 @@
+import API from '@aws-amplify/api';
 import { RestClient } from '@aws-amplify/api-rest';
 import {
 	MutationProcessor,
@@ -11,11 +12,19 @@ import {
 	internalTestSchema,
 } from './helpers';
 import {
+	ConflictHandler,
+	ErrorHandler,
 	PersistentModelConstructor,
 	InternalSchema,
 	OpType,
+	SyncConflict,
 } from '../src/types';
 import { createMutationInstanceFromModelOperation } from '../src/sync/utils';
+import {
+	fieldMergeStrategy,
+	lastWriterWinsStrategy,
+	setUnionStrategy,
+} from '../src/conflictStrategies';
 import { MutationEvent } from '../src/sync/';
 
 let syncClasses: any;
@@ -208,6 +217,103 @@ describe('error handler', () => {
 		);
 	});
 
+	test('failed mutation is moved out of the outbox', async () => {
+		axiosError = {
+			message: 'Request failed with status code 401',
+			name: 'Error',
+			code: '',
+			errorType: '',
+		};
+		const outbox = (mutationProcessor as any).outbox;
+
+		await mutationProcessor.resume();
+
+		expect(outbox.recordAttempt).toHaveBeenCalledWith(
+			undefined,
+			expect.any(String),
+			expect.objectContaining({ errors: expect.any(Array) })
+		);
+		expect(outbox.fail).toHaveBeenCalledTimes(1);
+	});
+
+	test('held processor does not send mutations until released', async () => {
+		const outbox = (mutationProcessor as any).outbox;
+		const peekSpy = jest.spyOn(outbox, 'peek');
+
+		mutationProcessor.hold();
+		await mutationProcessor.resume();
+
+		expect(peekSpy).not.toHaveBeenCalled();
+
+		mutationProcessor.release();
+		await mutationProcessor.resume();
+
+		expect(peekSpy).toHaveBeenCalled();
+	});
+
+	test('held processor dequeues the mutation in flight before it is discarded', async () => {
+		const dateCreated = new Date().toISOString();
+		const first = await createMutationEvent(
+			new Model({ field1: 'first', dateCreated }),
+			OpType.INSERT
+		);
+		const second = await createMutationEvent(
+			new Model({ field1: 'second', dateCreated }),
+			OpType.INSERT
+		);
+		let mutationQueue = [first, second];
+		const outbox = (mutationProcessor as any).outbox;
+		outbox.peek = async () => mutationQueue[0];
+		// like the outbox, dequeues the head whichever mutation it is
+		outbox.dequeue = async () => {
+			mutationQueue.shift();
+		};
+		(mutationProcessor as any).observer = { next: jest.fn() };
+
+		mockRetry.mockImplementation((fn, args) => fn(...args));
+		let sent: () => void;
+		let respond: () => void;
+		const sending = new Promise(resolve => (sent = resolve));
+		const graphqlSpy = jest
+			.spyOn(API, 'graphql')
+			.mockImplementationOnce(({ variables }: any) => {
+				sent();
+				return new Promise(resolve => {
+					respond = () => resolve({ data: { createModel: variables.input } });
+				});
+			})
+			.mockImplementation(async ({ variables }: any) => ({
+				data: { createModel: variables.input },
+			}));
+
+		try {
+			const resuming = mutationProcessor.resume();
+			await sending;
+
+			mutationProcessor.hold();
+			const discarding = mutationProcessor
+				.waitForInFlightMutation()
+				.then(() => {
+					mutationQueue = mutationQueue.filter(({ id }) => id !== first.id);
+				});
+			respond();
+			await Promise.all([resuming, discarding]);
+
+			mutationProcessor.release();
+			await mutationProcessor.resume();
+
+			expect(graphqlSpy).toHaveBeenCalledTimes(2);
+			const [[{ variables }]] = graphqlSpy.mock.calls.slice(1) as any;
+			expect(variables.input).toMatchObject({ field1: 'second' });
+			expect(mutationQueue).toEqual([]);
+		} finally {
+			graphqlSpy.mockRestore();
+			mockRetry.mockImplementation(async (fn, args) => {
+				await fn(...args);
+			});
+		}
+	});
+
 	test('no auth decorator', async () => {
 		axiosError = {
 			message: 'Request failed with status code 401',
@@ -226,6 +332,148 @@ describe('error handler', () => {
 	});
 });
 
+describe('conflict strategies', () => {
+	const id = 'a5aeb1a8-9b3b-4ad4-b5ee-2ab8c0a1a2e6';
+	const dateCreated = '2022-01-01T00:00:00.000Z';
+	let graphqlSpy: jest.SpyInstance;
+
+	beforeEach(() => {
+		// resolves with the result of the mutation, so that it can be dequeued
+		mockRetry.mockImplementation((fn, args) => fn(...args));
+	});
+
+	afterEach(() => {
+		graphqlSpy.mockRestore();
+		mockRetry.mockImplementation(async (fn, args) => {
+			await fn(...args);
+		});
+	});
+
+	async function resolveConflict(
+		conflictHandler: ConflictHandler,
+		local: Record<string, any>,
+		remote: Record<string, any>,
+		conflictBase: Pick<SyncConflict, 'baseModel' | 'localChangedAt'>
+	) {
+		const remoteModel = {
+			id,
+			dateCreated,
+			_version: 2,
+			_lastChangedAt: 2000,
+			_deleted: null,
+			...remote,
+		};
+
+		graphqlSpy = jest
+			.spyOn(API, 'graphql')
+			.mockRejectedValueOnce({
+				errors: [
+					{
+						errorType: 'ConflictUnhandled',
+						message: 'Conflict resolver rejects mutation.',
+						data: remoteModel,
+					},
+				],
+			})
+			.mockImplementationOnce(async ({ variables }: any) => ({
+				data: { updateModel: { ...remoteModel, ...variables.input } },
+			}));
+
+		const mutationProcessor = await instantiateMutationProcessor({
+			conflictHandler,
+			conflictBase,
+			updateData: { id, _version: 1, ...local },
+		});
+		(mutationProcessor as any).observer = { next: jest.fn() };
+
+		await mutationProcessor.resume();
+
+		expect(graphqlSpy).toHaveBeenCalledTimes(2);
+		expect((mutationProcessor as any).outbox.rebase).toHaveBeenCalledWith(
+			undefined,
+			expect.objectContaining({ modelId: id }),
+			remoteModel
+		);
+
+		const [[{ variables }]] = graphqlSpy.mock.calls.slice(1);
+
+		return variables.input;
+	}
+
+	test('field merge keeps the remote changes to the fields not changed locally', async () => {
+		const input = await resolveConflict(
+			fieldMergeStrategy,
+			{ field1: 'local', optionalField1: 'base' },
+			{ field1: 'base', optionalField1: 'remote' },
+			{
+				baseModel: { id, field1: 'base', optionalField1: 'base', _version: 1 },
+			}
+		);
+
+		expect(input).toMatchObject({
+			id,
+			field1: 'local',
+			optionalField1: 'remote',
+			_version: 2,
+		});
+	});
+
+	test('field merge keeps the local changes when the base is outdated', async () => {
+		const input = await resolveConflict(
+			fieldMergeStrategy,
+			{ field1: 'local', optionalField1: 'base' },
+			{ field1: 'base', optionalField1: 'remote' },
+			{
+				baseModel: { id, field1: 'base', optionalField1: 'base', _version: 0 },
+			}
+		);
+
+		expect(input).toMatchObject({
+			field1: 'local',
+			optionalField1: 'base',
+			_version: 2,
+		});
+	});
+
+	test('last writer wins compares the local field timestamps with the remote change', async () => {
+		const input = await resolveConflict(
+			lastWriterWinsStrategy,
+			{ field1: 'local', optionalField1: 'local' },
+			{ field1: 'remote', optionalField1: 'remote' },
+			{
+				baseModel: { id, field1: 'base', optionalField1: 'base', _version: 1 },
+				localChangedAt: { field1: 1000, optionalField1: 3000 },
+			}
+		);
+
+		expect(input).toMatchObject({
+			field1: 'remote',
+			optionalField1: 'local',
+			_version: 2,
+		});
+	});
+
+	test('set union keeps the items added on either side of an array field', async () => {
+		const input = await resolveConflict(
+			setUnionStrategy,
+			{ emails: ['a@example.com', 'c@example.com'] },
+			{ emails: ['a@example.com', 'b@example.com', 'd@example.com'] },
+			{
+				baseModel: {
+					id,
+					emails: ['a@example.com', 'b@example.com'],
+					_version: 1,
+				},
+			}
+		);
+
+		expect(input).toMatchObject({
+			emails: ['a@example.com', 'd@example.com', 'c@example.com'],
+			_version: 2,
+		});
+	});
+});
+
 // Mocking restClient.post to throw the error we expect
 // when experiencing poor network conditions
 jest.mock('@aws-amplify/api-rest', () => {
@@ -285,6 +533,15 @@ jest.mock('@aws-amplify/core', () => {
 // includes functional mocked outbox containing a single MutationEvent
 async function instantiateMutationProcessor({
 	errorHandler = () => null,
+	conflictHandler = undefined,
+	conflictBase = {},
+	updateData = undefined,
+}: {
+	errorHandler?: ErrorHandler;
+	conflictHandler?: ConflictHandler;
+	conflictBase?: Pick<SyncConflict, 'baseModel' | 'localChangedAt'>;
+	// data of an update mutation to put in the queue instead of a create
+	updateData?: Record<string, any>;
 } = {}) {
 	let schema: InternalSchema = internalTestSchema();
 
@@ -317,7 +574,9 @@ async function instantiateMutationProcessor({
 		dateCreated: new Date().toISOString(),
 	});
 
-	const newMutationEvent = createMutationEvent(newModel, OpType.INSERT);
+	const newMutationEvent = updateData
+		? createUpdateMutationEvent(updateData)
+		: createMutationEvent(newModel, OpType.INSERT);
 	// mocking mutation queue with a single event
 	const mutationQueue = [newMutationEvent];
 
@@ -328,10 +587,20 @@ async function instantiateMutationProcessor({
 		dequeue: () => {
 			mutationQueue.pop();
 		},
+		fail: jest.fn(() => {
+			mutationQueue.pop();
+		}),
+		recordAttempt: jest.fn(),
+		getConflictBase: jest.fn(() => conflictBase),
+		rebase: jest.fn(),
 	};
 
 	const storage = {
 		runExclusive: fn => fn(),
+		// the conflict path saves the mutation to retry with
+		save: jest.fn(mutationEvent => {
+			mutationQueue[0] = mutationEvent;
+		}),
 	};
 
 	const mutationProcessor = new MutationProcessor(
@@ -340,7 +609,7 @@ async function instantiateMutationProcessor({
 		userClasses,
 		outbox as any,
 		modelInstanceCreator,
-		{} as any,
+		syncClasses['MutationEvent'],
 		{
 			aws_project_region: 'us-west-2',
 			aws_appsync_graphqlEndpoint:
@@ -350,7 +619,8 @@ async function instantiateMutationProcessor({
 			aws_appsync_apiKey: 'da2-xxxxxxxxxxxxxxxxxxxxxx',
 		},
 		() => null,
-		errorHandler
+		errorHandler,
+		conflictHandler
 	);
 
 	(mutationProcessor as any).observer = true;
@@ -379,6 +649,19 @@ async function createMutationEvent(model, opType): Promise<MutationEvent> {
 	);
 }
 
+function createUpdateMutationEvent(data: Record<string, any>): MutationEvent {
+	return createMutationInstanceFromModelOperation(
+		undefined,
+		testSchema().models.Model,
+		OpType.UPDATE,
+		Model,
+		data as ModelType,
+		{},
+		syncClasses['MutationEvent'],
+		modelInstanceCreator
+	);
+}
+
 // expected error when experiencing 100% packet loss
 const timeoutError = {
 	message: 'timeout of 0ms exceeded',
@@ -15,6 +15,7 @@ import {
 import {
 	PersistentModelConstructor,
 	InternalSchema,
+	OutboxMutationStatus,
 	SchemaModel,
 } from '../src/types';
 import { MutationEvent } from '../src/sync/';
@@ -302,6 +303,274 @@ describe('Outbox tests', () => {
 			expect(headData.optionalField1).toEqual(optionalField1);
 		});
 	});
+
+	it('Should merge the mutation events of a batch the same way as separately enqueued ones', async () => {
+		const newModel = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+
+		const mutationEvent = await createMutationEvent(newModel);
+
+		const updatedModel = Model.copyOf(newModel, updated => {
+			updated.optionalField1 = 'Optional value';
+		});
+
+		const updateMutationEvent = await createMutationEvent(updatedModel);
+
+		await outbox.enqueueBatch(Storage, [mutationEvent, updateMutationEvent]);
+
+		await Storage.runExclusive(async s => {
+			const [head, ...rest] = await outbox.getForModel(s, newModel);
+			const headData = JSON.parse(head.data);
+
+			expect(rest).toEqual([]);
+			expect(head.operation).toEqual(TransformerMutationType.CREATE);
+			expect(headData.field1).toEqual('Some value');
+			expect(headData.optionalField1).toEqual('Optional value');
+		});
+	});
+
+	it('Should list, edit and discard a pending mutation', async () => {
+		const newModel = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+
+		const mutationEvent = await createMutationEvent(newModel);
+		await outbox.enqueue(Storage, mutationEvent);
+
+		const findMutation = async () =>
+			(await outbox.list(Storage)).find(m => m.modelId === newModel.id);
+
+		expect(await findMutation()).toMatchObject({
+			id: mutationEvent.id,
+			model: 'Model',
+			operation: TransformerMutationType.CREATE,
+			status: OutboxMutationStatus.PENDING,
+			attempts: 0,
+			lastError: undefined,
+		});
+
+		await Storage.runExclusive(s =>
+			outbox.recordAttempt(s, mutationEvent.id, {
+				errors: [{ message: 'Request failed with status code 401' }],
+			})
+		);
+
+		const edited = await outbox.edit(Storage, mutationEvent.id, {
+			field1: 'Edited value',
+		});
+
+		expect(edited.data.field1).toEqual('Edited value');
+		expect(await findMutation()).toMatchObject({
+			data: { id: newModel.id, field1: 'Edited value' },
+			attempts: 1,
+			lastError: 'Request failed with status code 401',
+		});
+
+		await expect(
+			outbox.edit(Storage, mutationEvent.id, { id: 'other', unknown: 1 })
+		).rejects.toThrow('Fields id, unknown cannot be edited in model Model');
+
+		await outbox.discard(Storage, mutationEvent.id);
+
+		expect(await findMutation()).toBeUndefined();
+		await expect(outbox.discard(Storage, mutationEvent.id)).rejects.toThrow(
+			`Mutation ${mutationEvent.id} not found in the outbox`
+		);
+	});
+
+	it('Should keep a failed mutation out of the outbox until it is replayed', async () => {
+		await Storage.runExclusive(async s => {
+			while (await outbox.peek(s)) {
+				await outbox.dequeue(s);
+			}
+		});
+
+		const newModel = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+
+		const mutationEvent = await createMutationEvent(newModel);
+		await outbox.enqueue(Storage, mutationEvent);
+
+		await expect(outbox.replay(Storage, mutationEvent.id)).rejects.toThrow(
+			`Mutation ${mutationEvent.id} has not failed`
+		);
+
+		await Storage.runExclusive(s =>
+			outbox.recordAttempt(s, mutationEvent.id, new Error('Unauthorized'))
+		);
+
+		await Storage.runExclusive(async s => {
+			const failed = await outbox.fail(s, true);
+
+			expect(failed).toMatchObject({
+				id: mutationEvent.id,
+				status: OutboxMutationStatus.FAILED,
+				attempts: 1,
+				lastError: 'Unauthorized',
+			});
+			expect(await outbox.peek(s)).toBeUndefined();
+		});
+
+		expect(await outbox.list(Storage)).toMatchObject([
+			{ id: mutationEvent.id, status: OutboxMutationStatus.FAILED },
+		]);
+
+		const replayed = await outbox.replay(Storage, mutationEvent.id);
+
+		expect(replayed).toMatchObject({
+			status: OutboxMutationStatus.PENDING,
+			attempts: 0,
+		});
+
+		await Storage.runExclusive(async s => {
+			const head = await outbox.peek(s);
+
+			expect(head.id).toEqual(mutationEvent.id);
+			expect(head.data).toEqual(mutationEvent.data);
+		});
+
+		expect(await outbox.list(Storage)).toHaveLength(1);
+	});
+
+	it('Should keep the attempts of a pending mutation in storage', async () => {
+		const newModel = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+
+		const mutationEvent = await createMutationEvent(newModel);
+		await outbox.enqueue(Storage, mutationEvent);
+
+		await Storage.runExclusive(async s => {
+			await outbox.recordAttempt(s, mutationEvent.id, new Error('Timeout'));
+			await outbox.recordAttempt(s, mutationEvent.id, new Error('Timeout'));
+		});
+
+		// a new outbox has nothing but storage to count them from
+		const reopened = new MutationEventOutbox(
+			schema,
+			syncClasses['MutationEvent'] as PersistentModelConstructor<any>,
+			modelInstanceCreator,
+			Symbol('sync'),
+			syncClasses['FailedMutationEvent'] as PersistentModelConstructor<any>,
+			syncClasses['MutationEventBase'] as PersistentModelConstructor<any>,
+			true
+		);
+
+		expect(
+			(await reopened.list(Storage)).find(({ id }) => id === mutationEvent.id)
+		).toMatchObject({ attempts: 2, lastError: 'Timeout' });
+
+		await outbox.discard(Storage, mutationEvent.id);
+	});
+
+	it('Should drop a failed mutation unless failed mutations are kept', async () => {
+		await Storage.runExclusive(async s => {
+			while (await outbox.peek(s)) {
+				await outbox.dequeue(s);
+			}
+		});
+
+		const newModel = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+
+		const mutationEvent = await createMutationEvent(newModel);
+		await outbox.enqueue(Storage, mutationEvent);
+
+		await Storage.runExclusive(async s => {
+			const failed = await outbox.fail(s, false);
+
+			expect(failed).toMatchObject({
+				id: mutationEvent.id,
+				status: OutboxMutationStatus.FAILED,
+			});
+		});
+
+		expect(
+			(await outbox.list(Storage)).find(({ id }) => id === mutationEvent.id)
+		).toBeUndefined();
+	});
+
+	it('Should keep the base of an updated record until its last mutation is dequeued', async () => {
+		await Storage.runExclusive(async s => {
+			while (await outbox.peek(s)) {
+				await outbox.dequeue(s);
+			}
+		});
+
+		const base = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+		await anyStorage.storage.save(base);
+
+		const updated = Model.copyOf(base, draft => {
+			draft.field1 = 'Updated value';
+		});
+		const mutationEvent = await createMutationEvent(updated);
+
+		await outbox.enqueue(Storage, mutationEvent, base);
+
+		await Storage.runExclusive(async s => {
+			const { baseModel, localChangedAt } = await outbox.getConflictBase(
+				s,
+				mutationEvent
+			);
+
+			expect(baseModel).toMatchObject({
+				id: base.id,
+				field1: 'Some value',
+			});
+			expect(localChangedAt.field1).toEqual(expect.any(Number));
+
+			await outbox.dequeue(s);
+
+			expect(await outbox.getConflictBase(s, mutationEvent)).toEqual({});
+		});
+	});
+
+	it('Should not keep bases without a conflict strategy that merges', async () => {
+		const MutationEventBase = syncClasses[
+			'MutationEventBase'
+		] as PersistentModelConstructor<any>;
+		const untracked = new MutationEventOutbox(
+			schema,
+			syncClasses['MutationEvent'] as PersistentModelConstructor<any>,
+			modelInstanceCreator,
+			Symbol('sync'),
+			syncClasses['FailedMutationEvent'] as PersistentModelConstructor<any>,
+			MutationEventBase,
+			false
+		);
+
+		const base = new Model({
+			field1: 'Some value',
+			dateCreated: new Date().toISOString(),
+		});
+		await anyStorage.storage.save(base);
+
+		const mutationEvent = await createMutationEvent(
+			Model.copyOf(base, draft => {
+				draft.field1 = 'Updated value';
+			})
+		);
+
+		await untracked.enqueue(Storage, mutationEvent, base);
+
+		await Storage.runExclusive(async s => {
+			expect(await untracked.getConflictBase(s, mutationEvent)).toEqual({});
+			expect(await s.query(MutationEventBase)).toEqual([]);
+		});
+
+		await untracked.discard(Storage, mutationEvent.id);
+	});
 });
 
 // performs all the required dependency injection
@@ -347,7 +616,10 @@ async function instantiateOutbox(): Promise<void> {
 		schema,
 		MutationEvent,
 		modelInstanceCreator,
-		ownSymbol
+		ownSymbol,
+		syncClasses['FailedMutationEvent'] as PersistentModelConstructor<any>,
+		syncClasses['MutationEventBase'] as PersistentModelConstructor<any>,
+		true
 	);
 	merger = new ModelMerger(outbox, ownSymbol);
 }
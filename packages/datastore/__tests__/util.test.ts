@@ -13,7 +13,38 @@ import {
 	valuesEqual,
 	processCompositeKeys,
 	mergePatches,
+	inMemoryAggregate,
+	inMemoryCursorPagination,
+	ModelCursorPage,
+	encodeModelCursor,
+	decodeModelCursor,
+	getRelationKeys,
+	resolveRelationalPredicates,
+	validatePredicate,
+	getMigrationPath,
+	migrateRecords,
+	migrateMutationEvents,
+	migrateLocalStore,
+	tokenize,
+	getSearchableFields,
+	inMemorySearch,
+	updateSearchIndex,
+	ensureSearchIndex,
+	querySearchIndex,
+	getSnapshotChanges,
 } from '../src/util';
+import {
+	InternalSchema,
+	MigrationStore,
+	PredicatesGroup,
+	SchemaMigration,
+	SchemaModel,
+	SearchIndexStore,
+	RelationalPredicateObject,
+	RelationshipType,
+	SortDirection,
+	SortPredicatesGroup,
+} from '../src/types';
 
 describe('datastore util', () => {
 	test('validatePredicateField', () => {
@@ -718,4 +749,857 @@ describe('datastore util', () => {
 			]);
 		});
 	});
+
+	describe('inMemoryAggregate', () => {
+		const records = [
+			{ id: '1', title: 'a', rating: 4 },
+			{ id: '2', title: 'b', rating: 2 },
+			{ id: '3', title: 'a', rating: 3 },
+			{ id: '4', title: null, rating: null },
+		];
+
+		test('aggregates all records into a single result', () => {
+			expect(
+				inMemoryAggregate(records, {
+					count: true,
+					sum: 'rating',
+					min: 'rating',
+					max: 'title',
+					avg: 'rating',
+				})
+			).toEqual([{ key: null, count: 4, sum: 9, min: 2, max: 'b', avg: 3 }]);
+		});
+
+		test('only includes the requested values', () => {
+			expect(inMemoryAggregate(records, { sum: 'rating' })).toEqual([
+				{ key: null, sum: 9 },
+			]);
+		});
+
+		test('returns a single empty result when there are no records', () => {
+			expect(
+				inMemoryAggregate([], { count: true, sum: 'rating', avg: 'rating' })
+			).toEqual([{ key: null, count: 0, sum: 0, avg: null }]);
+		});
+
+		test('groups results by key, null first', () => {
+			expect(
+				inMemoryAggregate(records, {
+					count: true,
+					sum: 'rating',
+					groupBy: 'title',
+				})
+			).toEqual([
+				{ key: null, count: 1, sum: 0 },
+				{ key: 'a', count: 2, sum: 7 },
+				{ key: 'b', count: 1, sum: 2 },
+			]);
+		});
+
+		test('returns no groups when there are no records', () => {
+			expect(inMemoryAggregate([], { count: true, groupBy: 'title' })).toEqual(
+				[]
+			);
+		});
+
+		test('skips records that do not match the predicates', () => {
+			expect(
+				inMemoryAggregate(
+					records,
+					{ count: true, max: 'rating' },
+					{
+						type: 'and',
+						predicates: [{ field: 'rating', operator: 'gt', operand: 2 }],
+					}
+				)
+			).toEqual([{ key: null, count: 2, max: 4 }]);
+		});
+	});
+
+	describe('inMemoryCursorPagination', () => {
+		const records = [
+			{ id: 'c', title: 'b' },
+			{ id: 'a', title: 'b' },
+			{ id: 'd', title: null },
+			{ id: 'b', title: 'a' },
+		];
+		const sortPredicates: SortPredicatesGroup<any> = [
+			{ field: 'title', sortDirection: SortDirection.ASCENDING },
+		];
+
+		test('orders records by id when there is no sort', () => {
+			expect(inMemoryCursorPagination(records).map(({ id }) => id)).toEqual([
+				'a',
+				'b',
+				'c',
+				'd',
+			]);
+		});
+
+		test('orders null values first and breaks ties by id', () => {
+			expect(
+				inMemoryCursorPagination(records, sortPredicates).map(({ id }) => id)
+			).toEqual(['d', 'b', 'a', 'c']);
+		});
+
+		test('returns up to limit records after the cursor', () => {
+			expect(
+				inMemoryCursorPagination(
+					records,
+					sortPredicates,
+					{ after: { id: 'b', title: 'a' } },
+					1
+				).map(({ id }) => id)
+			).toEqual(['a']);
+		});
+
+		test('keeps only one page of records while they are added', () => {
+			const page = new ModelCursorPage<any>(
+				[{ field: 'title', sortDirection: SortDirection.DESCENDING }],
+				{ after: { id: 'z', title: 'y' } },
+				2,
+				{
+					type: 'and',
+					predicates: [{ field: 'title', operator: 'ne', operand: 'w' }],
+				}
+			);
+
+			['v', 'z', 'x', 'y', 'w', 'u', 'y'].forEach((title, i) => {
+				page.add({ id: `${i}`, title });
+				expect(page.getRecords().length).toBeLessThanOrEqual(2);
+			});
+
+			expect(page.isFull()).toBe(true);
+			expect(page.getRecords()).toEqual([
+				{ id: '2', title: 'x' },
+				{ id: '0', title: 'v' },
+			]);
+		});
+	});
+
+	describe('model cursors', () => {
+		const sortPredicates: SortPredicatesGroup<any> = [
+			{ field: 'title', sortDirection: SortDirection.DESCENDING },
+		];
+
+		test('decodes the values of an encoded cursor', () => {
+			const cursor = encodeModelCursor(
+				{ id: 'abc', title: 'a title', rating: 3 },
+				sortPredicates
+			);
+
+			expect(decodeModelCursor(cursor, sortPredicates)).toEqual({
+				after: { id: 'abc', title: 'a title' },
+			});
+		});
+
+		test('encodes missing values as null', () => {
+			const cursor = encodeModelCursor({ id: 'abc' } as any, sortPredicates);
+
+			expect(decodeModelCursor(cursor, sortPredicates)).toEqual({
+				after: { id: 'abc', title: null },
+			});
+		});
+
+		test('rejects a cursor created for a different sort', () => {
+			const cursor = encodeModelCursor({ id: 'abc', title: 'a' });
+
+			expect(decodeModelCursor(cursor, sortPredicates)).toBeUndefined();
+		});
+
+		test('rejects a malformed cursor', () => {
+			expect(decodeModelCursor('not a cursor', [])).toBeUndefined();
+		});
+	});
+
+	describe('relational predicates', () => {
+		const relationships: RelationshipType = {
+			Post: {
+				indexes: [],
+				relationTypes: [
+					{
+						fieldName: 'comments',
+						modelName: 'Comment',
+						relationType: 'HAS_MANY',
+						associatedWith: 'post',
+					},
+				],
+			},
+			Comment: {
+				indexes: ['postId'],
+				relationTypes: [
+					{
+						fieldName: 'post',
+						modelName: 'Post',
+						relationType: 'BELONGS_TO',
+						targetName: 'postId',
+					},
+				],
+			},
+		};
+
+		const postPredicate = (
+			predicates: PredicatesGroup<any>
+		): RelationalPredicateObject<any> => ({
+			relationField: 'post',
+			relationType: 'BELONGS_TO',
+			relatedModelName: 'Post',
+			localKey: 'postId',
+			relatedKey: 'id',
+			predicates,
+		});
+
+		test('getRelationKeys for belongsTo', () => {
+			expect(
+				getRelationKeys(relationships, relationships.Comment.relationTypes[0])
+			).toEqual(['postId', 'id']);
+		});
+
+		test('getRelationKeys for hasMany associated with a belongsTo field', () => {
+			expect(
+				getRelationKeys(relationships, relationships.Post.relationTypes[0])
+			).toEqual(['id', 'postId']);
+		});
+
+		test('validatePredicate evaluates predicates on the related key', () => {
+			const predicate = postPredicate({
+				type: 'and',
+				predicates: [{ field: 'id', operator: 'eq', operand: 'post1' }],
+			});
+
+			expect(
+				validatePredicate({ id: 'c1', postId: 'post1' }, 'and', [predicate])
+			).toBe(true);
+			expect(
+				validatePredicate({ id: 'c2', postId: 'post2' }, 'and', [predicate])
+			).toBe(false);
+		});
+
+		test('validatePredicate throws for unresolved relational predicates', () => {
+			const predicate = postPredicate({
+				type: 'and',
+				predicates: [{ field: 'title', operator: 'eq', operand: 'a title' }],
+			});
+
+			expect(() =>
+				validatePredicate({ id: 'c1', postId: 'post1' }, 'and', [predicate])
+			).toThrow(
+				"Relational predicate on post can't be evaluated without querying the related records"
+			);
+		});
+
+		test('resolveRelationalPredicates sets the keys of the matching related records', async () => {
+			const posts = [
+				{ id: 'post1', title: 'a title' },
+				{ id: 'post2', title: 'another title' },
+			];
+
+			const resolved = await resolveRelationalPredicates(
+				{
+					type: 'and',
+					predicates: [
+						postPredicate({
+							type: 'and',
+							predicates: [
+								{ field: 'title', operator: 'eq', operand: 'a title' },
+							],
+						}),
+					],
+				},
+				async (modelName, { type, predicates }) => {
+					expect(modelName).toEqual('Post');
+					return posts.filter(p => validatePredicate(p, type, predicates));
+				}
+			);
+
+			const [relational] =
+				resolved.predicates as RelationalPredicateObject<any>[];
+			expect([...relational.matchingKeys]).toEqual(['post1']);
+
+			expect(
+				validatePredicate(
+					{ id: 'c1', postId: 'post1' },
+					resolved.type,
+					resolved.predicates
+				)
+			).toBe(true);
+			expect(
+				validatePredicate(
+					{ id: 'c2', postId: 'post2' },
+					resolved.type,
+					resolved.predicates
+				)
+			).toBe(false);
+		});
+	});
+
+	describe('migrations', () => {
+		const renameTitle = {
+			fromVersion: '1',
+			toVersion: '2',
+			migrate: ({ modelName, record: { title, ...record } }) => ({
+				modelName,
+				record: { ...record, name: title },
+			}),
+		};
+		const splitPost = {
+			fromVersion: '2',
+			toVersion: '3',
+			// the data of an update only holds the body when it changes
+			migrate: ({ modelName, record: { body, ...record } }) => [
+				{ modelName, record },
+				...(body === undefined
+					? []
+					: [{ modelName: 'PostBody', record: { id: record.id, body } }]),
+			],
+		};
+		const addRating = {
+			fromVersion: '1',
+			toVersion: '3',
+			migrate: ({ modelName, record }) => ({
+				modelName,
+				record: { ...record, rating: 0 },
+			}),
+		};
+
+		test('getMigrationPath chains the shortest path of migrations', () => {
+			expect(getMigrationPath([renameTitle, splitPost], '1', '3')).toEqual([
+				renameTitle,
+				splitPost,
+			]);
+			expect(
+				getMigrationPath([renameTitle, splitPost, addRating], '1', '3')
+			).toEqual([addRating]);
+			expect(getMigrationPath([renameTitle], '1', '3')).toBeUndefined();
+			expect(getMigrationPath([splitPost], '1', '3')).toBeUndefined();
+		});
+
+		test('migrateRecords runs every record through each migration', () => {
+			const migrated = migrateRecords(
+				[renameTitle, splitPost],
+				[
+					{
+						modelName: 'Post',
+						record: { id: 'p1', title: 'a title', body: 'a body' },
+					},
+				]
+			);
+
+			expect(migrated).toEqual([
+				{ modelName: 'Post', record: { id: 'p1', name: 'a title' } },
+				{ modelName: 'PostBody', record: { id: 'p1', body: 'a body' } },
+			]);
+		});
+
+		test('migrateMutationEvents rewrites the data of each event', () => {
+			const [create, createBody] = migrateMutationEvents(
+				[renameTitle, splitPost],
+				[
+					{
+						id: 'event1',
+						model: 'Post',
+						modelId: 'p1',
+						operation: 'Create',
+						data: JSON.stringify({ id: 'p1', title: 'a title', body: 'b' }),
+						condition: '{}',
+					},
+				]
+			);
+
+			expect(create).toEqual({
+				id: 'event1',
+				model: 'Post',
+				modelId: 'p1',
+				operation: 'Create',
+				data: JSON.stringify({ id: 'p1', name: 'a title' }),
+				condition: '{}',
+			});
+			expect(createBody).toEqual({
+				id: 'event1-1',
+				model: 'PostBody',
+				modelId: 'p1',
+				operation: 'Create',
+				data: JSON.stringify({ id: 'p1', body: 'b' }),
+				condition: '{}',
+			});
+		});
+
+		test('migrateMutationEvents passes the operation of each event', () => {
+			const addRating: SchemaMigration = {
+				fromVersion: '1',
+				toVersion: '2',
+				migrate: ({ operation, ...migrationRecord }) => ({
+					...migrationRecord,
+					record:
+						operation === 'Update'
+							? migrationRecord.record
+							: { ...migrationRecord.record, rating: 0 },
+				}),
+			};
+			const events = [
+				{
+					id: 'event1',
+					model: 'Post',
+					modelId: 'p1',
+					operation: 'Update',
+					data: JSON.stringify({ id: 'p1', title: 'a title' }),
+					condition: '{}',
+				},
+			];
+
+			expect(migrateMutationEvents([addRating], events)).toEqual(events);
+		});
+
+		test('migrateMutationEvents creates the records that a split adds', () => {
+			const [update, createBody, create, createBody2, update2, updateBody2] =
+				migrateMutationEvents(
+					[splitPost],
+					[
+						{
+							id: 'event1',
+							model: 'Post',
+							modelId: 'p1',
+							operation: 'Update',
+							data: JSON.stringify({ id: 'p1', body: 'b' }),
+							condition: '{}',
+						},
+						{
+							id: 'event2',
+							model: 'Post',
+							modelId: 'p2',
+							operation: 'Create',
+							data: JSON.stringify({ id: 'p2', body: 'b' }),
+							condition: '{}',
+						},
+						{
+							id: 'event3',
+							model: 'Post',
+							modelId: 'p2',
+							operation: 'Update',
+							data: JSON.stringify({ id: 'p2', body: 'c' }),
+							condition: '{}',
+						},
+					]
+				);
+
+			expect([update, createBody].map(({ operation }) => operation)).toEqual([
+				'Update',
+				'Create',
+			]);
+			expect([create, createBody2].map(({ operation }) => operation)).toEqual([
+				'Create',
+				'Create',
+			]);
+			expect([update2, updateBody2].map(({ operation }) => operation)).toEqual([
+				'Update',
+				'Update',
+			]);
+		});
+
+		test('migrateMutationEvents only deletes the added records that are created', () => {
+			const events = migrateMutationEvents(
+				[splitPost],
+				[
+					{
+						id: 'event1',
+						model: 'Post',
+						modelId: 'p1',
+						operation: 'Delete',
+						data: JSON.stringify({ id: 'p1', body: 'b' }),
+						condition: '{}',
+					},
+				]
+			);
+
+			expect(events.map(({ model, operation }) => [model, operation])).toEqual([
+				['Post', 'Delete'],
+			]);
+		});
+
+		test('migrateMutationEvents rewrites the condition of each event', () => {
+			const renameTitleCondition: SchemaMigration = {
+				fromVersion: '1',
+				toVersion: '2',
+				migrate: ({
+					modelName,
+					record: { title, ...record },
+					condition: { title: titleCondition, ...condition },
+				}) => ({
+					modelName,
+					record: { ...record, name: title },
+					condition: { ...condition, name: titleCondition },
+				}),
+			};
+
+			const [update] = migrateMutationEvents(
+				[renameTitleCondition],
+				[
+					{
+						id: 'event1',
+						model: 'Post',
+						modelId: 'p1',
+						operation: 'Update',
+						data: JSON.stringify({ id: 'p1', title: 'a title' }),
+						condition: JSON.stringify({ title: { eq: 'old title' } }),
+					},
+				]
+			);
+
+			expect(update.data).toEqual(
+				JSON.stringify({ id: 'p1', name: 'a title' })
+			);
+			expect(update.condition).toEqual(
+				JSON.stringify({ name: { eq: 'old title' } })
+			);
+		});
+
+		test('migrateMutationEvents keeps the condition the migration leaves out', () => {
+			const [update] = migrateMutationEvents(
+				[splitPost],
+				[
+					{
+						id: 'event1',
+						model: 'Post',
+						modelId: 'p1',
+						operation: 'Update',
+						data: JSON.stringify({ id: 'p1', body: 'b' }),
+						condition: JSON.stringify({ title: { eq: 'a title' } }),
+					},
+				]
+			);
+
+			expect(update.condition).toEqual(
+				JSON.stringify({ title: { eq: 'a title' } })
+			);
+		});
+
+		describe('migrateLocalStore', () => {
+			const schema = <InternalSchema>(<unknown>{
+				version: '3',
+				namespaces: {
+					user: { models: { Post: {}, PostBody: {} } },
+				},
+			});
+
+			function createStore(
+				stores: Record<string, any[]>
+			): MigrationStore & { stores: Record<string, any[]> } {
+				return {
+					stores,
+					getModelNames: async namespaceName =>
+						Object.keys(stores)
+							.filter(name => name.startsWith(`${namespaceName}_`))
+							.map(name => name.slice(namespaceName.length + 1)),
+					getAll: async (namespaceName, modelName) =>
+						stores[`${namespaceName}_${modelName}`] || [],
+					replaceAll: async replacements => {
+						replacements.forEach(({ namespaceName, modelName, records }) => {
+							stores[`${namespaceName}_${modelName}`] = records;
+						});
+					},
+				};
+			}
+
+			function versionSetting(version: string) {
+				return {
+					id: 'setting1',
+					key: 'schemaVersion',
+					value: JSON.stringify(version),
+				};
+			}
+
+			test('migrates records and the outbox and updates the stored version', async () => {
+				const store = createStore({
+					datastore_Setting: [versionSetting('1')],
+					user_Post: [{ id: 'p1', title: 'a title', body: 'a body' }],
+					sync_MutationEvent: [
+						{
+							id: 'event1',
+							model: 'Post',
+							modelId: 'p1',
+							operation: 'Update',
+							data: JSON.stringify({ id: 'p1', title: 'new title' }),
+							condition: '{}',
+						},
+					],
+				});
+
+				const migrated = await migrateLocalStore(
+					schema,
+					[renameTitle, splitPost],
+					store
+				);
+
+				expect(migrated).toBe(true);
+				expect(store.stores.user_Post).toEqual([{ id: 'p1', name: 'a title' }]);
+				expect(store.stores.user_PostBody).toEqual([
+					{ id: 'p1', body: 'a body' },
+				]);
+				expect(
+					store.stores.sync_MutationEvent.map(({ model, data }) => [
+						model,
+						JSON.parse(data),
+					])
+				).toEqual([['Post', { id: 'p1', name: 'new title' }]]);
+				expect(store.stores.datastore_Setting).toEqual([versionSetting('3')]);
+			});
+
+			test('migrates the records of models that are no longer in the schema', async () => {
+				const store = createStore({
+					datastore_Setting: [versionSetting('2')],
+					user_Article: [{ id: 'a1', body: 'a body' }],
+				});
+
+				const migrated = await migrateLocalStore(
+					schema,
+					[
+						{
+							...splitPost,
+							migrate: ({ modelName, record }) => ({
+								modelName: modelName === 'Article' ? 'Post' : modelName,
+								record,
+							}),
+						},
+					],
+					store
+				);
+
+				expect(migrated).toBe(true);
+				expect(store.stores.user_Post).toEqual([{ id: 'a1', body: 'a body' }]);
+				expect(store.stores.user_Article).toEqual([]);
+			});
+
+			test('leaves the store untouched without a path to the new version', async () => {
+				const store = createStore({
+					datastore_Setting: [versionSetting('1')],
+					user_Post: [{ id: 'p1', title: 'a title' }],
+				});
+
+				expect(await migrateLocalStore(schema, [renameTitle], store)).toBe(
+					false
+				);
+				expect(store.stores.user_Post).toEqual([
+					{ id: 'p1', title: 'a title' },
+				]);
+				expect(store.stores.datastore_Setting).toEqual([versionSetting('1')]);
+			});
+
+			test('does nothing for a new store', async () => {
+				const store = createStore({});
+
+				expect(
+					await migrateLocalStore(schema, [renameTitle, splitPost], store)
+				).toBe(false);
+				expect(store.stores).toEqual({});
+			});
+
+			test('rejects records for models that are not in the schema', async () => {
+				const store = createStore({
+					datastore_Setting: [versionSetting('2')],
+					user_Post: [{ id: 'p1', body: 'a body' }],
+				});
+
+				await expect(
+					migrateLocalStore(
+						schema,
+						[
+							{
+								...splitPost,
+								migrate: ({ record }) => ({ modelName: 'Unknown', record }),
+							},
+						],
+						store
+					)
+				).rejects.toThrow('produced a record for unknown model Unknown');
+				expect(store.stores.user_Post).toEqual([{ id: 'p1', body: 'a body' }]);
+			});
+		});
+	});
+
+	describe('search', () => {
+		const noteModel = (attributes: SchemaModel['attributes']): SchemaModel => ({
+			name: 'Note',
+			pluralName: 'Notes',
+			syncable: true,
+			attributes,
+			fields: {
+				id: { name: 'id', type: 'ID', isRequired: true, isArray: false },
+				title: {
+					name: 'title',
+					type: 'String',
+					isRequired: true,
+					isArray: false,
+				},
+				tags: {
+					name: 'tags',
+					type: 'String',
+					isRequired: false,
+					isArray: true,
+				},
+				rating: {
+					name: 'rating',
+					type: 'Int',
+					isRequired: false,
+					isArray: false,
+				},
+			},
+		});
+
+		const notes = [
+			{ id: '1', title: 'Grocery list', tags: ['home'] },
+			{ id: '2', title: 'Home repairs: fix the home office', tags: [] },
+			{ id: '3', title: 'Office party', tags: ['work', 'Home'] },
+		];
+
+		const createIndexStore = () => {
+			const items = new Map<string, any>();
+
+			const store: SearchIndexStore & { items: Map<string, any> } = {
+				items,
+				get: async id => items.get(id),
+				put: async item => {
+					items.set(item.id, JSON.parse(JSON.stringify(item)));
+				},
+				delete: async id => {
+					items.delete(id);
+				},
+				clear: async () => items.clear(),
+			};
+
+			return store;
+		};
+
+		test('tokenize splits text into lowercase terms', () => {
+			expect(tokenize("Don't PANIC, it's 42°C in Zürich—again")).toEqual([
+				'don',
+				't',
+				'panic',
+				'it',
+				's',
+				'42',
+				'c',
+				'in',
+				'zürich',
+				'again',
+			]);
+			expect(tokenize(' .,;')).toEqual([]);
+		});
+
+		test('getSearchableFields reads the localSearchFields config', () => {
+			expect(getSearchableFields(noteModel([{ type: 'model' }]))).toEqual([]);
+			expect(
+				getSearchableFields(noteModel([{ type: 'model' }]), {
+					Note: ['title', 'tags'],
+				})
+			).toEqual(['title', 'tags']);
+			expect(
+				getSearchableFields(noteModel([{ type: 'model' }]), {
+					Post: ['title'],
+				})
+			).toEqual([]);
+		});
+
+		test('getSearchableFields ignores the searchable attribute', () => {
+			expect(getSearchableFields(noteModel([{ type: 'searchable' }]))).toEqual(
+				[]
+			);
+		});
+
+		test('inMemorySearch ranks records by relevance', () => {
+			const fields = ['title', 'tags'];
+
+			expect(
+				inMemorySearch(notes, 'home', { fields }).map(({ id }) => id)
+			).toEqual(['2', '1', '3']);
+			expect(
+				inMemorySearch(notes, 'HOME office', { fields, limit: 2 }).map(
+					({ id }) => id
+				)
+			).toEqual(['2', '3']);
+			expect(
+				inMemorySearch(notes, 'home', { fields: ['tags'] }).map(({ id }) => id)
+			).toEqual(['1', '3']);
+			expect(inMemorySearch(notes, 'garden', { fields })).toEqual([]);
+		});
+
+		test('updateSearchIndex keeps postings in sync with the records', async () => {
+			const store = createIndexStore();
+			const fields = ['title', 'tags'];
+
+			for (const note of notes) {
+				await updateSearchIndex(store, fields, note, false);
+			}
+
+			expect(store.items.get('term:home').postings).toEqual({
+				'1': { tags: 1 },
+				'2': { title: 2 },
+				'3': { tags: 1 },
+			});
+
+			await updateSearchIndex(
+				store,
+				fields,
+				{ id: '2', title: 'Garden', tags: [] },
+				false
+			);
+			await updateSearchIndex(store, fields, notes[2], true);
+
+			expect(store.items.get('term:home').postings).toEqual({
+				'1': { tags: 1 },
+			});
+			expect(store.items.has('term:office')).toBe(false);
+			expect(store.items.has('record:3')).toBe(false);
+			expect(
+				await querySearchIndex(store, 'garden home', 2, { fields })
+			).toEqual(['1', '2']);
+		});
+
+		test('ensureSearchIndex rebuilds the index when the schema changes', async () => {
+			const store = createIndexStore();
+			const getAll = jest.fn(async () => notes);
+
+			await ensureSearchIndex(store, ['title'], '1', getAll);
+			await ensureSearchIndex(store, ['title'], '1', getAll);
+
+			expect(getAll).toHaveBeenCalledTimes(1);
+			expect(
+				await querySearchIndex(store, 'home', 3, { fields: ['title'] })
+			).toEqual(['2']);
+
+			await ensureSearchIndex(store, ['title', 'tags'], '2', getAll);
+
+			expect(getAll).toHaveBeenCalledTimes(2);
+			expect(
+				await querySearchIndex(store, 'home', 3, { fields: ['tags'] })
+			).toEqual(['1', '3']);
+		});
+	});
+
+	describe('getSnapshotChanges', () => {
+		const [a, b, c, d, e] = ['a', 'b', 'c', 'd', 'e'].map(id => ({ id }));
+
+		test('reports added and removed items without moves', () => {
+			expect(getSnapshotChanges([a, b, c], [b, d, c])).toEqual({
+				added: [{ item: d, index: 1 }],
+				removed: [{ item: a, previousIndex: 0 }],
+				moved: [],
+			});
+		});
+
+		test('reports the fewest moved items', () => {
+			expect(getSnapshotChanges([a, b, c, d, e], [e, a, b, c, d])).toEqual({
+				added: [],
+				removed: [],
+				moved: [{ item: e, index: 0, previousIndex: 4 }],
+			});
+			expect(getSnapshotChanges([a, b, c], [c, b, a]).moved).toHaveLength(2);
+		});
+
+		test('reports every item as added for the first snapshot', () => {
+			expect(getSnapshotChanges([], [a, b]).added).toEqual([
+				{ item: a, index: 0 },
+				{ item: b, index: 1 },
+			]);
+		});
+	});
 });
@@ -0,0 +1,70 @@
+import {
+	ConflictHandler,
+	OpType,
+	PersistentModel,
+	SyncConflict,
+} from '../types';
+import { valuesEqual } from '../util';
+
+const METADATA_FIELDS = new Set([
+	'id',
+	'_version',
+	'_lastChangedAt',
+	'_deleted',
+]);
+
+/**
+ * Three-way merge of the fields of a conflict. A field changed on one side
+ * only keeps that change, `resolveField` picks the value of a field changed
+ * on both sides. Without a valid base every local field counts as changed on
+ * both sides.
+ */
+export function mergeFields(
+	conflict: SyncConflict,
+	resolveField: (field: string, baseValue: any) => any
+): PersistentModel {
+	const { modelConstructor, localModel, remoteModel, baseModel, operation } =
+		conflict;
+
+	// the local delete is retried against the latest version
+	if (operation === OpType.DELETE) {
+		return remoteModel;
+	}
+
+	const base =
+		baseModel && baseModel._version === localModel._version
+			? baseModel
+			: undefined;
+
+	const merged: Record<string, any> = {};
+
+	Object.keys(localModel)
+		.filter(field => !METADATA_FIELDS.has(field))
+		.forEach(field => {
+			const localValue = localModel[field];
+			const remoteValue = remoteModel[field];
+
+			if (valuesEqual(localValue, remoteValue, true)) {
+				return;
+			}
+
+			const baseValue = base ? base[field] : undefined;
+			const localChanged =
+				base === undefined || !valuesEqual(baseValue, localValue, true);
+			const remoteChanged =
+				base === undefined || !valuesEqual(baseValue, remoteValue, true);
+
+			if (localChanged && remoteChanged) {
+				merged[field] = resolveField(field, baseValue);
+			} else if (localChanged) {
+				merged[field] = localValue;
+			}
+		});
+
+	return modelConstructor.copyOf(remoteModel, draft => {
+		Object.assign(draft, merged);
+	});
+}
+
+export const fieldMergeStrategy: ConflictHandler = conflict =>
+	mergeFields(conflict, field => conflict.localModel[field]);
@@ -0,0 +1,16 @@
+import { ConflictHandler } from '../types';
+import { fieldMergeStrategy } from './fieldMergeStrategy';
+import { lastWriterWinsStrategy } from './lastWriterWinsStrategy';
+import { setUnionStrategy } from './setUnionStrategy';
+
+export { fieldMergeStrategy, lastWriterWinsStrategy, setUnionStrategy };
+
+// the strategies that merge against the base of a conflict, the outbox only
+// keeps bases for them
+export function needsConflictBase(conflictHandler: ConflictHandler): boolean {
+	return (
+		conflictHandler === fieldMergeStrategy ||
+		conflictHandler === lastWriterWinsStrategy ||
+		conflictHandler === setUnionStrategy
+	);
+}
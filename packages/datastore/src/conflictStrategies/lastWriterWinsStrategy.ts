@@ -0,0 +1,20 @@
+import { ConflictHandler } from '../types';
+import { mergeFields } from './fieldMergeStrategy';
+
+// The remote side only has the time of the last change to the whole record,
+// a field without a local timestamp is considered changed after it.
+// Local changes are timed by the clock of the device and remote ones by the
+// clock of AppSync, a device clock that is ahead or behind favors the local or
+// the remote side by as much.
+export const lastWriterWinsStrategy: ConflictHandler = conflict => {
+	const { localModel, remoteModel, localChangedAt = {} } = conflict;
+
+	return mergeFields(conflict, field => {
+		const localTimestamp = localChangedAt[field];
+
+		return localTimestamp === undefined ||
+			localTimestamp > remoteModel._lastChangedAt
+			? localModel[field]
+			: remoteModel[field];
+	});
+};
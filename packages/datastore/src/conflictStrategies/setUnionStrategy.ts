@@ -0,0 +1,38 @@
+import { ConflictHandler } from '../types';
+import { mergeFields } from './fieldMergeStrategy';
+
+// Items removed on either side since the base stay removed, items added on
+// either side are kept. Other fields are merged like `fieldMergeStrategy`.
+export const setUnionStrategy: ConflictHandler = conflict => {
+	const { localModel, remoteModel } = conflict;
+
+	return mergeFields(conflict, (field, baseValue) => {
+		const localValue = localModel[field];
+		const remoteValue = remoteModel[field];
+
+		if (!Array.isArray(localValue) || !Array.isArray(remoteValue)) {
+			return localValue;
+		}
+
+		const key = (item: any) => JSON.stringify(item);
+		const baseKeys = new Set((baseValue || []).map(key));
+		const localKeys = new Set(localValue.map(key));
+		const remoteKeys = new Set(remoteValue.map(key));
+		const removed = (k: string) =>
+			baseKeys.has(k) && (!localKeys.has(k) || !remoteKeys.has(k));
+
+		const seen = new Set<string>();
+
+		return [...remoteValue, ...localValue].filter(item => {
+			const k = key(item);
+
+			if (seen.has(k) || removed(k)) {
+				return false;
+			}
+
+			seen.add(k);
+
+			return true;
+		});
+	});
+};
@@ -10,6 +10,11 @@ import {
 import { v4 as uuid4 } from 'uuid';
 import Observable, { ZenObservable } from 'zen-observable-ts';
 import { defaultAuthStrategy, multiAuthStrategy } from '../authModeStrategies';
+import {
+	fieldMergeStrategy,
+	lastWriterWinsStrategy,
+	setUnionStrategy,
+} from '../conflictStrategies';
 import {
 	isPredicatesAll,
 	ModelPredicateCreator,
@@ -20,21 +25,30 @@ import { Adapter } from '../storage/adapter';
 import { ExclusiveStorage as Storage } from '../storage/storage';
 import { ControlMessage, SyncEngine } from '../sync';
 import {
+	AggregateGroupResult,
+	AggregateInput,
+	AggregateResult,
 	AuthModeStrategy,
 	ConflictHandler,
+	ConflictStrategyType,
 	DataStoreConfig,
+	DataStoreOutbox,
+	DataStoreTransaction,
 	GraphQLScalarType,
 	InternalSchema,
 	isGraphQLScalarType,
 	ModelFieldType,
 	ModelInit,
 	ModelInstanceMetadata,
+	ModelIterationOptions,
+	ModelPage,
 	ModelPredicate,
 	SortPredicate,
 	MutableModel,
 	NamespaceResolver,
 	NonModelTypeConstructor,
 	ProducerPaginationInput,
+	ProducerCursorPaginationInput,
 	PaginationInput,
 	PersistentModel,
 	PersistentModelConstructor,
@@ -53,15 +67,25 @@ import {
 	AuthModeStrategyType,
 	isNonModelFieldType,
 	isModelFieldType,
+	isTargetNameAssociation,
 	ObserveQueryOptions,
+	SchemaMigration,
+	LocalSearchFields,
+	SearchInput,
+	SearchOptions,
 } from '../types';
 import {
 	DATASTORE,
+	decodeModelCursor,
+	encodeModelCursor,
 	establishRelationAndKeys,
 	exhaustiveCheck,
+	getSearchableFields,
+	getSnapshotChanges,
 	isModelConstructor,
 	monotonicUlidFactory,
 	NAMESPACES,
+	SETTING_SCHEMA_VERSION,
 	STORAGE,
 	SYNC,
 	USER,
@@ -71,6 +95,7 @@ import {
 	DeferredCallbackResolver,
 	validatePredicate,
 	mergePatches,
+	tokenize,
 } from '../util';
 
 setAutoFreeze(true);
@@ -92,7 +117,11 @@ declare class Setting {
 	public readonly value: string;
 }
 
-const SETTING_SCHEMA_VERSION = 'schemaVersion';
+const DEFAULT_ITERATION_BATCH_SIZE = 100;
+
+// the storage that save, delete and query run against, either the
+// ExclusiveStorage or the storage locked by an ongoing transaction
+type OperationStorage = Pick<Storage, 'query' | 'delete' | 'runExclusive'>;
 
 let schema: InternalSchema;
 const modelNamespaceMap = new WeakMap<
@@ -115,6 +144,14 @@ const getModelDefinition = (
 	return schema.namespaces[namespace].models[modelConstructor.name];
 };
 
+const getModelNamespace = (
+	modelConstructor: PersistentModelConstructor<any>
+) => {
+	const namespace = modelNamespaceMap.get(modelConstructor);
+
+	return schema.namespaces[namespace];
+};
+
 const isValidModelConstructor = <T extends PersistentModel>(
 	obj: any
 ): obj is PersistentModelConstructor<T> => {
@@ -727,6 +764,9 @@ class DataStore {
 		new WeakMap<SchemaModel, ModelPredicate<any>>();
 	private sessionId: string;
 	private storageAdapter: Adapter;
+	private migrations: SchemaMigration[];
+	private localSearchFields: LocalSearchFields;
+	private keepFailedMutations: boolean;
 
 	getModuleName() {
 		return 'DataStore';
@@ -751,7 +791,9 @@ class DataStore {
 			getModelConstructorByModelName,
 			modelInstanceCreator,
 			this.storageAdapter,
-			this.sessionId
+			this.sessionId,
+			this.migrations,
+			this.localSearchFields
 		);
 
 		await this.storage.init();
@@ -825,6 +867,11 @@ class DataStore {
 			modelConstructor: PersistentModelConstructor<T>,
 			id: string
 		): Promise<T | undefined>;
+		<T extends PersistentModel>(
+			modelConstructor: PersistentModelConstructor<T>,
+			criteria: ProducerModelPredicate<T> | typeof PredicateAll | undefined,
+			paginationProducer: ProducerCursorPaginationInput<T>
+		): Promise<ModelPage<T>>;
 		<T extends PersistentModel>(
 			modelConstructor: PersistentModelConstructor<T>,
 			criteria?: ProducerModelPredicate<T> | typeof PredicateAll,
@@ -833,10 +880,28 @@ class DataStore {
 	} = async <T extends PersistentModel>(
 		modelConstructor: PersistentModelConstructor<T>,
 		idOrCriteria?: string | ProducerModelPredicate<T> | typeof PredicateAll,
-		paginationProducer?: ProducerPaginationInput<T>
-	): Promise<T | T[] | undefined> => {
+		paginationProducer?:
+			| ProducerPaginationInput<T>
+			| ProducerCursorPaginationInput<T>
+	): Promise<T | T[] | ModelPage<T> | undefined> => {
 		await this.start();
 
+		return this.queryWithStorage(
+			this.storage,
+			modelConstructor,
+			idOrCriteria,
+			paginationProducer
+		);
+	};
+
+	private async queryWithStorage<T extends PersistentModel>(
+		storage: OperationStorage,
+		modelConstructor: PersistentModelConstructor<T>,
+		idOrCriteria?: string | ProducerModelPredicate<T> | typeof PredicateAll,
+		paginationProducer?:
+			| ProducerPaginationInput<T>
+			| ProducerCursorPaginationInput<T>
+	): Promise<T | T[] | ModelPage<T> | undefined> {
 		//#region Input validation
 
 		if (!isValidModelConstructor(modelConstructor)) {
@@ -867,7 +932,8 @@ class DataStore {
 			} else {
 				predicate = ModelPredicateCreator.createFromExisting(
 					modelDefinition,
-					idOrCriteria
+					idOrCriteria,
+					getModelNamespace(modelConstructor)
 				);
 			}
 		}
@@ -891,13 +957,164 @@ class DataStore {
 			},
 		});
 
-		const result = await this.storage.query(
+		const result = await storage.query(modelConstructor, predicate, pagination);
+
+		if (isQueryOne(idOrCriteria)) {
+			return result[0];
+		}
+
+		if (pagination && pagination.cursor) {
+			const { limit, sort } = pagination;
+			const lastRecord = result[result.length - 1];
+
+			const nextCursor =
+				result.length === limit
+					? encodeModelCursor(
+							lastRecord,
+							ModelSortPredicateCreator.getPredicates(sort, false)
+					  )
+					: null;
+
+			return { items: result, nextCursor };
+		}
+
+		return result;
+	}
+
+	iterate = <T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		criteria?: ProducerModelPredicate<T> | typeof PredicateAll,
+		options?: ModelIterationOptions<T>
+	): AsyncIterable<T> => {
+		const { sort, batchSize = DEFAULT_ITERATION_BATCH_SIZE } = options || {};
+
+		if (typeof batchSize !== 'number' || batchSize <= 0) {
+			const msg = 'Batch size should be a positive number';
+			logger.error(msg, { batchSize });
+
+			throw new Error(msg);
+		}
+
+		const query = this.query;
+
+		// records are fetched one page at a time with a cursor, so only the
+		// current batch is held in memory while iterating
+		return (async function* iterateBatches() {
+			let cursor: string | null = null;
+
+			do {
+				const page: ModelPage<T> = await query(modelConstructor, criteria, {
+					sort,
+					limit: batchSize,
+					cursor,
+				});
+
+				yield* page.items;
+
+				cursor = page.nextCursor;
+			} while (cursor !== null);
+		})();
+	};
+
+	aggregate: {
+		<T extends PersistentModel>(
+			modelConstructor: PersistentModelConstructor<T>,
+			criteria: ProducerModelPredicate<T> | typeof PredicateAll | undefined,
+			aggregation: AggregateInput<T> & { groupBy: keyof T }
+		): Promise<AggregateGroupResult<T>[]>;
+		<T extends PersistentModel>(
+			modelConstructor: PersistentModelConstructor<T>,
+			criteria: ProducerModelPredicate<T> | typeof PredicateAll | undefined,
+			aggregation: AggregateInput<T>
+		): Promise<AggregateResult>;
+	} = async <T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		criteria: ProducerModelPredicate<T> | typeof PredicateAll | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<any> => {
+		await this.start();
+
+		//#region Input validation
+
+		if (!isValidModelConstructor(modelConstructor)) {
+			const msg = 'Constructor is not for a valid model';
+			logger.error(msg, { modelConstructor });
+
+			throw new Error(msg);
+		}
+
+		const modelDefinition = getModelDefinition(modelConstructor);
+
+		this.validateAggregation(modelDefinition, aggregation);
+
+		const predicate = isPredicatesAll(criteria)
+			? // Predicates.ALL means "all records", so no predicate (undefined)
+			  undefined
+			: ModelPredicateCreator.createFromExisting(
+					modelDefinition,
+					criteria,
+					getModelNamespace(modelConstructor)
+			  );
+
+		//#endregion
+
+		logger.debug('params ready', {
+			modelConstructor,
+			predicate: ModelPredicateCreator.getPredicates(predicate, false),
+			aggregation,
+		});
+
+		const results = await this.storage.aggregate(
 			modelConstructor,
 			predicate,
-			pagination
+			aggregation
 		);
 
-		return isQueryOne(idOrCriteria) ? result[0] : result;
+		if (aggregation.groupBy !== undefined) {
+			return results;
+		}
+
+		const [{ key: _key, ...result }] = results;
+
+		return result;
+	};
+
+	search = async <T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		options: SearchOptions<T> = {}
+	): Promise<T[]> => {
+		await this.start();
+
+		//#region Input validation
+
+		if (!isValidModelConstructor(modelConstructor)) {
+			const msg = 'Constructor is not for a valid model';
+			logger.error(msg, { modelConstructor });
+
+			throw new Error(msg);
+		}
+
+		if (typeof text !== 'string') {
+			throw new Error('Search text should be a string');
+		}
+
+		const modelDefinition = getModelDefinition(modelConstructor);
+		const search = this.validateSearch(modelDefinition, options);
+
+		//#endregion
+
+		logger.debug('params ready', {
+			modelConstructor,
+			text,
+			search,
+		});
+
+		if (tokenize(text).length === 0) {
+			return [];
+		}
+
+		return this.storage.search(modelConstructor, text, search);
 	};
 
 	save = async <T extends PersistentModel>(
@@ -906,6 +1123,14 @@ class DataStore {
 	): Promise<T> => {
 		await this.start();
 
+		return this.saveWithStorage(this.storage, model, condition);
+	};
+
+	private async saveWithStorage<T extends PersistentModel>(
+		storage: OperationStorage,
+		model: T,
+		condition?: ProducerModelPredicate<T>
+	): Promise<T> {
 		// Immer patches for constructing a correct update mutation input
 		// Allows us to only include changed fields for updates
 		const patchesTuple = modelPatchesMap.get(model);
@@ -928,7 +1153,7 @@ class DataStore {
 			condition
 		);
 
-		const [savedModel] = await this.storage.runExclusive(async s => {
+		const [savedModel] = await storage.runExclusive(async s => {
 			await s.save(model, producedCondition, undefined, patchesTuple);
 
 			return s.query(
@@ -938,7 +1163,7 @@ class DataStore {
 		});
 
 		return savedModel;
-	};
+	}
 
 	setConflictHandler = (config: DataStoreConfig): ConflictHandler => {
 		const { DataStore: configDataStore } = config;
@@ -953,7 +1178,20 @@ class DataStore {
 			return config.conflictHandler;
 		}
 
-		return this.conflictHandler || defaultConflictHandler;
+		const conflictStrategyType =
+			(configDataStore && configDataStore.conflictStrategyType) ||
+			config.conflictStrategyType;
+
+		switch (conflictStrategyType) {
+			case ConflictStrategyType.FIELD_MERGE:
+				return fieldMergeStrategy;
+			case ConflictStrategyType.LAST_WRITER_WINS:
+				return lastWriterWinsStrategy;
+			case ConflictStrategyType.SET_UNION:
+				return setUnionStrategy;
+			default:
+				return this.conflictHandler || defaultConflictHandler;
+		}
 	};
 
 	setErrorHandler = (config: DataStoreConfig): ErrorHandler => {
@@ -991,6 +1229,18 @@ class DataStore {
 	) => {
 		await this.start();
 
+		return this.deleteWithStorage(
+			this.storage,
+			modelOrConstructor,
+			idOrCriteria
+		);
+	};
+
+	private async deleteWithStorage<T extends PersistentModel>(
+		storage: OperationStorage,
+		modelOrConstructor: T | PersistentModelConstructor<T>,
+		idOrCriteria?: string | ProducerModelPredicate<T> | typeof PredicateAll
+	): Promise<T | T[]> {
 		let condition: ModelPredicate<T>;
 
 		if (!modelOrConstructor) {
@@ -1023,7 +1273,8 @@ class DataStore {
 					 * idOrCriteria is always a ProducerModelPredicate<T>, never a symbol.
 					 * The symbol is used only for typing purposes. e.g. see Predicates.ALL
 					 */
-					idOrCriteria as ProducerModelPredicate<T>
+					idOrCriteria as ProducerModelPredicate<T>,
+					getModelNamespace(modelConstructor)
 				);
 
 				if (!condition || !ModelPredicateCreator.isValidPredicate(condition)) {
@@ -1035,7 +1286,7 @@ class DataStore {
 				}
 			}
 
-			const [deleted] = await this.storage.delete(modelConstructor, condition);
+			const [deleted] = await storage.delete(modelConstructor, condition);
 
 			return deleted;
 		} else {
@@ -1070,12 +1321,131 @@ class DataStore {
 				condition = idPredicate;
 			}
 
-			const [[deleted]] = await this.storage.delete(model, condition);
+			const [[deleted]] = await storage.delete(model, condition);
 
 			return deleted;
 		}
+	}
+
+	/**
+	 * Runs `fn` as a transaction. The saves and deletes made through `tx` are
+	 * committed together or, when `fn` rejects, rolled back together. Their
+	 * observe events are only emitted and their outbox mutations only enqueued
+	 * once the transaction commits.
+	 *
+	 * Other DataStore operations wait for the transaction to finish, so `fn`
+	 * should use `tx` instead of awaiting them.
+	 */
+	transaction = async <T>(
+		fn: (tx: DataStoreTransaction) => Promise<T>
+	): Promise<T> => {
+		await this.start();
+
+		return this.storage.runExclusive(async s => {
+			let active = true;
+
+			// operations run directly on the locked storage, going through
+			// ExclusiveStorage would wait for this transaction to finish
+			const storage: OperationStorage = {
+				query: s.query.bind(s),
+				delete: s.delete.bind(s),
+				runExclusive: operation => operation(s),
+			};
+
+			const checkActive = () => {
+				if (!active) {
+					const msg = 'Transaction is no longer active';
+					logger.error(msg);
+
+					throw new Error(msg);
+				}
+			};
+
+			const tx: DataStoreTransaction = {
+				save: async (model, condition) => {
+					checkActive();
+
+					return this.saveWithStorage(storage, model, condition);
+				},
+				delete: async <T extends PersistentModel>(
+					modelOrConstructor: T | PersistentModelConstructor<T>,
+					idOrCriteria?:
+						| string
+						| ProducerModelPredicate<T>
+						| typeof PredicateAll
+				) => {
+					checkActive();
+
+					return this.deleteWithStorage(
+						storage,
+						modelOrConstructor,
+						idOrCriteria
+					);
+				},
+				query: async <T extends PersistentModel>(
+					modelConstructor: PersistentModelConstructor<T>,
+					idOrCriteria?:
+						| string
+						| ProducerModelPredicate<T>
+						| typeof PredicateAll,
+					paginationProducer?:
+						| ProducerPaginationInput<T>
+						| ProducerCursorPaginationInput<T>
+				) => {
+					checkActive();
+
+					return this.queryWithStorage(
+						storage,
+						modelConstructor,
+						idOrCriteria,
+						paginationProducer
+					);
+				},
+			};
+
+			try {
+				return await s.transaction(() => fn(tx));
+			} finally {
+				active = false;
+			}
+		});
 	};
 
+	/**
+	 * Pending and failed mutations of the sync engine, available when a
+	 * GraphQL endpoint is configured
+	 */
+	outbox: DataStoreOutbox = {
+		list: async () => (await this.getSyncEngine()).getOutboxMutations(),
+		edit: async (id, data) =>
+			(await this.getSyncEngine()).editOutboxMutation(id, data),
+		discard: async id => (await this.getSyncEngine()).discardOutboxMutation(id),
+		pause: async () => (await this.getSyncEngine()).pauseOutbox(),
+		resume: async () => (await this.getSyncEngine()).resumeOutbox(),
+		replay: async id => (await this.getSyncEngine()).replayOutboxMutation(id),
+	};
+
+	private async getSyncEngine(): Promise<SyncEngine> {
+		await this.start();
+
+		if (this.sync === undefined) {
+			const msg = 'The outbox is only available when sync is enabled';
+			logger.error(msg);
+
+			throw new Error(msg);
+		}
+
+		return this.sync;
+	}
+
+	/**
+	 * Emits the changes of the records of a model, or of a single record.
+	 *
+	 * The `criteria` can't use relational predicates (over belongsTo, hasOne
+	 * and hasMany fields): matching them would require querying the related
+	 * records for every change, so they throw here. Query the related records
+	 * and observe with a predicate over their keys instead.
+	 */
 	observe: {
 		(): Observable<SubscriptionMessage<PersistentModel>>;
 
@@ -1193,6 +1563,12 @@ class DataStore {
 		});
 	};
 
+	/**
+	 * Emits snapshots of the records of a model that match `criteria`, the
+	 * first one with the records already stored locally.
+	 *
+	 * Like `observe`, the `criteria` can't use relational predicates.
+	 */
 	observeQuery: {
 		<T extends PersistentModel>(
 			modelConstructor: PersistentModelConstructor<T>,
@@ -1210,10 +1586,11 @@ class DataStore {
 			let deletedItemIds: string[] = [];
 			let handle: ZenObservable.Subscription;
 			let predicate: ModelPredicate<T>;
+			let previousSnapshot: DataStoreSnapshot<T> | undefined;
 
 			/**
 			 * As the name suggests, this geneates a snapshot in the form of
-			 * 	`{items: T[], isSynced: boolean}`
+			 * 	`{items: T[], isSynced: boolean, changes}`
 			 * and sends it to the observer.
 			 *
 			 * SIDE EFFECT: The underlying generation and emission methods may touch:
@@ -1234,7 +1611,7 @@ class DataStore {
 				maxInterval: 2000,
 			});
 
-			const { sort } = options || {};
+			const { sort, limit } = options || {};
 			const sortOptions = sort ? { sort } : undefined;
 
 			const modelDefinition = getModelDefinition(model);
@@ -1261,7 +1638,12 @@ class DataStore {
 
 			(async () => {
 				try {
-					// first, query and return any locally-available records
+					// validates the sort and limit before anything is emitted
+					this.processPagination(modelDefinition, options);
+
+					// first, query and return any locally-available records.
+					// every matching record is kept, not only the first `limit` ones,
+					// so that the window can be refilled when records leave it
 					(await this.query(model, criteria, sortOptions)).forEach(item =>
 						items.set(item.id, item)
 					);
@@ -1324,16 +1706,18 @@ class DataStore {
 
 			/**
 			 * Combines the `items`, `itemsChanged`, and `deletedItemIds` collections into
-			 * a snapshot in the form of `{ items: T[], isSynced: boolean}`.
+			 * a snapshot in the form of `{ items: T[], isSynced: boolean, changes }`.
+			 * Only the first `limit` items are included, and `changes` is computed
+			 * against the previously emitted snapshot.
 			 *
 			 * SIDE EFFECT: The shared `items` collection is recreated.
 			 */
 			const generateSnapshot = (): DataStoreSnapshot<T> => {
 				const isSynced = this.sync?.getModelSyncedStatus(model) ?? false;
-				const itemsArray = [
-					...Array.from(items.values()),
-					...Array.from(itemsChanged.values()),
-				];
+				// changed items replace their previous version before sorting, so
+				// that a stale copy can't take the place of the updated item
+				itemsChanged.forEach((item, id) => items.set(id, item));
+				const itemsArray = Array.from(items.values());
 
 				if (options?.sort) {
 					sortItems(itemsArray);
@@ -1345,14 +1729,23 @@ class DataStore {
 				// remove deleted items from the final result set
 				deletedItemIds.forEach(id => items.delete(id));
 
+				const allItems = Array.from(items.values());
+				const windowItems =
+					limit === undefined ? allItems : allItems.slice(0, limit);
+
 				return {
-					items: Array.from(items.values()),
+					items: windowItems,
 					isSynced,
+					changes: getSnapshotChanges(
+						previousSnapshot ? previousSnapshot.items : [],
+						windowItems
+					),
 				};
 			};
 
 			/**
-			 * Emits the list of items to the observer.
+			 * Emits the list of items to the observer, unless it is the same as in
+			 * the previous snapshot (e.g., when only items past `limit` changed).
 			 *
 			 * SIDE EFFECT: `itemsChanged` and `deletedItemIds` are cleared to prepare
 			 * for the next snapshot.
@@ -1360,8 +1753,19 @@ class DataStore {
 			 * @param snapshot The generated items data to emit.
 			 */
 			const emitSnapshot = (snapshot: DataStoreSnapshot<T>): void => {
-				// send the generated snapshot to the primary subscription
-				observer.next(snapshot);
+				const unchanged =
+					previousSnapshot !== undefined &&
+					previousSnapshot.isSynced === snapshot.isSynced &&
+					previousSnapshot.items.length === snapshot.items.length &&
+					snapshot.items.every(
+						(item, index) => item === previousSnapshot.items[index]
+					);
+
+				if (!unchanged) {
+					// send the generated snapshot to the primary subscription
+					observer.next(snapshot);
+					previousSnapshot = snapshot;
+				}
 
 				// reset the changed items sets
 				itemsChanged.clear();
@@ -1403,12 +1807,14 @@ class DataStore {
 					data?.model?.name === model.name
 				) {
 					generateAndEmitSnapshot();
-					Hub.remove('api', hubCallback);
+					Hub.remove('datastore', hubCallback);
 				}
 			};
 			Hub.listen('datastore', hubCallback);
 
 			return () => {
+				Hub.remove('datastore', hubCallback);
+
 				if (handle) {
 					handle.unsubscribe();
 				}
@@ -1421,6 +1827,7 @@ class DataStore {
 			DataStore: configDataStore,
 			authModeStrategyType: configAuthModeStrategyType,
 			conflictHandler: configConflictHandler,
+			conflictStrategyType: configConflictStrategyType,
 			errorHandler: configErrorHandler,
 			maxRecordsToSync: configMaxRecordsToSync,
 			syncPageSize: configSyncPageSize,
@@ -1428,6 +1835,9 @@ class DataStore {
 			syncExpressions: configSyncExpressions,
 			authProviders: configAuthProviders,
 			storageAdapter: configStorageAdapter,
+			migrations: configMigrations,
+			keepFailedMutations: configKeepFailedMutations,
+			localSearchFields: configLocalSearchFields,
 			...configFromAmplify
 		} = config;
 
@@ -1495,6 +1905,27 @@ class DataStore {
 			this.storageAdapter ||
 			undefined;
 
+		this.migrations =
+			(configDataStore && configDataStore.migrations) ||
+			configMigrations ||
+			this.migrations ||
+			[];
+
+		this.keepFailedMutations =
+			(configDataStore && configDataStore.keepFailedMutations) ||
+			configKeepFailedMutations ||
+			this.keepFailedMutations ||
+			false;
+
+		// store on config object, so that the Mutation processor can have access
+		this.amplifyConfig.keepFailedMutations = this.keepFailedMutations;
+
+		this.localSearchFields =
+			(configDataStore && configDataStore.localSearchFields) ||
+			configLocalSearchFields ||
+			this.localSearchFields ||
+			{};
+
 		this.sessionId = this.retrieveSessionId();
 	};
 
@@ -1548,10 +1979,21 @@ class DataStore {
 
 	private processPagination<T extends PersistentModel>(
 		modelDefinition: SchemaModel,
-		paginationProducer: ProducerPaginationInput<T>
+		paginationProducer:
+			| ProducerPaginationInput<T>
+			| ProducerCursorPaginationInput<T>
 	): PaginationInput<T> | undefined {
 		let sortPredicate: SortPredicate<T>;
-		const { limit, page, sort } = paginationProducer || {};
+		const { limit, page, sort, cursor } = <
+			ProducerPaginationInput<T> & Partial<ProducerCursorPaginationInput<T>>
+		>(paginationProducer || {});
+
+		if (cursor !== undefined) {
+			return this.processCursorPagination(
+				modelDefinition,
+				<ProducerCursorPaginationInput<T>>paginationProducer
+			);
+		}
 
 		if (limit === undefined && page === undefined && sort === undefined) {
 			return undefined;
@@ -1595,6 +2037,139 @@ class DataStore {
 		};
 	}
 
+	private processCursorPagination<T extends PersistentModel>(
+		modelDefinition: SchemaModel,
+		paginationProducer: ProducerCursorPaginationInput<T>
+	): PaginationInput<T> {
+		const { limit, sort, cursor } = paginationProducer;
+
+		if ((<ProducerPaginationInput<T>>paginationProducer).page !== undefined) {
+			throw new Error("Page can't be used together with a cursor");
+		}
+
+		if (typeof limit !== 'number' || limit <= 0) {
+			throw new Error('Limit should be a positive number when using a cursor');
+		}
+
+		if (cursor !== null && typeof cursor !== 'string') {
+			throw new Error('Cursor should be a string or null');
+		}
+
+		const sortPredicate =
+			sort &&
+			ModelSortPredicateCreator.createFromExisting(modelDefinition, sort);
+		const sortPredicates = ModelSortPredicateCreator.getPredicates(
+			sortPredicate,
+			false
+		);
+
+		if (cursor === null) {
+			return { limit, sort: sortPredicate, cursor: {} };
+		}
+
+		const decodedCursor = decodeModelCursor(cursor, sortPredicates);
+
+		if (!decodedCursor) {
+			throw new Error(
+				'Invalid cursor. A cursor can only be used with the sort of the query that returned it'
+			);
+		}
+
+		return { limit, sort: sortPredicate, cursor: decodedCursor };
+	}
+
+	private validateSearch<T extends PersistentModel>(
+		modelDefinition: SchemaModel,
+		options: SearchOptions<T>
+	): SearchInput {
+		const searchableFields = getSearchableFields(
+			modelDefinition,
+			this.localSearchFields
+		);
+
+		if (searchableFields.length === 0) {
+			throw new Error(`Model ${modelDefinition.name} has no searchable fields`);
+		}
+
+		const { fields = searchableFields, limit } = options || {};
+
+		const invalidFields = (<string[]>fields).filter(
+			field => !searchableFields.includes(field)
+		);
+
+		if (invalidFields.length > 0) {
+			throw new Error(
+				`Fields ${invalidFields.join(', ')} are not searchable in model ${
+					modelDefinition.name
+				}`
+			);
+		}
+
+		if (limit !== undefined && (typeof limit !== 'number' || limit <= 0)) {
+			throw new Error('Limit should be a positive number');
+		}
+
+		return { fields: <string[]>fields, limit };
+	}
+
+	private validateAggregation<T extends PersistentModel>(
+		modelDefinition: SchemaModel,
+		aggregation: AggregateInput<T>
+	): void {
+		const { count, sum, min, max, avg, groupBy } = aggregation || {};
+
+		if (!count && [sum, min, max, avg].every(f => f === undefined)) {
+			throw new Error(
+				'At least one of count, sum, min, max or avg is required to aggregate'
+			);
+		}
+
+		// belongsTo foreign keys are not part of the model fields, but are stored
+		// on the record and can be aggregated on like any other scalar field
+		const targetNames = Object.values(modelDefinition.fields)
+			.map(({ association }) => association)
+			.filter(isTargetNameAssociation)
+			.map(({ targetName }) => targetName);
+
+		const getScalarType = (field: keyof T) => {
+			const fieldName = field as string;
+
+			if (targetNames.includes(fieldName)) {
+				return 'ID';
+			}
+
+			const fieldDefinition = modelDefinition.fields[fieldName];
+
+			if (fieldDefinition === undefined) {
+				throw new Error(
+					`Invalid field for model. field: ${fieldName}, model: ${modelDefinition.name}`
+				);
+			}
+
+			const { type, isArray } = fieldDefinition;
+
+			if (!isGraphQLScalarType(type) || isArray) {
+				throw new Error(`Field ${fieldName} can't be aggregated`);
+			}
+
+			return type;
+		};
+
+		[sum, avg]
+			.filter(field => field !== undefined)
+			.forEach(field => {
+				const type = getScalarType(field);
+
+				if (GraphQLScalarType.getJSType(type) !== 'number') {
+					throw new Error(`Field ${field} should be a numeric field`);
+				}
+			});
+
+		[min, max, groupBy]
+			.filter(field => field !== undefined)
+			.forEach(getScalarType);
+	}
+
 	private async processSyncExpressions(): Promise<
 		WeakMap<SchemaModel, ModelPredicate<any>>
 	> {
@@ -1619,7 +2194,8 @@ class DataStore {
 
 					const predicate = this.createFromCondition(
 						modelDefinition,
-						condition
+						condition,
+						getModelNamespace(modelConstructor)
 					);
 
 					return [modelDefinition, predicate];
@@ -1632,12 +2208,14 @@ class DataStore {
 
 	private createFromCondition(
 		modelDefinition: SchemaModel,
-		condition: ProducerModelPredicate<PersistentModel>
+		condition: ProducerModelPredicate<PersistentModel>,
+		namespace?: SchemaNamespace
 	) {
 		try {
 			return ModelPredicateCreator.createFromExisting(
 				modelDefinition,
-				condition
+				condition,
+				namespace
 			);
 		} catch (error) {
 			logger.error('Error creating Sync Predicate');
@@ -18,6 +18,9 @@ import {
 	USER,
 	isNonModelConstructor,
 	isModelConstructor,
+	migrateLocalStore,
+	getSearchableFields,
+	tokenize,
 } from './util';
 
 export const utils = {
@@ -26,6 +29,9 @@ export const utils = {
 	validatePredicate,
 	isNonModelConstructor,
 	isModelConstructor,
+	migrateLocalStore,
+	getSearchableFields,
+	tokenize,
 };
 
 export * from './types';
@@ -1,14 +1,17 @@
 import {
 	AllOperators,
+	isModelFieldType,
 	ModelPredicate,
 	PersistentModel,
 	PredicateExpression,
 	PredicateGroups,
 	PredicatesGroup,
 	ProducerModelPredicate,
+	RelationalPredicateExpression,
 	SchemaModel,
+	SchemaNamespace,
 } from '../types';
-import { exhaustiveCheck } from '../util';
+import { exhaustiveCheck, getRelationKeys } from '../util';
 
 export { ModelSortPredicateCreator } from './sort';
 
@@ -40,7 +43,8 @@ export class ModelPredicateCreator {
 	>();
 
 	private static createPredicateBuilder<T extends PersistentModel>(
-		modelDefinition: SchemaModel
+		modelDefinition: SchemaModel,
+		namespace?: SchemaNamespace
 	) {
 		const { name: modelName } = modelDefinition;
 		const fieldNames = new Set<keyof T>(Object.keys(modelDefinition.fields));
@@ -104,6 +108,15 @@ export class ModelPredicateCreator {
 						);
 					}
 
+					if (isModelFieldType(modelDefinition.fields[<string>field].type)) {
+						return ModelPredicateCreator.createRelationalExpression(
+							modelDefinition,
+							<string>field,
+							receiver,
+							namespace
+						);
+					}
+
 					const result: PredicateExpression<T, any> = (
 						operator: keyof AllOperators,
 						operand: any
@@ -127,6 +140,54 @@ export class ModelPredicateCreator {
 		return predicate;
 	}
 
+	private static createRelationalExpression<T extends PersistentModel>(
+		modelDefinition: SchemaModel,
+		field: string,
+		receiver: ModelPredicate<T>,
+		namespace?: SchemaNamespace
+	): RelationalPredicateExpression<T, any> {
+		const { name: modelName } = modelDefinition;
+
+		// relationships are only known for the namespace of the model,
+		// so these predicates can't be used where it isn't provided (e.g. conditions)
+		const relation =
+			namespace &&
+			namespace.relationships &&
+			namespace.relationships[modelName].relationTypes.find(
+				({ fieldName }) => fieldName === field
+			);
+
+		if (!relation) {
+			throw new Error(
+				`Relational predicates are not supported here. field: ${field}, model: ${modelName}`
+			);
+		}
+
+		const [localKey, relatedKey] = getRelationKeys(
+			namespace.relationships,
+			relation
+		);
+
+		return (existing: ProducerModelPredicate<any>) => {
+			const related = ModelPredicateCreator.createFromExisting(
+				namespace.models[relation.modelName],
+				existing,
+				namespace
+			);
+
+			ModelPredicateCreator.predicateGroupsMap.get(receiver).predicates.push({
+				relationField: field,
+				relationType: relation.relationType,
+				relatedModelName: relation.modelName,
+				localKey,
+				relatedKey,
+				predicates: ModelPredicateCreator.getPredicates(related),
+			});
+
+			return receiver;
+		};
+	}
+
 	static isValidPredicate<T extends PersistentModel>(
 		predicate: any
 	): predicate is ModelPredicate<T> {
@@ -145,16 +206,18 @@ export class ModelPredicateCreator {
 	}
 
 	// transforms cb-style predicate into Proxy
+	// `namespace` is required for predicates on associations (relational predicates)
 	static createFromExisting<T extends PersistentModel>(
 		modelDefinition: SchemaModel,
-		existing: ProducerModelPredicate<T>
+		existing: ProducerModelPredicate<T>,
+		namespace?: SchemaNamespace
 	) {
 		if (!existing || !modelDefinition) {
 			return undefined;
 		}
 
 		return existing(
-			ModelPredicateCreator.createPredicateBuilder(modelDefinition)
+			ModelPredicateCreator.createPredicateBuilder(modelDefinition, namespace)
 		);
 	}
 
@@ -7,8 +7,11 @@ import {
 	ModelSortPredicateCreator,
 } from '../../predicates';
 import {
+	AggregateGroupResult,
+	AggregateInput,
 	InternalSchema,
 	isPredicateObj,
+	LocalSearchFields,
 	ModelInstanceMetadata,
 	ModelPredicate,
 	NamespaceResolver,
@@ -20,21 +23,38 @@ import {
 	PredicatesGroup,
 	QueryOne,
 	RelationType,
+	SchemaMigration,
+	SearchIndexStore,
+	SearchInput,
 } from '../../types';
 import {
+	ensureSearchIndex,
 	exhaustiveCheck,
 	getIndex,
 	getIndexFromAssociation,
+	getSearchableFields,
+	inMemoryCursorPagination,
 	isModelConstructor,
+	migrateLocalStore,
+	ModelAggregator,
+	ModelCursorPage,
+	querySearchIndex,
+	resolveRelationalPredicates,
 	traverseModel,
+	updateSearchIndex,
 	validatePredicate,
 	sortCompareFunction,
 } from '../../util';
 
 const logger = new Logger('DataStore');
 
+const AGGREGATE_BATCH_SIZE = 100;
+
+const SORTED_CURSOR_BATCH_SIZE = 100;
+
 export class AsyncStorageAdapter implements Adapter {
 	private schema: InternalSchema;
+	private localSearchFields: LocalSearchFields;
 	private namespaceResolver: NamespaceResolver;
 	private modelInstanceCreator: ModelInstanceCreator;
 	private getModelConstructorByModelName: (
@@ -61,6 +81,34 @@ export class AsyncStorageAdapter implements Adapter {
 		return storeName;
 	}
 
+	private getSearchStorename(storeName: string) {
+		return `${storeName}_search`;
+	}
+
+	/**
+	 * The models of a namespace that have a store, which may no longer be
+	 * part of the schema
+	 */
+	private getStoredModelNames(
+		namespaceName: string,
+		storeNames: string[]
+	): string[] {
+		const prefix = `${namespaceName}_`;
+
+		return (
+			storeNames
+				.filter(storeName => storeName.startsWith(prefix))
+				// the search index of a model isn't the store of one
+				.filter(
+					storeName =>
+						!storeNames.some(
+							other => this.getSearchStorename(other) === storeName
+						)
+				)
+				.map(storeName => storeName.substring(prefix.length))
+		);
+	}
+
 	async setUp(
 		theSchema: InternalSchema,
 		namespaceResolver: NamespaceResolver,
@@ -68,7 +116,10 @@ export class AsyncStorageAdapter implements Adapter {
 		getModelConstructorByModelName: (
 			namsespaceName: string,
 			modelName: string
-		) => PersistentModelConstructor<any>
+		) => PersistentModelConstructor<any>,
+		sessionId?: string,
+		migrations?: SchemaMigration[],
+		localSearchFields?: LocalSearchFields
 	) {
 		if (!this.initPromise) {
 			this.initPromise = new Promise((res, rej) => {
@@ -80,6 +131,7 @@ export class AsyncStorageAdapter implements Adapter {
 			return;
 		}
 		this.schema = theSchema;
+		this.localSearchFields = localSearchFields;
 		this.namespaceResolver = namespaceResolver;
 		this.modelInstanceCreator = modelInstanceCreator;
 		this.getModelConstructorByModelName = getModelConstructorByModelName;
@@ -87,6 +139,44 @@ export class AsyncStorageAdapter implements Adapter {
 			if (!this.db) {
 				this.db = new AsyncStorageDatabase();
 				await this.db.init();
+
+				// when the app is closed in the middle of a migration, the next
+				// init() rolls back its writes and the migration starts over
+				await this.db.startTransaction();
+
+				let migrated: boolean;
+
+				try {
+					migrated = await migrateLocalStore(theSchema, migrations, {
+						getModelNames: async namespaceName =>
+							this.getStoredModelNames(namespaceName, this.db.getStoreNames()),
+						getAll: (namespaceName, modelName) =>
+							this.db.getAll(this.getStorename(namespaceName, modelName)),
+						replaceAll: async replacements => {
+							for (const {
+								namespaceName,
+								modelName,
+								records,
+							} of replacements) {
+								await this.db.replaceAll(
+									this.getStorename(namespaceName, modelName),
+									records
+								);
+							}
+						},
+					});
+
+					await this.db.commitTransaction();
+				} catch (error) {
+					await this.db.rollbackTransaction();
+
+					throw error;
+				}
+
+				if (migrated) {
+					logger.debug(`Local data migrated to version ${theSchema.version}`);
+				}
+
 				this.resolve();
 			}
 		} catch (error) {
@@ -94,6 +184,103 @@ export class AsyncStorageAdapter implements Adapter {
 		}
 	}
 
+	async startTransaction(): Promise<void> {
+		await this.db.startTransaction();
+	}
+
+	async commitTransaction(): Promise<void> {
+		await this.db.commitTransaction();
+	}
+
+	async rollbackTransaction(): Promise<void> {
+		await this.db.rollbackTransaction();
+	}
+
+	private getSearchIndexStore(storeName: string): SearchIndexStore {
+		const searchStoreName = this.getSearchStorename(storeName);
+
+		return {
+			get: id => this.db.get(id, searchStoreName),
+			put: item => this.db.save(item, searchStoreName),
+			delete: id => this.db.delete(id, searchStoreName),
+			clear: async () => {
+				for (const { id } of await this.db.getAll(searchStoreName)) {
+					await this.db.delete(id, searchStoreName);
+				}
+			},
+		};
+	}
+
+	/**
+	 * Runs the writes of `write` in a transaction of their own when they
+	 * include records of a searchable model: their index is only updated after
+	 * them, and when the app is closed in between, the next init() rolls back
+	 * both. Writes that are already part of a transaction are left to it.
+	 */
+	private async writeIndexed<R>(
+		storeNames: string[],
+		write: () => Promise<R>
+	): Promise<R> {
+		const searchable = Object.keys(this.schema.namespaces).some(
+			namespaceName => {
+				const { models } = this.schema.namespaces[namespaceName];
+
+				return Object.keys(models).some(
+					modelName =>
+						storeNames.includes(this.getStorename(namespaceName, modelName)) &&
+						getSearchableFields(models[modelName], this.localSearchFields)
+							.length > 0
+				);
+			}
+		);
+
+		if (!searchable || this.db.isInTransaction()) {
+			return await write();
+		}
+
+		await this.db.startTransaction();
+
+		try {
+			const result = await write();
+
+			await this.db.commitTransaction();
+
+			return result;
+		} catch (error) {
+			await this.db.rollbackTransaction();
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Keeps the inverted index of a searchable model in sync with the records
+	 * that were saved or deleted
+	 */
+	private async indexForSearch<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		records: T[],
+		deleted: boolean
+	) {
+		const namespaceName = this.namespaceResolver(modelConstructor);
+		const fields = getSearchableFields(
+			this.schema.namespaces[namespaceName].models[modelConstructor.name],
+			this.localSearchFields
+		);
+
+		if (fields.length === 0) {
+			return;
+		}
+
+		const searchIndex = this.getSearchIndexStore(
+			this.getStorename(namespaceName, modelConstructor.name)
+		);
+
+		for (const record of records) {
+			await updateSearchIndex(searchIndex, fields, record, deleted);
+		}
+	}
+
 	async save<T extends PersistentModel>(
 		model: T,
 		condition?: ModelPredicate<T>
@@ -133,23 +320,33 @@ export class AsyncStorageAdapter implements Adapter {
 			}
 		}
 
-		const result: [T, OpType.INSERT | OpType.UPDATE][] = [];
+		return await this.writeIndexed(Array.from(set.values()), async () => {
+			const result: [T, OpType.INSERT | OpType.UPDATE][] = [];
 
-		for await (const resItem of connectionStoreNames) {
-			const { storeName, item, instance } = resItem;
-			const { id } = item;
+			for await (const resItem of connectionStoreNames) {
+				const { storeName, item, instance } = resItem;
+				const { id } = item;
 
-			const fromDB = <T>await this.db.get(id, storeName);
-			const opType: OpType = fromDB ? OpType.UPDATE : OpType.INSERT;
+				const fromDB = <T>await this.db.get(id, storeName);
+				const opType: OpType = fromDB ? OpType.UPDATE : OpType.INSERT;
 
-			if (id === model.id || opType === OpType.INSERT) {
-				await this.db.save(item, storeName);
+				if (id === model.id || opType === OpType.INSERT) {
+					await this.db.save(item, storeName);
 
-				result.push([instance, opType]);
+					result.push([instance, opType]);
+				}
+			}
+
+			for (const [instance] of result) {
+				await this.indexForSearch(
+					Object.getPrototypeOf(instance).constructor,
+					[instance],
+					false
+				);
 			}
-		}
 
-		return result;
+			return result;
+		});
 	}
 
 	private async load<T>(
@@ -237,15 +434,28 @@ export class AsyncStorageAdapter implements Adapter {
 		const namespaceName = this.namespaceResolver(modelConstructor);
 
 		const predicates =
-			predicate && ModelPredicateCreator.getPredicates(predicate);
+			predicate &&
+			(await this.resolveRelationalPredicates(
+				namespaceName,
+				ModelPredicateCreator.getPredicates(predicate)
+			));
 		const queryById = predicates && this.idFromPredicate(predicates);
 		const hasSort = pagination && pagination.sort;
 		const hasPagination = pagination && pagination.limit;
+		const hasCursor = pagination && pagination.cursor;
 
 		const records: T[] = await (async () => {
 			if (queryById) {
 				const record = await this.getById(storeName, queryById);
-				return record ? [record] : [];
+				const result = record ? [record] : [];
+
+				return hasCursor
+					? this.inMemoryCursorPagination(result, pagination)
+					: result;
+			}
+
+			if (hasCursor) {
+				return this.cursorPagination(storeName, predicates, pagination);
 			}
 
 			if (predicates) {
@@ -278,6 +488,18 @@ export class AsyncStorageAdapter implements Adapter {
 		return await this.db.getAll(storeName);
 	}
 
+	private async resolveRelationalPredicates<T extends PersistentModel>(
+		namespaceName: string,
+		predicates: PredicatesGroup<T>
+	): Promise<PredicatesGroup<T>> {
+		return resolveRelationalPredicates(predicates, (modelName, related) =>
+			this.filterOnPredicate(
+				this.getStorename(namespaceName, modelName),
+				related
+			)
+		);
+	}
+
 	private idFromPredicate<T extends PersistentModel>(
 		predicates: PredicatesGroup<T>
 	) {
@@ -306,6 +528,91 @@ export class AsyncStorageAdapter implements Adapter {
 		return filtered;
 	}
 
+	private inMemoryCursorPagination<T extends PersistentModel>(
+		records: T[],
+		pagination: PaginationInput<T>
+	): T[] {
+		const { sort, limit, cursor } = pagination;
+		const sortPredicates = ModelSortPredicateCreator.getPredicates(sort, false);
+
+		return inMemoryCursorPagination(records, sortPredicates, cursor, limit);
+	}
+
+	private async cursorPagination<T extends PersistentModel>(
+		storeName: string,
+		predicates: PredicatesGroup<T> | undefined,
+		pagination: PaginationInput<T>
+	): Promise<T[]> {
+		if (pagination.sort) {
+			// there are no indexes to walk in the sort order, every record is
+			// compared, but they are read in batches and only one page of them
+			// is kept in memory
+			const { sort, limit, cursor } = pagination;
+			const page = new ModelCursorPage<T>(
+				ModelSortPredicateCreator.getPredicates(sort, false),
+				cursor,
+				limit,
+				predicates
+			);
+
+			for (let afterId: string; ; ) {
+				const batch = await this.db.getBatchById<T>(
+					storeName,
+					afterId,
+					SORTED_CURSOR_BATCH_SIZE
+				);
+
+				batch.forEach(record => page.add(record));
+
+				if (batch.length < SORTED_CURSOR_BATCH_SIZE) {
+					break;
+				}
+
+				afterId = batch[batch.length - 1].id;
+			}
+
+			return page.getRecords();
+		}
+
+		// without a sort, records are in id order, so they can be read in
+		// batches from the cursor without loading the whole store
+		const { limit = 0, cursor } = pagination;
+		const hasLimit = typeof limit === 'number' && limit > 0;
+		const batchSize = hasLimit ? limit : 0;
+
+		let afterId = cursor.after && cursor.after.id;
+		const pageResults: T[] = [];
+
+		while (!hasLimit || pageResults.length < limit) {
+			const batch = await this.db.getBatchById<T>(
+				storeName,
+				afterId,
+				batchSize
+			);
+
+			for (const record of batch) {
+				if (
+					!predicates ||
+					validatePredicate(record, predicates.type, predicates.predicates)
+				) {
+					pageResults.push(record);
+				}
+
+				if (hasLimit && pageResults.length === limit) {
+					break;
+				}
+			}
+
+			if (!hasLimit || batch.length < batchSize) {
+				break;
+			}
+
+			afterId = batch[batch.length - 1].id;
+		}
+
+		return pageResults;
+	}
+
 	private inMemoryPagination<T extends PersistentModel>(
 		records: T[],
 		pagination?: PaginationInput<T>
@@ -340,6 +647,78 @@ export class AsyncStorageAdapter implements Adapter {
 		return result && this.modelInstanceCreator(modelConstructor, result);
 	}
 
+	async aggregate<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		predicate: ModelPredicate<T> | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<AggregateGroupResult<T>[]> {
+		const storeName = this.getStorenameForModel(modelConstructor);
+
+		const predicates =
+			predicate &&
+			(await this.resolveRelationalPredicates(
+				this.namespaceResolver(modelConstructor),
+				ModelPredicateCreator.getPredicates(predicate)
+			));
+
+		const aggregator = new ModelAggregator<T>(aggregation, predicates);
+
+		// load the store one page at a time, so that only the aggregated values
+		// (and not every record) are kept in memory
+		for (let page = 0; ; page++) {
+			const records = await this.db.getAll<T>(storeName, {
+				page,
+				limit: AGGREGATE_BATCH_SIZE,
+			});
+
+			records.forEach(record => aggregator.add(record));
+
+			if (records.length < AGGREGATE_BATCH_SIZE) {
+				break;
+			}
+		}
+
+		return aggregator.getResults();
+	}
+
+	async search<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		search: SearchInput
+	): Promise<T[]> {
+		const storeName = this.getStorenameForModel(modelConstructor);
+		const namespaceName = this.namespaceResolver(modelConstructor);
+		const modelDefinition =
+			this.schema.namespaces[namespaceName].models[modelConstructor.name];
+		const searchIndex = this.getSearchIndexStore(storeName);
+
+		await ensureSearchIndex(
+			searchIndex,
+			getSearchableFields(modelDefinition, this.localSearchFields),
+			this.schema.version,
+			() => this.getAll(storeName)
+		);
+
+		const ids = await querySearchIndex(
+			searchIndex,
+			text,
+			this.db.count(storeName),
+			search
+		);
+
+		const records: T[] = [];
+
+		for (const id of ids) {
+			const record = await this.getById<T>(storeName, id);
+
+			if (record) {
+				records.push(record);
+			}
+		}
+
+		return await this.load(namespaceName, modelConstructor.name, records);
+	}
+
 	async delete<T extends PersistentModel>(
 		modelOrModelConstructor: T | PersistentModelConstructor<T>,
 		condition?: ModelPredicate<T>
@@ -459,18 +838,27 @@ export class AsyncStorageAdapter implements Adapter {
 	private async deleteItem<T extends PersistentModel>(
 		deleteQueue?: { storeName: string; items: T[] | IDBValidKey[] }[]
 	) {
-		for await (const deleteItem of deleteQueue) {
-			const { storeName, items } = deleteItem;
-
-			for await (const item of items) {
-				if (item) {
-					if (typeof item === 'object') {
-						const id = item['id'];
-						await this.db.delete(id, storeName);
+		const storeNames = deleteQueue.map(({ storeName }) => storeName);
+
+		await this.writeIndexed(storeNames, async () => {
+			for await (const deleteItem of deleteQueue) {
+				const { storeName, items } = deleteItem;
+
+				for await (const item of items) {
+					if (item) {
+						if (typeof item === 'object') {
+							const id = item['id'];
+							await this.db.delete(id, storeName);
+							await this.indexForSearch(
+								Object.getPrototypeOf(item).constructor,
+								[<PersistentModel>item],
+								true
+							);
+						}
 					}
 				}
 			}
-		}
+		});
 	}
 	/**
 	 * Populates the delete Queue with all the items to delete
@@ -601,7 +989,19 @@ export class AsyncStorageAdapter implements Adapter {
 			batch.push(instance);
 		}
 
-		return await this.db.batchSave(storeName, batch);
+		return await this.writeIndexed([storeName], async () => {
+			const result = await this.db.batchSave<T>(storeName, batch);
+
+			for (const [record, opType] of result) {
+				await this.indexForSearch(
+					modelConstructor,
+					[record],
+					opType === OpType.DELETE
+				);
+			}
+
+			return result;
+		});
 	}
 }
 
@@ -12,15 +12,39 @@ import { createInMemoryStore } from './InMemoryStore';
 const DB_NAME = '@AmplifyDatastore';
 const COLLECTION = 'Collection';
 const DATA = 'Data';
+const JOURNAL = 'Journal';
 
 const monotonicFactoriesMap = new Map<string, ULID>();
 
+/**
+ * A record as it was before a write of the current transaction, `record` is
+ * `null` when it didn't exist
+ */
+type JournalEntry = {
+	storeName: string;
+	id: string;
+	ulid: string | null;
+	record: string | null;
+};
+
 class AsyncStorageDatabase {
 	/**
 	 * Maps storeNames to a map of ulid->id
 	 */
 	private _collectionInMemoryIndex = new Map<string, Map<string, string>>();
 
+	/**
+	 * Maps storeNames to their ids in sorted order, built on demand and dropped
+	 * whenever ids are added or removed
+	 */
+	private _sortedIdsCache = new Map<string, string[]>();
+
+	/**
+	 * The records written by the open transaction, as they were before it
+	 * started. `undefined` when no transaction is open.
+	 */
+	private journal: JournalEntry[];
+
 	private storage = createInMemoryStore();
 
 	private getCollectionIndex(storeName: string) {
@@ -31,6 +55,15 @@ class AsyncStorageDatabase {
 		return this._collectionInMemoryIndex.get(storeName);
 	}
 
+	private getSortedIds(storeName: string): string[] {
+		if (!this._sortedIdsCache.has(storeName)) {
+			const ids = [...this.getCollectionIndex(storeName).keys()].sort();
+			this._sortedIdsCache.set(storeName, ids);
+		}
+
+		return this._sortedIdsCache.get(storeName);
+	}
+
 	private getMonotonicFactory(storeName: string): ULID {
 		if (!monotonicFactoriesMap.has(storeName)) {
 			monotonicFactoriesMap.set(storeName, monotonicUlidFactory());
@@ -41,6 +74,8 @@ class AsyncStorageDatabase {
 
 	async init(): Promise<void> {
 		this._collectionInMemoryIndex.clear();
+		this._sortedIdsCache.clear();
+		this.journal = undefined;
 
 		const allKeys: string[] = await this.storage.getAllKeys();
 
@@ -83,15 +118,125 @@ class AsyncStorageDatabase {
 		if (keysForCollectionEntries.length > 0) {
 			await this.storage.multiRemove(keysForCollectionEntries);
 		}
+
+		// a transaction that was open when the app was closed
+		const journal = await this.storage.getItem(this.getJournalKey());
+
+		if (journal) {
+			await this.rollbackJournal(JSON.parse(journal));
+		}
+	}
+
+	async startTransaction(): Promise<void> {
+		this.journal = [];
+	}
+
+	isInTransaction(): boolean {
+		return this.journal !== undefined;
+	}
+
+	async commitTransaction(): Promise<void> {
+		this.journal = undefined;
+
+		await this.storage.removeItem(this.getJournalKey());
+	}
+
+	async rollbackTransaction(): Promise<void> {
+		const journal = this.journal;
+		this.journal = undefined;
+
+		await this.rollbackJournal(journal);
+	}
+
+	/**
+	 * Keeps the records of a store that are about to be written as they are
+	 * now, unless the journal already has them. The journal is a single item,
+	 * which is stored before the write, so a write is never stored without it.
+	 */
+	private async addToJournal(storeName: string, ids: string[]) {
+		if (this.journal === undefined) {
+			return;
+		}
+
+		const collection = this.getCollectionIndex(storeName);
+		const journaledIds = new Set(
+			this.journal
+				.filter(entry => entry.storeName === storeName)
+				.map(({ id }) => id)
+		);
+		const newIds = Array.from(new Set(ids)).filter(id => !journaledIds.has(id));
+
+		if (newIds.length === 0) {
+			return;
+		}
+
+		const existingIds = newIds.filter(id => collection.has(id));
+		const records: [string, string][] = await this.storage.multiGet(
+			existingIds.map(id =>
+				this.getKeyForItem(storeName, id, collection.get(id))
+			)
+		);
+		const recordsById = new Map(
+			existingIds.map((id, index) => <[string, string]>[id, records[index][1]])
+		);
+
+		newIds.forEach(id =>
+			this.journal.push({
+				storeName,
+				id,
+				ulid: collection.has(id) ? collection.get(id) : null,
+				record: recordsById.has(id) ? recordsById.get(id) : null,
+			})
+		);
+
+		await this.storage.setItem(
+			this.getJournalKey(),
+			JSON.stringify(this.journal)
+		);
+	}
+
+	/**
+	 * Puts back the records of the journal and removes it. Restoring a record
+	 * twice has the same outcome, so this can start over after a crash.
+	 */
+	private async rollbackJournal(journal: JournalEntry[]) {
+		for (const { storeName, id, ulid, record } of journal) {
+			const collection = this.getCollectionIndex(storeName);
+			const currentUlid = collection.get(id);
+
+			if (currentUlid !== undefined && currentUlid !== ulid) {
+				await this.storage.removeItem(
+					this.getKeyForItem(storeName, id, currentUlid)
+				);
+				collection.delete(id);
+			}
+
+			if (record !== null) {
+				await this.storage.setItem(
+					this.getKeyForItem(storeName, id, ulid),
+					record
+				);
+				collection.set(id, ulid);
+			}
+
+			this._sortedIdsCache.delete(storeName);
+		}
+
+		await this.storage.removeItem(this.getJournalKey());
 	}
 
 	async save<T extends PersistentModel>(item: T, storeName: string) {
+		await this.addToJournal(storeName, [item.id]);
+
 		const ulid =
 			this.getCollectionIndex(storeName).get(item.id) ||
 			this.getMonotonicFactory(storeName)();
 
 		const itemKey = this.getKeyForItem(storeName, item.id, ulid);
 
+		if (!this.getCollectionIndex(storeName).has(item.id)) {
+			this._sortedIdsCache.delete(storeName);
+		}
 		this.getCollectionIndex(storeName).set(item.id, ulid);
 
 		await this.storage.setItem(itemKey, JSON.stringify(item));
@@ -105,9 +250,15 @@ class AsyncStorageDatabase {
 			return [];
 		}
 
+		await this.addToJournal(
+			storeName,
+			items.map(({ id }) => id)
+		);
+
 		const result: [T, OpType][] = [];
 
 		const collection = this.getCollectionIndex(storeName);
+		this._sortedIdsCache.delete(storeName);
 
 		const keysToDelete = new Set<string>();
 		const keysToSave = new Set<string>();
@@ -272,11 +423,105 @@ class AsyncStorageDatabase {
 		return records;
 	}
 
+	/**
+	 * Gets up to `limit` records of a storeName in id order, starting after `afterId`.
+	 * Only the ids (which are kept in memory) are sorted, once until ids are added or removed,
+	 * so records are loaded one batch at a time
+	 */
+	async getBatchById<T extends PersistentModel>(
+		storeName: string,
+		afterId: string | undefined,
+		limit: number
+	): Promise<T[]> {
+		const collection = this.getCollectionIndex(storeName);
+		const ids = this.getSortedIds(storeName);
+
+		// binary search for the first id after afterId
+		let start = 0;
+
+		if (afterId !== undefined) {
+			let end = ids.length;
+
+			while (start < end) {
+				const middle = (start + end) >>> 1;
+
+				if (ids[middle] <= afterId) {
+					start = middle + 1;
+				} else {
+					end = middle;
+				}
+			}
+		}
+
+		const keysForBatch = ids
+			.slice(start, limit > 0 ? start + limit : undefined)
+			.map(id => this.getKeyForItem(storeName, id, collection.get(id)));
+
+		const recordStrings = await this.storage.multiGet(keysForBatch);
+		const records = recordStrings
+			.filter(([, value]) => value)
+			.map(([, value]) => JSON.parse(value));
+
+		return records;
+	}
+
+	/**
+	 * Replaces every record of a storeName. In a transaction, the records are
+	 * added to the journal before any of them is replaced.
+	 */
+	async replaceAll<T extends PersistentModel>(storeName: string, items: T[]) {
+		const collection = this.getCollectionIndex(storeName);
+		const ids = new Set(items.map(({ id }) => id));
+		const removedIds = Array.from(collection.keys()).filter(id => !ids.has(id));
+
+		await this.addToJournal(storeName, [...removedIds, ...ids]);
+
+		await this.storage.multiRemove(
+			removedIds.map(id =>
+				this.getKeyForItem(storeName, id, collection.get(id))
+			)
+		);
+		removedIds.forEach(id => collection.delete(id));
+		this._sortedIdsCache.delete(storeName);
+
+		const entries = items.map(item => {
+			const ulid =
+				collection.get(item.id) || this.getMonotonicFactory(storeName)();
+			collection.set(item.id, ulid);
+
+			return [
+				this.getKeyForItem(storeName, item.id, ulid),
+				JSON.stringify(item),
+			];
+		});
+
+		await this.storage.multiSet(entries);
+	}
+
+	/**
+	 * The storeNames that have records, read from the in-memory index
+	 */
+	getStoreNames(): string[] {
+		return Array.from(this._collectionInMemoryIndex.entries())
+			.filter(([, collection]) => collection.size > 0)
+			.map(([storeName]) => storeName);
+	}
+
+	/**
+	 * Number of records in a storeName, read from the in-memory index
+	 */
+	count(storeName: string): number {
+		return this.getCollectionIndex(storeName).size;
+	}
+
 	async delete(id: string, storeName: string) {
+		await this.addToJournal(storeName, [id]);
+
 		const ulid = this.getCollectionIndex(storeName).get(id);
 		const itemKey = this.getKeyForItem(storeName, id, ulid);
 
 		this.getCollectionIndex(storeName).delete(id);
+		this._sortedIdsCache.delete(storeName);
 		await this.storage.removeItem(itemKey);
 	}
 
@@ -288,12 +533,17 @@ class AsyncStorageDatabase {
 		const allDataStoreKeys = allKeys.filter(key => key.startsWith(DB_NAME));
 		await this.storage.multiRemove(allDataStoreKeys);
 		this._collectionInMemoryIndex.clear();
+		this._sortedIdsCache.clear();
 	}
 
 	private getKeyForItem(storeName: string, id: string, ulid: string): string {
 		return `${this.getKeyPrefixForStoreItems(storeName)}::${ulid}::${id}`;
 	}
 
+	private getJournalKey(): string {
+		return `${DB_NAME}::${JOURNAL}`;
+	}
+
 	private getLegacyKeyForItem(storeName: string, id: string): string {
 		return `${this.getKeyPrefixForStoreItems(storeName)}::${id}`;
 	}
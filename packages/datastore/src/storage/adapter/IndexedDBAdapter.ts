@@ -6,8 +6,11 @@ import {
 	ModelSortPredicateCreator,
 } from '../../predicates';
 import {
+	AggregateGroupResult,
+	AggregateInput,
 	InternalSchema,
 	isPredicateObj,
+	LocalSearchFields,
 	ModelInstanceMetadata,
 	ModelPredicate,
 	NamespaceResolver,
@@ -19,14 +22,27 @@ import {
 	PredicatesGroup,
 	QueryOne,
 	RelationType,
+	SchemaMigration,
+	SearchIndexStore,
+	SearchInput,
+	SortDirection,
 } from '../../types';
 import {
+	ensureSearchIndex,
 	exhaustiveCheck,
 	getIndex,
 	getIndexFromAssociation,
+	getSearchableFields,
+	inMemoryCursorPagination,
 	isModelConstructor,
 	isPrivateMode,
+	migrateLocalStore,
+	ModelAggregator,
+	ModelCursorPage,
+	querySearchIndex,
+	resolveRelationalPredicates,
 	traverseModel,
+	updateSearchIndex,
 	validatePredicate,
 	sortCompareFunction,
 } from '../../util';
@@ -36,8 +52,23 @@ const logger = new Logger('DataStore');
 
 const DB_NAME = 'amplify-datastore';
 
+// model stores are named `${namespace}_${model}`, so this can't clash with one
+const JOURNAL_STORE_NAME = 'transactionJournal';
+
+/**
+ * A record as it was before a write of the current transaction, `record` is
+ * `null` when it didn't exist
+ */
+type JournalEntry = {
+	storeName: string;
+	id: string;
+	key: IDBValidKey;
+	record: PersistentModel | null;
+};
+
 class IndexedDBAdapter implements Adapter {
 	private schema: InternalSchema;
+	private localSearchFields: LocalSearchFields;
 	private namespaceResolver: NamespaceResolver;
 	private modelInstanceCreator: ModelInstanceCreator;
 	private getModelConstructorByModelName: (
@@ -49,6 +80,7 @@ class IndexedDBAdapter implements Adapter {
 	private resolve: (value?: any) => void;
 	private reject: (value?: any) => void;
 	private dbName: string = DB_NAME;
+	private inTransaction = false;
 
 	private async checkPrivate() {
 		const isPrivate = await isPrivateMode().then(isPrivate => {
@@ -79,6 +111,34 @@ class IndexedDBAdapter implements Adapter {
 		return storeName;
 	}
 
+	private getSearchStorename(storeName: string) {
+		return `${storeName}_search`;
+	}
+
+	/**
+	 * The models of a namespace that have a store, which may no longer be
+	 * part of the schema
+	 */
+	private getStoredModelNames(
+		namespaceName: string,
+		storeNames: string[]
+	): string[] {
+		const prefix = `${namespaceName}_`;
+
+		return (
+			storeNames
+				.filter(storeName => storeName.startsWith(prefix))
+				// the search index of a model isn't the store of one
+				.filter(
+					storeName =>
+						!storeNames.some(
+							other => this.getSearchStorename(other) === storeName
+						)
+				)
+				.map(storeName => storeName.substring(prefix.length))
+		);
+	}
+
 	async setUp(
 		theSchema: InternalSchema,
 		namespaceResolver: NamespaceResolver,
@@ -87,7 +147,9 @@ class IndexedDBAdapter implements Adapter {
 			namsespaceName: string,
 			modelName: string
 		) => PersistentModelConstructor<any>,
-		sessionId?: string
+		sessionId?: string,
+		migrations?: SchemaMigration[],
+		localSearchFields?: LocalSearchFields
 	) {
 		await this.checkPrivate();
 		if (!this.initPromise) {
@@ -102,6 +164,7 @@ class IndexedDBAdapter implements Adapter {
 			this.dbName = `${DB_NAME}-${sessionId}`;
 		}
 		this.schema = theSchema;
+		this.localSearchFields = localSearchFields;
 		this.namespaceResolver = namespaceResolver;
 		this.modelInstanceCreator = modelInstanceCreator;
 		this.getModelConstructorByModelName = getModelConstructorByModelName;
@@ -109,7 +172,7 @@ class IndexedDBAdapter implements Adapter {
 		try {
 			if (!this.db) {
 				const VERSION = 2;
-				this.db = await idb.openDB(this.dbName, VERSION, {
+				this.db = await this.openDatabase(VERSION, {
 					upgrade: async (db, oldVersion, newVersion, txn) => {
 						if (oldVersion === 0) {
 							Object.keys(theSchema.namespaces).forEach(namespaceName => {
@@ -126,6 +189,8 @@ class IndexedDBAdapter implements Adapter {
 								});
 							});
 
+							this.createJournalStore(db);
+
 							return;
 						}
 
@@ -188,6 +253,8 @@ class IndexedDBAdapter implements Adapter {
 											);
 										});
 								});
+
+								this.createJournalStore(db);
 							} catch (error) {
 								logger.error('Error migrating IndexedDB data', error);
 								txn.abort();
@@ -199,6 +266,32 @@ class IndexedDBAdapter implements Adapter {
 					},
 				});
 
+				await this.createMissingObjectStores(theSchema);
+
+				// a transaction that was open when the app was closed
+				await this.rollbackJournal();
+
+				const migrated = await migrateLocalStore(theSchema, migrations, {
+					getModelNames: async namespaceName =>
+						this.getStoredModelNames(
+							namespaceName,
+							Array.from(this.db.objectStoreNames)
+						),
+					getAll: (namespaceName, modelName) =>
+						this.db.getAll(this.getStorename(namespaceName, modelName)),
+					replaceAll: replacements =>
+						this.replaceAll(
+							replacements.map(({ namespaceName, modelName, records }) => ({
+								storeName: this.getStorename(namespaceName, modelName),
+								records,
+							}))
+						),
+				});
+
+				if (migrated) {
+					logger.debug(`Local data migrated to version ${theSchema.version}`);
+				}
+
 				this.resolve();
 			}
 		} catch (error) {
@@ -252,7 +345,9 @@ class IndexedDBAdapter implements Adapter {
 		);
 
 		const tx = this.db.transaction(
-			[storeName, ...Array.from(set.values())],
+			this.withJournalStore(
+				this.withSearchStores([storeName, ...Array.from(set.values())])
+			),
 			'readwrite'
 		);
 		const store = tx.objectStore(storeName);
@@ -287,12 +382,26 @@ class IndexedDBAdapter implements Adapter {
 			// Even if the parent is an INSERT, the child might not be, so we need to get its key
 			if (id === model.id || opType === OpType.INSERT) {
 				const key = await store.index('byId').getKey(item.id);
+
+				if (this.inTransaction) {
+					await this.addToJournal(tx, storeName, id, key, fromDB);
+				}
+
 				await store.put(item, key);
 
 				result.push([instance, opType]);
 			}
 		}
 
+		for (const [instance] of result) {
+			await this.indexForSearch(
+				tx,
+				Object.getPrototypeOf(instance).constructor,
+				[instance],
+				false
+			);
+		}
+
 		await tx.done;
 
 		return result;
@@ -387,15 +496,28 @@ class IndexedDBAdapter implements Adapter {
 		const namespaceName = this.namespaceResolver(modelConstructor);
 
 		const predicates =
-			predicate && ModelPredicateCreator.getPredicates(predicate);
+			predicate &&
+			(await this.resolveRelationalPredicates(
+				namespaceName,
+				ModelPredicateCreator.getPredicates(predicate)
+			));
 		const queryById = predicates && this.idFromPredicate(predicates);
 		const hasSort = pagination && pagination.sort;
 		const hasPagination = pagination && pagination.limit;
+		const hasCursor = pagination && pagination.cursor;
 
 		const records: T[] = await (async () => {
 			if (queryById) {
 				const record = await this.getById(storeName, queryById);
-				return record ? [record] : [];
+				const result = record ? [record] : [];
+
+				return hasCursor
+					? this.inMemoryCursorPagination(result, pagination)
+					: result;
+			}
+
+			if (hasCursor) {
+				return this.cursorPagination(storeName, predicates, pagination);
 			}
 
 			if (predicates) {
@@ -432,6 +554,18 @@ class IndexedDBAdapter implements Adapter {
 		return await this.db.getAll(storeName);
 	}
 
+	private async resolveRelationalPredicates<T extends PersistentModel>(
+		namespaceName: string,
+		predicates: PredicatesGroup<T>
+	): Promise<PredicatesGroup<T>> {
+		return resolveRelationalPredicates(predicates, (modelName, related) =>
+			this.filterOnPredicate(
+				this.getStorename(namespaceName, modelName),
+				related
+			)
+		);
+	}
+
 	private idFromPredicate<T extends PersistentModel>(
 		predicates: PredicatesGroup<T>
 	) {
@@ -486,6 +620,132 @@ class IndexedDBAdapter implements Adapter {
 		return records;
 	}
 
+	private inMemoryCursorPagination<T extends PersistentModel>(
+		records: T[],
+		pagination: PaginationInput<T>
+	): T[] {
+		const { sort, limit, cursor } = pagination;
+		const sortPredicates = ModelSortPredicateCreator.getPredicates(sort, false);
+
+		return inMemoryCursorPagination(records, sortPredicates, cursor, limit);
+	}
+
+	private async cursorPagination<T extends PersistentModel>(
+		storeName: string,
+		predicates: PredicatesGroup<T> | undefined,
+		pagination: PaginationInput<T>
+	): Promise<T[]> {
+		if (pagination.sort) {
+			return this.sortedCursorPagination(storeName, predicates, pagination);
+		}
+
+		// without a sort, records are in id order, so the byId index can be
+		// walked from the cursor without loading the whole store
+		const { limit = 0, cursor } = pagination;
+		const { after } = cursor;
+		const hasLimit = typeof limit === 'number' && limit > 0;
+
+		let idbCursor = await this.db
+			.transaction(storeName, 'readonly')
+			.objectStore(storeName)
+			.index('byId')
+			.openCursor(after ? IDBKeyRange.lowerBound(after.id, true) : undefined);
+
+		const pageResults: T[] = [];
+
+		while (idbCursor && idbCursor.value) {
+			const record: T = idbCursor.value;
+
+			if (
+				!predicates ||
+				validatePredicate(record, predicates.type, predicates.predicates)
+			) {
+				pageResults.push(record);
+			}
+
+			if (hasLimit && pageResults.length === limit) {
+				break;
+			}
+
+			idbCursor = await idbCursor.continue();
+		}
+
+		return pageResults;
+	}
+
+	private async sortedCursorPagination<T extends PersistentModel>(
+		storeName: string,
+		predicates: PredicatesGroup<T> | undefined,
+		pagination: PaginationInput<T>
+	): Promise<T[]> {
+		const { sort, limit = 0, cursor } = pagination;
+		const sortPredicates = ModelSortPredicateCreator.getPredicates(sort, false);
+		const page = new ModelCursorPage<T>(
+			sortPredicates,
+			cursor,
+			limit,
+			predicates
+		);
+
+		const store = this.db
+			.transaction(storeName, 'readonly')
+			.objectStore(storeName);
+
+		const [{ field, sortDirection }] = sortPredicates;
+		const indexName = field === 'id' ? 'byId' : <string>field;
+		// an index only holds the records whose value is a valid key, e.g. not
+		// null, it can be walked when that is the case of every record
+		const canWalkIndex =
+			sortPredicates.length === 1 &&
+			store.indexNames.contains(indexName) &&
+			(await store.index(indexName).count()) === (await store.count());
+
+		if (!canWalkIndex) {
+			// the sort has no index, every record is compared, but only one page
+			// of them is kept in memory
+			let storeCursor = await store.openCursor();
+
+			while (storeCursor && storeCursor.value) {
+				page.add(storeCursor.value);
+				storeCursor = await storeCursor.continue();
+			}
+
+			return page.getRecords();
+		}
+
+		// the index is walked from the value of the cursor. Records with the same
+		// value are in insertion order in the index, the page orders them by id
+		const ascending = sortDirection === SortDirection.ASCENDING;
+		const after = cursor && cursor.after && cursor.after[field];
+		const range =
+			after === undefined || after === null
+				? undefined
+				: ascending
+				? IDBKeyRange.lowerBound(after)
+				: IDBKeyRange.upperBound(after);
+
+		let indexCursor = await store
+			.index(indexName)
+			.openCursor(range, ascending ? 'next' : 'prev');
+
+		while (indexCursor && indexCursor.value) {
+			if (page.isFull()) {
+				const records = page.getRecords();
+				const last = records[records.length - 1][field];
+				const value = indexCursor.value[field];
+
+				if (ascending ? value > last : value < last) {
+					break;
+				}
+			}
+
+			page.add(indexCursor.value);
+			indexCursor = await indexCursor.continue();
+		}
+
+		return page.getRecords();
+	}
+
 	private async enginePagination<T extends PersistentModel>(
 		storeName: string,
 		pagination?: PaginationInput<T>
@@ -543,6 +803,78 @@ class IndexedDBAdapter implements Adapter {
 		return result && this.modelInstanceCreator(modelConstructor, result);
 	}
 
+	async aggregate<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		predicate: ModelPredicate<T> | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<AggregateGroupResult<T>[]> {
+		await this.checkPrivate();
+		const storeName = this.getStorenameForModel(modelConstructor);
+
+		const predicates =
+			predicate &&
+			(await this.resolveRelationalPredicates(
+				this.namespaceResolver(modelConstructor),
+				ModelPredicateCreator.getPredicates(predicate)
+			));
+
+		const aggregator = new ModelAggregator<T>(aggregation, predicates);
+
+		// walk the store with a cursor, so that only the aggregated values
+		// (and not every record) are kept in memory
+		let cursor = await this.db
+			.transaction(storeName, 'readonly')
+			.objectStore(storeName)
+			.openCursor();
+
+		while (cursor && cursor.value) {
+			aggregator.add(cursor.value);
+
+			cursor = await cursor.continue();
+		}
+
+		return aggregator.getResults();
+	}
+
+	async search<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		search: SearchInput
+	): Promise<T[]> {
+		await this.checkPrivate();
+		const storeName = this.getStorenameForModel(modelConstructor);
+		const namespaceName = this.namespaceResolver(modelConstructor);
+		const modelDefinition =
+			this.schema.namespaces[namespaceName].models[modelConstructor.name];
+		const searchIndex = this.getSearchIndexStore(storeName);
+
+		await ensureSearchIndex(
+			searchIndex,
+			getSearchableFields(modelDefinition, this.localSearchFields),
+			this.schema.version,
+			() => this.getAll(storeName)
+		);
+
+		const ids = await querySearchIndex(
+			searchIndex,
+			text,
+			await this.db.count(storeName),
+			search
+		);
+
+		const records: T[] = [];
+
+		for (const id of ids) {
+			const record = await this.getById<T>(storeName, id);
+
+			if (record) {
+				records.push(record);
+			}
+		}
+
+		return await this.load(namespaceName, modelConstructor.name, records);
+	}
+
 	async delete<T extends PersistentModel>(
 		modelOrModelConstructor: T | PersistentModelConstructor<T>,
 		condition?: ModelPredicate<T>
@@ -588,10 +920,31 @@ class IndexedDBAdapter implements Adapter {
 				);
 
 				// Delete all
-				await this.db
-					.transaction([storeName], 'readwrite')
-					.objectStore(storeName)
-					.clear();
+				const tx = this.db.transaction(
+					this.withJournalStore(this.withSearchStores([storeName])),
+					'readwrite'
+				);
+				const store = tx.objectStore(storeName);
+
+				if (this.inTransaction) {
+					let cursor = await store.openCursor();
+
+					while (cursor) {
+						await this.addToJournal(
+							tx,
+							storeName,
+							cursor.value.id,
+							cursor.primaryKey,
+							cursor.value
+						);
+
+						cursor = await cursor.continue();
+					}
+				}
+
+				await store.clear();
+				await this.indexForSearch(tx, modelConstructor, models, true);
+				await tx.done;
 
 				const deletedModels = deleteQueue.reduce(
 					(acc, { items }) => acc.concat(items),
@@ -678,7 +1031,10 @@ class IndexedDBAdapter implements Adapter {
 			return storeName;
 		});
 
-		const tx = this.db.transaction([...connectionStoreNames], 'readwrite');
+		const tx = this.db.transaction(
+			this.withJournalStore(this.withSearchStores(connectionStoreNames)),
+			'readwrite'
+		);
 		for await (const deleteItem of deleteQueue) {
 			const { storeName, items } = deleteItem;
 			const store = tx.objectStore(storeName);
@@ -694,11 +1050,31 @@ class IndexedDBAdapter implements Adapter {
 					}
 
 					if (key !== undefined) {
+						if (this.inTransaction) {
+							const record = await store.get(key);
+							await this.addToJournal(tx, storeName, record.id, key, record);
+						}
+
 						await store.delete(key);
 					}
 				}
 			}
 		}
+
+		for (const { items } of deleteQueue) {
+			for (const item of items) {
+				if (item && typeof item === 'object') {
+					await this.indexForSearch(
+						tx,
+						Object.getPrototypeOf(item).constructor,
+						[<PersistentModel>item],
+						true
+					);
+				}
+			}
+		}
+
+		await tx.done;
 	}
 
 	private async deleteTraverse<T extends PersistentModel>(
@@ -816,8 +1192,11 @@ class IndexedDBAdapter implements Adapter {
 
 		const storeName = this.getStorenameForModel(modelConstructor);
 
-		const txn = this.db.transaction(storeName, 'readwrite');
-		const store = txn.store;
+		const txn = this.db.transaction(
+			this.withJournalStore(this.withSearchStores([storeName])),
+			'readwrite'
+		);
+		const store = txn.objectStore(storeName);
 
 		for (const item of items) {
 			const connectedModels = traverseModel(
@@ -832,6 +1211,16 @@ class IndexedDBAdapter implements Adapter {
 			const index = store.index('byId');
 			const key = await index.getKey(id);
 
+			if (this.inTransaction) {
+				await this.addToJournal(
+					txn,
+					storeName,
+					id,
+					key,
+					key === undefined ? undefined : await store.get(key)
+				);
+			}
+
 			if (!_deleted) {
 				const { instance } = connectedModels.find(
 					({ instance }) => instance.id === id
@@ -851,11 +1240,343 @@ class IndexedDBAdapter implements Adapter {
 			}
 		}
 
+		for (const [record, opType] of result) {
+			await this.indexForSearch(
+				txn,
+				modelConstructor,
+				[record],
+				opType === OpType.DELETE
+			);
+		}
+
 		await txn.done;
 
 		return result;
 	}
 
+	private async openDatabase(
+		version: number,
+		callbacks: idb.OpenDBCallbacks<unknown>
+	): Promise<idb.IDBPDatabase> {
+		try {
+			return await idb.openDB(this.dbName, version, callbacks);
+		} catch (error) {
+			// a migration may have upgraded the database past `version` to add
+			// the object stores of new models
+			if (error && error.name === 'VersionError') {
+				return await idb.openDB(this.dbName);
+			}
+
+			throw error;
+		}
+	}
+
+	/**
+	 * Models added to the schema since the database was created don't have an
+	 * object store yet, the database is upgraded to add them. So is the
+	 * journal of transactions, for databases created before it existed.
+	 */
+	private async createMissingObjectStores(theSchema: InternalSchema) {
+		const missing: [string, string, string][] = [];
+		const missingSearchStores: string[] = [];
+
+		Object.keys(theSchema.namespaces).forEach(namespaceName => {
+			Object.keys(theSchema.namespaces[namespaceName].models).forEach(
+				modelName => {
+					const storeName = this.getStorename(namespaceName, modelName);
+					const searchStoreName = this.getSearchStorename(storeName);
+					const modelDefinition =
+						theSchema.namespaces[namespaceName].models[modelName];
+
+					if (!this.db.objectStoreNames.contains(storeName)) {
+						missing.push([namespaceName, storeName, modelName]);
+					}
+
+					if (
+						getSearchableFields(modelDefinition, this.localSearchFields)
+							.length > 0 &&
+						!this.db.objectStoreNames.contains(searchStoreName)
+					) {
+						missingSearchStores.push(searchStoreName);
+					}
+				}
+			);
+		});
+
+		const missingJournal =
+			!this.db.objectStoreNames.contains(JOURNAL_STORE_NAME);
+
+		if (
+			missing.length === 0 &&
+			missingSearchStores.length === 0 &&
+			!missingJournal
+		) {
+			return;
+		}
+
+		const version = this.db.version + 1;
+
+		this.db.close();
+		this.db = await idb.openDB(this.dbName, version, {
+			upgrade: db => {
+				missing.forEach(([namespaceName, storeName, modelName]) =>
+					this.createObjectStoreForModel(
+						db,
+						namespaceName,
+						storeName,
+						modelName
+					)
+				);
+
+				missingSearchStores.forEach(searchStoreName =>
+					db.createObjectStore(searchStoreName, { keyPath: 'id' })
+				);
+
+				if (missingJournal) {
+					this.createJournalStore(db);
+				}
+			},
+		});
+	}
+
+	async startTransaction(): Promise<void> {
+		await this.checkPrivate();
+
+		this.inTransaction = true;
+	}
+
+	async commitTransaction(): Promise<void> {
+		this.inTransaction = false;
+
+		await this.db.clear(JOURNAL_STORE_NAME);
+	}
+
+	async rollbackTransaction(): Promise<void> {
+		this.inTransaction = false;
+
+		await this.rollbackJournal();
+	}
+
+	/**
+	 * Adds the search stores of the models among `storeNames` that are indexed
+	 * for search
+	 */
+	private withSearchStores(storeNames: string[]): string[] {
+		const searchStoreNames = storeNames
+			.map(storeName => this.getSearchStorename(storeName))
+			.filter(searchStoreName =>
+				this.db.objectStoreNames.contains(searchStoreName)
+			);
+
+		return [...storeNames, ...searchStoreNames];
+	}
+
+	/**
+	 * The stores of a readwrite IDB transaction, with the journal while a
+	 * transaction of the adapter is open
+	 */
+	private withJournalStore(storeNames: string[]): string[] {
+		return this.inTransaction
+			? [...storeNames, JOURNAL_STORE_NAME]
+			: storeNames;
+	}
+
+	/**
+	 * Keeps a record as it was before a write, in the IDB transaction of the
+	 * write, so that the write is only ever stored with its journal entry
+	 */
+	private async addToJournal(
+		tx: idb.IDBPTransaction<unknown, string[]>,
+		storeName: string,
+		id: string,
+		key: IDBValidKey,
+		record: PersistentModel | undefined
+	) {
+		const entry: JournalEntry = {
+			storeName,
+			id,
+			key,
+			record: record === undefined ? null : record,
+		};
+
+		await tx.objectStore(JOURNAL_STORE_NAME).add(entry);
+	}
+
+	/**
+	 * Restores the records written since the transaction started, from the
+	 * oldest journal entry of each, and empties the journal. All of it
+	 * happens in one IDB transaction.
+	 */
+	private async rollbackJournal() {
+		const entries: JournalEntry[] = await this.db.getAll(JOURNAL_STORE_NAME);
+
+		if (entries.length === 0) {
+			return;
+		}
+
+		const oldestEntries = new Map<string, JournalEntry>();
+
+		entries.forEach(entry => {
+			const entryKey = JSON.stringify([entry.storeName, entry.id]);
+
+			if (!oldestEntries.has(entryKey)) {
+				oldestEntries.set(entryKey, entry);
+			}
+		});
+
+		const storeNames = new Set(entries.map(({ storeName }) => storeName));
+		const tx = this.db.transaction(
+			[...this.withSearchStores([...storeNames]), JOURNAL_STORE_NAME],
+			'readwrite'
+		);
+
+		for (const { storeName, id, key, record } of oldestEntries.values()) {
+			const store = tx.objectStore(storeName);
+			const currentKey = await store.index('byId').getKey(id);
+
+			if (currentKey !== undefined) {
+				await store.delete(currentKey);
+			}
+
+			if (record !== null) {
+				await store.put(record, key);
+			}
+
+			const modelConstructor = this.getModelConstructorByStorename(storeName);
+
+			if (modelConstructor !== undefined) {
+				await this.indexForSearch(
+					tx,
+					modelConstructor,
+					[record || <PersistentModel>{ id }],
+					record === null
+				);
+			}
+		}
+
+		await tx.objectStore(JOURNAL_STORE_NAME).clear();
+		await tx.done;
+	}
+
+	private getModelConstructorByStorename(
+		storeName: string
+	): PersistentModelConstructor<any> | undefined {
+		for (const namespaceName of Object.keys(this.schema.namespaces)) {
+			for (const modelName of Object.keys(
+				this.schema.namespaces[namespaceName].models
+			)) {
+				if (this.getStorename(namespaceName, modelName) === storeName) {
+					return this.getModelConstructorByModelName(namespaceName, modelName);
+				}
+			}
+		}
+	}
+
+	/**
+	 * The index of a model, in the IDB transaction `tx` when one is given
+	 */
+	private getSearchIndexStore(
+		storeName: string,
+		tx?: idb.IDBPTransaction<unknown, string[]>
+	): SearchIndexStore {
+		const searchStoreName = this.getSearchStorename(storeName);
+
+		if (tx !== undefined) {
+			const store = tx.objectStore(searchStoreName);
+
+			return {
+				get: id => store.get(id),
+				put: async item => {
+					await store.put(item);
+				},
+				delete: id => store.delete(id),
+				clear: () => store.clear(),
+			};
+		}
+
+		return {
+			get: id => this.db.get(searchStoreName, id),
+			put: async item => {
+				await this.db.put(searchStoreName, item);
+			},
+			delete: id => this.db.delete(searchStoreName, id),
+			clear: () => this.db.clear(searchStoreName),
+		};
+	}
+
+	/**
+	 * Keeps the inverted index of a searchable model in sync with the records
+	 * that were saved or deleted, in the IDB transaction that writes them.
+	 * `tx` must include the search store of the model, see `withSearchStores()`.
+	 */
+	private async indexForSearch<T extends PersistentModel>(
+		tx: idb.IDBPTransaction<unknown, string[]>,
+		modelConstructor: PersistentModelConstructor<T>,
+		records: T[],
+		deleted: boolean
+	) {
+		const namespaceName = this.namespaceResolver(modelConstructor);
+		const fields = getSearchableFields(
+			this.schema.namespaces[namespaceName].models[modelConstructor.name],
+			this.localSearchFields
+		);
+
+		if (fields.length === 0) {
+			return;
+		}
+
+		const searchIndex = this.getSearchIndexStore(
+			this.getStorename(namespaceName, modelConstructor.name),
+			tx
+		);
+
+		for (const record of records) {
+			await updateSearchIndex(searchIndex, fields, record, deleted);
+		}
+	}
+
+	/**
+	 * Replaces the records of the stores in a single IDB transaction, so that
+	 * an interrupted migration leaves all of them as they were
+	 */
+	private async replaceAll(
+		replacements: { storeName: string; records: any[] }[]
+	) {
+		const tx = this.db.transaction(
+			replacements.map(({ storeName }) => storeName),
+			'readwrite'
+		);
+
+		try {
+			for (const { storeName, records } of replacements) {
+				const store = tx.objectStore(storeName);
+
+				await store.clear();
+
+				for (const record of records) {
+					await store.put(record);
+				}
+			}
+		} catch (error) {
+			try {
+				tx.abort();
+			} catch {
+				// a request that fails aborts the transaction by itself
+			}
+
+			await tx.done.catch(() => {});
+
+			throw error;
+		}
+
+		await tx.done;
+	}
+
+	private createJournalStore(db: idb.IDBPDatabase) {
+		// entries are kept in the order of the writes
+		db.createObjectStore(JOURNAL_STORE_NAME, { autoIncrement: true });
+	}
+
 	private async createObjectStoreForModel(
 		db: idb.IDBPDatabase,
 		namespaceName: string,
@@ -1,4 +1,6 @@
 import {
+	AggregateGroupResult,
+	AggregateInput,
 	ModelInstanceMetadata,
 	ModelPredicate,
 	OpType,
@@ -6,6 +8,7 @@ import {
 	PersistentModel,
 	PersistentModelConstructor,
 	QueryOne,
+	SearchInput,
 	SystemComponent,
 } from '../../types';
 
@@ -32,4 +35,33 @@ export interface Adapter extends SystemComponent {
 		modelConstructor: PersistentModelConstructor<any>,
 		items: ModelInstanceMetadata[]
 	): Promise<[T, OpType][]>;
+	/**
+	 * Optional. Adapters that don't implement it are aggregated in memory
+	 * by Storage, on top of `query()`.
+	 */
+	aggregate?<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		predicate: ModelPredicate<T> | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<AggregateGroupResult<T>[]>;
+	/**
+	 * Optional. Adapters that don't implement it are searched in memory
+	 * by Storage, on top of `query()`.
+	 */
+	search?<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		search: SearchInput
+	): Promise<T[]>;
+	/**
+	 * Optional, together with `commitTransaction()` and `rollbackTransaction()`.
+	 * Either every write made until `commitTransaction()` is kept or none is,
+	 * also when the app is closed in the middle of the transaction: its
+	 * writes are then rolled back by the next `setUp()`. Transactions of adapters
+	 * that don't implement it are rolled back by Storage with compensating
+	 * writes, which a crash can leave half done.
+	 */
+	startTransaction?(): Promise<void>;
+	commitTransaction?(): Promise<void>;
+	rollbackTransaction?(): Promise<void>;
 }
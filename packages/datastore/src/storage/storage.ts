@@ -5,6 +5,8 @@ import { Patch } from 'immer';
 import { ModelInstanceCreator } from '../datastore/datastore';
 import { ModelPredicateCreator } from '../predicates';
 import {
+	AggregateGroupResult,
+	AggregateInput,
 	InternalSchema,
 	ModelInstanceMetadata,
 	ModelPredicate,
@@ -15,12 +17,17 @@ import {
 	PersistentModelConstructor,
 	PredicatesGroup,
 	QueryOne,
+	SchemaMigration,
+	LocalSearchFields,
 	SchemaNamespace,
+	SearchInput,
 	InternalSubscriptionMessage,
 	SubscriptionMessage,
 	isTargetNameAssociation,
 } from '../types';
 import {
+	inMemoryAggregate,
+	inMemorySearch,
 	isModelConstructor,
 	STORAGE,
 	validatePredicate,
@@ -32,14 +39,23 @@ import getDefaultAdapter from './adapter/getDefaultAdapter';
 export type StorageSubscriptionMessage<T extends PersistentModel> =
 	InternalSubscriptionMessage<T> & {
 		mutator?: Symbol;
+		// every message of the committed transaction this message belongs to
+		transaction?: StorageSubscriptionMessage<PersistentModel>[];
 	};
 
 export type StorageFacade = Omit<Adapter, 'setUp'>;
 export type Storage = InstanceType<typeof StorageClass>;
 
+type TransactionState = {
+	messages: StorageSubscriptionMessage<PersistentModel>[];
+	// compensating writes, for adapters without transactions of their own
+	rollbackSteps?: (() => Promise<unknown>)[];
+};
+
 const logger = new Logger('DataStore');
 class StorageClass implements StorageFacade {
 	private initialized: Promise<void>;
+	private transactionState: TransactionState;
 	private readonly pushStream: {
 		observable: Observable<StorageSubscriptionMessage<PersistentModel>>;
 	} & Required<
@@ -55,7 +71,9 @@ class StorageClass implements StorageFacade {
 		) => PersistentModelConstructor<any>,
 		private readonly modelInstanceCreator: ModelInstanceCreator,
 		private readonly adapter?: Adapter,
-		private readonly sessionId?: string
+		private readonly sessionId?: string,
+		private readonly migrations?: SchemaMigration[],
+		private readonly localSearchFields?: LocalSearchFields
 	) {
 		this.adapter = this.adapter || getDefaultAdapter();
 		this.pushStream = new PushStream();
@@ -94,7 +112,9 @@ class StorageClass implements StorageFacade {
 				this.namespaceResolver,
 				this.modelInstanceCreator,
 				this.getModelConstructorByModelName,
-				this.sessionId
+				this.sessionId,
+				this.migrations,
+				this.localSearchFields
 			)
 			.then(resolve, reject);
 
@@ -109,8 +129,37 @@ class StorageClass implements StorageFacade {
 	): Promise<[T, OpType.INSERT | OpType.UPDATE][]> {
 		await this.init();
 
+		let previous: T;
+
+		if (this.transactionState && this.transactionState.rollbackSteps) {
+			const modelConstructor = (Object.getPrototypeOf(model) as Object)
+				.constructor as PersistentModelConstructor<T>;
+			const namespaceName = this.namespaceResolver(modelConstructor);
+			const modelDefinition =
+				this.schema.namespaces[namespaceName].models[modelConstructor.name];
+
+			[previous] = await this.adapter.query(
+				modelConstructor,
+				ModelPredicateCreator.createForId(modelDefinition, model.id)
+			);
+		}
+
 		const result = await this.adapter.save(model, condition);
 
+		if (this.transactionState && this.transactionState.rollbackSteps) {
+			const { rollbackSteps } = this.transactionState;
+
+			result.forEach(([savedElement, opType]) => {
+				// only the saved model itself can be updated, related models
+				// are inserted when missing
+				rollbackSteps.push(
+					opType === OpType.UPDATE
+						? () => this.adapter.save(previous)
+						: () => this.adapter.delete(savedElement)
+				);
+			});
+		}
+
 		result.forEach(r => {
 			const [savedElement, opType] = r;
 
@@ -150,13 +199,14 @@ class StorageClass implements StorageFacade {
 			const modelConstructor = (Object.getPrototypeOf(savedElement) as Object)
 				.constructor as PersistentModelConstructor<T>;
 
-			this.pushStream.next({
+			this.emit({
 				model: modelConstructor,
 				opType,
 				element,
 				mutator,
 				condition: ModelPredicateCreator.getPredicates(condition, false),
 				savedElement,
+				previousElement: updateMutationInput ? <T>patchesTuple[1] : undefined,
 			});
 		});
 
@@ -197,6 +247,14 @@ class StorageClass implements StorageFacade {
 			deleted = [deleted];
 		}
 
+		if (this.transactionState && this.transactionState.rollbackSteps) {
+			const { rollbackSteps } = this.transactionState;
+
+			deleted.forEach(model => {
+				rollbackSteps.push(() => this.adapter.save(model));
+			});
+		}
+
 		deleted.forEach(model => {
 			const modelConstructor = (Object.getPrototypeOf(model) as Object)
 				.constructor as PersistentModelConstructor<T>;
@@ -209,7 +267,7 @@ class StorageClass implements StorageFacade {
 					: undefined;
 			}
 
-			this.pushStream.next({
+			this.emit({
 				model: modelConstructor,
 				opType: OpType.DELETE,
 				element: model,
@@ -241,6 +299,46 @@ class StorageClass implements StorageFacade {
 		return record;
 	}
 
+	async aggregate<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		predicate: ModelPredicate<T> | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<AggregateGroupResult<T>[]> {
+		await this.init();
+
+		if (typeof this.adapter.aggregate === 'function') {
+			return await this.adapter.aggregate(
+				modelConstructor,
+				predicate,
+				aggregation
+			);
+		}
+
+		const records = await this.adapter.query(modelConstructor);
+
+		return inMemoryAggregate(
+			records,
+			aggregation,
+			ModelPredicateCreator.getPredicates(predicate, false)
+		);
+	}
+
+	async search<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		search: SearchInput
+	): Promise<T[]> {
+		await this.init();
+
+		if (typeof this.adapter.search === 'function') {
+			return await this.adapter.search(modelConstructor, text, search);
+		}
+
+		const records = await this.adapter.query(modelConstructor);
+
+		return inMemorySearch(records, text, search);
+	}
+
 	observe<T extends PersistentModel>(
 		modelConstructor?: PersistentModelConstructor<T>,
 		predicate?: ModelPredicate<T>,
@@ -256,7 +354,12 @@ class StorageClass implements StorageFacade {
 				return !skipOwn || mutator !== skipOwn;
 			})
 			.map(
-				({ mutator: _mutator, ...message }) => message as SubscriptionMessage<T>
+				({
+					mutator: _mutator,
+					transaction: _transaction,
+					previousElement: _previousElement,
+					...message
+				}) => message as SubscriptionMessage<T>
 			);
 
 		if (!listenToAll) {
@@ -276,6 +379,86 @@ class StorageClass implements StorageFacade {
 		return result;
 	}
 
+	/**
+	 * Like `observe`, but messages that were committed together are emitted
+	 * together, e.g. all of the messages of a transaction
+	 */
+	observeBatches(
+		skipOwn?: Symbol
+	): Observable<InternalSubscriptionMessage<PersistentModel>[]> {
+		return this.pushStream.observable
+			.filter(
+				message =>
+					message.transaction === undefined ||
+					message.transaction[0] === message
+			)
+			.map(message =>
+				(message.transaction || [message])
+					.filter(({ mutator }) => !skipOwn || mutator !== skipOwn)
+					.map(
+						({ mutator: _mutator, transaction: _transaction, ...rest }) =>
+							rest as InternalSubscriptionMessage<PersistentModel>
+					)
+			)
+			.filter(messages => messages.length > 0);
+	}
+
+	/**
+	 * Runs `fn` as a single unit of work. Saves and deletes made while it runs
+	 * are rolled back if it rejects, and their messages are only emitted after
+	 * it resolves.
+	 *
+	 * Must be called from within `runExclusive`
+	 */
+	async transaction<T>(fn: () => Promise<T>): Promise<T> {
+		if (this.transactionState !== undefined) {
+			throw new Error('Transactions cannot be nested');
+		}
+
+		await this.init();
+
+		const adapterTransaction =
+			typeof this.adapter.startTransaction === 'function';
+
+		const transactionState: TransactionState = {
+			messages: [],
+			rollbackSteps: adapterTransaction ? undefined : [],
+		};
+
+		if (adapterTransaction) {
+			await this.adapter.startTransaction();
+		}
+
+		this.transactionState = transactionState;
+
+		let result: T;
+
+		try {
+			result = await fn();
+
+			if (adapterTransaction) {
+				await this.adapter.commitTransaction();
+			}
+		} catch (err) {
+			this.transactionState = undefined;
+
+			await this.rollback(transactionState.rollbackSteps);
+
+			throw err;
+		}
+
+		this.transactionState = undefined;
+
+		const { messages } = transactionState;
+
+		messages.forEach(message => {
+			message.transaction = messages;
+		});
+		messages.forEach(message => this.pushStream.next(message));
+
+		return result;
+	}
+
 	async clear(completeObservable = true) {
 		this.initialized = undefined;
 
@@ -296,7 +479,7 @@ class StorageClass implements StorageFacade {
 		const result = await this.adapter.batchSave(modelConstructor, items);
 
 		result.forEach(([element, opType]) => {
-			this.pushStream.next({
+			this.emit({
 				model: modelConstructor,
 				opType,
 				element,
@@ -308,6 +491,38 @@ class StorageClass implements StorageFacade {
 		return result as any;
 	}
 
+	private emit(message: StorageSubscriptionMessage<PersistentModel>) {
+		if (this.transactionState !== undefined) {
+			this.transactionState.messages.push(message);
+			return;
+		}
+
+		this.pushStream.next(message);
+	}
+
+	private async rollback(rollbackSteps?: (() => Promise<unknown>)[]) {
+		if (rollbackSteps === undefined) {
+			try {
+				await this.adapter.rollbackTransaction();
+			} catch (err) {
+				// the next setUp() of the adapter rolls the transaction back
+				logger.error('Failed to roll back transaction', err);
+			}
+
+			return;
+		}
+
+		// undo in reverse order, so records are restored to their state from
+		// before the transaction started
+		for (const step of [...rollbackSteps].reverse()) {
+			try {
+				await step();
+			} catch (err) {
+				logger.error('Failed to roll back transaction step', err);
+			}
+		}
+	}
+
 	// returns null if no user fields were changed (determined by value comparison)
 	private getUpdateMutationInput<T extends PersistentModel>(
 		model: T,
@@ -398,7 +613,9 @@ class ExclusiveStorage implements StorageFacade {
 		) => PersistentModelConstructor<any>,
 		modelInstanceCreator: ModelInstanceCreator,
 		adapter?: Adapter,
-		sessionId?: string
+		sessionId?: string,
+		migrations?: SchemaMigration[],
+		localSearchFields?: LocalSearchFields
 	) {
 		this.storage = new StorageClass(
 			schema,
@@ -406,7 +623,9 @@ class ExclusiveStorage implements StorageFacade {
 			getModelConstructorByModelName,
 			modelInstanceCreator,
 			adapter,
-			sessionId
+			sessionId,
+			migrations,
+			localSearchFields
 		);
 	}
 
@@ -472,6 +691,26 @@ class ExclusiveStorage implements StorageFacade {
 		);
 	}
 
+	async aggregate<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		predicate: ModelPredicate<T> | undefined,
+		aggregation: AggregateInput<T>
+	): Promise<AggregateGroupResult<T>[]> {
+		return this.runExclusive<AggregateGroupResult<T>[]>(storage =>
+			storage.aggregate<T>(modelConstructor, predicate, aggregation)
+		);
+	}
+
+	async search<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		text: string,
+		search: SearchInput
+	): Promise<T[]> {
+		return this.runExclusive<T[]>(storage =>
+			storage.search<T>(modelConstructor, text, search)
+		);
+	}
+
 	static getNamespace() {
 		return StorageClass.getNamespace();
 	}
@@ -484,6 +723,12 @@ class ExclusiveStorage implements StorageFacade {
 		return this.storage.observe(modelConstructor, predicate, skipOwn);
 	}
 
+	observeBatches(
+		skipOwn?: Symbol
+	): Observable<InternalSubscriptionMessage<PersistentModel>[]> {
+		return this.storage.observeBatches(skipOwn);
+	}
+
 	async clear() {
 		await this.storage.clear();
 	}
@@ -1,6 +1,7 @@
-import { browserOrNode, ConsoleLogger as Logger } from '@aws-amplify/core';
+import { browserOrNode, ConsoleLogger as Logger, Hub } from '@aws-amplify/core';
 import { CONTROL_MSG as PUBSUB_CONTROL_MSG } from '@aws-amplify/pubsub';
 import Observable, { ZenObservable } from 'zen-observable-ts';
+import { needsConflictBase } from '../conflictStrategies';
 import { ModelInstanceCreator } from '../datastore/datastore';
 import { ModelPredicateCreator } from '../predicates';
 import { ExclusiveStorage as Storage } from '../storage/storage';
@@ -14,6 +15,7 @@ import {
 	MutableModel,
 	NamespaceResolver,
 	OpType,
+	OutboxMutation,
 	PersistentModel,
 	PersistentModelConstructor,
 	SchemaModel,
@@ -56,6 +58,41 @@ export declare class MutationEvent {
 	public readonly modelId: string;
 	public readonly condition: string;
 	public data: string;
+	public readonly attempts?: number;
+	public readonly error?: string;
+}
+
+export declare class FailedMutationEvent {
+	constructor(init: ModelInit<FailedMutationEvent>);
+	static copyOf(
+		src: FailedMutationEvent,
+		mutator: (
+			draft: MutableModel<FailedMutationEvent>
+		) => void | FailedMutationEvent
+	): FailedMutationEvent;
+	public readonly id: string;
+	public readonly model: string;
+	public readonly operation: TransformerMutationType;
+	public readonly modelId: string;
+	public readonly condition: string;
+	public data: string;
+	public readonly attempts: number;
+	public readonly error?: string;
+}
+
+export declare class MutationEventBase {
+	constructor(init: ModelInit<MutationEventBase>);
+	static copyOf(
+		src: MutationEventBase,
+		mutator: (
+			draft: MutableModel<MutationEventBase>
+		) => void | MutationEventBase
+	): MutationEventBase;
+	public readonly id: string;
+	public readonly model: string;
+	public readonly modelId: string;
+	public readonly data: string;
+	public readonly localChangedAt: string;
 }
 
 declare class ModelMetadata {
@@ -82,6 +119,12 @@ export enum ControlMessage {
 	SYNC_ENGINE_OUTBOX_MUTATION_ENQUEUED = 'outboxMutationEnqueued',
 	SYNC_ENGINE_OUTBOX_MUTATION_PROCESSED = 'outboxMutationProcessed',
 	SYNC_ENGINE_OUTBOX_STATUS = 'outboxStatus',
+	SYNC_ENGINE_OUTBOX_MUTATION_EDITED = 'outboxMutationEdited',
+	SYNC_ENGINE_OUTBOX_MUTATION_DISCARDED = 'outboxMutationDiscarded',
+	SYNC_ENGINE_OUTBOX_MUTATION_REPLAYED = 'outboxMutationReplayed',
+	SYNC_ENGINE_OUTBOX_MUTATION_FAILED = 'outboxMutationFailed',
+	SYNC_ENGINE_OUTBOX_PAUSED = 'outboxPaused',
+	SYNC_ENGINE_OUTBOX_RESUMED = 'outboxResumed',
 	SYNC_ENGINE_NETWORK_STATUS = 'networkStatus',
 	SYNC_ENGINE_READY = 'ready',
 }
@@ -127,7 +170,14 @@ export class SyncEngine {
 			this.schema,
 			MutationEvent,
 			modelInstanceCreator,
-			ownSymbol
+			ownSymbol,
+			this.modelClasses[
+				'FailedMutationEvent'
+			] as PersistentModelConstructor<FailedMutationEvent>,
+			this.modelClasses[
+				'MutationEventBase'
+			] as PersistentModelConstructor<MutationEventBase>,
+			needsConflictBase(conflictHandler)
 		);
 
 		this.modelMerger = new ModelMerger(this.outbox, ownSymbol);
@@ -351,39 +401,69 @@ export class SyncEngine {
 				});
 
 				this.storage
-					.observe(null, null, ownSymbol)
-					.filter(({ model }) => {
-						const modelDefinition = this.getModelDefinition(model);
-
-						return modelDefinition.syncable === true;
-					})
+					.observeBatches(ownSymbol)
+					.map(messages =>
+						messages.filter(({ model }) => {
+							const modelDefinition = this.getModelDefinition(model);
+
+							return modelDefinition.syncable === true;
+						})
+					)
+					.filter(messages => messages.length > 0)
 					.subscribe({
-						next: async ({ opType, model, element, condition }) => {
-							const namespace =
-								this.schema.namespaces[this.namespaceResolver(model)];
+						next: async messages => {
 							const MutationEventConstructor = this.modelClasses[
 								'MutationEvent'
 							] as PersistentModelConstructor<MutationEvent>;
-							const graphQLCondition = predicateToGraphQLCondition(condition);
-							const mutationEvent = createMutationInstanceFromModelOperation(
-								namespace.relationships,
-								this.getModelDefinition(model),
-								opType,
-								model,
-								element,
-								graphQLCondition,
-								MutationEventConstructor,
-								this.modelInstanceCreator
+							const mutationEvents = messages.map(
+								({ opType, model, element, condition }) => {
+									const namespace =
+										this.schema.namespaces[this.namespaceResolver(model)];
+									const graphQLCondition =
+										predicateToGraphQLCondition(condition);
+
+									return createMutationInstanceFromModelOperation(
+										namespace.relationships,
+										this.getModelDefinition(model),
+										opType,
+										model,
+										element,
+										graphQLCondition,
+										MutationEventConstructor,
+										this.modelInstanceCreator
+									);
+								}
 							);
 
-							await this.outbox.enqueue(this.storage, mutationEvent);
+							// the record a change was made from is the base of conflict merges
+							const bases = messages.map(
+								({ opType, element, previousElement }) =>
+									opType === OpType.DELETE ? element : previousElement
+							);
 
-							observer.next({
-								type: ControlMessage.SYNC_ENGINE_OUTBOX_MUTATION_ENQUEUED,
-								data: {
-									model,
-									element,
-								},
+							if (mutationEvents.length === 1) {
+								await this.outbox.enqueue(
+									this.storage,
+									mutationEvents[0],
+									bases[0]
+								);
+							} else {
+								// the changes of a transaction are enqueued together
+								await this.outbox.enqueueBatch(
+									this.storage,
+									mutationEvents,
+									bases
+								);
+							}
+
+							messages.forEach(({ model, element }) => {
+								observer.next({
+									type: ControlMessage.SYNC_ENGINE_OUTBOX_MUTATION_ENQUEUED,
+									data: {
+										model,
+										element,
+									},
+								});
 							});
 
 							observer.next({
@@ -699,6 +779,99 @@ export class SyncEngine {
 		this.datastoreConnectivity.unsubscribe();
 	}
 
+	public async getOutboxMutations(): Promise<OutboxMutation[]> {
+		return this.outbox.list(this.storage);
+	}
+
+	public async editOutboxMutation(
+		id: string,
+		data: Record<string, any>
+	): Promise<OutboxMutation> {
+		await this.waitForOutboxMutationNotInFlight(id);
+
+		const mutation = await this.outbox.edit(this.storage, id, data);
+
+		this.dispatchOutboxEvent(
+			ControlMessage.SYNC_ENGINE_OUTBOX_MUTATION_EDITED,
+			{
+				mutation,
+			}
+		);
+
+		return mutation;
+	}
+
+	public async discardOutboxMutation(id: string): Promise<OutboxMutation> {
+		await this.waitForOutboxMutationNotInFlight(id);
+
+		const mutation = await this.outbox.discard(this.storage, id);
+
+		this.dispatchOutboxEvent(
+			ControlMessage.SYNC_ENGINE_OUTBOX_MUTATION_DISCARDED,
+			{ mutation }
+		);
+
+		return mutation;
+	}
+
+	public async replayOutboxMutation(id: string): Promise<OutboxMutation> {
+		const mutation = await this.outbox.replay(this.storage, id);
+
+		this.dispatchOutboxEvent(
+			ControlMessage.SYNC_ENGINE_OUTBOX_MUTATION_REPLAYED,
+			{ mutation }
+		);
+
+		if (this.online) {
+			this.mutationsProcessor.resume();
+		}
+
+		return mutation;
+	}
+
+	/**
+	 * Stops sending mutations until `resumeOutbox` is called, local changes
+	 * keep being enqueued in the meantime
+	 */
+	public pauseOutbox() {
+		this.mutationsProcessor.hold();
+
+		this.dispatchOutboxEvent(ControlMessage.SYNC_ENGINE_OUTBOX_PAUSED);
+	}
+
+	public resumeOutbox() {
+		this.mutationsProcessor.release();
+
+		this.dispatchOutboxEvent(ControlMessage.SYNC_ENGINE_OUTBOX_RESUMED);
+
+		if (this.online) {
+			this.mutationsProcessor.resume();
+		}
+	}
+
+	private async waitForOutboxMutationNotInFlight(id: string) {
+		if (!this.outbox.isInProgress(id)) {
+			return;
+		}
+
+		if (this.mutationsProcessor.isProcessing()) {
+			throw new Error(
+				`Mutation ${id} is being sent, pause the outbox before changing it`
+			);
+		}
+
+		// the outbox has been paused while the mutation was sent, the outbox
+		// dequeues it once the request completes
+		await this.mutationsProcessor.waitForInFlightMutation();
+	}
+
+	private dispatchOutboxEvent(
+		event: ControlMessage,
+		data?: Record<string, any>
+	) {
+		Hub.dispatch('datastore', { event, data });
+	}
+
 	private async setupModels(params: StartParams) {
 		const { fullSyncInterval } = params;
 		const ModelMetadata = this.modelClasses
@@ -874,6 +1047,112 @@ export class SyncEngine {
 							isArray: false,
 							isRequired: true,
 						},
+						attempts: {
+							name: 'attempts',
+							type: 'Int',
+							isRequired: false,
+							isArray: false,
+						},
+						error: {
+							name: 'error',
+							type: 'String',
+							isRequired: false,
+							isArray: false,
+						},
+					},
+				},
+				FailedMutationEvent: {
+					name: 'FailedMutationEvent',
+					pluralName: 'FailedMutationEvents',
+					syncable: false,
+					fields: {
+						id: {
+							name: 'id',
+							type: 'ID',
+							isRequired: true,
+							isArray: false,
+						},
+						model: {
+							name: 'model',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
+						data: {
+							name: 'data',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
+						modelId: {
+							name: 'modelId',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
+						operation: {
+							name: 'operation',
+							type: {
+								enum: 'Operationtype',
+							},
+							isArray: false,
+							isRequired: true,
+						},
+						condition: {
+							name: 'condition',
+							type: 'String',
+							isArray: false,
+							isRequired: true,
+						},
+						attempts: {
+							name: 'attempts',
+							type: 'Int',
+							isRequired: true,
+							isArray: false,
+						},
+						error: {
+							name: 'error',
+							type: 'String',
+							isRequired: false,
+							isArray: false,
+						},
+					},
+				},
+				MutationEventBase: {
+					name: 'MutationEventBase',
+					pluralName: 'MutationEventBases',
+					syncable: false,
+					fields: {
+						id: {
+							name: 'id',
+							type: 'ID',
+							isRequired: true,
+							isArray: false,
+						},
+						model: {
+							name: 'model',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
+						modelId: {
+							name: 'modelId',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
+						data: {
+							name: 'data',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
+						localChangedAt: {
+							name: 'localChangedAt',
+							type: 'String',
+							isRequired: true,
+							isArray: false,
+						},
 					},
 				},
 				ModelMetadata: {
@@ -1,4 +1,4 @@
-import { MutationEvent } from './index';
+import { FailedMutationEvent, MutationEvent, MutationEventBase } from './index';
 import { ModelPredicateCreator } from '../predicates';
 import {
 	ExclusiveStorage as Storage,
@@ -8,9 +8,13 @@ import {
 import { ModelInstanceCreator } from '../datastore/datastore';
 import {
 	InternalSchema,
+	isTargetNameAssociation,
+	OutboxMutation,
+	OutboxMutationStatus,
 	PersistentModel,
 	PersistentModelConstructor,
 	QueryOne,
+	SyncConflict,
 } from '../types';
 import { USER, SYNC, valuesEqual } from '../util';
 import { TransformerMutationType } from './utils';
@@ -24,70 +28,41 @@ class MutationEventOutbox {
 		private readonly schema: InternalSchema,
 		private readonly MutationEvent: PersistentModelConstructor<MutationEvent>,
 		private readonly modelInstanceCreator: ModelInstanceCreator,
-		private readonly ownSymbol: Symbol
+		private readonly ownSymbol: Symbol,
+		private readonly FailedMutationEvent: PersistentModelConstructor<FailedMutationEvent>,
+		private readonly MutationEventBase: PersistentModelConstructor<MutationEventBase>,
+		// bases are only kept for the conflict strategies that merge against them
+		private readonly trackBases: boolean
 	) {}
 
+	/**
+	 * @param base the record as it was before the change, kept as the base of
+	 * conflict merges while the record has mutations in the outbox
+	 */
 	public async enqueue(
 		storage: Storage,
-		mutationEvent: MutationEvent
+		mutationEvent: MutationEvent,
+		base?: PersistentModel
 	): Promise<void> {
-		storage.runExclusive(async s => {
-			const mutationEventModelDefinition =
-				this.schema.namespaces[SYNC].models['MutationEvent'];
-
-			const predicate = ModelPredicateCreator.createFromExisting<MutationEvent>(
-				mutationEventModelDefinition,
-				c =>
-					c
-						.modelId('eq', mutationEvent.modelId)
-						.id('ne', this.inProgressMutationEventId)
-			);
-
-			const [first] = await s.query(this.MutationEvent, predicate);
-
-			if (first === undefined) {
-				await s.save(mutationEvent, undefined, this.ownSymbol);
-				return;
-			}
-
-			const { operation: incomingMutationType } = mutationEvent;
-
-			if (first.operation === TransformerMutationType.CREATE) {
-				if (incomingMutationType === TransformerMutationType.DELETE) {
-					await s.delete(this.MutationEvent, predicate);
-				} else {
-					// first gets updated with the incoming mutation's data, condition intentionally skipped
-
-					// we need to merge the fields for a create and update mutation to prevent
-					// data loss, since update mutations only include changed fields
-					const merged = this.mergeUserFields(first, mutationEvent);
-					await s.save(
-						this.MutationEvent.copyOf(first, draft => {
-							draft.data = merged.data;
-						}),
-						undefined,
-						this.ownSymbol
-					);
-				}
-			} else {
-				const { condition: incomingConditionJSON } = mutationEvent;
-				const incomingCondition = JSON.parse(incomingConditionJSON);
-				let merged: MutationEvent;
-
-				// If no condition
-				if (Object.keys(incomingCondition).length === 0) {
-					merged = this.mergeUserFields(first, mutationEvent);
+		storage.runExclusive(s => this.enqueueInStorage(s, mutationEvent, base));
+	}
 
-					// delete all for model
-					await s.delete(this.MutationEvent, predicate);
+	/**
+	 * Enqueues the mutation events as one unit, either all of them end up in
+	 * the outbox or none do
+	 */
+	public async enqueueBatch(
+		storage: Storage,
+		mutationEvents: MutationEvent[],
+		bases: PersistentModel[] = []
+	): Promise<void> {
+		await storage.runExclusive(s =>
+			s.transaction(async () => {
+				for (let i = 0; i < mutationEvents.length; i++) {
+					await this.enqueueInStorage(s, mutationEvents[i], bases[i]);
 				}
-
-				merged = merged || mutationEvent;
-
-				// Enqueue new one
-				await s.save(merged, undefined, this.ownSymbol);
-			}
-		});
+			})
+		);
 	}
 
 	public async dequeue(
@@ -104,9 +79,188 @@ class MutationEventOutbox {
 		await storage.delete(head);
 		this.inProgressMutationEventId = undefined;
 
+		await this.settleBase(storage, head, record);
+
 		return head;
 	}
 
+	/**
+	 * Takes the head out of the outbox after its last attempt failed. With
+	 * `keep`, it is moved to the failed mutations, where it stays until it is
+	 * replayed or discarded.
+	 */
+	public async fail(
+		storage: StorageClass,
+		keep: boolean
+	): Promise<OutboxMutation> {
+		return storage.transaction(async () => {
+			const head = await this.dequeue(storage);
+
+			const failed = this.modelInstanceCreator(this.FailedMutationEvent, {
+				...this.getMutationEventInit(head),
+				attempts: head.attempts || 0,
+				error: head.error,
+			});
+
+			if (keep) {
+				await storage.save(failed, undefined, this.ownSymbol);
+			}
+
+			return this.toOutboxMutation(failed, OutboxMutationStatus.FAILED);
+		});
+	}
+
+	/**
+	 * Counts a failed attempt to send a pending mutation and keeps its error,
+	 * with the mutation, so that both outlive the session
+	 */
+	public async recordAttempt(
+		storage: StorageClass,
+		id: string,
+		error: any
+	): Promise<void> {
+		const [mutationEvent] = await storage.query(
+			this.MutationEvent,
+			ModelPredicateCreator.createFromExisting<MutationEvent>(
+				this.schema.namespaces[SYNC].models.MutationEvent,
+				c => c.id('eq', id)
+			)
+		);
+
+		// it was discarded in the meantime
+		if (mutationEvent === undefined) {
+			return;
+		}
+
+		const [graphQLError] = (error && error.errors) || [];
+		const { message = String(error) } = graphQLError || error || {};
+
+		await storage.save(
+			this.MutationEvent.copyOf(mutationEvent, draft => {
+				draft.attempts = (mutationEvent.attempts || 0) + 1;
+				draft.error = message;
+			}),
+			undefined,
+			this.ownSymbol
+		);
+	}
+
+	public isInProgress(id: string): boolean {
+		return this.inProgressMutationEventId === id;
+	}
+
+	public async list(storage: Storage): Promise<OutboxMutation[]> {
+		return storage.runExclusive(async s => {
+			const pending = await s.query(this.MutationEvent);
+			const failed = await s.query(this.FailedMutationEvent);
+
+			return [
+				...pending.map(m =>
+					this.toOutboxMutation(m, OutboxMutationStatus.PENDING)
+				),
+				...failed.map(m =>
+					this.toOutboxMutation(m, OutboxMutationStatus.FAILED)
+				),
+			];
+		});
+	}
+
+	/**
+	 * Replaces fields of the record sent by a pending or failed mutation
+	 */
+	public async edit(
+		storage: Storage,
+		id: string,
+		changes: Record<string, any>
+	): Promise<OutboxMutation> {
+		return storage.runExclusive(async s => {
+			const [mutationEvent, status] = await this.find(s, id);
+			const modelDefinition =
+				this.schema.namespaces[USER].models[mutationEvent.model];
+			const editableFields = new Set<string>();
+
+			Object.values(modelDefinition.fields).forEach(({ name, association }) => {
+				if (name !== 'id') {
+					editableFields.add(
+						isTargetNameAssociation(association) ? association.targetName : name
+					);
+				}
+			});
+
+			const invalidFields = Object.keys(changes).filter(
+				field => !editableFields.has(field)
+			);
+
+			if (invalidFields.length > 0) {
+				throw new Error(
+					`Fields ${invalidFields.join(', ')} cannot be edited in model ${
+						mutationEvent.model
+					}`
+				);
+			}
+
+			const data = JSON.stringify({
+				...JSON.parse(mutationEvent.data),
+				...changes,
+			});
+
+			const edited =
+				status === OutboxMutationStatus.PENDING
+					? this.MutationEvent.copyOf(<MutationEvent>mutationEvent, draft => {
+							draft.data = data;
+					  })
+					: this.FailedMutationEvent.copyOf(
+							<FailedMutationEvent>mutationEvent,
+							draft => {
+								draft.data = data;
+							}
+					  );
+
+			await s.save(edited, undefined, this.ownSymbol);
+
+			return this.toOutboxMutation(edited, status);
+		});
+	}
+
+	public async discard(storage: Storage, id: string): Promise<OutboxMutation> {
+		return storage.runExclusive(async s => {
+			const [mutationEvent, status] = await this.find(s, id);
+
+			await s.delete(mutationEvent);
+
+			if (status === OutboxMutationStatus.PENDING) {
+				await this.settleBase(s, <MutationEvent>mutationEvent);
+			}
+
+			return this.toOutboxMutation(mutationEvent, status);
+		});
+	}
+
+	/**
+	 * Moves a failed mutation back into the outbox, with its attempts reset
+	 */
+	public async replay(storage: Storage, id: string): Promise<OutboxMutation> {
+		return storage.runExclusive(async s => {
+			const [mutationEvent, status] = await this.find(s, id);
+
+			if (status !== OutboxMutationStatus.FAILED) {
+				throw new Error(`Mutation ${id} has not failed`);
+			}
+
+			const replayed = this.modelInstanceCreator(
+				this.MutationEvent,
+				this.getMutationEventInit(mutationEvent)
+			);
+
+			await s.transaction(async () => {
+				await s.delete(mutationEvent);
+				await s.save(replayed, undefined, this.ownSymbol);
+			});
+
+			return this.toOutboxMutation(replayed, OutboxMutationStatus.PENDING);
+		});
+	}
+
 	/**
 	 * Doing a peek() implies that the mutation goes "inProgress"
 	 *
@@ -148,6 +302,275 @@ class MutationEventOutbox {
 		return result;
 	}
 
+	public async getConflictBase(
+		storage: StorageClass,
+		mutationEvent: MutationEvent
+	): Promise<Pick<SyncConflict, 'baseModel' | 'localChangedAt'>> {
+		if (!this.trackBases) {
+			return {};
+		}
+
+		const base = await this.queryBase(storage, mutationEvent);
+
+		if (base === undefined) {
+			return {};
+		}
+
+		return {
+			baseModel: JSON.parse(base.data),
+			localChangedAt: JSON.parse(base.localChangedAt),
+		};
+	}
+
+	/**
+	 * Makes `record` the base of the mutations left for it, after a conflict
+	 * was resolved against it
+	 */
+	public async rebase(
+		storage: StorageClass,
+		mutationEvent: MutationEvent,
+		record: PersistentModel
+	): Promise<void> {
+		if (!this.trackBases) {
+			return;
+		}
+
+		const base = await this.queryBase(storage, mutationEvent);
+		const data = JSON.stringify(record);
+
+		await storage.save(
+			base
+				? this.MutationEventBase.copyOf(base, draft => {
+						draft.data = data;
+				  })
+				: this.modelInstanceCreator(this.MutationEventBase, {
+						model: mutationEvent.model,
+						modelId: mutationEvent.modelId,
+						data,
+						localChangedAt: JSON.stringify({}),
+				  }),
+			undefined,
+			this.ownSymbol
+		);
+	}
+
+	private async queryBase(
+		storage: StorageClass,
+		{ model, modelId }: MutationEvent
+	): Promise<MutationEventBase> {
+		const [base] = await storage.query(
+			this.MutationEventBase,
+			ModelPredicateCreator.createFromExisting<MutationEventBase>(
+				this.schema.namespaces[SYNC].models.MutationEventBase,
+				c => c.model('eq', model).modelId('eq', modelId)
+			)
+		);
+
+		return base;
+	}
+
+	// records when the fields of the mutation were changed, and the base of the
+	// record when it has no other mutation in the outbox
+	private async trackLocalChange(
+		s: StorageClass,
+		mutationEvent: MutationEvent,
+		base?: PersistentModel
+	): Promise<void> {
+		const existing = await this.queryBase(s, mutationEvent);
+
+		// nothing to merge against, e.g. the record was only created locally
+		if (existing === undefined && base === undefined) {
+			return;
+		}
+
+		const now = Date.now();
+		const localChangedAt: Record<string, number> = existing
+			? JSON.parse(existing.localChangedAt)
+			: {};
+
+		Object.keys(JSON.parse(mutationEvent.data)).forEach(field => {
+			localChangedAt[field] = now;
+		});
+
+		await s.save(
+			existing
+				? this.MutationEventBase.copyOf(existing, draft => {
+						draft.localChangedAt = JSON.stringify(localChangedAt);
+				  })
+				: this.modelInstanceCreator(this.MutationEventBase, {
+						model: mutationEvent.model,
+						modelId: mutationEvent.modelId,
+						data: JSON.stringify(base),
+						localChangedAt: JSON.stringify(localChangedAt),
+				  }),
+			undefined,
+			this.ownSymbol
+		);
+	}
+
+	// the base is dropped with the last mutation of the record, until then it
+	// follows the versions returned by AppSync
+	private async settleBase(
+		storage: StorageClass,
+		mutationEvent: MutationEvent,
+		record?: PersistentModel
+	): Promise<void> {
+		if (!this.trackBases) {
+			return;
+		}
+
+		const base = await this.queryBase(storage, mutationEvent);
+
+		if (base === undefined) {
+			return;
+		}
+
+		const remaining = await storage.query(
+			this.MutationEvent,
+			ModelPredicateCreator.createFromExisting<MutationEvent>(
+				this.schema.namespaces[SYNC].models.MutationEvent,
+				c => c.modelId('eq', mutationEvent.modelId)
+			)
+		);
+
+		if (remaining.length === 0) {
+			await storage.delete(base);
+		} else if (record) {
+			await this.rebase(storage, mutationEvent, record);
+		}
+	}
+
+	private async find(
+		storage: StorageClass,
+		id: string
+	): Promise<[MutationEvent | FailedMutationEvent, OutboxMutationStatus]> {
+		const syncModels = this.schema.namespaces[SYNC].models;
+
+		const [pending] = await storage.query(
+			this.MutationEvent,
+			ModelPredicateCreator.createFromExisting<MutationEvent>(
+				syncModels.MutationEvent,
+				c => c.id('eq', id)
+			)
+		);
+
+		if (pending !== undefined) {
+			return [pending, OutboxMutationStatus.PENDING];
+		}
+
+		const [failed] = await storage.query(
+			this.FailedMutationEvent,
+			ModelPredicateCreator.createFromExisting<FailedMutationEvent>(
+				syncModels.FailedMutationEvent,
+				c => c.id('eq', id)
+			)
+		);
+
+		if (failed !== undefined) {
+			return [failed, OutboxMutationStatus.FAILED];
+		}
+
+		throw new Error(`Mutation ${id} not found in the outbox`);
+	}
+
+	private getMutationEventInit({
+		id,
+		model,
+		data,
+		modelId,
+		operation,
+		condition,
+	}: MutationEvent | FailedMutationEvent) {
+		return { id, model, data, modelId, operation, condition };
+	}
+
+	private toOutboxMutation(
+		mutationEvent: MutationEvent | FailedMutationEvent,
+		status: OutboxMutationStatus
+	): OutboxMutation {
+		return {
+			id: mutationEvent.id,
+			model: mutationEvent.model,
+			modelId: mutationEvent.modelId,
+			operation: mutationEvent.operation as OutboxMutation['operation'],
+			data: JSON.parse(mutationEvent.data),
+			condition: JSON.parse(mutationEvent.condition),
+			status,
+			attempts: mutationEvent.attempts || 0,
+			lastError: mutationEvent.error,
+		};
+	}
+
+	private async enqueueInStorage(
+		s: StorageClass,
+		mutationEvent: MutationEvent,
+		base?: PersistentModel
+	): Promise<void> {
+		const mutationEventModelDefinition =
+			this.schema.namespaces[SYNC].models['MutationEvent'];
+
+		const predicate = ModelPredicateCreator.createFromExisting<MutationEvent>(
+			mutationEventModelDefinition,
+			c =>
+				c
+					.modelId('eq', mutationEvent.modelId)
+					.id('ne', this.inProgressMutationEventId)
+		);
+
+		const [first] = await s.query(this.MutationEvent, predicate);
+
+		if (this.trackBases) {
+			await this.trackLocalChange(
+				s,
+				mutationEvent,
+				first === undefined ? base : undefined
+			);
+		}
+
+		if (first === undefined) {
+			await s.save(mutationEvent, undefined, this.ownSymbol);
+			return;
+		}
+
+		const { operation: incomingMutationType } = mutationEvent;
+
+		if (first.operation === TransformerMutationType.CREATE) {
+			if (incomingMutationType === TransformerMutationType.DELETE) {
+				await s.delete(this.MutationEvent, predicate);
+			} else {
+				// first gets updated with the incoming mutation's data, condition intentionally skipped
+
+				// we need to merge the fields for a create and update mutation to prevent
+				// data loss, since update mutations only include changed fields
+				const merged = this.mergeUserFields(first, mutationEvent);
+				await s.save(
+					this.MutationEvent.copyOf(first, draft => {
+						draft.data = merged.data;
+					}),
+					undefined,
+					this.ownSymbol
+				);
+			}
+		} else {
+			const { condition: incomingConditionJSON } = mutationEvent;
+			const incomingCondition = JSON.parse(incomingConditionJSON);
+			let merged: MutationEvent;
+
+			// If no condition
+			if (Object.keys(incomingCondition).length === 0) {
+				merged = this.mergeUserFields(first, mutationEvent);
+
+				// delete all for model
+				await s.delete(this.MutationEvent, predicate);
+			}
+
+			merged = merged || mutationEvent;
+
+			// Enqueue new one
+			await s.save(merged, undefined, this.ownSymbol);
+		}
+	}
+
 	// applies _version from the AppSync mutation response to other items
 	// in the mutation queue with the same id
 	// see https://github.com/aws-amplify/amplify-js/pull/7354 for more details
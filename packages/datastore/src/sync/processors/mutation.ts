@@ -1,12 +1,13 @@
 import API, { GraphQLResult, GRAPHQL_AUTH_MODE } from '@aws-amplify/api';
 import {
 	ConsoleLogger as Logger,
+	Hub,
 	jitteredBackoff,
 	NonRetryableError,
 	retry,
 } from '@aws-amplify/core';
 import Observable, { ZenObservable } from 'zen-observable-ts';
-import { MutationEvent } from '../';
+import { ControlMessage, MutationEvent } from '../';
 import { ModelInstanceCreator } from '../../datastore/datastore';
 import { ExclusiveStorage as Storage } from '../../storage/storage';
 import {
@@ -55,6 +56,9 @@ class MutationProcessor {
 		[TransformerMutationType, string, string][]
 	>();
 	private processing: boolean = false;
+	private held: boolean = false;
+	// the drain of the outbox, a paused drain ends once the mutation in flight is dequeued
+	private draining: Promise<void> = undefined;
 
 	constructor(
 		private readonly schema: InternalSchema,
@@ -120,11 +124,21 @@ class MutationProcessor {
 	}
 
 	public async resume(): Promise<void> {
-		if (this.processing || !this.isReady()) {
+		if (this.processing || this.held || !this.isReady()) {
 			return;
 		}
 
 		this.processing = true;
+
+		// a drain paused while a mutation was in flight goes on with the next ones
+		if (!this.draining) {
+			this.draining = this.drain();
+		}
+
+		await this.draining;
+	}
+
+	private async drain(): Promise<void> {
 		let head: MutationEvent;
 		const namespaceName = USER;
 
@@ -203,8 +217,12 @@ class MutationProcessor {
 
 			if (result === undefined) {
 				logger.debug('done retrying');
-				await this.storage.runExclusive(async storage => {
-					await this.outbox.dequeue(storage);
+				const mutation = await this.storage.runExclusive(storage =>
+					this.outbox.fail(storage, this.amplifyConfig.keepFailedMutations)
+				);
+				Hub.dispatch('datastore', {
+					event: ControlMessage.SYNC_ENGINE_OUTBOX_MUTATION_FAILED,
+					data: { mutation },
 				});
 				continue;
 			}
@@ -229,6 +247,7 @@ class MutationProcessor {
 
 		// pauses itself
 		this.pause();
+		this.draining = undefined;
 	}
 
 	private async jitteredRetry(
@@ -280,6 +299,10 @@ class MutationProcessor {
 						);
 						return [result, opName, modelDefinition];
 					} catch (err) {
+						await this.storage.runExclusive(storage =>
+							this.outbox.recordAttempt(storage, mutationEvent.id, err)
+						);
+
 						if (err.errors && err.errors.length > 0) {
 							const [error] = err.errors;
 							const { originalError: { code = null } = {} } = error;
@@ -308,6 +331,10 @@ class MutationProcessor {
 									retryWith = DISCARD;
 								} else {
 									try {
+										const base = await this.storage.runExclusive(storage =>
+											this.outbox.getConflictBase(storage, mutationEvent)
+										);
+
 										retryWith = await this.conflictHandler({
 											modelConstructor,
 											localModel: this.modelInstanceCreator(
@@ -320,6 +347,7 @@ class MutationProcessor {
 											),
 											operation: opType,
 											attempts: attempt,
+											...base,
 										});
 									} catch (err) {
 										logger.warn('conflict trycatch', err);
@@ -370,6 +398,9 @@ class MutationProcessor {
 									);
 
 								await this.storage.save(updatedMutation);
+								await this.storage.runExclusive(storage =>
+									this.outbox.rebase(storage, mutationEvent, error.data)
+								);
 
 								throw new NonRetryableError('RetryMutation');
 							} else {
@@ -538,6 +569,33 @@ class MutationProcessor {
 	public pause() {
 		this.processing = false;
 	}
+
+	public isProcessing(): boolean {
+		return this.processing;
+	}
+
+	/**
+	 * Pauses the processor until `release` is called, `resume` has no effect
+	 * in the meantime
+	 */
+	public hold() {
+		this.held = true;
+		this.pause();
+	}
+
+	public release() {
+		this.held = false;
+	}
+
+	/**
+	 * Resolves once the mutation in flight, if any, is dequeued. A held
+	 * processor still completes the request it has sent
+	 */
+	public async waitForInFlightMutation(): Promise<void> {
+		if (this.draining) {
+			await this.draining.catch(() => {});
+		}
+	}
 }
 
 const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
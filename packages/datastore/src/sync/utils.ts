@@ -9,7 +9,9 @@ import {
 	GraphQLField,
 	isEnumFieldType,
 	isGraphQLScalarType,
+	isPredicateGroup,
 	isPredicateObj,
+	isRelationalPredicateObj,
 	isSchemaModel,
 	isTargetNameAssociation,
 	isNonModelFieldType,
@@ -19,6 +21,7 @@ import {
 	PersistentModel,
 	PersistentModelConstructor,
 	PredicatesGroup,
+	RelationalPredicateObject,
 	RelationshipType,
 	SchemaModel,
 	SchemaNamespace,
@@ -27,7 +30,7 @@ import {
 	InternalSchema,
 	AuthModeStrategy,
 } from '../types';
-import { exhaustiveCheck } from '../util';
+import { exhaustiveCheck, isKeyOnlyPredicate } from '../util';
 import { MutationEvent } from './';
 
 const logger = new Logger('DataStore');
@@ -442,7 +445,7 @@ export function predicateToGraphQLCondition(
 			}
 
 			result[field] = { [operator]: operand };
-		} else {
+		} else if (isPredicateGroup(p)) {
 			result[p.type] = predicateToGraphQLCondition(p);
 		}
 	});
@@ -479,12 +482,57 @@ export function predicateToGraphQLFilter(
 			return;
 		}
 
+		if (isRelationalPredicateObj(predicate)) {
+			appendToFilter(relationalPredicateToGraphQLFilter(predicate));
+			return;
+		}
+
 		appendToFilter(predicateToGraphQLFilter(predicate));
 	});
 
 	return result;
 }
 
+// AppSync filters only support the fields of the model being queried, so the only
+// relational predicates that can be translated are the ones on the key of a
+// belongsTo/hasOne related record, which is also stored on the model itself
+function relationalPredicateToGraphQLFilter(
+	predicate: RelationalPredicateObject<any>
+): GraphQLFilter {
+	const { relationField, localKey, relatedKey, predicates } = predicate;
+
+	if (relatedKey !== 'id' || !isKeyOnlyPredicate(predicate)) {
+		throw new Error(
+			`Relational predicate on ${relationField} can't be translated to a GraphQL filter. Only the id of a belongsTo or hasOne related model can be used`
+		);
+	}
+
+	return predicateToGraphQLFilter(
+		renamePredicateField(predicates, relatedKey, localKey)
+	);
+}
+
+function renamePredicateField(
+	predicatesGroup: PredicatesGroup<any>,
+	from: string,
+	to: string
+): PredicatesGroup<any> {
+	const { type, predicates } = predicatesGroup;
+
+	return {
+		type,
+		predicates: predicates.map(p => {
+			if (isPredicateObj(p)) {
+				return p.field === from ? { ...p, field: to } : p;
+			}
+
+			return isRelationalPredicateObj(p)
+				? p
+				: renamePredicateField(p, from, to);
+		}),
+	};
+}
+
 export function getUserGroupsFromToken(
 	token: { [field: string]: any },
 	rule: AuthorizationRule
@@ -403,11 +403,27 @@ export type InternalSubscriptionMessage<T extends PersistentModel> = {
 	model: PersistentModelConstructor<T>;
 	condition: PredicatesGroup<T> | null;
 	savedElement?: T;
+	// the record a local update was made from
+	previousElement?: T;
 };
 
 export type DataStoreSnapshot<T extends PersistentModel> = {
 	items: T[];
 	isSynced: boolean;
+	/**
+	 * How `items` differs from the items of the previous snapshot
+	 */
+	changes: DataStoreSnapshotChanges<T>;
+};
+
+export type DataStoreSnapshotChanges<T extends PersistentModel> = {
+	added: { item: T; index: number }[];
+	removed: { item: T; previousIndex: number }[];
+	/**
+	 * Items whose position relative to the other items changed. Items that
+	 * only shifted because of additions or removals are not included.
+	 */
+	moved: { item: T; index: number; previousIndex: number }[];
 };
 //#endregion
 
@@ -486,8 +502,30 @@ export type PredicateGroups<T extends PersistentModel> = {
 	) => ModelPredicate<T>;
 };
 
+export type RelationalPredicateExpression<
+	M extends PersistentModel,
+	R extends PersistentModel
+> = (predicate: ProducerModelPredicate<R>) => ModelPredicate<M>;
+
+// the model on the other side of a belongsTo/hasOne (R) or hasMany (R[]) field K,
+// never for scalar fields and for fields of type any. The id is never a relation,
+// which keeps it a scalar field of a generic model, whose field types are unknown
+type RelatedModel<M extends PersistentModel, K extends keyof M> = K extends 'id'
+	? never
+	: 0 extends 1 & M[K]
+	? never
+	: NonNullable<M[K]> extends (infer R)[]
+	? R extends PersistentModel
+		? R
+		: never
+	: NonNullable<M[K]> extends PersistentModel
+	? NonNullable<M[K]>
+	: never;
+
 export type ModelPredicate<M extends PersistentModel> = {
-	[K in keyof M]-?: PredicateExpression<M, NonNullable<M[K]>>;
+	[K in keyof M]-?: [RelatedModel<M, K>] extends [never]
+		? PredicateExpression<M, NonNullable<M[K]>>
+		: RelationalPredicateExpression<M, RelatedModel<M, K>>;
 } & PredicateGroups<M>;
 
 export type ProducerModelPredicate<M extends PersistentModel> = (
@@ -496,7 +534,11 @@ export type ProducerModelPredicate<M extends PersistentModel> = (
 
 export type PredicatesGroup<T extends PersistentModel> = {
 	type: keyof PredicateGroups<T>;
-	predicates: (PredicateObject<T> | PredicatesGroup<T>)[];
+	predicates: (
+		| PredicateObject<T>
+		| PredicatesGroup<T>
+		| RelationalPredicateObject<T>
+	)[];
 };
 
 export function isPredicateObj<T extends PersistentModel>(
@@ -517,6 +559,31 @@ export type PredicateObject<T extends PersistentModel> = {
 	operand: any;
 };
 
+export function isRelationalPredicateObj<T extends PersistentModel>(
+	obj: any
+): obj is RelationalPredicateObject<T> {
+	return obj && (<RelationalPredicateObject<T>>obj).relationField !== undefined;
+}
+
+/**
+ * Matches the records that have at least one related record (of `relatedModelName`)
+ * for which `predicates` is true. A record and a related record are related when
+ * `record[localKey] === relatedRecord[relatedKey]`
+ */
+export type RelationalPredicateObject<T extends PersistentModel> = {
+	relationField: string;
+	relationType: RelationType['relationType'];
+	relatedModelName: string;
+	localKey: string;
+	relatedKey: string;
+	predicates: PredicatesGroup<any>;
+	/**
+	 * Set by the storage adapters once the related records have been queried,
+	 * holds the `relatedKey` value of every related record that matches `predicates`
+	 */
+	matchingKeys?: Set<any>;
+};
+
 export enum QueryOne {
 	FIRST,
 	LAST,
@@ -561,13 +628,56 @@ export type ProducerPaginationInput<T extends PersistentModel> = {
 
 export type ObserveQueryOptions<T extends PersistentModel> = Pick<
 	ProducerPaginationInput<T>,
-	'sort'
+	'sort' | 'limit'
 >;
 
+export type ProducerCursorPaginationInput<T extends PersistentModel> = {
+	/**
+	 * Without a sort, pages are read in id order starting from the cursor. With
+	 * a sort, only SQLite and IndexedDB (when the sort is a single field with an
+	 * index, e.g. `id` or a foreign key, and no record has a `null` value for
+	 * it) read a page starting from the cursor. Otherwise every page compares
+	 * all the records of the model, keeping only `limit` of them in memory, so
+	 * iterating a large model that way gets slower with each page.
+	 */
+	sort?: ProducerSortPredicate<T>;
+	limit: number;
+	/**
+	 * The `nextCursor` of a previous page, or `null` to fetch the first page
+	 */
+	cursor: string | null;
+};
+
+export type ModelPage<T extends PersistentModel> = {
+	items: T[];
+	/**
+	 * Opaque cursor for the page that follows this one, `null` when there are no more records
+	 */
+	nextCursor: string | null;
+};
+
+export type ModelIterationOptions<T extends PersistentModel> = {
+	/**
+	 * See `ProducerCursorPaginationInput.sort` for the cost of iterating with
+	 * a sort
+	 */
+	sort?: ProducerSortPredicate<T>;
+	batchSize?: number;
+};
+
 export type PaginationInput<T extends PersistentModel> = {
 	sort?: SortPredicate<T>;
 	limit?: number;
 	page?: number;
+	cursor?: PaginationCursor<T>;
+};
+
+/**
+ * When present, records are ordered by the sort fields and then by id,
+ * and only the records that come after `after` in that order are returned
+ */
+export type PaginationCursor<T extends PersistentModel> = {
+	after?: Readonly<Partial<T>>;
 };
 
 export type ProducerSortPredicate<M extends PersistentModel> = (
@@ -600,6 +710,217 @@ export type SortPredicateObject<T extends PersistentModel> = {
 
 //#endregion
 
+//#region Aggregation
+
+export type AggregateInput<T extends PersistentModel> = {
+	count?: boolean;
+	sum?: keyof T;
+	min?: keyof T;
+	max?: keyof T;
+	avg?: keyof T;
+	groupBy?: keyof T;
+};
+
+export type AggregateResult = {
+	count?: number;
+	sum?: number;
+	min?: string | number | null;
+	max?: string | number | null;
+	avg?: number | null;
+};
+
+export type AggregateGroupResult<T extends PersistentModel> =
+	AggregateResult & {
+		key: T[keyof T] | null;
+	};
+
+//#endregion
+
+//#region Search
+
+/**
+ * The fields of each model that are kept in the local full-text index of
+ * `DataStore.search`, by model name. Models that aren't listed aren't indexed.
+ */
+export type LocalSearchFields = Record<string, string[]>;
+
+export type SearchOptions<T extends PersistentModel> = {
+	/**
+	 * Searchable fields to match the text against, all of them when omitted
+	 */
+	fields?: (keyof T)[];
+	limit?: number;
+};
+
+export type SearchInput = {
+	fields: string[];
+	limit?: number;
+};
+
+/**
+ * Raw access to the key-value store that holds the search index of a model
+ */
+export type SearchIndexStore = {
+	get(id: string): Promise<any>;
+	put(item: { id: string } & Record<string, any>): Promise<void>;
+	delete(id: string): Promise<void>;
+	clear(): Promise<void>;
+};
+
+//#endregion
+
+//#region Transactions
+
+/**
+ * Operations available inside `DataStore.transaction`. They see the writes
+ * made earlier in the same transaction.
+ */
+export type DataStoreTransaction = {
+	save<T extends PersistentModel>(
+		model: T,
+		condition?: ProducerModelPredicate<T>
+	): Promise<T>;
+	delete<T extends PersistentModel>(
+		model: T,
+		condition?: ProducerModelPredicate<T>
+	): Promise<T>;
+	delete<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		id: string
+	): Promise<T[]>;
+	delete<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		condition: ProducerModelPredicate<T> | typeof PredicateAll
+	): Promise<T[]>;
+	query<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		id: string
+	): Promise<T | undefined>;
+	query<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		criteria: ProducerModelPredicate<T> | typeof PredicateAll | undefined,
+		paginationProducer: ProducerCursorPaginationInput<T>
+	): Promise<ModelPage<T>>;
+	query<T extends PersistentModel>(
+		modelConstructor: PersistentModelConstructor<T>,
+		criteria?: ProducerModelPredicate<T> | typeof PredicateAll,
+		paginationProducer?: ProducerPaginationInput<T>
+	): Promise<T[]>;
+};
+
+//#endregion
+
+//#region Outbox
+
+export enum OutboxMutationStatus {
+	PENDING = 'pending',
+	FAILED = 'failed',
+}
+
+/**
+ * A local change waiting to be sent to AppSync, or one that was given up on
+ * after its last attempt failed
+ */
+export type OutboxMutation = {
+	id: string;
+	model: string;
+	modelId: string;
+	operation: 'Create' | 'Update' | 'Delete';
+	data: Record<string, any>;
+	condition: Record<string, any>;
+	status: OutboxMutationStatus;
+	/**
+	 * Failed attempts to send the mutation
+	 */
+	attempts: number;
+	lastError?: string;
+};
+
+/**
+ * Inspection and manual recovery of the mutations that sync local changes
+ */
+export type DataStoreOutbox = {
+	/**
+	 * Pending mutations in the order they are sent, followed by the failed ones.
+	 * Failed mutations are only kept with the `keepFailedMutations` option,
+	 * otherwise they are dropped after their last attempt.
+	 */
+	list(): Promise<OutboxMutation[]>;
+	/**
+	 * Replaces fields of the record sent by the mutation
+	 */
+	edit(id: string, data: Record<string, any>): Promise<OutboxMutation>;
+	discard(id: string): Promise<OutboxMutation>;
+	pause(): Promise<void>;
+	resume(): Promise<void>;
+	/**
+	 * Moves a failed mutation back into the outbox to be sent again
+	 */
+	replay(id: string): Promise<OutboxMutation>;
+};
+
+//#endregion
+
+//#region Migrations
+
+export type MigrationRecord = {
+	modelName: string;
+	record: Record<string, any>;
+	/**
+	 * Set when `record` is the data of an outbox mutation. The data of an
+	 * `Update` only holds the fields that the mutation changes, so a migration
+	 * must not fill in the other ones.
+	 */
+	operation?: 'Create' | 'Update' | 'Delete';
+	/**
+	 * The GraphQL condition of an outbox mutation, over the fields of `record`.
+	 * A migration that renames or moves fields rewrites it as well.
+	 */
+	condition?: Record<string, any>;
+};
+
+/**
+ * A step that rewrites the records stored locally with schema `fromVersion`
+ * into records for schema `toVersion`
+ */
+export type SchemaMigration = {
+	fromVersion: string;
+	toVersion: string;
+	/**
+	 * Returns the record(s) that replace `record`. Return several records to
+	 * split a model, or none to drop the record. The first record returned
+	 * for an outbox mutation keeps its `condition` unless it sets a rewritten
+	 * one.
+	 */
+	migrate: (record: MigrationRecord) => MigrationRecord | MigrationRecord[];
+};
+
+/**
+ * Raw access to the local store that a migration reads and rewrites
+ */
+export type MigrationStore = {
+	/**
+	 * The models of a namespace that have a store, including the models that
+	 * are no longer part of the schema
+	 */
+	getModelNames(namespaceName: string): Promise<string[]>;
+	getAll(namespaceName: string, modelName: string): Promise<any[]>;
+	/**
+	 * Replaces the records of all the stores at once, a failure leaves every
+	 * store as it was. Models that are no longer part of the schema are
+	 * replaced with no records, their store may be removed.
+	 */
+	replaceAll(replacements: MigrationStoreReplacement[]): Promise<void>;
+};
+
+export type MigrationStoreReplacement = {
+	namespaceName: string;
+	modelName: string;
+	records: any[];
+};
+
+//#endregion
+
 //#region System Components
 
 export type SystemComponent = {
@@ -611,7 +932,9 @@ export type SystemComponent = {
 			namsespaceName: string,
 			modelName: string
 		) => PersistentModelConstructor<any>,
-		appId: string
+		appId: string,
+		migrations?: SchemaMigration[],
+		localSearchFields?: LocalSearchFields
 	): Promise<void>;
 };
 
@@ -658,6 +981,7 @@ export type DataStoreConfig = {
 	DataStore?: {
 		authModeStrategyType?: AuthModeStrategyType;
 		conflictHandler?: ConflictHandler; // default : retry until client wins up to x times
+		conflictStrategyType?: ConflictStrategyType; // ignored when conflictHandler is set
 		errorHandler?: (error: SyncError<PersistentModel>) => void; // default : logger.warn
 		maxRecordsToSync?: number; // merge
 		syncPageSize?: number;
@@ -665,9 +989,13 @@ export type DataStoreConfig = {
 		syncExpressions?: SyncExpression[];
 		authProviders?: AuthProviders;
 		storageAdapter?: Adapter;
+		migrations?: SchemaMigration[];
+		keepFailedMutations?: boolean; // default : false, failed mutations are dropped
+		localSearchFields?: LocalSearchFields; // default : no model is indexed for search
 	};
 	authModeStrategyType?: AuthModeStrategyType;
 	conflictHandler?: ConflictHandler; // default : retry until client wins up to x times
+	conflictStrategyType?: ConflictStrategyType; // ignored when conflictHandler is set
 	errorHandler?: (error: SyncError<PersistentModel>) => void; // default : logger.warn
 	maxRecordsToSync?: number; // merge
 	syncPageSize?: number;
@@ -675,6 +1003,9 @@ export type DataStoreConfig = {
 	syncExpressions?: SyncExpression[];
 	authProviders?: AuthProviders;
 	storageAdapter?: Adapter;
+	migrations?: SchemaMigration[];
+	keepFailedMutations?: boolean; // default : false, failed mutations are dropped
+	localSearchFields?: LocalSearchFields; // default : no model is indexed for search
 };
 
 export type AuthProviders = {
@@ -686,6 +1017,16 @@ export enum AuthModeStrategyType {
 	MULTI_AUTH = 'MULTI_AUTH',
 }
 
+export enum ConflictStrategyType {
+	// local changes win over concurrent remote changes to the same field
+	FIELD_MERGE = 'FIELD_MERGE',
+	// the latest change to a field wins, local changes are timed by the device
+	// clock and remote ones by AppSync, so a skewed device clock favors a side
+	LAST_WRITER_WINS = 'LAST_WRITER_WINS',
+	// array fields keep the items added on either side
+	SET_UNION = 'SET_UNION',
+}
+
 export type AuthModeStrategyReturn =
 	| GRAPHQL_AUTH_MODE
 	| GRAPHQL_AUTH_MODE[]
@@ -773,6 +1114,18 @@ export type SyncConflict = {
 	remoteModel: PersistentModel;
 	operation: OpType;
 	attempts: number;
+	/**
+	 * The record as last received from AppSync, before the local changes were
+	 * made. Only valid when its `_version` matches the one of `localModel`.
+	 * Only kept for the strategies of `conflictStrategyType`.
+	 */
+	baseModel?: PersistentModel;
+	/**
+	 * When each field was last changed locally, in milliseconds since epoch
+	 * by the clock of the device. Only kept for the strategies of
+	 * `conflictStrategyType`.
+	 */
+	localChangedAt?: Record<string, number>;
 };
 
 export type SyncError<T extends PersistentModel> = {
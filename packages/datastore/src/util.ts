@@ -7,12 +7,14 @@ import {
 	AllOperators,
 	isPredicateGroup,
 	isPredicateObj,
+	isRelationalPredicateObj,
 	ModelInstanceMetadata,
 	PersistentModel,
 	PersistentModelConstructor,
 	PredicateGroups,
 	PredicateObject,
 	PredicatesGroup,
+	RelationalPredicateObject,
 	RelationshipType,
 	RelationType,
 	ModelKeys,
@@ -26,6 +28,18 @@ import {
 	NonModelTypeConstructor,
 	DeferredCallbackResolverOptions,
 	LimitTimerRaceResolvedValues,
+	AggregateInput,
+	AggregateGroupResult,
+	DataStoreSnapshotChanges,
+	PaginationCursor,
+	InternalSchema,
+	MigrationRecord,
+	MigrationStore,
+	SchemaMigration,
+	SchemaModel,
+	SearchIndexStore,
+	SearchInput,
+	LocalSearchFields,
 } from './types';
 import { WordArray } from 'amazon-cognito-identity-js';
 
@@ -42,7 +56,7 @@ export const isNullOrUndefined = (val: any): boolean => {
 export const validatePredicate = <T extends PersistentModel>(
 	model: T,
 	groupType: keyof PredicateGroups<T>,
-	predicatesOrGroups: (PredicateObject<T> | PredicatesGroup<T>)[]
+	predicatesOrGroups: PredicatesGroup<T>['predicates']
 ) => {
 	let filterType: keyof Pick<any[], 'every' | 'some'>;
 	let isNegation = false;
@@ -79,12 +93,286 @@ export const validatePredicate = <T extends PersistentModel>(
 			return validatePredicate(model, type, predicates);
 		}
 
+		if (isRelationalPredicateObj(predicateOrGroup)) {
+			return validateRelationalPredicate(model, predicateOrGroup);
+		}
+
 		throw new Error('Not a predicate or group');
 	});
 
 	return isNegation ? !result : result;
 };
 
+const validateRelationalPredicate = <T extends PersistentModel>(
+	model: T,
+	predicate: RelationalPredicateObject<T>
+): boolean => {
+	const {
+		relationField,
+		localKey,
+		relatedKey,
+		predicates: { type, predicates },
+		matchingKeys,
+	} = predicate;
+	const key = model[localKey];
+
+	if (matchingKeys) {
+		return !isNullOrUndefined(key) && matchingKeys.has(key);
+	}
+
+	// a predicate that only looks at the key of the related record can be
+	// evaluated from the key stored on this record
+	if (relatedKey === 'id' && isKeyOnlyPredicate(predicate)) {
+		return validatePredicate({ id: key }, type, predicates);
+	}
+
+	throw new Error(
+		`Relational predicate on ${relationField} can't be evaluated without querying the related records`
+	);
+};
+
+/**
+ * Returns true when the nested predicates of a relational predicate only
+ * compare the key of the related records (e.g. `c => c.post(p => p.id('eq', postId))`)
+ *
+ * @param predicate relational predicate
+ */
+export const isKeyOnlyPredicate = <T extends PersistentModel>({
+	relatedKey,
+	predicates,
+}: RelationalPredicateObject<T>): boolean =>
+	onlyComparesField(predicates, relatedKey);
+
+const onlyComparesField = (
+	predicatesGroup: PredicatesGroup<any>,
+	field: string
+): boolean =>
+	predicatesGroup.predicates.every(p =>
+		isPredicateObj(p)
+			? p.field === field
+			: isPredicateGroup(p) && onlyComparesField(p, field)
+	);
+
+/**
+ * Returns the fields that link a model to the model on the other side of one of its
+ * associations, using the relationship metadata from `establishRelationAndKeys`.
+ *
+ * @param relationships relationships of the namespace of the model
+ * @param relation the association
+ * @returns [localKey, relatedKey] so that `record[localKey] === relatedRecord[relatedKey]`
+ */
+export const getRelationKeys = (
+	relationships: RelationshipType,
+	relation: RelationType
+): [string, string] => {
+	const { relationType, modelName, targetName, associatedWith } = relation;
+
+	// the key of the related record is stored on this model
+	if (
+		relationType === 'BELONGS_TO' ||
+		(relationType === 'HAS_ONE' && targetName)
+	) {
+		return [targetName, 'id'];
+	}
+
+	// associatedWith can name the belongsTo field of the related model
+	// instead of the field that holds the key
+	const { relationTypes = [] } = relationships[modelName] || {};
+	const relatedRelation = relationTypes.find(
+		({ fieldName }) => fieldName === associatedWith
+	);
+
+	return [
+		'id',
+		(relatedRelation && relatedRelation.targetName) || associatedWith,
+	];
+};
+
+/**
+ * Queries the related records of every relational predicate in a predicates group
+ * and sets their `matchingKeys`, so that the group can be evaluated one record at a time
+ * by `validatePredicate`. Nested relational predicates are resolved first.
+ *
+ * @param predicatesGroup predicates of the query
+ * @param queryRelated returns the records of a model that match the (resolved) predicates
+ * @returns A copy of the group, with every relational predicate resolved
+ */
+export async function resolveRelationalPredicates<T extends PersistentModel>(
+	predicatesGroup: PredicatesGroup<T>,
+	queryRelated: (
+		modelName: string,
+		predicates: PredicatesGroup<any>
+	) => Promise<PersistentModel[]>
+): Promise<PredicatesGroup<T>> {
+	const { type, predicates } = predicatesGroup;
+	const resolved: PredicatesGroup<T>['predicates'] = [];
+
+	for (const predicate of predicates) {
+		if (isPredicateGroup(predicate)) {
+			resolved.push(await resolveRelationalPredicates(predicate, queryRelated));
+		} else if (isRelationalPredicateObj(predicate)) {
+			const nested = await resolveRelationalPredicates(
+				predicate.predicates,
+				queryRelated
+			);
+			const related = await queryRelated(predicate.relatedModelName, nested);
+			const matchingKeys = new Set(
+				related
+					.map(record => record[predicate.relatedKey])
+					.filter(key => !isNullOrUndefined(key))
+			);
+
+			resolved.push({ ...predicate, predicates: nested, matchingKeys });
+		} else {
+			resolved.push(predicate);
+		}
+	}
+
+	return { type, predicates: resolved };
+}
+
+type AggregateGroupState = {
+	count: number;
+	sum: number;
+	min: string | number | null;
+	max: string | number | null;
+	avgTotal: number;
+	avgCount: number;
+};
+
+/**
+ * Incrementally computes the values requested by an `AggregateInput` over the
+ * records passed to `add()`, one group per distinct `groupBy` value.
+ * Records that don't match `predicates` are skipped.
+ *
+ * Adapters feed it while walking their stores (cursors, batches), so that
+ * the full result set never has to be held in memory.
+ */
+export class ModelAggregator<T extends PersistentModel> {
+	private groups = new Map<any, AggregateGroupState>();
+
+	constructor(
+		private readonly aggregation: AggregateInput<T>,
+		private readonly predicates?: PredicatesGroup<T>
+	) {}
+
+	public add(record: T): void {
+		if (this.predicates) {
+			const { type, predicates } = this.predicates;
+
+			if (!validatePredicate(record, type, predicates)) {
+				return;
+			}
+		}
+
+		const { sum, min, max, avg, groupBy } = this.aggregation;
+		const key = groupBy === undefined ? null : record[groupBy];
+		const group = this.getGroup(isNullOrUndefined(key) ? null : key);
+
+		group.count++;
+
+		if (sum !== undefined && typeof record[sum] === 'number') {
+			group.sum += record[sum];
+		}
+
+		if (avg !== undefined && typeof record[avg] === 'number') {
+			group.avgTotal += record[avg];
+			group.avgCount++;
+		}
+
+		if (min !== undefined && !isNullOrUndefined(record[min])) {
+			if (group.min === null || record[min] < group.min) {
+				group.min = record[min];
+			}
+		}
+
+		if (max !== undefined && !isNullOrUndefined(record[max])) {
+			if (group.max === null || record[max] > group.max) {
+				group.max = record[max];
+			}
+		}
+	}
+
+	/**
+	 * Returns one result per group, ordered by group key (`null` first).
+	 * When no `groupBy` was requested, a single result with a `null` key is
+	 * always returned, even if no records matched.
+	 */
+	public getResults(): AggregateGroupResult<T>[] {
+		const { count, sum, min, max, avg, groupBy } = this.aggregation;
+
+		if (groupBy === undefined) {
+			this.getGroup(null);
+		}
+
+		const keys = Array.from(this.groups.keys()).sort((a, b) => {
+			if (a === b) return 0;
+			if (a === null) return -1;
+			if (b === null) return 1;
+
+			return a < b ? -1 : 1;
+		});
+
+		return keys.map(key => {
+			const group = this.groups.get(key);
+			const result: AggregateGroupResult<T> = { key };
+
+			if (count) {
+				result.count = group.count;
+			}
+
+			if (sum !== undefined) {
+				result.sum = group.sum;
+			}
+
+			if (min !== undefined) {
+				result.min = group.min;
+			}
+
+			if (max !== undefined) {
+				result.max = group.max;
+			}
+
+			if (avg !== undefined) {
+				result.avg = group.avgCount ? group.avgTotal / group.avgCount : null;
+			}
+
+			return result;
+		});
+	}
+
+	private getGroup(key: any): AggregateGroupState {
+		if (!this.groups.has(key)) {
+			this.groups.set(key, {
+				count: 0,
+				sum: 0,
+				min: null,
+				max: null,
+				avgTotal: 0,
+				avgCount: 0,
+			});
+		}
+
+		return this.groups.get(key);
+	}
+}
+
+/**
+ * Aggregates records that are already in memory. This is the fallback used for
+ * storage adapters that don't implement `aggregate()` natively.
+ */
+export function inMemoryAggregate<T extends PersistentModel>(
+	records: T[],
+	aggregation: AggregateInput<T>,
+	predicates?: PredicatesGroup<T>
+): AggregateGroupResult<T>[] {
+	const aggregator = new ModelAggregator(aggregation, predicates);
+
+	records.forEach(record => aggregator.add(record));
+
+	return aggregator.getResults();
+}
+
 export const validatePredicateField = <T>(
 	value: T,
 	operator: keyof AllOperators,
@@ -565,6 +853,277 @@ export function sortCompareFunction<T extends PersistentModel>(
 	};
 }
 
+// compare function for cursor (keyset) pagination. Unlike sortCompareFunction,
+// this gives a total order: null/undefined values sort first and id is
+// always used as the final tie-breaker
+export function cursorCompareFunction<T extends PersistentModel>(
+	sortPredicates: SortPredicatesGroup<T> = []
+) {
+	const predicates: SortPredicatesGroup<T> = [
+		...sortPredicates,
+		{ field: 'id', sortDirection: SortDirection.ASCENDING },
+	];
+
+	return function compareFunction(a: Partial<T>, b: Partial<T>): number {
+		for (const predicate of predicates) {
+			const { field, sortDirection } = predicate;
+
+			// reverse result when direction is descending
+			const sortMultiplier = sortDirection === SortDirection.ASCENDING ? 1 : -1;
+
+			const valueA = a[field];
+			const valueB = b[field];
+
+			const isNullA = valueA === null || valueA === undefined;
+			const isNullB = valueB === null || valueB === undefined;
+
+			if (isNullA && isNullB) {
+				continue;
+			}
+
+			if (isNullA || valueA < valueB) {
+				return -1 * sortMultiplier;
+			}
+
+			if (isNullB || valueA > valueB) {
+				return 1 * sortMultiplier;
+			}
+		}
+
+		return 0;
+	};
+}
+
+/**
+ * Keeps, in cursor order, the first `limit` records passed to `add()` that
+ * come after the cursor. Records that don't match `predicates` are skipped.
+ *
+ * Adapters feed it while walking their stores when the sort can't be read
+ * from an index, so that only one page of records is held in memory and
+ * sorted, whatever the size of the store.
+ */
+export class ModelCursorPage<T extends PersistentModel> {
+	private readonly compareFn: (a: Partial<T>, b: Partial<T>) => number;
+	private readonly records: T[] = [];
+
+	constructor(
+		sortPredicates: SortPredicatesGroup<T> = [],
+		private readonly cursor: PaginationCursor<T> = {},
+		private readonly limit: number = 0,
+		private readonly predicates?: PredicatesGroup<T>
+	) {
+		this.compareFn = cursorCompareFunction(sortPredicates);
+	}
+
+	public add(record: T): void {
+		if (this.predicates) {
+			const { type, predicates } = this.predicates;
+
+			if (!validatePredicate(record, type, predicates)) {
+				return;
+			}
+		}
+
+		const { after } = this.cursor;
+
+		if (after && this.compareFn(record, after) <= 0) {
+			return;
+		}
+
+		if (
+			this.isFull() &&
+			this.compareFn(record, this.records[this.records.length - 1]) >= 0
+		) {
+			return;
+		}
+
+		// binary search for the position of the record in the page
+		let low = 0;
+		let high = this.records.length;
+
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+
+			if (this.compareFn(this.records[middle], record) < 0) {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
+		}
+
+		this.records.splice(low, 0, record);
+
+		if (this.limit > 0 && this.records.length > this.limit) {
+			this.records.pop();
+		}
+	}
+
+	public isFull(): boolean {
+		return this.limit > 0 && this.records.length >= this.limit;
+	}
+
+	public getRecords(): T[] {
+		return this.records;
+	}
+}
+
+// sorts records in cursor order and returns up to `limit` records that come
+// after the cursor
+export function inMemoryCursorPagination<T extends PersistentModel>(
+	records: T[],
+	sortPredicates: SortPredicatesGroup<T> = [],
+	cursor: PaginationCursor<T> = {},
+	limit: number = 0
+): T[] {
+	const page = new ModelCursorPage(sortPredicates, cursor, limit);
+
+	records.forEach(record => page.add(record));
+
+	return page.getRecords();
+}
+
+// returns an opaque cursor pointing at the given record. The sort fields
+// are included so that the cursor can't be reused with a different sort
+export function encodeModelCursor<T extends PersistentModel>(
+	record: T,
+	sortPredicates: SortPredicatesGroup<T> = []
+): string {
+	const payload = {
+		sort: sortPredicates.map(({ field, sortDirection }) => [
+			field,
+			sortDirection,
+		]),
+		values: sortPredicates.map(({ field }) =>
+			record[field] === undefined ? null : record[field]
+		),
+		id: record.id,
+	};
+
+	return Buffer.from(JSON.stringify(payload)).toString('base64');
+}
+
+// returns undefined when the cursor is malformed or was created for a
+// different sort
+export function decodeModelCursor<T extends PersistentModel>(
+	cursor: string,
+	sortPredicates: SortPredicatesGroup<T> = []
+): PaginationCursor<T> | undefined {
+	let payload: { sort: [string, string][]; values: any[]; id: string };
+
+	try {
+		payload = JSON.parse(Buffer.from(cursor, 'base64').toString());
+	} catch (err) {
+		return undefined;
+	}
+
+	if (
+		!payload ||
+		typeof payload.id !== 'string' ||
+		!Array.isArray(payload.sort) ||
+		!Array.isArray(payload.values) ||
+		payload.sort.length !== sortPredicates.length ||
+		payload.values.length !== sortPredicates.length
+	) {
+		return undefined;
+	}
+
+	const sortMatches = sortPredicates.every(
+		({ field, sortDirection }, i) =>
+			Array.isArray(payload.sort[i]) &&
+			payload.sort[i][0] === field &&
+			payload.sort[i][1] === sortDirection
+	);
+
+	if (!sortMatches) {
+		return undefined;
+	}
+
+	const after = <Partial<T>>{ id: payload.id };
+
+	sortPredicates.forEach(({ field }, i) => {
+		after[field] = payload.values[i];
+	});
+
+	return { after };
+}
+
+/**
+ * Compares the items of two consecutive `observeQuery()` snapshots by id.
+ * Kept items are reported as moved when they are not part of the longest
+ * run of kept items that is in the same order in both snapshots.
+ */
+export function getSnapshotChanges<T extends PersistentModel>(
+	previousItems: T[],
+	items: T[]
+): DataStoreSnapshotChanges<T> {
+	const previousIndexes = new Map<string, number>();
+	previousItems.forEach(({ id }, index) => previousIndexes.set(id, index));
+
+	const ids = new Set(items.map(({ id }) => id));
+
+	const added: DataStoreSnapshotChanges<T>['added'] = [];
+	const kept: DataStoreSnapshotChanges<T>['moved'] = [];
+
+	items.forEach((item, index) => {
+		const previousIndex = previousIndexes.get(item.id);
+
+		if (previousIndex === undefined) {
+			added.push({ item, index });
+		} else {
+			kept.push({ item, index, previousIndex });
+		}
+	});
+
+	const removed = previousItems
+		.map((item, previousIndex) => ({ item, previousIndex }))
+		.filter(({ item }) => !ids.has(item.id));
+
+	const inOrder = longestIncreasingSubsequence(
+		kept.map(({ previousIndex }) => previousIndex)
+	);
+	const moved = kept.filter((_change, position) => !inOrder.has(position));
+
+	return { added, removed, moved };
+}
+
+// returns the positions of a longest strictly increasing subsequence of values
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+	// tails[n] is the position of the smallest value that ends an increasing
+	// subsequence of length n + 1
+	const tails: number[] = [];
+	const predecessors: number[] = [];
+
+	values.forEach((value, position) => {
+		let low = 0;
+		let high = tails.length;
+
+		while (low < high) {
+			const middle = Math.floor((low + high) / 2);
+
+			if (values[tails[middle]] < value) {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
+		}
+
+		predecessors[position] = low > 0 ? tails[low - 1] : -1;
+		tails[low] = position;
+	});
+
+	const positions = new Set<number>();
+
+	for (
+		let position = tails.length > 0 ? tails[tails.length - 1] : -1;
+		position !== -1;
+		position = predecessors[position]
+	) {
+		positions.add(position);
+	}
+
+	return positions;
+}
+
 // deep compare any 2 values
 // primitives or object types (including arrays, Sets, and Maps)
 // returns true if equal by value
@@ -810,3 +1369,479 @@ export function mergePatches<T>(
 	);
 	return patches;
 }
+
+export const SETTING_SCHEMA_VERSION = 'schemaVersion';
+
+/**
+ * Finds the shortest chain of migrations that leads from `fromVersion` to
+ * `toVersion`
+ *
+ * @return the migrations in the order they have to run, or undefined when
+ * `toVersion` can't be reached
+ */
+export function getMigrationPath(
+	migrations: SchemaMigration[],
+	fromVersion: string,
+	toVersion: string
+): SchemaMigration[] | undefined {
+	const visited = new Set<string>([fromVersion]);
+	const queue: [string, SchemaMigration[]][] = [[fromVersion, []]];
+
+	while (queue.length > 0) {
+		const [version, path] = queue.shift();
+
+		if (version === toVersion) {
+			return path;
+		}
+
+		migrations
+			.filter(migration => migration.fromVersion === version)
+			.filter(({ toVersion: next }) => !visited.has(next))
+			.forEach(migration => {
+				visited.add(migration.toVersion);
+				queue.push([migration.toVersion, [...path, migration]]);
+			});
+	}
+
+	return undefined;
+}
+
+export function migrateRecords(
+	path: SchemaMigration[],
+	records: MigrationRecord[]
+): MigrationRecord[] {
+	return path.reduce(
+		(current, { migrate }) =>
+			current.reduce<MigrationRecord[]>(
+				(acc, record) =>
+					acc.concat(
+						(<MigrationRecord[]>[])
+							.concat(migrate(record))
+							.map((migrated, index) =>
+								record.operation === undefined
+									? migrated
+									: {
+											operation: record.operation,
+											condition: index === 0 ? record.condition : undefined,
+											...migrated,
+									  }
+							)
+					),
+				[]
+			),
+		records
+	);
+}
+
+/**
+ * Runs the `data` and `condition` of outbox mutation events through the
+ * migrations, so they are sent with the new shape of their records. An event
+ * whose record is split gets one event per resulting record: the added
+ * records are created, or updated when an earlier event creates them, and
+ * they are only deleted when an earlier event creates them.
+ */
+export function migrateMutationEvents<
+	T extends {
+		id: string;
+		model: string;
+		modelId: string;
+		operation: string;
+		data: string;
+		condition: string;
+	}
+>(path: SchemaMigration[], mutationEvents: T[]): T[] {
+	const created = new Set<string>();
+
+	// the outbox is processed in id order
+	return [...mutationEvents]
+		.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+		.reduce<T[]>((acc, mutationEvent) => {
+			const migrated = migrateRecords(path, [
+				{
+					modelName: mutationEvent.model,
+					record: JSON.parse(mutationEvent.data),
+					operation: <MigrationRecord['operation']>mutationEvent.operation,
+					condition: JSON.parse(mutationEvent.condition),
+				},
+			]);
+
+			const migratedEvents = migrated.reduce<T[]>(
+				(events, { modelName, record, condition }, index) => {
+					const key = `${modelName}-${record.id}`;
+					let { operation } = mutationEvent;
+
+					// the records that a split adds are new to the backend, unless an
+					// earlier event creates them
+					if (index > 0) {
+						if (operation === 'Delete' && !created.has(key)) {
+							return events;
+						}
+
+						if (operation !== 'Delete') {
+							operation = created.has(key) ? 'Update' : 'Create';
+						}
+					}
+
+					if (operation === 'Create') {
+						created.add(key);
+					}
+
+					return events.concat({
+						...mutationEvent,
+						// the suffix keeps the extra events right after the original one
+						id: index === 0 ? mutationEvent.id : `${mutationEvent.id}-${index}`,
+						model: modelName,
+						modelId: record.id,
+						operation,
+						data: JSON.stringify(record),
+						condition: JSON.stringify(condition || {}),
+					});
+				},
+				[]
+			);
+
+			return acc.concat(migratedEvents);
+		}, []);
+}
+
+/**
+ * Migrates the user model records and the pending outbox mutations of a
+ * local store from the schema version it was last used with to the version
+ * of `schema`. Nothing happens when there is no stored version, when it
+ * already matches, or when no chain of migrations leads to the new version
+ * (DataStore then clears the local store).
+ *
+ * @return whether the store was migrated
+ */
+export async function migrateLocalStore(
+	schema: InternalSchema,
+	migrations: SchemaMigration[] | undefined,
+	store: MigrationStore
+): Promise<boolean> {
+	if (!migrations || migrations.length === 0) {
+		return false;
+	}
+
+	const settings = await store.getAll(DATASTORE, 'Setting');
+	const versionSetting = settings.find(
+		({ key }) => key === SETTING_SCHEMA_VERSION
+	);
+
+	if (versionSetting === undefined) {
+		return false;
+	}
+
+	const storedVersion = JSON.parse(versionSetting.value);
+	const path = getMigrationPath(migrations, storedVersion, schema.version);
+
+	if (storedVersion === schema.version || path === undefined) {
+		return false;
+	}
+
+	const { models } = schema.namespaces[USER];
+
+	// models that were renamed or removed since the stored version are only
+	// known from their stores
+	const modelNames = Array.from(
+		new Set([...(await store.getModelNames(USER)), ...Object.keys(models)])
+	);
+
+	let records: MigrationRecord[] = [];
+
+	for (const modelName of modelNames) {
+		const modelRecords = await store.getAll(USER, modelName);
+
+		records = records.concat(
+			modelRecords.map(record => ({ modelName, record }))
+		);
+	}
+
+	const migrated = migrateRecords(path, records);
+
+	migrated.forEach(({ modelName }) => {
+		if (models[modelName] === undefined) {
+			throw new Error(
+				`Migration to version ${schema.version} produced a record for unknown model ${modelName}`
+			);
+		}
+	});
+
+	// the new records are all computed before anything is written, so a
+	// failing migrate() leaves the store untouched
+	const mutationEvents = migrateMutationEvents(
+		path,
+		await store.getAll(SYNC, 'MutationEvent')
+	);
+
+	await store.replaceAll([
+		...modelNames.map(modelName => ({
+			namespaceName: USER,
+			modelName,
+			records: migrated
+				.filter(record => record.modelName === modelName)
+				.map(({ record }) => record),
+		})),
+		{
+			namespaceName: SYNC,
+			modelName: 'MutationEvent',
+			records: mutationEvents,
+		},
+		{
+			namespaceName: DATASTORE,
+			modelName: 'Setting',
+			records: settings.map(setting =>
+				setting === versionSetting
+					? { ...setting, value: JSON.stringify(schema.version) }
+					: setting
+			),
+		},
+	]);
+
+	return true;
+}
+
+// letters and digits make up search terms, everything else separates them
+// (including the general punctuation and CJK symbols blocks)
+const SEARCH_TERM_SEPARATOR =
+	/[^0-9a-z\u00c0-\u1fff\u2070-\u2fff\u3040-\uffff]+/;
+
+const SEARCH_INDEX_META_ID = 'meta';
+
+/**
+ * Returns the fields of a model that are indexed for search, the fields that
+ * the `localSearchFields` of the DataStore config list for it. The
+ * `searchable` attribute of a model is about the search of its API, it
+ * doesn't index the model locally.
+ */
+export function getSearchableFields(
+	modelDefinition: SchemaModel,
+	localSearchFields: LocalSearchFields = {}
+): string[] {
+	return Object.prototype.hasOwnProperty.call(
+		localSearchFields,
+		modelDefinition.name
+	)
+		? localSearchFields[modelDefinition.name]
+		: [];
+}
+
+/**
+ * Splits text into lowercase search terms
+ */
+export function tokenize(text: string): string[] {
+	return String(text)
+		.toLowerCase()
+		.split(SEARCH_TERM_SEPARATOR)
+		.filter(term => term.length > 0);
+}
+
+/**
+ * Counts how many times each term appears in each of the given fields of a
+ * record
+ *
+ * @return term => field => count
+ */
+export function getSearchTermFrequencies(
+	record: PersistentModel,
+	fields: string[]
+): Record<string, Record<string, number>> {
+	const frequencies: Record<string, Record<string, number>> = {};
+
+	fields.forEach(field => {
+		const value = record[field];
+
+		if (isNullOrUndefined(value)) {
+			return;
+		}
+
+		const values: unknown[] = Array.isArray(value) ? value : [value];
+
+		values
+			.filter(value => !isNullOrUndefined(value))
+			.forEach(value =>
+				tokenize(String(value)).forEach(term => {
+					const counts = (frequencies[term] = frequencies[term] || {});
+					counts[field] = (counts[field] || 0) + 1;
+				})
+			);
+	});
+
+	return frequencies;
+}
+
+/**
+ * Scores records with tf-idf over the terms of a query and returns their ids,
+ * most relevant first. Ties are broken by id.
+ *
+ * @param postings for each term, record id => field => count
+ * @param recordCount total number of records of the model
+ */
+export function rankSearchResults(
+	terms: string[],
+	postings: Record<string, Record<string, number>>[],
+	fields: string[],
+	recordCount: number,
+	limit?: number
+): string[] {
+	const scores = new Map<string, number>();
+
+	terms.forEach((_term, index) => {
+		const matches = Object.keys(postings[index] || {})
+			.map(id => {
+				const counts = postings[index][id];
+				const count = fields.reduce(
+					(total, field) => total + (counts[field] || 0),
+					0
+				);
+
+				return <[string, number]>[id, count];
+			})
+			.filter(([_id, count]) => count > 0);
+
+		if (matches.length === 0) {
+			return;
+		}
+
+		// rare terms weigh more than common ones
+		const idf = Math.log(
+			1 + Math.max(recordCount, matches.length) / matches.length
+		);
+
+		matches.forEach(([id, count]) => {
+			scores.set(id, (scores.get(id) || 0) + (1 + Math.log(count)) * idf);
+		});
+	});
+
+	const ids = Array.from(scores.entries())
+		.sort(([idA, scoreA], [idB, scoreB]) => {
+			if (scoreA !== scoreB) {
+				return scoreB - scoreA;
+			}
+
+			return idA < idB ? -1 : idA > idB ? 1 : 0;
+		})
+		.map(([id]) => id);
+
+	return limit === undefined ? ids : ids.slice(0, limit);
+}
+
+/**
+ * Searches records that are already in memory. This is the fallback used for
+ * storage adapters that don't implement `search()` natively.
+ */
+export function inMemorySearch<T extends PersistentModel>(
+	records: T[],
+	text: string,
+	{ fields, limit }: SearchInput
+): T[] {
+	const terms = Array.from(new Set(tokenize(text)));
+	const postings = terms.map(() => <Record<string, Record<string, number>>>{});
+	const recordsById = new Map(
+		records.map(record => <[string, T]>[record.id, record])
+	);
+
+	records.forEach(record => {
+		const frequencies = getSearchTermFrequencies(record, fields);
+
+		terms.forEach((term, index) => {
+			if (frequencies[term] !== undefined) {
+				postings[index][record.id] = frequencies[term];
+			}
+		});
+	});
+
+	return rankSearchResults(terms, postings, fields, records.length, limit).map(
+		id => recordsById.get(id)
+	);
+}
+
+/**
+ * Updates the inverted index of a model after a record was saved or deleted.
+ * The index keeps one item per term with the counts of the term in every
+ * record, and one item per record with its terms, so that the postings of
+ * the terms a record no longer has can be removed.
+ */
+export async function updateSearchIndex(
+	store: SearchIndexStore,
+	fields: string[],
+	record: PersistentModel,
+	deleted: boolean
+): Promise<void> {
+	const recordItemId = `record:${record.id}`;
+	const previous = await store.get(recordItemId);
+	const frequencies = deleted ? {} : getSearchTermFrequencies(record, fields);
+	const terms = Object.keys(frequencies);
+	const previousTerms: string[] = previous ? previous.terms : [];
+
+	for (const term of Array.from(new Set([...previousTerms, ...terms]))) {
+		const termItemId = `term:${term}`;
+		const { postings = {} } = (await store.get(termItemId)) || {};
+
+		if (frequencies[term] !== undefined) {
+			postings[record.id] = frequencies[term];
+		} else {
+			delete postings[record.id];
+		}
+
+		if (Object.keys(postings).length > 0) {
+			await store.put({ id: termItemId, postings });
+		} else {
+			await store.delete(termItemId);
+		}
+	}
+
+	if (terms.length > 0) {
+		await store.put({ id: recordItemId, terms });
+	} else if (previous) {
+		await store.delete(recordItemId);
+	}
+}
+
+/**
+ * Builds the inverted index of a model from all of its records, unless it
+ * was already built for the current schema version and searchable fields.
+ * Records stored before the index existed are indexed this way.
+ */
+export async function ensureSearchIndex(
+	store: SearchIndexStore,
+	fields: string[],
+	version: string,
+	getAll: () => Promise<PersistentModel[]>
+): Promise<void> {
+	const meta = await store.get(SEARCH_INDEX_META_ID);
+
+	if (meta && meta.version === version && valuesEqual(meta.fields, fields)) {
+		return;
+	}
+
+	await store.clear();
+
+	for (const record of await getAll()) {
+		await updateSearchIndex(store, fields, record, false);
+	}
+
+	await store.put({ id: SEARCH_INDEX_META_ID, version, fields });
+}
+
+/**
+ * Looks up the terms of `text` in the inverted index of a model
+ *
+ * @return the ids of the matching records, most relevant first
+ */
+export async function querySearchIndex(
+	store: SearchIndexStore,
+	text: string,
+	recordCount: number,
+	{ fields, limit }: SearchInput
+): Promise<string[]> {
+	const terms = Array.from(new Set(tokenize(text)));
+	const postings = await Promise.all(
+		terms.map(async term => {
+			const item = await store.get(`term:${term}`);
+
+			return item ? item.postings : {};
+		})
+	);
+
+	return rankSearchResults(terms, postings, fields, recordCount, limit);
+}
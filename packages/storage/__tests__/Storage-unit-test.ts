@@ -790,6 +790,50 @@ describe('Storage', () => {
 		});
 	});
 
+	describe('removeMany test', () => {
+		let storage: StorageClass;
+		let provider: StorageProvider;
+
+		beforeEach(() => {
+			storage = new StorageClass();
+			provider = new AWSStorageProvider();
+			storage.addPluggable(provider);
+			storage.configure(options);
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		test('remove objects with default provider', async () => {
+			const removeManySpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'removeMany')
+				.mockImplementation(() => Promise.resolve({ deleted: [], errors: [] }));
+			await storage.removeMany(['a', 'b'], { level: 'private' });
+			expect(removeManySpy).toBeCalledWith(['a', 'b'], { level: 'private' });
+		});
+
+		test('remove a prefix with default provider', async () => {
+			const removePrefixSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'removePrefix')
+				.mockImplementation(() => Promise.resolve({ deleted: [], errors: [] }));
+			await storage.removePrefix('album/', { level: 'private' });
+			expect(removePrefixSpy).toBeCalledWith('album/', { level: 'private' });
+		});
+
+		test('remove objects with customProvider without removeMany', async () => {
+			const customProvider = new TestCustomProvider();
+			storage.addPluggable(customProvider);
+			try {
+				await storage.removeMany(['a'], { provider: 'customProvider' });
+			} catch (err) {
+				expect(err).toEqual(
+					'.removeMany is not implemented on provider customProvider'
+				);
+			}
+		});
+	});
+
 	describe('list test', () => {
 		let storage: StorageClass;
 		let provider: StorageProvider;
@@ -866,6 +910,57 @@ describe('Storage', () => {
 		});
 	});
 
+	describe('listAll test', () => {
+		let storage: StorageClass;
+		let provider: StorageProvider;
+		let listAllSpy: jest.SpyInstance;
+
+		beforeEach(() => {
+			storage = new StorageClass();
+			provider = new AWSStorageProvider();
+			storage.addPluggable(provider);
+			storage.configure(options);
+			listAllSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'listAll')
+				.mockImplementation(() =>
+					Promise.resolve({ results: [], prefixes: [] })
+				);
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		test('list all objects with default provider', async () => {
+			await storage.listAll('path', { delimiter: '/', pageSize: 100 });
+			expect(listAllSpy).toBeCalledWith('path', {
+				delimiter: '/',
+				pageSize: 100,
+			});
+		});
+
+		test('list all without provider', async () => {
+			const storage = new StorageClass();
+			try {
+				await storage.listAll('');
+			} catch (err) {
+				expect(err).toEqual('No plugin found in Storage for the provider');
+			}
+		});
+
+		test('list all with customProvider without listAll', async () => {
+			const customProvider = new TestCustomProvider();
+			storage.addPluggable(customProvider);
+			try {
+				await storage.listAll('path', { provider: 'customProvider' });
+			} catch (err) {
+				expect(err).toEqual(
+					'.listAll is not implemented on provider customProvider'
+				);
+			}
+		});
+	});
+
 	describe('copy test', () => {
 		let storage: StorageClass;
 		let provider: StorageProvider;
@@ -956,6 +1051,215 @@ describe('Storage', () => {
 		});
 	});
 
+	describe('move test', () => {
+		let storage: StorageClass;
+		let provider: StorageProvider;
+		let moveSpy: jest.SpyInstance;
+
+		beforeEach(() => {
+			storage = new StorageClass();
+			provider = new AWSStorageProvider();
+			storage.addPluggable(provider);
+			storage.configure(options);
+			moveSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'move')
+				.mockImplementation(() => Promise.resolve({ key: 'dest' }));
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		test('move object with default provider', async () => {
+			const progressCallback = jest.fn();
+			expect(
+				await storage.move(
+					{ key: 'src' },
+					{ key: 'dest' },
+					{ queueSize: 2, progressCallback }
+				)
+			).toEqual({ key: 'dest' });
+			expect(moveSpy).toBeCalledWith(
+				{ key: 'src' },
+				{ key: 'dest' },
+				{ queueSize: 2, progressCallback }
+			);
+		});
+
+		test('move object with custom provider without move', async () => {
+			const customProviderWithCopy = new TestCustomProviderWithCopy();
+			storage.addPluggable(customProviderWithCopy);
+			try {
+				await storage.move(
+					{ key: 'src' },
+					{ key: 'dest' },
+					{ provider: 'customProvider' }
+				);
+			} catch (err) {
+				expect(err).toEqual(
+					'.move is not implemented on provider customProvider'
+				);
+			}
+		});
+	});
+
+	describe('object properties test', () => {
+		let storage: StorageClass;
+		let provider: StorageProvider;
+
+		beforeEach(() => {
+			storage = new StorageClass();
+			provider = new AWSStorageProvider();
+			storage.addPluggable(provider);
+			storage.configure(options);
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		test('forward the properties, metadata and tags calls to the default provider', async () => {
+			const getPropertiesSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'getProperties')
+				.mockImplementation(() => Promise.resolve({ size: 10 } as any));
+			const updateMetadataSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'updateMetadata')
+				.mockImplementation(() => Promise.resolve({ key: 'key' }));
+			const getTagsSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'getTags')
+				.mockImplementation(() => Promise.resolve({ project: 'inspection' }));
+			const setTagsSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'setTags')
+				.mockImplementation(() => Promise.resolve({ key: 'key' }));
+
+			expect(await storage.getProperties('key', { level: 'private' })).toEqual({
+				size: 10,
+			});
+			expect(getPropertiesSpy).toBeCalledWith('key', { level: 'private' });
+			expect(await storage.updateMetadata('key', { album: 'winter' })).toEqual({
+				key: 'key',
+			});
+			expect(updateMetadataSpy).toBeCalledWith(
+				'key',
+				{ album: 'winter' },
+				undefined
+			);
+			expect(await storage.getTags('key')).toEqual({ project: 'inspection' });
+			expect(getTagsSpy).toBeCalledWith('key', undefined);
+			expect(
+				await storage.setTags('key', { project: 'inspection' }, { track: true })
+			).toEqual({ key: 'key' });
+			expect(setTagsSpy).toBeCalledWith(
+				'key',
+				{ project: 'inspection' },
+				{ track: true }
+			);
+		});
+
+		test('get the properties with custom provider without getProperties', async () => {
+			const customProvider = new TestCustomProvider();
+			storage.addPluggable(customProvider);
+			await expect(
+				storage.getProperties('key', { provider: 'customProvider' })
+			).rejects.toEqual(
+				'.getProperties is not implemented on provider customProvider'
+			);
+		});
+	});
+
+	describe('versioning test', () => {
+		let storage: StorageClass;
+		let provider: StorageProvider;
+
+		beforeEach(() => {
+			storage = new StorageClass();
+			provider = new AWSStorageProvider();
+			storage.addPluggable(provider);
+			storage.configure(options);
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		test('forward the versioning calls to the default provider', async () => {
+			const listVersionsSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'listVersions')
+				.mockImplementation(() => Promise.resolve([]));
+			const restoreVersionSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'restoreVersion')
+				.mockImplementation(() =>
+					Promise.resolve({ key: 'key', versionId: 'v2' })
+				);
+
+			expect(await storage.listVersions('photos/')).toEqual([]);
+			expect(listVersionsSpy).toBeCalledWith('photos/', undefined);
+			expect(
+				await storage.restoreVersion('key', 'v1', { level: 'private' })
+			).toEqual({ key: 'key', versionId: 'v2' });
+			expect(restoreVersionSpy).toBeCalledWith('key', 'v1', {
+				level: 'private',
+			});
+		});
+
+		test('list versions with custom provider without listVersions', async () => {
+			const customProvider = new TestCustomProvider();
+			storage.addPluggable(customProvider);
+			await expect(
+				storage.listVersions('photos/', { provider: 'customProvider' })
+			).rejects.toEqual(
+				'.listVersions is not implemented on provider customProvider'
+			);
+		});
+	});
+
+	describe('presigned upload test', () => {
+		let storage: StorageClass;
+		let provider: StorageProvider;
+
+		beforeEach(() => {
+			storage = new StorageClass();
+			provider = new AWSStorageProvider();
+			storage.addPluggable(provider);
+			storage.configure(options);
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+		});
+
+		test('forward the presigned upload calls to the default provider', async () => {
+			const getUploadUrlSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'getUploadUrl')
+				.mockImplementation(() => Promise.resolve('url'));
+			const getPresignedPostSpy = jest
+				.spyOn(AWSStorageProvider.prototype, 'getPresignedPost')
+				.mockImplementation(() => Promise.resolve({ url: 'url', fields: {} }));
+
+			expect(
+				await storage.getUploadUrl('key', { contentType: 'image/png' })
+			).toEqual('url');
+			expect(getUploadUrlSpy).toBeCalledWith('key', {
+				contentType: 'image/png',
+			});
+			expect(await storage.getPresignedPost('key', { maxSize: 1024 })).toEqual({
+				url: 'url',
+				fields: {},
+			});
+			expect(getPresignedPostSpy).toBeCalledWith('key', { maxSize: 1024 });
+		});
+
+		test('get presigned post with custom provider without getPresignedPost', async () => {
+			const customProvider = new TestCustomProvider();
+			storage.addPluggable(customProvider);
+			await expect(
+				storage.getPresignedPost('key', { provider: 'customProvider' })
+			).rejects.toEqual(
+				'.getPresignedPost is not implemented on provider customProvider'
+			);
+		});
+	});
+
 	describe('cancel test', () => {
 		let isCancelSpy: jest.SpyInstance;
 		let cancelTokenSpy: jest.SpyInstance;
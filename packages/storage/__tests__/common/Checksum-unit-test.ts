@@ -0,0 +1,44 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+	calculateContentMd5,
+	calculateSha256,
+} from '../../src/common/Checksum';
+
+const { md5: Md5, sha256: Sha256 } = new S3Client({ region: 'region' }).config;
+
+describe('checksum test', () => {
+	test('calculate the Content-MD5 of a body', async () => {
+		const expected = require('crypto')
+			.createHash('md5')
+			.update('body')
+			.digest('base64');
+
+		expect(await calculateContentMd5(Md5, 'body')).toEqual(expected);
+		expect(await calculateContentMd5(Md5, new Blob(['body']))).toEqual(
+			expected
+		);
+	});
+
+	test('calculate the SHA-256 of a body', async () => {
+		const expected = require('crypto')
+			.createHash('sha256')
+			.update('body')
+			.digest('hex');
+
+		expect(await calculateSha256(Sha256, 'body')).toEqual(expected);
+		expect(
+			await calculateSha256(Sha256, new Uint8Array(Buffer.from('body')))
+		).toEqual(expected);
+	});
+
+	test('calculate the SHA-256 of a Blob part by part', async () => {
+		const expected = require('crypto')
+			.createHash('sha256')
+			.update('0123456789')
+			.digest('hex');
+
+		expect(await calculateSha256(Sha256, new Blob(['0123456789']), 4)).toEqual(
+			expected
+		);
+	});
+});
@@ -0,0 +1,120 @@
+import {
+	createEncryptionEnvelope,
+	decryptObject,
+	encryptPart,
+	encryptedSize,
+	envelopeFromMetadata,
+	envelopeToMetadata,
+} from '../../src/common/ClientSideEncryption';
+import { ClientSideEncryptionErrorStrings } from '../../src/common/StorageErrorStrings';
+import { createKeyProvider, generateKey } from '../helpers';
+
+const readAsText = (blob: Blob): Promise<string> =>
+	new Promise(resolve => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.readAsText(blob);
+	});
+
+describe('client side encryption test', () => {
+	test('encrypt an object in parts and decrypt it', async () => {
+		const keyProvider = createKeyProvider();
+		const body = new Blob(['0123456789abcdefghijKLMNO']);
+		const { envelope, key } = await createEncryptionEnvelope(
+			keyProvider,
+			10,
+			body.size
+		);
+
+		const encryptedParts = await Promise.all(
+			[body.slice(0, 10), body.slice(10, 20), body.slice(20)].map((part, i) =>
+				encryptPart(keyProvider, key, envelope, i + 1, part)
+			)
+		);
+		expect(encryptedParts.map(part => part.size)).toEqual([26, 26, 21]);
+		expect(encryptedSize(body.size, envelope.partSize)).toEqual(73);
+
+		const decrypted = await decryptObject(
+			keyProvider,
+			envelopeFromMetadata(envelopeToMetadata(envelope)),
+			new Blob(encryptedParts)
+		);
+		expect(keyProvider.getDecryptionKey).toBeCalledWith('keyId');
+		expect(await readAsText(decrypted)).toEqual('0123456789abcdefghijKLMNO');
+	});
+
+	test('store the envelope in the metadata of the object', async () => {
+		const keyProvider = createKeyProvider();
+		const { envelope } = await createEncryptionEnvelope(keyProvider, 10, 25);
+
+		expect(envelopeToMetadata(envelope)).toEqual({
+			'amplify-cse-key-id': 'keyId',
+			'amplify-cse-iv': envelope.iv,
+			'amplify-cse-part-size': '10',
+			'amplify-cse-size': '25',
+		});
+		expect(envelopeFromMetadata({ album: 'summer' })).toBeUndefined();
+	});
+
+	test('fail to decrypt an object with another key', async () => {
+		const keyProvider = createKeyProvider();
+		const { envelope, key } = await createEncryptionEnvelope(
+			keyProvider,
+			10,
+			4
+		);
+		const encrypted = await encryptPart(keyProvider, key, envelope, 1, 'body');
+		const otherKey = generateKey();
+
+		await expect(
+			decryptObject(
+				{ ...keyProvider, getDecryptionKey: async () => otherKey },
+				envelope,
+				encrypted
+			)
+		).rejects.toThrow(ClientSideEncryptionErrorStrings.DECRYPTION_FAILED);
+	});
+
+	test('fail without WebCrypto', async () => {
+		const { crypto, ...keyProvider } = createKeyProvider();
+
+		await expect(createEncryptionEnvelope(keyProvider, 10, 4)).rejects.toThrow(
+			ClientSideEncryptionErrorStrings.WEBCRYPTO_NOT_AVAILABLE
+		);
+	});
+
+	test('fail to decrypt the parts of an object out of order', async () => {
+		const keyProvider = createKeyProvider();
+		const { envelope, key } = await createEncryptionEnvelope(keyProvider, 2, 4);
+		const encryptedParts = await Promise.all([
+			encryptPart(keyProvider, key, envelope, 1, 'ab'),
+			encryptPart(keyProvider, key, envelope, 2, 'cd'),
+		]);
+
+		await expect(
+			decryptObject(
+				keyProvider,
+				envelope,
+				new Blob([encryptedParts[1], encryptedParts[0]])
+			)
+		).rejects.toThrow(ClientSideEncryptionErrorStrings.DECRYPTION_FAILED);
+	});
+
+	test('fail to decrypt an object whose last parts were dropped', async () => {
+		const keyProvider = createKeyProvider();
+		const { envelope, key } = await createEncryptionEnvelope(keyProvider, 2, 6);
+		const encryptedParts = await Promise.all([
+			encryptPart(keyProvider, key, envelope, 1, 'ab'),
+			encryptPart(keyProvider, key, envelope, 2, 'cd'),
+			encryptPart(keyProvider, key, envelope, 3, 'ef'),
+		]);
+
+		await expect(
+			decryptObject(
+				keyProvider,
+				envelope,
+				new Blob([encryptedParts[0], encryptedParts[1]])
+			)
+		).rejects.toThrow(ClientSideEncryptionErrorStrings.DECRYPTION_FAILED);
+	});
+});
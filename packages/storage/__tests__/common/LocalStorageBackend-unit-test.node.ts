@@ -0,0 +1,70 @@
+/**
+ * @jest-environment node
+ */
+import { FileSystemLocalStorageBackend } from '../../src/common/LocalStorageBackend';
+import { LocalStorageProviderErrorStrings } from '../../src/common/StorageErrorStrings';
+import { LocalStorageObject } from '../../src/types';
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// stands in for the Blob of a Node.js version without a global Blob, it only keeps its parts
+class TestBlob {
+	constructor(
+		public readonly parts: any[],
+		public readonly options: { type?: string }
+	) {}
+}
+
+const createObject = (content: string): LocalStorageObject => ({
+	body: {
+		arrayBuffer: async () => new Uint8Array(Buffer.from(content)).buffer,
+	} as unknown as Blob,
+	contentType: 'text/plain',
+	metadata: {},
+	lastModified: new Date(0),
+	eTag: '"eTag"',
+});
+
+describe('file system backend test on Node.js', () => {
+	const globalBlob = global['Blob'];
+	let rootDirectory: string;
+
+	beforeEach(() => {
+		delete global['Blob'];
+		rootDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+	});
+
+	afterEach(() => {
+		global['Blob'] = globalBlob;
+		fs.rmdirSync(rootDirectory, { recursive: true });
+	});
+
+	test('create the bodies with the Blob option', async () => {
+		const backend = new FileSystemLocalStorageBackend(
+			fs.promises,
+			rootDirectory,
+			{ Blob: TestBlob as unknown as typeof Blob }
+		);
+		await backend.setItem('public/key', createObject('content'));
+
+		const { body } = await backend.getItem('public/key');
+		expect(body).toBeInstanceOf(TestBlob);
+		const { parts, options } = body as unknown as TestBlob;
+		expect(Buffer.from(parts[0]).toString()).toEqual('content');
+		expect(options).toEqual({ type: 'text/plain' });
+	});
+
+	test('fail without a Blob', async () => {
+		const backend = new FileSystemLocalStorageBackend(
+			fs.promises,
+			rootDirectory
+		);
+		await backend.setItem('public/key', createObject('content'));
+
+		await expect(backend.getItem('public/key')).rejects.toThrow(
+			LocalStorageProviderErrorStrings.NO_BLOB
+		);
+	});
+});
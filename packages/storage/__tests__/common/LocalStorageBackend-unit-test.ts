@@ -0,0 +1,93 @@
+import {
+	FileSystemLocalStorageBackend,
+	InMemoryLocalStorageBackend,
+} from '../../src/common/LocalStorageBackend';
+import { LocalStorageProviderErrorStrings } from '../../src/common/StorageErrorStrings';
+import { LocalStorageObject } from '../../src/types';
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const readAsText = (blob: Blob): Promise<string> =>
+	new Promise(resolve => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.readAsText(blob);
+	});
+
+const createObject = (content: string): LocalStorageObject => ({
+	body: new Blob([content], { type: 'text/plain' }),
+	contentType: 'text/plain',
+	metadata: { album: 'summer' },
+	lastModified: new Date(0),
+	eTag: '"eTag"',
+});
+
+describe('local storage backend test', () => {
+	test('keep the objects in memory', async () => {
+		const backend = new InMemoryLocalStorageBackend();
+		await backend.setItem('public/key', createObject('content'));
+
+		expect(await backend.keys()).toEqual(['public/key']);
+		expect(await backend.getUrl('public/key')).toEqual(
+			'data:text/plain;base64,' + btoa('content')
+		);
+		await backend.removeItem('public/key');
+		expect(await backend.getItem('public/key')).toBeUndefined();
+	});
+
+	describe('file system backend', () => {
+		let rootDirectory: string;
+		let backend: FileSystemLocalStorageBackend;
+
+		beforeEach(() => {
+			rootDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-'));
+			backend = new FileSystemLocalStorageBackend(fs.promises, rootDirectory);
+		});
+
+		afterEach(() => {
+			fs.rmdirSync(rootDirectory, { recursive: true });
+		});
+
+		test('store the objects in files', async () => {
+			expect(await backend.keys()).toEqual([]);
+			await backend.setItem('public/photos/key', createObject('content'));
+			await backend.setItem('public/key', createObject('other'));
+
+			expect((await backend.keys()).sort()).toEqual([
+				'public/key',
+				'public/photos/key',
+			]);
+			expect(
+				fs.readFileSync(path.join(rootDirectory, 'public/photos/key'), 'utf8')
+			).toEqual('content');
+
+			const { body, ...properties } = await backend.getItem(
+				'public/photos/key'
+			);
+			expect(properties).toEqual({
+				contentType: 'text/plain',
+				metadata: { album: 'summer' },
+				lastModified: new Date(0),
+				eTag: '"eTag"',
+			});
+			expect(await readAsText(body)).toEqual('content');
+			expect(await backend.getUrl('public/key')).toEqual(
+				`file://${rootDirectory}/public/key`
+			);
+
+			await backend.removeItem('public/photos/key');
+			// removing an object which does not exist succeeds
+			await backend.removeItem('public/photos/key');
+			expect(await backend.getItem('public/photos/key')).toBeUndefined();
+			expect(await backend.keys()).toEqual(['public/key']);
+		});
+
+		test('reject the keys outside of the root directory', async () => {
+			await expect(
+				backend.setItem('public/../../key', createObject('content'))
+			).rejects.toThrow(LocalStorageProviderErrorStrings.INVALID_KEY);
+		});
+	});
+});
@@ -0,0 +1,85 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import {
+	ClientSideEncryptionCrypto,
+	ClientSideEncryptionKeyProvider,
+} from '../src/types';
+
+const TAG_LENGTH = 16;
+
+// raw bytes of the keys of testCrypto
+const rawKeys = new WeakMap<CryptoKey, Buffer>();
+
+const toBuffer = (data: BufferSource) =>
+	ArrayBuffer.isView(data)
+		? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+		: Buffer.from(data);
+
+const toArrayBuffer = (buffer: Buffer) =>
+	buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+
+/**
+ * AES-GCM of WebCrypto on top of the crypto module, jsdom does not implement WebCrypto and Node.js only from 15
+ */
+export const testCrypto: ClientSideEncryptionCrypto = {
+	getRandomValues: array => {
+		randomBytes(array.byteLength).copy(
+			Buffer.from(array.buffer, array.byteOffset, array.byteLength)
+		);
+		return array;
+	},
+	subtle: {
+		encrypt: async (algorithm: AesGcmParams, key, data) => {
+			const cipher = createCipheriv(
+				'aes-256-gcm',
+				rawKeys.get(key),
+				toBuffer(algorithm.iv)
+			);
+			return toArrayBuffer(
+				Buffer.concat([
+					cipher.update(toBuffer(data)),
+					cipher.final(),
+					cipher.getAuthTag(),
+				])
+			);
+		},
+		decrypt: async (algorithm: AesGcmParams, key, data) => {
+			const encrypted = toBuffer(data);
+			const decipher = createDecipheriv(
+				'aes-256-gcm',
+				rawKeys.get(key),
+				toBuffer(algorithm.iv)
+			);
+			decipher.setAuthTag(encrypted.slice(encrypted.length - TAG_LENGTH));
+			return toArrayBuffer(
+				Buffer.concat([
+					decipher.update(encrypted.slice(0, encrypted.length - TAG_LENGTH)),
+					decipher.final(),
+				])
+			);
+		},
+	},
+};
+
+export const generateKey = (): CryptoKey => {
+	const key: CryptoKey = {
+		algorithm: { name: 'AES-GCM' },
+		extractable: false,
+		type: 'secret',
+		usages: ['encrypt', 'decrypt'],
+	};
+	rawKeys.set(key, randomBytes(32));
+	return key;
+};
+
+/**
+ * Key provider of a single key that encrypts with testCrypto
+ */
+export const createKeyProvider = (
+	key = generateKey()
+): ClientSideEncryptionKeyProvider & {
+	getDecryptionKey: jest.Mock<Promise<CryptoKey>, [string]>;
+} => ({
+	getEncryptionKey: async () => ({ keyId: 'keyId', key }),
+	getDecryptionKey: jest.fn(async (keyId: string) => key),
+	crypto: testCrypto,
+});
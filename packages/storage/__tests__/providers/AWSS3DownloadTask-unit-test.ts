@@ -0,0 +1,285 @@
+import {
+	AWSS3DownloadTask,
+	AWSS3DownloadTaskState,
+	AWSS3DownloadTaskParams,
+	DownloadTaskCompleteEvent,
+} from '../../src/providers/AWSS3DownloadTask';
+import { TaskEvents } from '../../src/providers/AWSS3UploadTask';
+import * as events from 'events';
+import {
+	S3Client,
+	GetObjectCommand,
+	HeadObjectCommand,
+} from '@aws-sdk/client-s3';
+import { StorageAccessLevel } from '../../src/types';
+import { UPLOADS_STORAGE_KEY } from '../../src/common/StorageConstants';
+import { AWSS3ProviderDownloadErrorStrings } from '../../src/common/StorageErrorStrings';
+
+afterEach(() => {
+	jest.clearAllMocks();
+});
+
+const credentials = {
+	accessKeyId: 'accessKeyId',
+	sessionToken: 'sessionToken',
+	secretAccessKey: 'secretAccessKey',
+	identityId: 'identityId',
+	authenticated: true,
+};
+
+const testOpts: any = {
+	bucket: 'testBucket',
+	region: 'testRegion',
+	credentials,
+	level: 'level',
+};
+
+// 11MB, downloaded in three parts of at most 5MB
+const testSize = 11 * 1024 * 1024;
+const testRanges = [
+	'bytes=0-5242879',
+	'bytes=5242880-10485759',
+	'bytes=10485760-11534335',
+];
+
+let mockLocalStorageItems = {};
+
+const mockLocalStorage = {
+	getItem: jest.fn().mockImplementation(key => mockLocalStorageItems[key]),
+	setItem: jest.fn().mockImplementation((key, value) => {
+		mockLocalStorageItems[key] = value;
+	}),
+	clear: jest.fn().mockImplementation(() => {
+		mockLocalStorageItems = {};
+	}),
+	removeItem: jest.fn().mockImplementation(key => {
+		mockLocalStorageItems[key] = undefined;
+	}),
+} as unknown as Storage;
+
+function createInput(emitter: events.EventEmitter): AWSS3DownloadTaskParams {
+	return {
+		s3Client: new S3Client(testOpts),
+		emitter,
+		storage: mockLocalStorage,
+		level: 'public' as StorageAccessLevel,
+		params: {
+			Bucket: 'bucket',
+			Key: 'key',
+		},
+	};
+}
+
+describe('resumable download task test', () => {
+	afterEach(() => {
+		jest.restoreAllMocks();
+		mockLocalStorage.clear();
+	});
+
+	test('constructor test', () => {
+		const downloadTask = new AWSS3DownloadTask(
+			createInput(new events.EventEmitter())
+		);
+		expect(downloadTask.isInProgress).toBeFalsy();
+		expect(downloadTask.percent).toEqual(0);
+	});
+
+	test('happy case: download an object in ranged parts', async () => {
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					return { ContentLength: testSize, ETag: 'etag' };
+				} else if (command instanceof GetObjectCommand) {
+					return {
+						ETag: 'etag',
+						Body: new Blob([command.input.Range]),
+					};
+				}
+			});
+		const emitter = new events.EventEmitter();
+		const progressSpy = jest.fn();
+		emitter.on(TaskEvents.DOWNLOAD_PROGRESS, progressSpy);
+		const completed = new Promise<DownloadTaskCompleteEvent>(resolve =>
+			emitter.on(TaskEvents.DOWNLOAD_COMPLETE, resolve)
+		);
+		const downloadTask = new AWSS3DownloadTask(createInput(emitter));
+		downloadTask.resume();
+		const event = await completed;
+
+		expect(event.key).toEqual('bucket/key');
+		expect(event.eTag).toEqual('etag');
+		expect(event.body.size).toEqual(
+			testRanges
+				.map(range => range.length)
+				.reduce((acc, length) => acc + length, 0)
+		);
+		expect(
+			s3ServiceCallSpy.mock.calls.slice(1).map(([command]) => command.input)
+		).toEqual(
+			testRanges.map(Range => ({
+				Bucket: 'bucket',
+				Key: 'key',
+				Range,
+				IfMatch: 'etag',
+			}))
+		);
+		expect(progressSpy).toHaveBeenLastCalledWith({
+			loaded: testSize,
+			total: testSize,
+		});
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.COMPLETED);
+		expect(downloadTask.percent).toEqual(100);
+		expect(mockLocalStorage.setItem).toHaveBeenLastCalledWith(
+			UPLOADS_STORAGE_KEY,
+			'{}'
+		);
+	});
+
+	test('should persist the progress of the download', async () => {
+		jest.spyOn(S3Client.prototype, 'send').mockImplementation(async command => {
+			if (command instanceof HeadObjectCommand) {
+				return { ContentLength: testSize, ETag: 'etag' };
+			}
+			// never resolve the parts, the download stays in progress
+			return new Promise(() => {});
+		});
+		const emitter = new events.EventEmitter();
+		const downloadTask = new AWSS3DownloadTask(createInput(emitter));
+		downloadTask.resume();
+		await new Promise(resolve => setTimeout(resolve, 0));
+
+		const cachedTasks = JSON.parse(
+			mockLocalStorage.getItem(UPLOADS_STORAGE_KEY)
+		);
+		expect(cachedTasks['download-bucket-public-key']).toEqual({
+			bucket: 'bucket',
+			key: 'key',
+			eTag: 'etag',
+			size: testSize,
+			lastTouched: expect.any(Number),
+			completedRanges: [],
+		});
+
+		await downloadTask._cancel();
+		expect(mockLocalStorage.getItem(UPLOADS_STORAGE_KEY)).toEqual('{}');
+	});
+
+	test('should download the whole object again in a new task', async () => {
+		// the first task receives the first and last part, the second part never arrives
+		const firstSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					return { ContentLength: testSize, ETag: 'etag' };
+				} else if (command instanceof GetObjectCommand) {
+					if (command.input.Range === testRanges[1]) {
+						return new Promise(() => {});
+					}
+					return { ETag: 'etag', Body: new Blob([command.input.Range]) };
+				}
+			});
+		const firstEmitter = new events.EventEmitter();
+		const firstParts = [];
+		firstEmitter.on(TaskEvents.DOWNLOAD_PART, part => firstParts.push(part));
+		const firstTask = new AWSS3DownloadTask(createInput(firstEmitter));
+		firstTask.resume();
+		await new Promise(resolve => setTimeout(resolve, 0));
+		firstTask.pause();
+		expect(firstParts.map(({ partNumber }) => partNumber).sort()).toEqual([
+			1, 3,
+		]);
+		firstSpy.mockRestore();
+
+		const secondSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					return { ContentLength: testSize, ETag: 'etag' };
+				} else if (command instanceof GetObjectCommand) {
+					return { ETag: 'etag', Body: new Blob([command.input.Range]) };
+				}
+			});
+		const secondEmitter = new events.EventEmitter();
+		const progressSpy = jest.fn();
+		secondEmitter.on(TaskEvents.DOWNLOAD_PROGRESS, progressSpy);
+		const completed = new Promise<DownloadTaskCompleteEvent>(resolve =>
+			secondEmitter.on(TaskEvents.DOWNLOAD_COMPLETE, resolve)
+		);
+		const secondTask = new AWSS3DownloadTask(createInput(secondEmitter));
+		secondTask.resume();
+		const event = await completed;
+
+		expect(
+			secondSpy.mock.calls
+				.slice(1)
+				.map(([command]) => (command as GetObjectCommand).input.Range)
+		).toEqual(testRanges);
+		expect(event.body.size).toEqual(
+			testRanges
+				.map(range => range.length)
+				.reduce((acc, length) => acc + length, 0)
+		);
+		expect(progressSpy).toHaveBeenLastCalledWith({
+			loaded: testSize,
+			total: testSize,
+		});
+		expect(secondTask.state).toEqual(AWSS3DownloadTaskState.COMPLETED);
+		expect(mockLocalStorage.getItem(UPLOADS_STORAGE_KEY)).toEqual('{}');
+	});
+
+	test('should fail the download if the object changed between parts', async () => {
+		jest.spyOn(S3Client.prototype, 'send').mockImplementation(async command => {
+			if (command instanceof HeadObjectCommand) {
+				return { ContentLength: testSize, ETag: 'etag' };
+			} else if (command instanceof GetObjectCommand) {
+				if (command.input.Range === 'bytes=5242880-10485759') {
+					throw Object.assign(new Error('PreconditionFailed'), {
+						$metadata: { httpStatusCode: 412 },
+					});
+				}
+				return { ETag: 'etag', Body: new Blob(['part']) };
+			}
+		});
+		const emitter = new events.EventEmitter();
+		const completeSpy = jest.fn();
+		emitter.on(TaskEvents.DOWNLOAD_COMPLETE, completeSpy);
+		const failed = new Promise<Error>(resolve =>
+			emitter.on(TaskEvents.ERROR, resolve)
+		);
+		const downloadTask = new AWSS3DownloadTask(createInput(emitter));
+		downloadTask.resume();
+
+		expect((await failed).message).toEqual(
+			AWSS3ProviderDownloadErrorStrings.ETAG_MISMATCH
+		);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.CANCELLED);
+		expect(completeSpy).not.toHaveBeenCalled();
+	});
+
+	test('pause, resume, cancel should set the task state accordingly', async () => {
+		jest.spyOn(S3Client.prototype, 'send').mockImplementation(async command => {
+			if (command instanceof HeadObjectCommand) {
+				return { ContentLength: testSize, ETag: 'etag' };
+			}
+			return new Promise(() => {});
+		});
+		const downloadTask = new AWSS3DownloadTask(
+			createInput(new events.EventEmitter())
+		);
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.INIT);
+		downloadTask.resume();
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.IN_PROGRESS);
+		expect(downloadTask.isInProgress).toBe(true);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		downloadTask.pause();
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.PAUSED);
+		downloadTask.resume();
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.IN_PROGRESS);
+		const cancelled = await downloadTask._cancel();
+		expect(downloadTask.state).toEqual(AWSS3DownloadTaskState.CANCELLED);
+		expect(cancelled).toBe(true);
+		expect(await downloadTask._cancel()).toBe(false);
+	});
+});
@@ -18,6 +18,14 @@ import {
 	ListObjectsCommand,
 	CreateMultipartUploadCommand,
 	UploadPartCommand,
+	DeleteObjectsRequest,
+	HeadObjectCommand,
+	CopyObjectCommand,
+	DeleteObjectCommand,
+	GetObjectTaggingCommand,
+	PutObjectTaggingCommand,
+	ListObjectVersionsCommand,
+	PutObjectCommand,
 } from '@aws-sdk/client-s3';
 import { S3RequestPresigner } from '@aws-sdk/s3-request-presigner';
 
@@ -28,6 +36,20 @@ import {
 	S3ProviderGetConfig,
 } from '../../src/types';
 import { AWSS3UploadTask } from '../../src/providers/AWSS3UploadTask';
+import {
+	AWSS3DownloadTask,
+	AWSS3DownloadTaskState,
+} from '../../src/providers/AWSS3DownloadTask';
+import {
+	createEncryptionEnvelope,
+	encryptPart,
+	envelopeToMetadata,
+} from '../../src/common/ClientSideEncryption';
+import {
+	StorageErrorStrings,
+	ClientSideEncryptionErrorStrings,
+} from '../../src/common/StorageErrorStrings';
+import { createKeyProvider } from '../helpers';
 /**
  * NOTE - These test cases use Hub.dispatch but they should
  * actually be using dispatchStorageEvent from Storage
@@ -296,6 +318,35 @@ describe('StorageProvider test', () => {
 			expect(mockRemoveAllListeners).toHaveBeenCalled();
 		});
 
+		test('get object with resumable download returns instance of AWSS3DownloadTask', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return Promise.resolve(credentials);
+			});
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => {
+					return { ContentLength: 0, ETag: 'etag' };
+				});
+
+			const downloadTask = await storage.get('key', {
+				download: true,
+				resumable: true,
+			});
+			expect(downloadTask instanceof AWSS3DownloadTask).toEqual(true);
+
+			await new Promise(resolve => setTimeout(resolve, 0));
+			expect((downloadTask as AWSS3DownloadTask).state).toEqual(
+				AWSS3DownloadTaskState.COMPLETED
+			);
+			expect(spyon).toBeCalledTimes(1);
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Key: 'public/key',
+			});
+		});
+
 		test('get object with incorrect progressCallback type', async () => {
 			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
 				return Promise.resolve(credentials);
@@ -524,6 +575,216 @@ describe('StorageProvider test', () => {
 		});
 	});
 
+	describe('client side encryption test', () => {
+		let keyProvider: ReturnType<typeof createKeyProvider>;
+
+		beforeEach(() => {
+			jest.spyOn(Credentials, 'get').mockImplementation(() => {
+				return Promise.resolve(credentials);
+			});
+			keyProvider = createKeyProvider();
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+			jest.restoreAllMocks();
+		});
+
+		test('put an object encrypted on the client', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({}));
+
+			expect(
+				await storage.put('key', 'body', {
+					metadata: { album: 'summer' },
+					clientSideEncryption: { keyProvider },
+				})
+			).toEqual({ key: 'key' });
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(PutObjectCommand);
+			const { Body, Metadata } = spyon.mock.calls[0][0].input as any;
+			expect(Metadata).toEqual({
+				album: 'summer',
+				'amplify-cse-key-id': 'keyId',
+				'amplify-cse-iv': expect.any(String),
+				'amplify-cse-part-size': '4',
+				'amplify-cse-size': '4',
+			});
+			// the body is sent with its 16 bytes authentication tag
+			expect(Body.size).toEqual(20);
+		});
+
+		test('get an object decrypted on the client', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const { envelope, key } = await createEncryptionEnvelope(
+				keyProvider,
+				4,
+				4
+			);
+			const Metadata = envelopeToMetadata(envelope);
+			jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					Body: await encryptPart(keyProvider, key, envelope, 1, 'body'),
+					ContentLength: 20,
+					Metadata,
+				}));
+
+			const response = await storage.get('key', {
+				download: true,
+				clientSideEncryption: { keyProvider },
+			});
+			expect(keyProvider.getDecryptionKey).toBeCalledWith('keyId');
+			expect(response.ContentLength).toEqual(4);
+			expect(
+				await new Promise(resolve => {
+					const reader = new FileReader();
+					reader.onload = () => resolve(reader.result);
+					reader.readAsText(response.Body as Blob);
+				})
+			).toEqual('body');
+		});
+
+		test('get an encrypted object without client side encryption', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const { envelope, key } = await createEncryptionEnvelope(
+				keyProvider,
+				4,
+				4
+			);
+			const Body = await encryptPart(keyProvider, key, envelope, 1, 'body');
+			jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					Body,
+					Metadata: envelopeToMetadata(envelope),
+				}));
+
+			expect((await storage.get('key', { download: true })).Body).toBe(Body);
+			expect(keyProvider.getDecryptionKey).not.toBeCalled();
+		});
+
+		test('resumable downloads do not support client side encryption', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+
+			await expect(
+				storage.get('key', {
+					download: true,
+					resumable: true,
+					clientSideEncryption: { keyProvider },
+				})
+			).rejects.toThrow(
+				ClientSideEncryptionErrorStrings.RESUMABLE_DOWNLOAD_NOT_SUPPORTED
+			);
+		});
+	});
+
+	describe('presigned upload test', () => {
+		beforeEach(() => {
+			jest.spyOn(Credentials, 'get').mockImplementation(() => {
+				return Promise.resolve(credentials);
+			});
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+			jest.restoreAllMocks();
+		});
+
+		test('get a presigned URL to upload an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest.spyOn(S3RequestPresigner.prototype, 'presign');
+			jest.spyOn(formatURL, 'formatUrl').mockReturnValueOnce('url');
+
+			expect(
+				await storage.getUploadUrl('key', {
+					level: 'private',
+					contentType: 'image/png',
+					expires: 60,
+				})
+			).toBe('url');
+			expect(spyon.mock.calls[0][0].method).toEqual('PUT');
+			expect(spyon.mock.calls[0][0].path).toEqual('/private/identityId/key');
+			expect(spyon.mock.calls[0][0].headers['content-type']).toEqual(
+				'image/png'
+			);
+			expect(spyon.mock.calls[0][1]).toEqual({ expiresIn: 60 });
+		});
+
+		test('get a presigned post to upload an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+
+			const { url, fields } = await storage.getPresignedPost('key', {
+				contentType: 'image/png',
+				maxSize: 1024,
+				conditions: [['starts-with', '$x-amz-meta-album', '']],
+			});
+			expect(url).toEqual(
+				`https://${options.bucket}.s3.${options.region}.amazonaws.com/`
+			);
+			const date = fields['X-Amz-Date'];
+			const shortDate = date.slice(0, 8);
+			expect(fields).toEqual({
+				key: 'public/key',
+				'Content-Type': 'image/png',
+				'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+				'X-Amz-Credential': `accessKeyId/${shortDate}/region/s3/aws4_request`,
+				'X-Amz-Date': date,
+				'X-Amz-Security-Token': 'sessionToken',
+				Policy: expect.any(String),
+				'X-Amz-Signature': expect.any(String),
+			});
+
+			const policy = JSON.parse(atob(fields.Policy));
+			expect(policy.conditions).toEqual([
+				{ bucket: 'bucket' },
+				{ key: 'public/key' },
+				{ 'Content-Type': 'image/png' },
+				{ 'X-Amz-Algorithm': 'AWS4-HMAC-SHA256' },
+				{ 'X-Amz-Credential': fields['X-Amz-Credential'] },
+				{ 'X-Amz-Date': date },
+				{ 'X-Amz-Security-Token': 'sessionToken' },
+				['content-length-range', 0, 1024],
+				['starts-with', '$x-amz-meta-album', ''],
+			]);
+			expect(Date.parse(policy.expiration) - Date.now()).toBeLessThanOrEqual(
+				900 * 1000
+			);
+
+			const hmac = (key: string | Buffer, data: string) =>
+				require('crypto').createHmac('sha256', key).update(data).digest();
+			const signingKey = ['region', 's3', 'aws4_request'].reduce(
+				hmac,
+				hmac('AWS4secretAccessKey', shortDate)
+			);
+			expect(fields['X-Amz-Signature']).toEqual(
+				hmac(signingKey, fields.Policy).toString('hex')
+			);
+		});
+
+		test('get a presigned post for a key with non-ASCII characters', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+
+			const { fields } = await storage.getPresignedPost('Zürich/東京.png');
+			expect(fields.key).toEqual('public/Zürich/東京.png');
+
+			const policy = JSON.parse(
+				Buffer.from(fields.Policy, 'base64').toString('utf8')
+			);
+			expect(policy.conditions).toContainEqual({
+				key: 'public/Zürich/東京.png',
+			});
+		});
+	});
+
 	describe('put test', () => {
 		afterEach(() => {
 			jest.clearAllMocks();
@@ -553,6 +814,51 @@ describe('StorageProvider test', () => {
 			});
 		});
 
+		test('put object with dedup returns the content-addressed key', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementation(() => {
+				return Promise.resolve(credentials);
+			});
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({ ETag: 'etag' }));
+			const hash = require('crypto')
+				.createHash('sha256')
+				.update('object')
+				.digest('hex');
+
+			expect(
+				await storage.put('attachments/', 'object', { dedup: true })
+			).toEqual({ key: 'attachments/' + hash });
+			expect(spyon).toBeCalledTimes(1);
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(HeadObjectCommand);
+		});
+
+		test('put object with dedup and resumable', () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+
+			expect(() =>
+				storage.put('attachments/', new Blob(['object']), {
+					dedup: true,
+					resumable: true,
+				})
+			).toThrow(StorageErrorStrings.DEDUP_RESUMABLE_NOT_SUPPORTED);
+		});
+
+		test('put object with dedup and client side encryption', () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+
+			expect(() =>
+				storage.put('attachments/', 'object', {
+					dedup: true,
+					clientSideEncryption: { keyProvider: createKeyProvider() },
+				})
+			).toThrow(StorageErrorStrings.DEDUP_ENCRYPTION_NOT_SUPPORTED);
+		});
+
 		test('put object with track', async () => {
 			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
 				return new Promise((res, rej) => {
@@ -946,6 +1252,165 @@ describe('StorageProvider test', () => {
 		});
 	});
 
+	describe('removeMany test', () => {
+		test('remove objects in batches of 1000 keys', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({}))
+				.mockImplementationOnce(async () => ({
+					Errors: [
+						{
+							Key: 'public/photo1000',
+							Code: 'AccessDenied',
+							Message: 'Access Denied',
+						},
+					],
+				}));
+			const keys = Array.from({ length: 1001 }, (_, i) => `photo${i}`);
+
+			expect.assertions(5);
+			const { deleted, errors } = await storage.removeMany(keys, {
+				level: 'public',
+			});
+			expect(deleted).toEqual(keys.slice(0, 1000));
+			expect(errors).toEqual([
+				{ key: 'photo1000', code: 'AccessDenied', message: 'Access Denied' },
+			]);
+			expect(spyon).toHaveBeenCalledTimes(2);
+			expect(
+				(spyon.mock.calls[0][0].input as DeleteObjectsRequest).Delete.Objects
+			).toHaveLength(1000);
+			expect(spyon.mock.calls[1][0].input).toEqual({
+				Bucket: 'bucket',
+				Delete: { Objects: [{ Key: 'public/photo1000' }], Quiet: true },
+			});
+		});
+
+		test('remove objects with track', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({}));
+			const hubDispatchSpy = jest.spyOn(Hub, 'dispatch');
+
+			expect.assertions(1);
+			await storage.removeMany(['a', 'b'], { level: 'public', track: true });
+			expect(hubDispatchSpy).toBeCalledWith(
+				'storage',
+				{
+					event: 'delete',
+					data: {
+						attrs: { method: 'removeMany', result: 'success' },
+					},
+					message: 'Deleted 2 items successfully',
+				},
+				'Storage',
+				Symbol.for('amplify_default')
+			);
+		});
+
+		test('remove objects failed', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => {
+					throw 'err';
+				});
+
+			expect.assertions(1);
+			try {
+				await storage.removeMany(['key'], {});
+			} catch (e) {
+				expect(e).toBe('err');
+			}
+		});
+
+		test('remove all objects under a prefix', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const item = (key: string) => ({ Key: `public/album/${key}` });
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					Contents: [item('a'), item('b')],
+					IsTruncated: true,
+				}))
+				.mockImplementationOnce(async () => ({
+					Errors: [{ Key: 'public/album/b', Code: 'InternalError' }],
+				}))
+				.mockImplementationOnce(async () => ({
+					Contents: [item('c')],
+					IsTruncated: false,
+				}))
+				.mockImplementationOnce(async () => ({}));
+
+			expect.assertions(4);
+			const { deleted, errors } = await storage.removePrefix('album/', {
+				level: 'public',
+			});
+			expect(deleted).toEqual(['album/a', 'album/c']);
+			expect(errors).toEqual([
+				{ key: 'album/b', code: 'InternalError', message: undefined },
+			]);
+			expect(spyon.mock.calls[2][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/album/',
+				MaxKeys: 1000,
+				Marker: 'public/album/b',
+			});
+			expect(spyon.mock.calls[3][0].input).toEqual({
+				Bucket: 'bucket',
+				Delete: { Objects: [{ Key: 'public/album/c' }], Quiet: true },
+			});
+		});
+
+		test('remove an empty prefix', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest.spyOn(S3Client.prototype, 'send');
+
+			expect.assertions(2);
+			expect(
+				await storage.removePrefix('emptyListResultsPath', { level: 'public' })
+			).toEqual({ deleted: [], errors: [] });
+			expect(spyon).toHaveBeenCalledTimes(1);
+		});
+	});
+
 	describe('list test', () => {
 		test('list object successfully', async () => {
 			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
@@ -1093,26 +1558,210 @@ describe('StorageProvider test', () => {
 			}
 		});
 
-		test('credentials not ok', async () => {
+		test('list a page of objects and prefixes with a delimiter', async () => {
 			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
 				return new Promise((res, rej) => {
-					rej('err');
+					res({});
 				});
 			});
 
 			const storage = new StorageProvider();
-			storage.configure(options_no_cred);
-
-			expect.assertions(1);
-			try {
-				await storage.list('path', {});
-			} catch (e) {
-				expect(e).not.toBeNull();
-			}
-		});
-	});
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					Contents: [
+						{
+							Key: 'public/photos/cover.jpg',
+							ETag: 'etag',
+							LastModified: 'lastmodified',
+							Size: 'size',
+						},
+					],
+					CommonPrefixes: [{ Prefix: 'public/photos/2021/' }],
+					IsTruncated: true,
+					NextMarker: 'public/photos/2021/',
+				}));
 
-	describe('copy test', () => {
+			expect.assertions(2);
+			expect(
+				await storage.list('photos/', {
+					level: 'public',
+					delimiter: '/',
+					pageSize: 2,
+					nextToken: 'public/photos/2020/',
+				})
+			).toEqual({
+				results: [
+					{
+						eTag: 'etag',
+						key: 'photos/cover.jpg',
+						lastModified: 'lastmodified',
+						size: 'size',
+					},
+				],
+				prefixes: ['photos/2021/'],
+				nextToken: 'public/photos/2021/',
+			});
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/photos/',
+				MaxKeys: 2,
+				Delimiter: '/',
+				Marker: 'public/photos/2020/',
+			});
+		});
+
+		test('list the last page of objects without a next token', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+
+			expect.assertions(1);
+			expect(
+				await storage.list('emptyListResultsPath', {
+					level: 'public',
+					pageSize: 10,
+				})
+			).toEqual({ results: [], prefixes: [], nextToken: undefined });
+		});
+
+		test('list a page with a delimiter and maxKeys without a pageSize', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					CommonPrefixes: [{ Prefix: 'public/photos/2021/' }],
+				}));
+
+			expect.assertions(2);
+			expect(
+				await storage.list('photos/', {
+					level: 'public',
+					delimiter: '/',
+					maxKeys: 5,
+				})
+			).toEqual({
+				results: [],
+				prefixes: ['photos/2021/'],
+				nextToken: undefined,
+			});
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/photos/',
+				MaxKeys: 5,
+				Delimiter: '/',
+			});
+		});
+
+		test('list all objects following the pages', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const item = (key: string) => ({
+				Key: `public/${key}`,
+				ETag: 'etag',
+				LastModified: 'lastmodified',
+				Size: 'size',
+			});
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					Contents: [item('a'), item('b')],
+					IsTruncated: true,
+				}))
+				.mockImplementationOnce(async () => ({
+					Contents: [item('c')],
+					IsTruncated: false,
+				}));
+
+			expect.assertions(4);
+			const { results, prefixes } = await storage.listAll('', {
+				level: 'public',
+				pageSize: 2,
+			});
+			expect(results.map(({ key }) => key)).toEqual(['a', 'b', 'c']);
+			expect(prefixes).toEqual([]);
+			// without a delimiter the listing continues after the last key
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/',
+				MaxKeys: 2,
+			});
+			expect(spyon.mock.calls[1][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/',
+				MaxKeys: 2,
+				Marker: 'public/b',
+			});
+		});
+
+		test('list all objects failed', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					res({});
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options);
+			jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					Contents: [],
+					CommonPrefixes: [{ Prefix: 'public/a/' }],
+					IsTruncated: true,
+					NextMarker: 'public/a/',
+				}))
+				.mockImplementationOnce(async () => {
+					throw 'err';
+				});
+
+			expect.assertions(1);
+			try {
+				await storage.listAll('', { delimiter: '/' });
+			} catch (e) {
+				expect(e).toBe('err');
+			}
+		});
+
+		test('credentials not ok', async () => {
+			jest.spyOn(Credentials, 'get').mockImplementationOnce(() => {
+				return new Promise((res, rej) => {
+					rej('err');
+				});
+			});
+
+			const storage = new StorageProvider();
+			storage.configure(options_no_cred);
+
+			expect.assertions(1);
+			try {
+				await storage.list('path', {});
+			} catch (e) {
+				expect(e).not.toBeNull();
+			}
+		});
+	});
+
+	describe('copy test', () => {
 		afterEach(() => {
 			jest.clearAllMocks();
 			jest.restoreAllMocks();
@@ -1129,14 +1778,19 @@ describe('StorageProvider test', () => {
 			expect(await storage.copy({ key: 'src' }, { key: 'dest' })).toEqual({
 				key: 'dest',
 			});
+			// the size of the source object decides whether it is copied in parts
 			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				Key: 'public/src',
+			});
+			expect(spyon.mock.calls[1][0].input).toStrictEqual({
 				Bucket: 'bucket',
 				// Should default to public if no level is specified
 				CopySource: 'bucket/public/src',
 				Key: 'public/dest',
 				MetadataDirective: 'COPY',
 			});
-			expect(spyon).toBeCalledTimes(1);
+			expect(spyon).toBeCalledTimes(2);
 		});
 
 		test('copy with invalid source key should throw error', async () => {
@@ -1208,7 +1862,7 @@ describe('StorageProvider test', () => {
 			const spyon2 = jest.spyOn(Hub, 'dispatch');
 
 			await storage.copy({ key: 'src' }, { key: 'dest' }, { track: true });
-			expect(spyon).toBeCalledTimes(1);
+			expect(spyon).toBeCalledTimes(2);
 			expect(spyon2).toBeCalledWith(
 				'storage',
 				{
@@ -1238,7 +1892,7 @@ describe('StorageProvider test', () => {
 				{ key: 'dest', level: 'private' }
 			);
 
-			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+			expect(spyon.mock.calls[1][0].input).toStrictEqual({
 				Bucket: 'bucket',
 				CopySource: 'bucket/protected/identityId2/src',
 				Key: 'private/identityId/dest',
@@ -1270,7 +1924,7 @@ describe('StorageProvider test', () => {
 				}
 			);
 
-			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+			expect(spyon.mock.calls[1][0].input).toStrictEqual({
 				ACL: 'private',
 				Bucket: 'bucket',
 				CopySource: 'bucket/protected/identityId/src',
@@ -1311,4 +1965,430 @@ describe('StorageProvider test', () => {
 			).rejects.toThrowError('No credentials');
 		});
 	});
+
+	describe('move test', () => {
+		beforeEach(() => {
+			jest.spyOn(Credentials, 'get').mockImplementation(() => {
+				return Promise.resolve(credentials);
+			});
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+			jest.restoreAllMocks();
+		});
+
+		test('move object successfully', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementation(async command =>
+					command instanceof HeadObjectCommand
+						? { ETag: 'etag', ContentLength: 10 }
+						: {}
+				);
+			const hubDispatchSpy = jest.spyOn(Hub, 'dispatch');
+
+			expect(
+				await storage.move(
+					{ key: 'src' },
+					{ key: 'dest', level: 'private' },
+					{ track: true }
+				)
+			).toEqual({ key: 'dest' });
+			expect(spyon.mock.calls[1][0]).toBeInstanceOf(CopyObjectCommand);
+			expect(spyon.mock.calls[4][0]).toBeInstanceOf(DeleteObjectCommand);
+			expect(spyon.mock.calls[4][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				Key: 'public/src',
+			});
+			expect(hubDispatchSpy).toBeCalledTimes(1);
+			expect(hubDispatchSpy).toBeCalledWith(
+				'storage',
+				{
+					event: 'move',
+					data: { attrs: { method: 'move', result: 'success' } },
+					message: 'Move success from src to dest',
+				},
+				'Storage',
+				Symbol.for('amplify_default')
+			);
+		});
+
+		test('move keeps the source object when the copy does not match', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementation(async command =>
+					command instanceof HeadObjectCommand
+						? command.input.Key === 'public/src'
+							? { ETag: 'etag', ContentLength: 10 }
+							: { ETag: 'etag-2', ContentLength: 5 }
+						: {}
+				);
+
+			await expect(
+				storage.move({ key: 'src' }, { key: 'dest' })
+			).rejects.toThrow(
+				'The copied object does not match the source object, the source object was not removed'
+			);
+			expect(
+				spyon.mock.calls.some(
+					([command]) => command instanceof DeleteObjectCommand
+				)
+			).toBe(false);
+		});
+	});
+
+	describe('object properties test', () => {
+		beforeEach(() => {
+			jest.spyOn(Credentials, 'get').mockImplementation(() => {
+				return Promise.resolve(credentials);
+			});
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+			jest.restoreAllMocks();
+		});
+
+		const lastModified = new Date();
+		const head = {
+			ContentLength: 10,
+			ContentType: 'image/jpeg',
+			CacheControl: 'no-cache',
+			ETag: 'etag',
+			LastModified: lastModified,
+			Metadata: { album: 'summer' },
+			VersionId: 'versionId',
+		};
+
+		test('get the properties of an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => head);
+
+			expect(await storage.getProperties('key', { level: 'private' })).toEqual(
+				{
+					size: 10,
+					contentType: 'image/jpeg',
+					eTag: 'etag',
+					lastModified,
+					metadata: { album: 'summer' },
+					versionId: 'versionId',
+				}
+			);
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(HeadObjectCommand);
+			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				Key: 'private/identityId/key',
+			});
+		});
+
+		test('update the metadata of an object with a self copy', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementation(async command =>
+					command instanceof HeadObjectCommand ? head : {}
+				);
+			const hubDispatchSpy = jest.spyOn(Hub, 'dispatch');
+
+			expect(
+				await storage.updateMetadata(
+					'key',
+					{ album: 'winter' },
+					{ track: true }
+				)
+			).toEqual({ key: 'key' });
+			expect(spyon).toBeCalledTimes(2);
+			expect(spyon.mock.calls[1][0]).toBeInstanceOf(CopyObjectCommand);
+			expect(spyon.mock.calls[1][0].input).toEqual({
+				Bucket: 'bucket',
+				CopySource: 'bucket/public/key',
+				Key: 'public/key',
+				MetadataDirective: 'REPLACE',
+				Metadata: { album: 'winter' },
+				CacheControl: 'no-cache',
+				ContentType: 'image/jpeg',
+			});
+			expect(hubDispatchSpy).toBeCalledWith(
+				'storage',
+				{
+					event: 'updateMetadata',
+					data: { attrs: { method: 'updateMetadata', result: 'success' } },
+					message: 'Metadata of key updated successfully',
+				},
+				'Storage',
+				Symbol.for('amplify_default')
+			);
+		});
+
+		test('update the metadata of an object encrypted with a customer key', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementation(async command =>
+					command instanceof HeadObjectCommand ? head : {}
+				);
+
+			await storage.updateMetadata(
+				'key',
+				{ album: 'winter' },
+				{ SSECustomerAlgorithm: 'AES256', SSECustomerKey: 'key' }
+			);
+			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				Key: 'public/key',
+				SSECustomerAlgorithm: 'AES256',
+				SSECustomerKey: 'key',
+			});
+			expect(spyon.mock.calls[1][0].input).toMatchObject({
+				SSECustomerAlgorithm: 'AES256',
+				SSECustomerKey: 'key',
+				CopySourceSSECustomerAlgorithm: 'AES256',
+				CopySourceSSECustomerKey: 'key',
+			});
+		});
+
+		test('keep the envelope of an object encrypted on the client', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const envelope = {
+				'amplify-cse-key-id': 'keyId',
+				'amplify-cse-iv': 'AAAAAAAAAAAAAAAA',
+				'amplify-cse-part-size': '10',
+				'amplify-cse-size': '25',
+			};
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementation(async command =>
+					command instanceof HeadObjectCommand
+						? { ...head, Metadata: { album: 'summer', ...envelope } }
+						: {}
+				);
+
+			await storage.updateMetadata('key', {
+				album: 'winter',
+				'amplify-cse-key-id': 'otherKeyId',
+			});
+			expect(spyon.mock.calls[1][0].input).toMatchObject({
+				Metadata: { album: 'winter', ...envelope },
+			});
+		});
+
+		test('get the tags of an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					TagSet: [
+						{ Key: 'project', Value: 'inspection' },
+						{ Key: 'status', Value: 'draft' },
+					],
+				}));
+
+			expect(await storage.getTags('key')).toEqual({
+				project: 'inspection',
+				status: 'draft',
+			});
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(GetObjectTaggingCommand);
+			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				Key: 'public/key',
+			});
+		});
+
+		test('set the tags of an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({}));
+
+			expect(
+				await storage.setTags(
+					'key',
+					{ project: 'inspection' },
+					{ level: 'protected' }
+				)
+			).toEqual({ key: 'key' });
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(PutObjectTaggingCommand);
+			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				Key: 'protected/identityId/key',
+				Tagging: { TagSet: [{ Key: 'project', Value: 'inspection' }] },
+			});
+		});
+
+		test('get the tags of a missing object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => {
+					throw new Error('NoSuchKey');
+				});
+
+			await expect(storage.getTags('key')).rejects.toThrow('NoSuchKey');
+		});
+	});
+
+	describe('versioning test', () => {
+		beforeEach(() => {
+			jest.spyOn(Credentials, 'get').mockImplementation(() => {
+				return Promise.resolve(credentials);
+			});
+		});
+
+		afterEach(() => {
+			jest.clearAllMocks();
+			jest.restoreAllMocks();
+		});
+
+		test('get a version of an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({ Body: [1, 2] }));
+
+			expect(
+				await storage.get('key', { download: true, versionId: 'versionId' })
+			).toEqual({ Body: [1, 2] });
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Key: 'public/key',
+				VersionId: 'versionId',
+			});
+		});
+
+		test('remove a version of an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({}));
+
+			await storage.remove('key', { versionId: 'versionId' });
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(DeleteObjectCommand);
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Key: 'public/key',
+				VersionId: 'versionId',
+			});
+		});
+
+		test('list the versions of the objects with their delete markers', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const older = new Date(2022, 0, 1);
+			const newer = new Date(2022, 0, 2);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({
+					IsTruncated: true,
+					NextKeyMarker: 'public/photos/a.jpg',
+					NextVersionIdMarker: 'v1',
+					Versions: [
+						{
+							Key: 'public/photos/a.jpg',
+							VersionId: 'v1',
+							IsLatest: false,
+							LastModified: older,
+							ETag: 'etag1',
+							Size: 10,
+						},
+					],
+					DeleteMarkers: [
+						{
+							Key: 'public/photos/a.jpg',
+							VersionId: 'v2',
+							IsLatest: true,
+							LastModified: newer,
+						},
+					],
+				}))
+				.mockImplementationOnce(async () => ({
+					IsTruncated: false,
+					Versions: [
+						{
+							Key: 'public/photos/b.jpg',
+							VersionId: 'v3',
+							IsLatest: true,
+							LastModified: newer,
+							ETag: 'etag3',
+							Size: 20,
+						},
+					],
+				}));
+
+			expect(await storage.listVersions('photos/', { pageSize: 2 })).toEqual([
+				{
+					key: 'photos/a.jpg',
+					versionId: 'v2',
+					isLatest: true,
+					lastModified: newer,
+					isDeleteMarker: true,
+				},
+				{
+					key: 'photos/a.jpg',
+					versionId: 'v1',
+					isLatest: false,
+					lastModified: older,
+					isDeleteMarker: false,
+					eTag: 'etag1',
+					size: 10,
+				},
+				{
+					key: 'photos/b.jpg',
+					versionId: 'v3',
+					isLatest: true,
+					lastModified: newer,
+					isDeleteMarker: false,
+					eTag: 'etag3',
+					size: 20,
+				},
+			]);
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(ListObjectVersionsCommand);
+			expect(spyon.mock.calls[0][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/photos/',
+				MaxKeys: 2,
+			});
+			expect(spyon.mock.calls[1][0].input).toEqual({
+				Bucket: 'bucket',
+				Prefix: 'public/photos/',
+				MaxKeys: 2,
+				KeyMarker: 'public/photos/a.jpg',
+				VersionIdMarker: 'v1',
+			});
+		});
+
+		test('restore a version of an object', async () => {
+			const storage = new StorageProvider();
+			storage.configure(options);
+			const spyon = jest
+				.spyOn(S3Client.prototype, 'send')
+				.mockImplementationOnce(async () => ({ VersionId: 'v4' }));
+
+			expect(
+				await storage.restoreVersion('key', 'v1', { level: 'private' })
+			).toEqual({ key: 'key', versionId: 'v4' });
+			expect(spyon.mock.calls[0][0]).toBeInstanceOf(CopyObjectCommand);
+			expect(spyon.mock.calls[0][0].input).toStrictEqual({
+				Bucket: 'bucket',
+				CopySource: 'bucket/private/identityId/key?versionId=v1',
+				Key: 'private/identityId/key',
+			});
+		});
+	});
+
 });
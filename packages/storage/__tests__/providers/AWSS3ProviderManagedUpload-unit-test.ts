@@ -19,9 +19,12 @@ import {
 	CreateMultipartUploadCommand,
 	AbortMultipartUploadCommand,
 	ListPartsCommand,
+	HeadObjectCommand,
 } from '@aws-sdk/client-s3';
 import { Logger } from '@aws-amplify/core';
 import * as events from 'events';
+import { decryptObject } from '../../src/common/ClientSideEncryption';
+import { createKeyProvider } from '../helpers';
 
 jest.useRealTimers();
 
@@ -53,6 +56,11 @@ const testOpts: any = {
 
 const testMinPartSize = 10; // Merely 10 Bytes
 
+const md5 = (body: string) =>
+	require('crypto').createHash('md5').update(body).digest('base64');
+const sha256 = (body: string) =>
+	require('crypto').createHash('sha256').update(body).digest('hex');
+
 /** Extend our test class such that minPartSize is reasonable
  * and we can mock emit the progress events
  */
@@ -139,6 +147,98 @@ describe('single part upload tests', () => {
 	});
 });
 
+describe('checksum and deduplicated upload tests', () => {
+	test('upload a string as body with its Content-MD5', async () => {
+		const putObjectSpyOn = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof PutObjectCommand) return command.input.Key;
+			});
+		const uploader = new AWSS3ProviderManagedUpload(
+			{ ...testParams },
+			{ ...testOpts, checksum: true },
+			new events.EventEmitter()
+		);
+		await uploader.upload();
+		expect(putObjectSpyOn.mock.calls[0][0].input).toStrictEqual({
+			...testParams,
+			ContentMD5: md5(testParams.Body),
+		});
+	});
+
+	test('send the Content-MD5 of every part', async () => {
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof CreateMultipartUploadCommand) {
+					return { UploadId: testUploadId };
+				} else if (command instanceof UploadPartCommand) {
+					return { ETag: 'test_etag_' + command.input.PartNumber };
+				} else if (command instanceof CompleteMultipartUploadCommand) {
+					return { Key: testParams.Key };
+				}
+			});
+		const uploader = new TestClass(
+			{ ...testParams },
+			{ ...testOpts, checksum: true },
+			new events.EventEmitter()
+		);
+		await uploader.upload();
+		expect(s3ServiceCallSpy.mock.calls[0][0].input).not.toHaveProperty(
+			'ContentMD5'
+		);
+		expect(
+			[1, 2].map(
+				i => (s3ServiceCallSpy.mock.calls[i][0].input as any).ContentMD5
+			)
+		).toEqual([md5('testDataBo'), md5('dy')]);
+	});
+
+	test('skip the upload of an object which already exists', async () => {
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) return { ETag: 'etag' };
+			});
+		const params = { ...testParams, Key: 'attachments/' };
+		const uploader = new AWSS3ProviderManagedUpload(
+			params,
+			{ ...testOpts, dedup: true },
+			new events.EventEmitter()
+		);
+		expect(await uploader.upload()).toEqual({ ETag: 'etag' });
+		expect(params.Key).toEqual('attachments/' + sha256(testParams.Body));
+		expect(s3ServiceCallSpy).toBeCalledTimes(1);
+		expect(s3ServiceCallSpy.mock.calls[0][0].input).toEqual({
+			Bucket: testParams.Bucket,
+			Key: 'attachments/' + sha256(testParams.Body),
+		});
+	});
+
+	test('upload an object under its content-addressed key', async () => {
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					throw Object.assign(new Error('NotFound'), {
+						$metadata: { httpStatusCode: 404 },
+					});
+				} else if (command instanceof PutObjectCommand) {
+					return command.input.Key;
+				}
+			});
+		const uploader = new AWSS3ProviderManagedUpload(
+			{ ...testParams, Key: 'attachments/' },
+			{ ...testOpts, dedup: true },
+			new events.EventEmitter()
+		);
+		expect(await uploader.upload()).toEqual(
+			'attachments/' + sha256(testParams.Body)
+		);
+		expect(s3ServiceCallSpy.mock.calls[1][0]).toBeInstanceOf(PutObjectCommand);
+	});
+});
+
 describe('multi part upload tests', () => {
 	test('happy case: upload a string as body that splits in two parts', async () => {
 		// setup event handling
@@ -378,4 +478,56 @@ describe('multi part upload tests', () => {
 		expect(loggerSpy).toHaveBeenNthCalledWith(2, 'ERROR', 'Error happened while finishing the upload.');
 		expect(loggerSpy).toHaveBeenNthCalledWith(3, 'ERROR', 'Error. Cancelling the multipart upload.');
 	})
+
+	test('happy case: encrypt each part on the client', async () => {
+		const keyProvider = createKeyProvider();
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof CreateMultipartUploadCommand) {
+					return { UploadId: testUploadId };
+				} else if (command instanceof UploadPartCommand) {
+					return { ETag: 'test_etag_' + command.input.PartNumber };
+				} else if (command instanceof CompleteMultipartUploadCommand) {
+					return { Key: testParams.Key };
+				}
+			});
+
+		const uploader = new TestClass(
+			{ ...testParams },
+			{ ...testOpts, clientSideEncryption: { keyProvider } },
+			new events.EventEmitter()
+		);
+		expect(await uploader.upload()).toBe(testParams.Key);
+
+		const { Metadata } = s3ServiceCallSpy.mock.calls[0][0].input as any;
+		expect(Metadata).toEqual({
+			'amplify-cse-key-id': 'keyId',
+			'amplify-cse-iv': expect.any(String),
+			'amplify-cse-part-size': String(testMinPartSize),
+			'amplify-cse-size': String(testParams.Body.length),
+		});
+		// the parts are sent with their 16 bytes authentication tag
+		const parts = [1, 2].map(
+			i => (s3ServiceCallSpy.mock.calls[i][0].input as any).Body
+		);
+		expect(parts.map(part => part.size)).toEqual([26, 18]);
+		const decrypted = await decryptObject(
+			keyProvider,
+			{
+				keyId: 'keyId',
+				iv: Metadata['amplify-cse-iv'],
+				partSize: 10,
+				size: testParams.Body.length,
+			},
+			new Blob(parts)
+		);
+		expect(
+			await new Promise(resolve => {
+				const reader = new FileReader();
+				reader.onload = () => resolve(reader.result);
+				reader.readAsText(decrypted);
+			})
+		).toEqual(testParams.Body);
+	});
 });
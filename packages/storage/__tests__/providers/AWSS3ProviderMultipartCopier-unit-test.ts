@@ -0,0 +1,247 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import {
+	AWSS3ProviderMultipartCopier,
+	COPY_PROGRESS_EVENT,
+} from '../../src/providers/AWSS3ProviderMultipartCopier';
+import {
+	S3Client,
+	HeadObjectCommand,
+	CopyObjectCommand,
+	CreateMultipartUploadCommand,
+	UploadPartCopyCommand,
+	CompleteMultipartUploadCommand,
+	AbortMultipartUploadCommand,
+	ListPartsCommand,
+} from '@aws-sdk/client-s3';
+import { AWSS3ProviderMultipartCopierErrors } from '../../src/common/StorageErrorStrings';
+import * as events from 'events';
+
+const testUploadId = 'testUploadId';
+
+const testParams: any = {
+	Bucket: 'testBucket',
+	CopySource: 'testBucket/public/src',
+	Key: 'public/dest',
+	MetadataDirective: 'COPY',
+	SSECustomerAlgorithm: 'AES256',
+	SSECustomerKey: '1234567890',
+};
+
+const testHead = {
+	ContentLength: 25,
+	ContentType: 'image/jpeg',
+	Metadata: { album: 'summer' },
+};
+
+const testMinPartSize = 10; // Merely 10 Bytes
+
+/** Extend our test class such that objects above 10 bytes are copied in parts of 10 bytes */
+class TestClass extends AWSS3ProviderMultipartCopier {
+	protected minPartSize = testMinPartSize;
+	protected multipartThreshold = testMinPartSize;
+}
+
+const s3client = new S3Client({ region: 'testRegion' });
+
+afterEach(() => {
+	jest.restoreAllMocks();
+	jest.clearAllMocks();
+});
+
+describe('single copy tests', () => {
+	test('copy an object below the threshold with CopyObject', async () => {
+		const emitter = new events.EventEmitter();
+		const eventSpy = jest.fn();
+		emitter.on(COPY_PROGRESS_EVENT, eventSpy);
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					return { ContentLength: 5 };
+				} else if (command instanceof CopyObjectCommand) {
+					return { CopyObjectResult: { ETag: 'etag' } };
+				}
+			});
+
+		const copier = new TestClass({ params: testParams, s3client, emitter });
+
+		expect(await copier.copy()).toEqual({
+			CopyObjectResult: { ETag: 'etag' },
+		});
+		expect(s3ServiceCallSpy).toBeCalledTimes(2);
+		expect(s3ServiceCallSpy.mock.calls[0][0].input).toStrictEqual({
+			Bucket: 'testBucket',
+			Key: 'public/src',
+		});
+		expect(s3ServiceCallSpy.mock.calls[1][0].input).toStrictEqual(testParams);
+		expect(eventSpy).toBeCalledWith({
+			loaded: 5,
+			total: 5,
+			key: testParams.Key,
+		});
+	});
+
+	test('copy a missing object', async () => {
+		jest.spyOn(S3Client.prototype, 'send').mockImplementation(async () => {
+			throw Object.assign(new Error('NotFound'), {
+				$metadata: { httpStatusCode: 404 },
+			});
+		});
+
+		const copier = new TestClass({ params: testParams, s3client });
+
+		await expect(copier.copy()).rejects.toThrow(
+			AWSS3ProviderMultipartCopierErrors.NO_OBJECT_FOUND
+		);
+	});
+
+	test('invalid copier params', () => {
+		expect(
+			() =>
+				new TestClass({
+					params: { ...testParams, CopySource: undefined },
+					s3client,
+				})
+		).toThrow(AWSS3ProviderMultipartCopierErrors.NO_COPYSOURCE);
+		expect(
+			() => new TestClass({ params: testParams, s3client, queueSize: 0 })
+		).toThrow(AWSS3ProviderMultipartCopierErrors.INVALID_QUEUESIZE);
+	});
+});
+
+describe('multipart copy tests', () => {
+	test('happy case: copy an object that splits in three parts', async () => {
+		const emitter = new events.EventEmitter();
+		const eventSpy = jest.fn();
+		emitter.on(COPY_PROGRESS_EVENT, eventSpy);
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					return testHead;
+				} else if (command instanceof CreateMultipartUploadCommand) {
+					return { UploadId: testUploadId };
+				} else if (command instanceof UploadPartCopyCommand) {
+					return {
+						CopyPartResult: { ETag: 'test_etag_' + command.input.PartNumber },
+					};
+				} else if (command instanceof CompleteMultipartUploadCommand) {
+					return { Key: testParams.Key };
+				}
+			});
+
+		const copier = new TestClass({
+			params: testParams,
+			s3client,
+			emitter,
+			queueSize: 2,
+		});
+
+		expect(await copier.copy()).toEqual({ Key: testParams.Key });
+		expect(s3ServiceCallSpy).toBeCalledTimes(6);
+
+		// The copy keeps the metadata of the source object
+		expect(s3ServiceCallSpy.mock.calls[1][0].input).toEqual({
+			Bucket: testParams.Bucket,
+			Key: testParams.Key,
+			ContentType: 'image/jpeg',
+			Metadata: { album: 'summer' },
+			SSECustomerAlgorithm: testParams.SSECustomerAlgorithm,
+			SSECustomerKey: testParams.SSECustomerKey,
+		});
+
+		// Ranges of the source object
+		expect(
+			s3ServiceCallSpy.mock.calls.slice(2, 5).map(([command]) => command.input)
+		).toEqual(
+			['bytes=0-9', 'bytes=10-19', 'bytes=20-24'].map((range, i) => ({
+				Bucket: testParams.Bucket,
+				Key: testParams.Key,
+				CopySource: testParams.CopySource,
+				CopySourceRange: range,
+				PartNumber: i + 1,
+				UploadId: testUploadId,
+				SSECustomerAlgorithm: testParams.SSECustomerAlgorithm,
+				SSECustomerKey: testParams.SSECustomerKey,
+			}))
+		);
+
+		expect(s3ServiceCallSpy.mock.calls[5][0].input).toStrictEqual({
+			Bucket: testParams.Bucket,
+			Key: testParams.Key,
+			UploadId: testUploadId,
+			MultipartUpload: {
+				Parts: [1, 2, 3].map(PartNumber => ({
+					PartNumber,
+					ETag: 'test_etag_' + PartNumber,
+				})),
+			},
+		});
+
+		expect(eventSpy).toHaveBeenNthCalledWith(3, {
+			loaded: 25,
+			total: 25,
+			key: testParams.Key,
+		});
+	});
+
+	test('error case: a part fails and the multipart copy is aborted', async () => {
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof HeadObjectCommand) {
+					return testHead;
+				} else if (command instanceof CreateMultipartUploadCommand) {
+					return { UploadId: testUploadId };
+				} else if (command instanceof UploadPartCopyCommand) {
+					throw new Error('Part copy failed');
+				} else if (command instanceof ListPartsCommand) {
+					return { Parts: [] };
+				}
+			});
+
+		const copier = new TestClass({ params: testParams, s3client });
+
+		await expect(copier.copy()).rejects.toThrow('Part copy failed');
+
+		const abortCall = s3ServiceCallSpy.mock.calls.find(
+			([command]) => command instanceof AbortMultipartUploadCommand
+		);
+		expect(abortCall[0].input).toStrictEqual({
+			Bucket: testParams.Bucket,
+			Key: testParams.Key,
+			UploadId: testUploadId,
+		});
+	});
+
+	test('error case: the aborted multipart copy still has parts', async () => {
+		jest.spyOn(S3Client.prototype, 'send').mockImplementation(async command => {
+			if (command instanceof HeadObjectCommand) {
+				return testHead;
+			} else if (command instanceof CreateMultipartUploadCommand) {
+				return { UploadId: testUploadId };
+			} else if (command instanceof UploadPartCopyCommand) {
+				throw new Error('Part copy failed');
+			} else if (command instanceof ListPartsCommand) {
+				return { Parts: [{ PartNumber: 1 }] };
+			}
+		});
+
+		const copier = new TestClass({ params: testParams, s3client });
+
+		await expect(copier.copy()).rejects.toThrow(
+			AWSS3ProviderMultipartCopierErrors.CLEANUP_FAILED
+		);
+	});
+});
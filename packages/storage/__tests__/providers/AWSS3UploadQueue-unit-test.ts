@@ -0,0 +1,329 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { Hub, Reachability } from '@aws-amplify/core';
+import {
+	AWSS3UploadQueue,
+	UploadQueueItem,
+	UploadQueueItemState,
+} from '../../src/providers/AWSS3UploadQueue';
+import { AWSS3Provider } from '../../src/providers/AWSS3Provider';
+import { AsyncStorageUploadQueueStorage } from '../../src/common/UploadQueueStorage';
+import { AWSS3UploadQueueErrorStrings } from '../../src/common/StorageErrorStrings';
+import { UPLOAD_QUEUE_STORAGE_KEY } from '../../src/common/StorageConstants';
+
+let mockAsyncStorageItems = {};
+
+const mockAsyncStorage = {
+	getItem: jest.fn(async key => mockAsyncStorageItems[key]),
+	setItem: jest.fn(async (key, value) => {
+		mockAsyncStorageItems[key] = value;
+	}),
+};
+
+let networkStatusObserver: (status: { online: boolean }) => void;
+
+function createTask() {
+	return {
+		resume: jest.fn(),
+		pause: jest.fn(),
+		_cancel: jest.fn(async () => true),
+	};
+}
+
+function createQueue(maxAttempts?: number) {
+	const provider = {
+		put: jest.fn().mockImplementation(() => createTask()),
+	} as unknown as AWSS3Provider;
+	const queue = new AWSS3UploadQueue({
+		provider,
+		storage: new AsyncStorageUploadQueueStorage(mockAsyncStorage),
+		maxAttempts,
+	});
+	return { provider, queue };
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const photo = { uri: 'file:///photo.jpg' };
+
+describe('upload queue test', () => {
+	beforeEach(() => {
+		jest.spyOn(Reachability.prototype, 'networkMonitor').mockImplementation(
+			() =>
+				({
+					subscribe: observer => {
+						networkStatusObserver = observer;
+						return { unsubscribe: jest.fn() };
+					},
+				} as any)
+		);
+		global['fetch'] = jest.fn(
+			async () =>
+				({ blob: async () => new Blob(['photo']) } as unknown as Response)
+		);
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+		jest.clearAllMocks();
+		mockAsyncStorageItems = {};
+		delete global['fetch'];
+	});
+
+	test('uploads the queued items in priority order once online', async () => {
+		const { provider, queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: false });
+
+		const lowId = await queue.enqueue('low', photo);
+		const highId = await queue.enqueue('high', photo, {
+			priority: 1,
+			level: 'private',
+		});
+		expect(provider.put).not.toHaveBeenCalled();
+		expect((await queue.list()).map(item => item.key)).toEqual(['high', 'low']);
+
+		networkStatusObserver({ online: true });
+		await flushPromises();
+		expect(provider.put).toHaveBeenCalledTimes(1);
+		expect(provider.put).toHaveBeenCalledWith('high', expect.any(Blob), {
+			level: 'private',
+			resumable: true,
+			completeCallback: expect.any(Function),
+			errorCallback: expect.any(Function),
+		});
+		expect(global['fetch']).toHaveBeenCalledWith(photo.uri);
+		expect(queue.getTask(highId)).toBeDefined();
+
+		const { completeCallback } = (provider.put as jest.Mock).mock.calls[0][2];
+		await completeCallback({ key: 'high' });
+		await flushPromises();
+		expect(queue.getTask(highId)).toBeUndefined();
+		expect(provider.put).toHaveBeenCalledTimes(2);
+		expect((provider.put as jest.Mock).mock.calls[1][0]).toEqual('low');
+		expect((await queue.list()).map(item => item.id)).toEqual([lowId]);
+		expect(
+			Object.keys(JSON.parse(mockAsyncStorageItems[UPLOAD_QUEUE_STORAGE_KEY]))
+		).toEqual([lowId]);
+	});
+
+	test('dispatches the state of the items to Hub', async () => {
+		const hubSpy = jest.spyOn(Hub, 'dispatch');
+		const { provider, queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: true });
+
+		const id = await queue.enqueue('key', photo, { track: true });
+		await flushPromises();
+		const { completeCallback } = (provider.put as jest.Mock).mock.calls[0][2];
+		await completeCallback({ key: 'key' });
+
+		expect(
+			hubSpy.mock.calls.map(([channel, payload]) => [
+				channel,
+				payload.event,
+				payload.data.attrs.state,
+			])
+		).toEqual([
+			['storage', 'queue', UploadQueueItemState.PENDING],
+			['storage', 'queue', UploadQueueItemState.UPLOADING],
+			['storage', 'queue', UploadQueueItemState.COMPLETED],
+		]);
+		expect(hubSpy.mock.calls[2][1].data.attrs).toEqual({
+			method: 'queue',
+			result: 'success',
+			state: UploadQueueItemState.COMPLETED,
+			id,
+			key: 'key',
+		});
+	});
+
+	test('does not dispatch the state of the items which are not tracked', async () => {
+		const hubSpy = jest.spyOn(Hub, 'dispatch');
+		const { provider, queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: true });
+
+		await queue.enqueue('key', photo);
+		await flushPromises();
+		const { completeCallback } = (provider.put as jest.Mock).mock.calls[0][2];
+		await completeCallback({ key: 'key' });
+
+		expect(hubSpy).not.toHaveBeenCalled();
+	});
+
+	test('retries a failed upload with a backoff until the max attempts', async () => {
+		const { provider, queue } = createQueue(2);
+		await queue.start();
+		networkStatusObserver({ online: true });
+
+		const id = await queue.enqueue('key', photo);
+		await flushPromises();
+		await (provider.put as jest.Mock).mock.calls[0][2].errorCallback(
+			new Error('Network error')
+		);
+		let [item] = await queue.list();
+		expect(item.state).toEqual(UploadQueueItemState.PENDING);
+		expect(item.attempts).toEqual(1);
+		expect(item.retryAt).toBeGreaterThan(Date.now());
+		expect(queue.getTask(id)).toBeUndefined();
+
+		// the item is retried once the backoff has elapsed, a timer may fire a few ms before Date.now() reaches retryAt
+		await new Promise(resolve =>
+			setTimeout(resolve, item.retryAt - Date.now() + 20)
+		);
+		await flushPromises();
+		expect(provider.put).toHaveBeenCalledTimes(2);
+
+		await (provider.put as jest.Mock).mock.calls[1][2].errorCallback(
+			new Error('Network error')
+		);
+		[item] = await queue.list();
+		expect(item.state).toEqual(UploadQueueItemState.FAILED);
+		expect(item.attempts).toEqual(2);
+
+		await queue.retry(id);
+		await flushPromises();
+		expect(provider.put).toHaveBeenCalledTimes(3);
+	});
+
+	test('pauses the upload while offline', async () => {
+		const { provider, queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: true });
+
+		const id = await queue.enqueue('key', photo);
+		await flushPromises();
+		const task = queue.getTask(id);
+
+		networkStatusObserver({ online: false });
+		expect(task.pause).toHaveBeenCalled();
+		networkStatusObserver({ online: true });
+		expect(task.resume).toHaveBeenCalled();
+		expect(provider.put).toHaveBeenCalledTimes(1);
+	});
+
+	test('resumes the items persisted by a previous session', async () => {
+		const { queue: previousQueue } = createQueue();
+		await previousQueue.start();
+		networkStatusObserver({ online: true });
+		const id = await previousQueue.enqueue('key', photo);
+		await flushPromises();
+		await previousQueue.stop();
+
+		const { provider, queue } = createQueue();
+		await queue.start();
+		expect((await queue.list()).map(item => [item.id, item.state])).toEqual([
+			[id, UploadQueueItemState.PENDING],
+		]);
+		networkStatusObserver({ online: true });
+		await flushPromises();
+		expect(provider.put).toHaveBeenCalledWith(
+			'key',
+			expect.any(Blob),
+			expect.objectContaining({ resumable: true })
+		);
+	});
+
+	test('removes an item and cancels its upload', async () => {
+		const { queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: true });
+
+		const id = await queue.enqueue('key', photo);
+		await flushPromises();
+		const task = queue.getTask(id);
+		await queue.remove(id);
+
+		expect(task._cancel).toHaveBeenCalled();
+		expect(await queue.list()).toEqual([]);
+		await expect(queue.remove(id)).rejects.toThrow(
+			AWSS3UploadQueueErrorStrings.NO_ITEM_FOUND
+		);
+	});
+
+	test('does not start the upload of an item removed while its body is read', async () => {
+		let resolveFetch: (response: Response) => void;
+		global['fetch'] = jest.fn(
+			() => new Promise<Response>(resolve => (resolveFetch = resolve))
+		);
+		const { provider, queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: true });
+
+		const id = await queue.enqueue('key', photo);
+		await flushPromises();
+		expect(global['fetch']).toHaveBeenCalledWith(photo.uri);
+		await queue.remove(id);
+		resolveFetch({
+			blob: async () => new Blob(['photo']),
+		} as unknown as Response);
+		await flushPromises();
+
+		expect(provider.put).not.toHaveBeenCalled();
+		expect(queue.getTask(id)).toBeUndefined();
+		expect(await queue.list()).toEqual([]);
+	});
+
+	test('goes on with the next item when the state of an item fails to be persisted', async () => {
+		const { provider, queue } = createQueue();
+		await queue.start();
+		networkStatusObserver({ online: false });
+		await queue.enqueue('first', photo);
+		await queue.enqueue('second', photo);
+		networkStatusObserver({ online: true });
+		await flushPromises();
+
+		mockAsyncStorage.setItem.mockRejectedValueOnce(new Error('Disk full'));
+		await (provider.put as jest.Mock).mock.calls[0][2].completeCallback({
+			key: 'first',
+		});
+		await flushPromises();
+
+		expect(provider.put).toHaveBeenCalledTimes(2);
+		expect((provider.put as jest.Mock).mock.calls[1][0]).toEqual('second');
+	});
+
+	test('AsyncStorage can not persist a Blob', async () => {
+		const { queue } = createQueue();
+		await expect(queue.enqueue('key', new Blob(['photo']))).rejects.toThrow(
+			AWSS3UploadQueueErrorStrings.BLOB_NOT_PERSISTABLE
+		);
+	});
+
+	test('AsyncStorage keeps the items saved and removed at the same time', async () => {
+		const storage = new AsyncStorageUploadQueueStorage({
+			getItem: async key => {
+				const items = mockAsyncStorageItems[key];
+				await flushPromises();
+				return items;
+			},
+			setItem: mockAsyncStorage.setItem,
+		});
+		const item = (id: string): UploadQueueItem => ({
+			id,
+			key: id,
+			body: photo,
+			config: {},
+			priority: 0,
+			createdAt: 0,
+			attempts: 0,
+			retryAt: 0,
+			state: UploadQueueItemState.PENDING,
+		});
+
+		await storage.save(item('a'));
+		await Promise.all([storage.save(item('b')), storage.remove('a')]);
+		expect((await storage.getAll()).map(({ id }) => id)).toEqual(['b']);
+	});
+});
@@ -10,9 +10,13 @@ import {
 	ListPartsCommand,
 	CreateMultipartUploadCommand,
 	ListObjectsV2Command,
+	UploadPartCommand,
+	CompleteMultipartUploadCommand,
 } from '@aws-sdk/client-s3';
 import { StorageAccessLevel, FileMetadata } from '../../src/types';
 import { UPLOADS_STORAGE_KEY } from '../../src/common/StorageConstants';
+import { decryptObject } from '../../src/common/ClientSideEncryption';
+import { createKeyProvider } from '../helpers';
 
 afterEach(() => {
 	jest.clearAllMocks();
@@ -73,6 +77,116 @@ describe('resumable upload task test', () => {
 		expect(uploadTask.isInProgress).toBeFalsy();
 	});
 
+	test('should encrypt the parts with client side encryption', async () => {
+		const keyProvider = createKeyProvider();
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof CreateMultipartUploadCommand) {
+					return { UploadId: 'uploadId' };
+				} else if (command instanceof UploadPartCommand) {
+					return { ETag: 'etag-1' };
+				} else if (command instanceof CompleteMultipartUploadCommand) {
+					return {};
+				} else if (command instanceof ListObjectsV2Command) {
+					// the size of the file with the authentication tag of its single part
+					return { Contents: [{ Key: 'prefixkey', Size: 31 }] };
+				}
+			});
+		const file = new File(['TestFileContent'], 'testFileName');
+		const emitter = new events.EventEmitter();
+		const completed = new Promise(resolve =>
+			emitter.on('uploadComplete', resolve)
+		);
+		const uploadTask = new AWSS3UploadTask({
+			file,
+			s3Client: new S3Client(testOpts),
+			emitter,
+			storage: mockLocalStorage,
+			level: 'public' as StorageAccessLevel,
+			params: {
+				Bucket: 'bucket',
+				Key: 'key',
+			},
+			prefixPromise: Promise.resolve('prefix'),
+			clientSideEncryption: { keyProvider },
+		});
+		uploadTask.resume();
+		await completed;
+
+		const createInput = s3ServiceCallSpy.mock.calls[0][0].input as any;
+		expect(createInput.Metadata).toEqual({
+			'amplify-cse-key-id': 'keyId',
+			'amplify-cse-iv': expect.any(String),
+			'amplify-cse-part-size': String(5 * 1024 * 1024),
+			'amplify-cse-size': String(file.size),
+		});
+		// the envelope is cached such that a resumed upload encrypts its parts with it
+		const cachedTasks = JSON.parse(
+			(mockLocalStorage.setItem as jest.Mock).mock.calls[0][1]
+		);
+		const [cachedTask] = Object.values(cachedTasks) as any[];
+		expect(cachedTask.encryption).toEqual({
+			keyId: 'keyId',
+			iv: createInput.Metadata['amplify-cse-iv'],
+			partSize: 5 * 1024 * 1024,
+			size: file.size,
+		});
+		const { Body } = s3ServiceCallSpy.mock.calls[1][0].input as any;
+		expect(Body.size).toEqual(file.size + 16);
+		const decrypted = await decryptObject(
+			keyProvider,
+			cachedTask.encryption,
+			Body
+		);
+		expect(decrypted.size).toEqual(file.size);
+		expect(uploadTask.percent).toEqual(100);
+	});
+
+	test('should send the Content-MD5 of the parts with checksum', async () => {
+		const s3ServiceCallSpy = jest
+			.spyOn(S3Client.prototype, 'send')
+			.mockImplementation(async command => {
+				if (command instanceof CreateMultipartUploadCommand) {
+					return { UploadId: 'uploadId' };
+				} else if (command instanceof UploadPartCommand) {
+					return { ETag: 'etag-1' };
+				} else if (command instanceof CompleteMultipartUploadCommand) {
+					return {};
+				} else if (command instanceof ListObjectsV2Command) {
+					return { Contents: [{ Key: 'prefixkey', Size: 15 }] };
+				}
+			});
+		const file = new File(['TestFileContent'], 'testFileName');
+		const emitter = new events.EventEmitter();
+		const completed = new Promise(resolve =>
+			emitter.on('uploadComplete', resolve)
+		);
+		const uploadTask = new AWSS3UploadTask({
+			file,
+			s3Client: new S3Client(testOpts),
+			emitter,
+			storage: mockLocalStorage,
+			level: 'public' as StorageAccessLevel,
+			params: {
+				Bucket: 'bucket',
+				Key: 'key',
+			},
+			prefixPromise: Promise.resolve('prefix'),
+			checksum: true,
+		});
+		uploadTask.resume();
+		await completed;
+
+		expect(s3ServiceCallSpy.mock.calls[1][0]).toBeInstanceOf(UploadPartCommand);
+		expect((s3ServiceCallSpy.mock.calls[1][0].input as any).ContentMD5).toEqual(
+			require('crypto')
+				.createHash('md5')
+				.update('TestFileContent')
+				.digest('base64')
+		);
+	});
+
 	test('pause, resume, cancel should set the task state accordingly', async () => {
 		const file = new File(['TestFileContent'], 'testFileName');
 		Object.defineProperty(file, 'size', { value: 25048576 });
@@ -190,4 +304,5 @@ describe('resumable upload task test', () => {
 			'{}'
 		);
 	});
+
 });
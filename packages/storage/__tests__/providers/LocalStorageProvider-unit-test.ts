@@ -0,0 +1,200 @@
+import { Hub } from '@aws-amplify/core';
+import { LocalStorageProvider } from '../../src/providers/LocalStorageProvider';
+import { StorageClass } from '../../src';
+import { InMemoryLocalStorageBackend } from '../../src/common/LocalStorageBackend';
+import { LocalStorageProviderErrorStrings } from '../../src/common/StorageErrorStrings';
+import { UploadTask } from '../../src/types';
+
+const readAsText = (blob: Blob): Promise<string> =>
+	new Promise(resolve => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.readAsText(blob);
+	});
+
+describe('local storage provider test', () => {
+	let backend: InMemoryLocalStorageBackend;
+	let provider: LocalStorageProvider;
+
+	beforeEach(() => {
+		backend = new InMemoryLocalStorageBackend();
+		provider = new LocalStorageProvider({ backend, identityId: 'identityId' });
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+	});
+
+	test('put and get an object', async () => {
+		expect(
+			await provider.put('photo.txt', 'content', {
+				contentType: 'text/plain',
+				metadata: { album: 'summer' },
+			})
+		).toEqual({ key: 'photo.txt' });
+		expect(await backend.keys()).toEqual(['public/photo.txt']);
+
+		const output = await provider.get('photo.txt', { download: true });
+		expect(output).toEqual({
+			$metadata: {},
+			Body: expect.any(Blob),
+			ContentLength: 7,
+			ContentType: 'text/plain',
+			ETag: expect.any(String),
+			LastModified: expect.any(Date),
+			Metadata: { album: 'summer' },
+		});
+		expect(await readAsText(output.Body as Blob)).toEqual('content');
+		expect(await provider.get('photo.txt')).toEqual(
+			'data:text/plain;base64,' + btoa('content')
+		);
+	});
+
+	test('get an object which does not exist', async () => {
+		await expect(provider.get('missing', { download: true })).rejects.toEqual(
+			expect.objectContaining({
+				name: 'NoSuchKey',
+				message: LocalStorageProviderErrorStrings.NO_SUCH_KEY,
+				$metadata: { httpStatusCode: 404 },
+			})
+		);
+	});
+
+	test('prefix the keys with the access level and custom prefix', async () => {
+		provider.configure({ customPrefix: { public: '' } });
+		await provider.put('a', 'a');
+		await provider.put('b', 'b', { level: 'private' });
+		await provider.put('c', 'c', { level: 'protected' });
+
+		expect((await backend.keys()).sort()).toEqual([
+			'a',
+			'private/identityId/b',
+			'protected/identityId/c',
+		]);
+		expect(
+			(await provider.list('', { level: 'private' })).map(item => item.key)
+		).toEqual(['b']);
+		expect(
+			await provider.get('c', {
+				level: 'protected',
+				identityId: 'identityId',
+				download: true,
+			})
+		).toEqual(expect.objectContaining({ ContentLength: 1 }));
+	});
+
+	test('list the objects in pages and folders', async () => {
+		await Promise.all(
+			['photos/1.jpg', 'photos/2.jpg', 'videos/1.mp4', 'readme'].map(key =>
+				provider.put(key, key, { contentType: 'text/plain' })
+			)
+		);
+
+		const items = await provider.list('photos/');
+		expect(items).toEqual([
+			{
+				key: 'photos/1.jpg',
+				eTag: expect.any(String),
+				lastModified: expect.any(Date),
+				size: 12,
+			},
+			expect.objectContaining({ key: 'photos/2.jpg' }),
+		]);
+
+		const firstPage = await provider.list('', { delimiter: '/', pageSize: 2 });
+		expect(firstPage).toEqual({
+			results: [expect.objectContaining({ key: 'readme' })],
+			prefixes: ['photos/'],
+			nextToken: expect.any(String),
+		});
+		const secondPage = await provider.list('', {
+			delimiter: '/',
+			pageSize: 2,
+			nextToken: firstPage.nextToken,
+		});
+		expect(secondPage.results).toEqual([]);
+		expect(secondPage.prefixes).toEqual(['videos/']);
+		expect(secondPage.nextToken).toBeUndefined();
+	});
+
+	test('copy and remove an object', async () => {
+		await provider.put('src', 'content', { level: 'protected' });
+
+		expect(
+			await provider.copy(
+				{ key: 'src', level: 'protected', identityId: 'identityId' },
+				{ key: 'dest' }
+			)
+		).toEqual({ key: 'dest' });
+		expect(await provider.remove('src', { level: 'protected' })).toEqual({
+			$metadata: {},
+		});
+		expect((await provider.list('')).map(item => item.key)).toEqual(['dest']);
+		// removing an object which does not exist succeeds like in S3
+		await provider.remove('src', { level: 'protected' });
+	});
+
+	test('report the progress of a resumable upload', async () => {
+		const body = new Blob([new Uint8Array(6 * 1024 * 1024)]);
+		const progressCallback = jest.fn();
+		let task: UploadTask;
+		await new Promise(resolve => {
+			task = provider.put('video', body, {
+				resumable: true,
+				progressCallback,
+				completeCallback: resolve,
+			});
+		});
+
+		expect(progressCallback.mock.calls).toEqual([
+			[{ loaded: 5 * 1024 * 1024, total: body.size }],
+			[{ loaded: body.size, total: body.size }],
+		]);
+		expect(task.percent).toEqual(100);
+		expect(task.isInProgress).toBe(false);
+		expect(await backend.keys()).toEqual(['public/video']);
+	});
+
+	test('pause a resumable upload', async () => {
+		const body = new Blob([new Uint8Array(6 * 1024 * 1024)]);
+		const completeCallback = jest.fn();
+		const progressCallback = jest.fn(() => task.pause());
+		const task = provider.put('video', body, {
+			resumable: true,
+			progressCallback,
+			completeCallback,
+		});
+		await new Promise(resolve => setTimeout(resolve, 0));
+
+		expect(task.percent).toBeLessThan(100);
+		expect(completeCallback).not.toBeCalled();
+		expect(await backend.keys()).toEqual([]);
+
+		expect(progressCallback).toBeCalledTimes(1);
+
+		progressCallback.mockImplementation(() => {});
+		task.resume();
+		await new Promise(resolve => setTimeout(resolve, 0));
+		expect(completeCallback).toBeCalledWith({ key: 'video' });
+	});
+
+	test('use the provider with Storage', async () => {
+		const hubSpy = jest.spyOn(Hub, 'dispatch');
+		const storage = new StorageClass();
+		storage.addPluggable(new LocalStorageProvider({ backend }));
+		storage.configure({ LocalStorage: { track: true } });
+
+		await storage.put('key', { value: 1 }, { provider: 'LocalStorage' });
+		const { Body } = await storage.get('key', {
+			provider: 'LocalStorage',
+			download: true,
+		});
+		expect(JSON.parse(await readAsText(Body as Blob))).toEqual({ value: 1 });
+		expect(hubSpy).toBeCalledWith(
+			'storage',
+			expect.objectContaining({ event: 'upload' }),
+			'Storage',
+			expect.anything()
+		);
+	});
+});
@@ -26,13 +26,36 @@ import {
 	StorageGetOutput,
 	StoragePutOutput,
 	StorageRemoveOutput,
+	StorageRemoveManyOutput,
 	StorageListOutput,
+	StorageListPageOutput,
+	StorageListAllOutput,
 	StorageCopyOutput,
+	StorageMoveOutput,
 	UploadTask,
+	DownloadTask,
+	StorageGetPropertiesConfig,
+	StorageGetPropertiesOutput,
+	StorageUpdateMetadataConfig,
+	StorageUpdateMetadataOutput,
+	StorageTagsConfig,
+	StorageGetTagsOutput,
+	StorageSetTagsOutput,
+	StorageListVersionsConfig,
+	StorageListVersionsOutput,
+	StorageRestoreVersionConfig,
+	StorageRestoreVersionOutput,
+	StorageGetUploadUrlConfig,
+	StorageGetUploadUrlOutput,
+	StorageGetPresignedPostConfig,
+	StorageGetPresignedPostOutput,
+	S3ProviderListPageOptions,
+	S3ProviderListItemsOptions,
 } from './types';
 import axios, { CancelTokenSource } from 'axios';
 import { PutObjectCommandInput } from '@aws-sdk/client-s3';
 import { AWSS3UploadTask } from './providers/AWSS3UploadTask';
+import { AWSS3DownloadTask } from './providers/AWSS3DownloadTask';
 
 const logger = new Logger('StorageClass');
 
@@ -73,7 +96,18 @@ export class Storage {
 		this.get = this.get.bind(this);
 		this.put = this.put.bind(this);
 		this.remove = this.remove.bind(this);
+		this.removeMany = this.removeMany.bind(this);
+		this.removePrefix = this.removePrefix.bind(this);
 		this.list = this.list.bind(this);
+		this.listAll = this.listAll.bind(this);
+		this.getProperties = this.getProperties.bind(this);
+		this.updateMetadata = this.updateMetadata.bind(this);
+		this.getTags = this.getTags.bind(this);
+		this.setTags = this.setTags.bind(this);
+		this.listVersions = this.listVersions.bind(this);
+		this.restoreVersion = this.restoreVersion.bind(this);
+		this.getUploadUrl = this.getUploadUrl.bind(this);
+		this.getPresignedPost = this.getPresignedPost.bind(this);
 	}
 
 	public getModuleName() {
@@ -212,13 +246,19 @@ export class Storage {
 	 * @param request - The request to cancel
 	 * @param [message] - A message to include in the cancelation exception
 	 */
-	public cancel(request: UploadTask, message?: string): Promise<boolean>;
+	public cancel(
+		request: UploadTask | DownloadTask,
+		message?: string
+	): Promise<boolean>;
 	public cancel(request: Promise<any>, message?: string): void;
 	public cancel(
-		request: Promise<any> | UploadTask,
+		request: Promise<any> | UploadTask | DownloadTask,
 		message?: string
 	): void | Promise<boolean> {
-		if (request instanceof AWSS3UploadTask) {
+		if (
+			request instanceof AWSS3UploadTask ||
+			request instanceof AWSS3DownloadTask
+		) {
 			return request._cancel();
 		}
 		const cancelTokenSource = this._cancelTokenSourceMap.get(
@@ -273,6 +313,42 @@ export class Storage {
 		return responsePromise as StorageCopyOutput<T>;
 	}
 
+	/**
+	 * Moves a file from src to dest, removing src once the copy is verified.
+	 *
+	 * @param src - The source object.
+	 * @param dest - The destination object.
+	 * @param [config] - config for the Storage operation.
+	 * @return A promise resolves to the moved object's key.
+	 */
+	public move<T extends Record<string, any>>(
+		src: StorageCopySource,
+		dest: StorageCopyDestination,
+		config?: StorageCopyConfig<T>
+	): StorageMoveOutput<T>;
+	public move<T extends StorageProviderWithCopy = AWSS3Provider>(
+		src: Parameters<T['copy']>[0],
+		dest: Parameters<T['copy']>[1],
+		config?: StorageCopyConfig<T>
+	): StorageMoveOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageMoveOutput<T>;
+		}
+		if (typeof prov.move !== 'function') {
+			return Promise.reject(
+				`.move is not implemented on provider ${prov.getProviderName()}`
+			) as StorageMoveOutput<T>;
+		}
+		return prov.move(src, dest, config) as StorageMoveOutput<T>;
+	}
+
 	/**
 	 * Get a presigned URL of the file or the object data when download:true
 	 *
@@ -377,20 +453,94 @@ export class Storage {
 		return prov.remove(key, config) as StorageRemoveOutput<T>;
 	}
 
+	/**
+	 * Remove the objects for specified keys, in batches
+	 * @param keys - keys of the objects
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to { deleted, errors } with the keys that could not be removed
+	 */
+	public removeMany<T extends Record<string, any>>(
+		keys: string[],
+		config?: StorageRemoveConfig<T>
+	): StorageRemoveManyOutput<T>;
+	public removeMany<T extends StorageProvider = AWSS3Provider>(
+		keys: string[],
+		config?: StorageRemoveConfig<T>
+	): StorageRemoveManyOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageRemoveManyOutput<T>;
+		}
+		if (typeof prov.removeMany !== 'function') {
+			return Promise.reject(
+				`.removeMany is not implemented on provider ${prov.getProviderName()}`
+			) as StorageRemoveManyOutput<T>;
+		}
+		return prov.removeMany(keys, config) as StorageRemoveManyOutput<T>;
+	}
+
+	/**
+	 * Remove all objects under the path relative to the level specified
+	 * @param path - the path that contains objects
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to { deleted, errors } with the keys that could not be removed
+	 */
+	public removePrefix<T extends Record<string, any>>(
+		path: string,
+		config?: StorageRemoveConfig<T>
+	): StorageRemoveManyOutput<T>;
+	public removePrefix<T extends StorageProvider = AWSS3Provider>(
+		path: string,
+		config?: StorageRemoveConfig<T>
+	): StorageRemoveManyOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageRemoveManyOutput<T>;
+		}
+		if (typeof prov.removePrefix !== 'function') {
+			return Promise.reject(
+				`.removePrefix is not implemented on provider ${prov.getProviderName()}`
+			) as StorageRemoveManyOutput<T>;
+		}
+		return prov.removePrefix(path, config) as StorageRemoveManyOutput<T>;
+	}
+
 	/**
 	 * List bucket objects relative to the level and prefix specified
 	 * @param path - the path that contains objects
-	 * @param [config] - { level : private|protected|public, maxKeys: NUMBER }
-	 * @return - Promise resolves to list of keys for all objects in path
+	 * @param [config] - { level : private|protected|public, maxKeys: NUMBER, pageSize: NUMBER, nextToken: STRING,
+	 *  delimiter: STRING }
+	 * @return - Promise resolves to list of keys for all objects in path, or to a page of the listing
+	 *  { results, prefixes, nextToken } when pageSize, nextToken or delimiter is set
 	 */
 	public list<T extends Record<string, any>>(
 		key: string,
-		config?: StorageListConfig<T>
+		config: StorageListConfig<T> & S3ProviderListPageOptions
+	): StorageListPageOutput<T>;
+	public list<T extends Record<string, any>>(
+		key: string,
+		config?: StorageListConfig<T> & S3ProviderListItemsOptions
 	): StorageListOutput<T>;
+	public list<T extends Record<string, any>>(
+		key: string,
+		config?: StorageListConfig<T>
+	): StorageListOutput<T> | StorageListPageOutput<T>;
 	public list<T extends StorageProvider = AWSS3Provider>(
 		path: string,
 		config?: StorageListConfig<T>
-	): StorageListOutput<T> {
+	): StorageListOutput<T> | StorageListPageOutput<T> {
 		const provider = config?.provider || DEFAULT_PROVIDER;
 		const prov = this._pluggables.find(
 			pluggable => pluggable.getProviderName() === provider
@@ -401,7 +551,317 @@ export class Storage {
 				'No plugin found in Storage for the provider'
 			) as StorageListOutput<T>;
 		}
-		return prov.list(path, config) as StorageListOutput<T>;
+		return prov.list(path, config) as
+			| StorageListOutput<T>
+			| StorageListPageOutput<T>;
+	}
+
+	/**
+	 * List bucket objects relative to the level and prefix specified, following all the pages of the listing
+	 * @param path - the path that contains objects
+	 * @param [config] - { level : private|protected|public, pageSize: NUMBER, delimiter: STRING }
+	 * @return - Promise resolves to { results, prefixes } for all objects in path
+	 */
+	public listAll<T extends Record<string, any>>(
+		path: string,
+		config?: StorageListConfig<T>
+	): StorageListAllOutput<T>;
+	public listAll<T extends StorageProvider = AWSS3Provider>(
+		path: string,
+		config?: StorageListConfig<T>
+	): StorageListAllOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageListAllOutput<T>;
+		}
+		if (typeof prov.listAll !== 'function') {
+			return Promise.reject(
+				`.listAll is not implemented on provider ${prov.getProviderName()}`
+			) as StorageListAllOutput<T>;
+		}
+		return prov.listAll(path, config) as StorageListAllOutput<T>;
+	}
+
+	/**
+	 * Get the properties of the object for specified key
+	 * @param key - key of the object
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to { size, contentType, eTag, lastModified, metadata, versionId }
+	 */
+	public getProperties<T extends Record<string, any>>(
+		key: string,
+		config?: StorageGetPropertiesConfig<T>
+	): StorageGetPropertiesOutput<T>;
+	public getProperties<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		config?: StorageGetPropertiesConfig<T>
+	): StorageGetPropertiesOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageGetPropertiesOutput<T>;
+		}
+		if (typeof prov.getProperties !== 'function') {
+			return Promise.reject(
+				`.getProperties is not implemented on provider ${prov.getProviderName()}`
+			) as StorageGetPropertiesOutput<T>;
+		}
+		return prov.getProperties(key, config) as StorageGetPropertiesOutput<T>;
+	}
+
+	/**
+	 * Replace the user metadata of the object for specified key
+	 * @param key - key of the object
+	 * @param metadata - the new user metadata of the object
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to the key of the object
+	 */
+	public updateMetadata<T extends Record<string, any>>(
+		key: string,
+		metadata: Record<string, string>,
+		config?: StorageUpdateMetadataConfig<T>
+	): StorageUpdateMetadataOutput<T>;
+	public updateMetadata<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		metadata: Record<string, string>,
+		config?: StorageUpdateMetadataConfig<T>
+	): StorageUpdateMetadataOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageUpdateMetadataOutput<T>;
+		}
+		if (typeof prov.updateMetadata !== 'function') {
+			return Promise.reject(
+				`.updateMetadata is not implemented on provider ${prov.getProviderName()}`
+			) as StorageUpdateMetadataOutput<T>;
+		}
+		return prov.updateMetadata(
+			key,
+			metadata,
+			config
+		) as StorageUpdateMetadataOutput<T>;
+	}
+
+	/**
+	 * Get the tags of the object for specified key
+	 * @param key - key of the object
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to the tags of the object, by tag key
+	 */
+	public getTags<T extends Record<string, any>>(
+		key: string,
+		config?: StorageTagsConfig<T>
+	): StorageGetTagsOutput<T>;
+	public getTags<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		config?: StorageTagsConfig<T>
+	): StorageGetTagsOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageGetTagsOutput<T>;
+		}
+		if (typeof prov.getTags !== 'function') {
+			return Promise.reject(
+				`.getTags is not implemented on provider ${prov.getProviderName()}`
+			) as StorageGetTagsOutput<T>;
+		}
+		return prov.getTags(key, config) as StorageGetTagsOutput<T>;
+	}
+
+	/**
+	 * Replace the tags of the object for specified key
+	 * @param key - key of the object
+	 * @param tags - the new tags of the object, by tag key
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to the key of the object
+	 */
+	public setTags<T extends Record<string, any>>(
+		key: string,
+		tags: Record<string, string>,
+		config?: StorageTagsConfig<T>
+	): StorageSetTagsOutput<T>;
+	public setTags<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		tags: Record<string, string>,
+		config?: StorageTagsConfig<T>
+	): StorageSetTagsOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageSetTagsOutput<T>;
+		}
+		if (typeof prov.setTags !== 'function') {
+			return Promise.reject(
+				`.setTags is not implemented on provider ${prov.getProviderName()}`
+			) as StorageSetTagsOutput<T>;
+		}
+		return prov.setTags(key, tags, config) as StorageSetTagsOutput<T>;
+	}
+
+	/**
+	 * List all versions of the bucket objects relative to the level and prefix specified, including delete markers
+	 * @param path - the path that contains objects
+	 * @param [config] - { level : private|protected|public, pageSize: NUMBER }
+	 * @return - Promise resolves to the versions { key, versionId, isLatest, isDeleteMarker, lastModified, eTag, size }
+	 */
+	public listVersions<T extends Record<string, any>>(
+		path: string,
+		config?: StorageListVersionsConfig<T>
+	): StorageListVersionsOutput<T>;
+	public listVersions<T extends StorageProvider = AWSS3Provider>(
+		path: string,
+		config?: StorageListVersionsConfig<T>
+	): StorageListVersionsOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageListVersionsOutput<T>;
+		}
+		if (typeof prov.listVersions !== 'function') {
+			return Promise.reject(
+				`.listVersions is not implemented on provider ${prov.getProviderName()}`
+			) as StorageListVersionsOutput<T>;
+		}
+		return prov.listVersions(path, config) as StorageListVersionsOutput<T>;
+	}
+
+	/**
+	 * Restore a previous version of the object for specified key, by copying it over the current version
+	 * @param key - key of the object
+	 * @param versionId - the version to restore
+	 * @param [config] - { level : private|protected|public }
+	 * @return - Promise resolves to { key, versionId } with the version created by the restore
+	 */
+	public restoreVersion<T extends Record<string, any>>(
+		key: string,
+		versionId: string,
+		config?: StorageRestoreVersionConfig<T>
+	): StorageRestoreVersionOutput<T>;
+	public restoreVersion<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		versionId: string,
+		config?: StorageRestoreVersionConfig<T>
+	): StorageRestoreVersionOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageRestoreVersionOutput<T>;
+		}
+		if (typeof prov.restoreVersion !== 'function') {
+			return Promise.reject(
+				`.restoreVersion is not implemented on provider ${prov.getProviderName()}`
+			) as StorageRestoreVersionOutput<T>;
+		}
+		return prov.restoreVersion(
+			key,
+			versionId,
+			config
+		) as StorageRestoreVersionOutput<T>;
+	}
+
+	/**
+	 * Get a presigned URL to upload an object for specified key with a PUT request
+	 * @param key - key of the object
+	 * @param [config] - { level : private|protected|public, expires, contentType }
+	 * @return - Promise resolves to the presigned URL
+	 */
+	public getUploadUrl<T extends Record<string, any>>(
+		key: string,
+		config?: StorageGetUploadUrlConfig<T>
+	): StorageGetUploadUrlOutput<T>;
+	public getUploadUrl<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		config?: StorageGetUploadUrlConfig<T>
+	): StorageGetUploadUrlOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageGetUploadUrlOutput<T>;
+		}
+		if (typeof prov.getUploadUrl !== 'function') {
+			return Promise.reject(
+				`.getUploadUrl is not implemented on provider ${prov.getProviderName()}`
+			) as StorageGetUploadUrlOutput<T>;
+		}
+		return prov.getUploadUrl(key, config) as StorageGetUploadUrlOutput<T>;
+	}
+
+	/**
+	 * Get the URL and the fields of an HTML form to upload an object for specified key with a POST request
+	 * @param key - key of the object
+	 * @param [config] - { level : private|protected|public, expires, contentType, maxSize, conditions }
+	 * @return - Promise resolves to { url, fields }
+	 */
+	public getPresignedPost<T extends Record<string, any>>(
+		key: string,
+		config?: StorageGetPresignedPostConfig<T>
+	): StorageGetPresignedPostOutput<T>;
+	public getPresignedPost<T extends StorageProvider = AWSS3Provider>(
+		key: string,
+		config?: StorageGetPresignedPostConfig<T>
+	): StorageGetPresignedPostOutput<T> {
+		const provider = config?.provider || DEFAULT_PROVIDER;
+		const prov = this._pluggables.find(
+			pluggable => pluggable.getProviderName() === provider
+		);
+		if (prov === undefined) {
+			logger.debug('No plugin found with providerName', provider);
+			return Promise.reject(
+				'No plugin found in Storage for the provider'
+			) as StorageGetPresignedPostOutput<T>;
+		}
+		if (typeof prov.getPresignedPost !== 'function') {
+			return Promise.reject(
+				`.getPresignedPost is not implemented on provider ${prov.getProviderName()}`
+			) as StorageGetPresignedPostOutput<T>;
+		}
+		return prov.getPresignedPost(
+			key,
+			config
+		) as StorageGetPresignedPostOutput<T>;
 	}
 }
 
@@ -0,0 +1,57 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { HashConstructor } from '@aws-sdk/types';
+import { isBlob, readAsArrayBuffer, toBase64 } from './StorageUtils';
+
+/**
+ * Base64 encoded MD5 of a body, S3 rejects a request whose body does not match its Content-MD5 header
+ * @param Md5 - the MD5 implementation of the S3 client, `s3Client.config.md5`
+ * @param body - the body of the request
+ */
+export const calculateContentMd5 = async (
+	Md5: HashConstructor,
+	body: any
+): Promise<string> => toBase64(await digest(Md5, body));
+
+/**
+ * Hex encoded SHA-256 of a body
+ * @param Sha256 - the SHA-256 implementation of the S3 client, `s3Client.config.sha256`
+ * @param body - the body of the request
+ * @param partSize - the size in bytes of the parts a Blob body is read in
+ */
+export const calculateSha256 = async (
+	Sha256: HashConstructor,
+	body: any,
+	partSize?: number
+): Promise<string> => toHex(await digest(Sha256, body, partSize));
+
+const digest = async (
+	Hash: HashConstructor,
+	body: any,
+	partSize = Infinity
+) => {
+	const hash = new Hash();
+	if (isBlob(body)) {
+		// a large file is hashed part by part rather than read in memory at once
+		for (let start = 0; start < body.size; start += partSize) {
+			hash.update(await readAsArrayBuffer(body.slice(start, start + partSize)));
+		}
+	} else {
+		hash.update(body);
+	}
+	return hash.digest();
+};
+
+const toHex = (bytes: Uint8Array) =>
+	Array.from(bytes, byte => ('0' + byte.toString(16)).slice(-2)).join('');
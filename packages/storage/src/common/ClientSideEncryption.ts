@@ -0,0 +1,179 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import {
+	ClientSideEncryptionCrypto,
+	ClientSideEncryptionKeyProvider,
+} from '../types';
+import { ClientSideEncryptionErrorStrings } from './StorageErrorStrings';
+import {
+	fromBase64,
+	isBlob,
+	readAsArrayBuffer,
+	toBase64,
+} from './StorageUtils';
+
+const ALGORITHM = 'AES-GCM';
+// 96 bits, the IV length recommended for AES-GCM
+const IV_LENGTH = 12;
+// 128 bits, the default tag length of AES-GCM which WebCrypto appends to every encrypted part
+export const TAG_LENGTH = 16;
+
+// user metadata of the encrypted objects, S3 stores them as x-amz-meta-* headers
+const KEY_ID_METADATA = 'amplify-cse-key-id';
+const IV_METADATA = 'amplify-cse-iv';
+const PART_SIZE_METADATA = 'amplify-cse-part-size';
+const SIZE_METADATA = 'amplify-cse-size';
+
+/**
+ * Describes how an object was encrypted. Every part of the object is encrypted separately with the same key, the IV
+ * of a part is the base IV with the part number mixed into its last 4 bytes such that no IV is reused for a key.
+ */
+export interface EncryptionEnvelope {
+	keyId: string;
+	// base64 encoded base IV
+	iv: string;
+	// size of the plaintext parts in bytes, every part but the last one has this size
+	partSize: number;
+	// size of the plaintext object in bytes, tells whether parts were dropped from the end of the object
+	size: number;
+}
+
+export const createEncryptionEnvelope = async (
+	keyProvider: ClientSideEncryptionKeyProvider,
+	partSize: number,
+	size: number
+): Promise<{ envelope: EncryptionEnvelope; key: CryptoKey }> => {
+	const webCrypto = getWebCrypto(keyProvider);
+	const { keyId, key } = await keyProvider.getEncryptionKey();
+	const iv = webCrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+	return { envelope: { keyId, iv: toBase64(iv), partSize, size }, key };
+};
+
+export const envelopeToMetadata = (
+	envelope: EncryptionEnvelope
+): Record<string, string> => ({
+	[KEY_ID_METADATA]: envelope.keyId,
+	[IV_METADATA]: envelope.iv,
+	[PART_SIZE_METADATA]: String(envelope.partSize),
+	[SIZE_METADATA]: String(envelope.size),
+});
+
+/**
+ * Read the envelope from the metadata of an object, returns undefined if the object is not encrypted
+ */
+export const envelopeFromMetadata = (
+	metadata: Record<string, string> = {}
+): EncryptionEnvelope | undefined => {
+	if (!metadata[KEY_ID_METADATA] || !metadata[IV_METADATA]) {
+		return undefined;
+	}
+	return {
+		keyId: metadata[KEY_ID_METADATA],
+		iv: metadata[IV_METADATA],
+		partSize: Number(metadata[PART_SIZE_METADATA]),
+		size: Number(metadata[SIZE_METADATA]),
+	};
+};
+
+/**
+ * Size in bytes of an object of `size` bytes once encrypted in parts of `partSize` bytes
+ */
+export const encryptedSize = (size: number, partSize: number): number =>
+	size + TAG_LENGTH * Math.max(1, Math.ceil(size / partSize));
+
+/**
+ * Encrypt a part of an object, parts are numbered from 1 like the parts of a multipart upload
+ */
+export const encryptPart = async (
+	keyProvider: ClientSideEncryptionKeyProvider,
+	key: CryptoKey,
+	envelope: EncryptionEnvelope,
+	partNumber: number,
+	body: any
+): Promise<Blob> => {
+	const encrypted = await getWebCrypto(keyProvider).subtle.encrypt(
+		{ name: ALGORITHM, iv: partIv(envelope, partNumber) },
+		key,
+		await readAsArrayBuffer(toBlob(body))
+	);
+	return new Blob([encrypted]);
+};
+
+/**
+ * Decrypt an object encrypted with `encryptPart`
+ */
+export const decryptObject = async (
+	keyProvider: ClientSideEncryptionKeyProvider,
+	envelope: EncryptionEnvelope,
+	body: Blob
+): Promise<Blob> => {
+	const webCrypto = getWebCrypto(keyProvider);
+	const key = await keyProvider.getDecryptionKey(envelope.keyId);
+	const encrypted = await readAsArrayBuffer(body);
+	const encryptedPartSize = envelope.partSize + TAG_LENGTH;
+	// every part is authenticated on its own, only the size tells that parts were dropped from the end
+	if (
+		encrypted.byteLength !== encryptedSize(envelope.size, envelope.partSize)
+	) {
+		throw new Error(ClientSideEncryptionErrorStrings.DECRYPTION_FAILED);
+	}
+	const parts: ArrayBuffer[] = [];
+	try {
+		for (
+			let start = 0, partNumber = 1;
+			start < encrypted.byteLength;
+			start += encryptedPartSize, partNumber++
+		) {
+			parts.push(
+				await webCrypto.subtle.decrypt(
+					{ name: ALGORITHM, iv: partIv(envelope, partNumber) },
+					key,
+					encrypted.slice(start, start + encryptedPartSize)
+				)
+			);
+		}
+	} catch (error) {
+		// WebCrypto does not tell whether the key is wrong or the object has been tampered with
+		throw new Error(ClientSideEncryptionErrorStrings.DECRYPTION_FAILED);
+	}
+	return new Blob(parts);
+};
+
+/**
+ * Convert an upload body to a Blob such that its parts are sliced in bytes rather than in characters
+ */
+export const toBlob = (body: any): Blob =>
+	isBlob(body) ? body : new Blob([body]);
+
+/**
+ * The WebCrypto of the key provider, or the global one of browsers and Node.js 19+
+ */
+const getWebCrypto = (
+	keyProvider: ClientSideEncryptionKeyProvider
+): ClientSideEncryptionCrypto => {
+	const webCrypto =
+		keyProvider.crypto || (typeof crypto !== 'undefined' ? crypto : undefined);
+	if (!webCrypto || !webCrypto.subtle) {
+		throw new Error(ClientSideEncryptionErrorStrings.WEBCRYPTO_NOT_AVAILABLE);
+	}
+	return webCrypto;
+};
+
+const partIv = (envelope: EncryptionEnvelope, partNumber: number) => {
+	const iv = fromBase64(envelope.iv);
+	for (let i = 0; i < 4; i++) {
+		iv[IV_LENGTH - 1 - i] ^= (partNumber >>> (8 * i)) & 0xff;
+	}
+	return iv;
+};
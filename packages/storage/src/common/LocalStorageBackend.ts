@@ -0,0 +1,192 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { LocalStorageBackend, LocalStorageObject } from '../types';
+import { LocalStorageProviderErrorStrings } from './StorageErrorStrings';
+import { readAsArrayBuffer, toBase64 } from './StorageUtils';
+
+// directory of the file system backend which holds the content type and metadata of the objects
+const METADATA_DIRECTORY = '.amplify-metadata';
+
+/**
+ * Keeps the objects in memory, they are lost when the app restarts
+ */
+export class InMemoryLocalStorageBackend implements LocalStorageBackend {
+	private readonly objects = new Map<string, LocalStorageObject>();
+
+	public async getItem(key: string): Promise<LocalStorageObject | undefined> {
+		return this.objects.get(key);
+	}
+
+	public async setItem(key: string, object: LocalStorageObject): Promise<void> {
+		this.objects.set(key, object);
+	}
+
+	public async removeItem(key: string): Promise<void> {
+		this.objects.delete(key);
+	}
+
+	public async keys(): Promise<string[]> {
+		return Array.from(this.objects.keys());
+	}
+
+	public async getUrl(key: string): Promise<string> {
+		const { body, contentType } = this.objects.get(key);
+		const bytes = new Uint8Array(await readAsArrayBuffer(body));
+		return `data:${contentType};base64,${toBase64(bytes)}`;
+	}
+}
+
+/**
+ * The subset of the promise based API of the Node.js fs module, `require('fs').promises`, used to store the objects
+ */
+export interface FileSystemPromises {
+	readFile(path: string, encoding?: 'utf8'): Promise<any>;
+	writeFile(path: string, data: Uint8Array | string): Promise<void>;
+	mkdir(path: string, options: { recursive: boolean }): Promise<any>;
+	unlink(path: string): Promise<void>;
+	readdir(
+		path: string,
+		options: { withFileTypes: true }
+	): Promise<{ name: string; isDirectory(): boolean }[]>;
+}
+
+export interface FileSystemLocalStorageBackendOptions {
+	// the constructor of the bodies, defaults to the global Blob. Node.js before version 18 can pass
+	// `require('buffer').Blob`.
+	Blob?: typeof Blob;
+}
+
+// the global Blob is available in browsers and in Node.js since version 18
+const getGlobalBlob = (): typeof Blob | undefined =>
+	typeof Blob !== 'undefined' ? Blob : undefined;
+
+/**
+ * Keeps the objects in a directory of the file system, the key of an object is its path in the directory. The fs
+ * module is passed in such that the bundles of the browser and React Native do not require it.
+ */
+export class FileSystemLocalStorageBackend implements LocalStorageBackend {
+	private readonly fs: FileSystemPromises;
+	private readonly rootDirectory: string;
+	private readonly Blob: typeof Blob | undefined;
+
+	constructor(
+		fs: FileSystemPromises,
+		rootDirectory: string,
+		{ Blob = getGlobalBlob() }: FileSystemLocalStorageBackendOptions = {}
+	) {
+		this.fs = fs;
+		this.rootDirectory = rootDirectory.replace(/\/+$/, '');
+		this.Blob = Blob;
+	}
+
+	public async getItem(key: string): Promise<LocalStorageObject | undefined> {
+		if (!this.Blob) {
+			throw new Error(LocalStorageProviderErrorStrings.NO_BLOB);
+		}
+		try {
+			const [content, properties] = await Promise.all([
+				this.fs.readFile(this._path(key)),
+				this.fs.readFile(this._metadataPath(key), 'utf8'),
+			]);
+			const {
+				contentType,
+				metadata,
+				lastModified,
+				eTag,
+			} = JSON.parse(properties);
+			return {
+				body: new this.Blob([content], { type: contentType }),
+				contentType,
+				metadata,
+				lastModified: new Date(lastModified),
+				eTag,
+			};
+		} catch (error) {
+			if (error.code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	public async setItem(key: string, object: LocalStorageObject): Promise<void> {
+		const { body, ...properties } = object;
+		const content = new Uint8Array(await readAsArrayBuffer(body));
+		await this._writeFile(this._path(key), content);
+		await this._writeFile(this._metadataPath(key), JSON.stringify(properties));
+	}
+
+	public async removeItem(key: string): Promise<void> {
+		try {
+			await this.fs.unlink(this._path(key));
+			await this.fs.unlink(this._metadataPath(key));
+		} catch (error) {
+			// like S3, removing an object which does not exist succeeds
+			if (error.code !== 'ENOENT') {
+				throw error;
+			}
+		}
+	}
+
+	public async keys(): Promise<string[]> {
+		try {
+			return await this._listFiles('');
+		} catch (error) {
+			if (error.code === 'ENOENT') {
+				return [];
+			}
+			throw error;
+		}
+	}
+
+	public async getUrl(key: string): Promise<string> {
+		return `file://${this._path(key)}`;
+	}
+
+	private async _listFiles(directory: string): Promise<string[]> {
+		const entries = await this.fs.readdir(
+			`${this.rootDirectory}/${directory}`,
+			{ withFileTypes: true }
+		);
+		const files = await Promise.all(
+			entries.map(entry => {
+				const path = directory + entry.name;
+				if (!entry.isDirectory()) {
+					return [path];
+				}
+				return path === METADATA_DIRECTORY ? [] : this._listFiles(path + '/');
+			})
+		);
+		return [].concat(...files);
+	}
+
+	private async _writeFile(path: string, data: Uint8Array | string) {
+		await this.fs.mkdir(path.substr(0, path.lastIndexOf('/')), {
+			recursive: true,
+		});
+		await this.fs.writeFile(path, data);
+	}
+
+	private _path(key: string) {
+		// keep the objects inside of the root directory
+		if (key.split('/').indexOf('..') !== -1) {
+			throw new Error(LocalStorageProviderErrorStrings.INVALID_KEY);
+		}
+		return `${this.rootDirectory}/${key}`;
+	}
+
+	private _metadataPath(key: string) {
+		return this._path(`${METADATA_DIRECTORY}/${key}.json`);
+	}
+}
@@ -8,3 +8,5 @@ export const SET_CONTENT_LENGTH_HEADER = 'contentLengthMiddleware';
 export const localTestingStorageEndpoint = 'http://localhost:20005';
 
 export const UPLOADS_STORAGE_KEY = '__uploadInProgress';
+
+export const UPLOAD_QUEUE_STORAGE_KEY = '__uploadQueue';
@@ -3,6 +3,9 @@ export enum StorageErrorStrings {
 	NO_SRC_KEY = 'source param should be an object with the property "key" with value of type string',
 	NO_DEST_KEY = 'destination param should be an object with the property "key" with value of type string',
 	INVALID_BLOB = 'Object must be an instance of Blob',
+	MOVE_NOT_VERIFIED = 'The copied object does not match the source object, the source object was not removed',
+	DEDUP_RESUMABLE_NOT_SUPPORTED = 'Deduplicated uploads are not supported by resumable uploads',
+	DEDUP_ENCRYPTION_NOT_SUPPORTED = 'Deduplicated uploads can not be encrypted on the client, their key would reveal the content',
 }
 
 export enum AWSS3ProviderMultipartCopierErrors {
@@ -13,6 +16,27 @@ export enum AWSS3ProviderMultipartCopierErrors {
 	MAX_NUM_PARTS_EXCEEDED = 'Only a maximum of 10000 parts are allowed',
 }
 
+export enum AWSS3ProviderDownloadErrorStrings {
+	ETAG_MISMATCH = 'The object changed while it was being downloaded',
+}
+
+export enum AWSS3UploadQueueErrorStrings {
+	BLOB_NOT_PERSISTABLE = 'Only bodies with a uri can be queued in this storage',
+	NO_ITEM_FOUND = 'No item found in the upload queue',
+}
+
+export enum ClientSideEncryptionErrorStrings {
+	DECRYPTION_FAILED = 'The object could not be decrypted with the key of its envelope',
+	RESUMABLE_DOWNLOAD_NOT_SUPPORTED = 'Client side encryption is not supported by resumable downloads',
+	WEBCRYPTO_NOT_AVAILABLE = 'Client side encryption requires WebCrypto, set the crypto of the key provider where crypto.subtle is not available',
+}
+
+export enum LocalStorageProviderErrorStrings {
+	NO_SUCH_KEY = 'The specified key does not exist.',
+	INVALID_KEY = 'The key of an object must not contain ".." segments',
+	NO_BLOB = 'Blob is not available, pass its constructor as the Blob option',
+}
+
 export enum AWSS3ProviderUploadErrorStrings {
 	UPLOAD_PAUSED_MESSAGE = 'paused',
 }
@@ -1,6 +1,9 @@
 import { Hub } from '@aws-amplify/core';
 import { AMPLIFY_SYMBOL } from './StorageConstants';
 
+const BASE64_ALPHABET =
+	'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
 export const byteLength = (x: unknown) => {
 	if (typeof x === 'string') {
 		return x.length;
@@ -46,6 +49,47 @@ export const isBlob = (x: unknown): x is Blob => {
 	return typeof x !== 'undefined' && x instanceof Blob;
 };
 
+export const readAsArrayBuffer = (blob: Blob): Promise<ArrayBuffer> =>
+	// Node.js has no FileReader, but its Blob can be read directly
+	typeof blob.arrayBuffer === 'function'
+		? blob.arrayBuffer()
+		: new Promise((resolve, reject) => {
+				const reader = new FileReader();
+				reader.onload = () => resolve(reader.result as ArrayBuffer);
+				reader.onerror = () => reject(reader.error);
+				reader.readAsArrayBuffer(blob);
+		  });
+
+// btoa and atob are neither available in React Native nor in Node.js before 16
+export const toBase64 = (bytes: Uint8Array) => {
+	let base64 = '';
+	for (let i = 0; i < bytes.length; i += 3) {
+		const triplet =
+			(bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+		base64 +=
+			BASE64_ALPHABET[triplet >>> 18] +
+			BASE64_ALPHABET[(triplet >>> 12) & 63] +
+			(i + 1 < bytes.length ? BASE64_ALPHABET[(triplet >>> 6) & 63] : '=') +
+			(i + 2 < bytes.length ? BASE64_ALPHABET[triplet & 63] : '=');
+	}
+	return base64;
+};
+
+export const fromBase64 = (base64: string) => {
+	const digits = base64.replace(/=+$/, '');
+	const bytes = new Uint8Array(Math.floor((digits.length * 6) / 8));
+	for (let i = 0, j = 0, bits = 0, value = 0; i < digits.length; i++) {
+		value = (value << 6) | BASE64_ALPHABET.indexOf(digits[i]);
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			bytes[j++] = value >>> bits;
+			value &= (1 << bits) - 1;
+		}
+	}
+	return bytes;
+};
+
 const isArrayBuffer = (x: unknown): x is ArrayBuffer => {
 	return typeof x !== 'undefined' && x instanceof ArrayBuffer;
 };
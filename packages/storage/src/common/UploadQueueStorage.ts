@@ -0,0 +1,141 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import {
+	UploadQueueItem,
+	UploadQueueStorage,
+} from '../providers/AWSS3UploadQueue';
+import { AWSS3UploadQueueErrorStrings } from './StorageErrorStrings';
+import { UPLOAD_QUEUE_STORAGE_KEY } from './StorageConstants';
+import { isBlob } from './StorageUtils';
+
+const DEFAULT_DATABASE_NAME = 'amplify-storage-upload-queue';
+const OBJECT_STORE_NAME = 'items';
+
+/**
+ * Persists the upload queue in IndexedDB, which can store the Blobs of the queued items
+ */
+export class IndexedDBUploadQueueStorage implements UploadQueueStorage {
+	private readonly databaseName: string;
+	private db: Promise<IDBDatabase> = null;
+
+	constructor(databaseName: string = DEFAULT_DATABASE_NAME) {
+		this.databaseName = databaseName;
+	}
+
+	public getAll(): Promise<UploadQueueItem[]> {
+		return this._request('readonly', store => store.getAll());
+	}
+
+	public async save(item: UploadQueueItem): Promise<void> {
+		await this._request('readwrite', store => store.put(item));
+	}
+
+	public async remove(id: string): Promise<void> {
+		await this._request('readwrite', store => store.delete(id));
+	}
+
+	private _open(): Promise<IDBDatabase> {
+		if (!this.db) {
+			this.db = new Promise((resolve, reject) => {
+				const request = indexedDB.open(this.databaseName, 1);
+				request.onupgradeneeded = () => {
+					request.result.createObjectStore(OBJECT_STORE_NAME, {
+						keyPath: 'id',
+					});
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => reject(request.error);
+			});
+		}
+		return this.db;
+	}
+
+	private async _request<T>(
+		mode: IDBTransactionMode,
+		createRequest: (store: IDBObjectStore) => IDBRequest<T>
+	): Promise<T> {
+		const db = await this._open();
+		return new Promise((resolve, reject) => {
+			const store = db
+				.transaction(OBJECT_STORE_NAME, mode)
+				.objectStore(OBJECT_STORE_NAME);
+			const request = createRequest(store);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	}
+}
+
+/**
+ * The subset of the AsyncStorage API of React Native used to persist the upload queue
+ */
+export interface AsyncKeyValueStorage {
+	getItem(key: string): Promise<string | null>;
+	setItem(key: string, value: string): Promise<void>;
+}
+
+/**
+ * Persists the upload queue in AsyncStorage. AsyncStorage only stores strings, so the queued items must reference
+ * their file with a uri instead of a Blob.
+ */
+export class AsyncStorageUploadQueueStorage implements UploadQueueStorage {
+	private readonly asyncStorage: AsyncKeyValueStorage;
+	// the items are stored under a single key, its read-modify-writes are chained such that none is lost
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(asyncStorage: AsyncKeyValueStorage) {
+		this.asyncStorage = asyncStorage;
+	}
+
+	public async getAll(): Promise<UploadQueueItem[]> {
+		const items = await this._getItems();
+		return Object.keys(items).map(id => items[id]);
+	}
+
+	public async save(item: UploadQueueItem): Promise<void> {
+		if (isBlob(item.body)) {
+			throw new Error(AWSS3UploadQueueErrorStrings.BLOB_NOT_PERSISTABLE);
+		}
+		await this._update(items => {
+			items[item.id] = item;
+		});
+	}
+
+	public async remove(id: string): Promise<void> {
+		await this._update(items => {
+			delete items[id];
+		});
+	}
+
+	private _update(
+		update: (items: Record<string, UploadQueueItem>) => void
+	): Promise<void> {
+		const write = this.writes.then(async () => {
+			const items = await this._getItems();
+			update(items);
+			await this.asyncStorage.setItem(
+				UPLOAD_QUEUE_STORAGE_KEY,
+				JSON.stringify(items)
+			);
+		});
+		// a failed write does not fail the writes chained after it
+		this.writes = write.catch(() => {});
+		return write;
+	}
+
+	private async _getItems(): Promise<Record<string, UploadQueueItem>> {
+		const items = await this.asyncStorage.getItem(UPLOAD_QUEUE_STORAGE_KEY);
+		return JSON.parse(items || '{}');
+	}
+}
@@ -57,4 +57,14 @@ export default Storage;
 
 export { StorageClass };
 export * from './providers';
+export {
+	IndexedDBUploadQueueStorage,
+	AsyncStorageUploadQueueStorage,
+} from './common/UploadQueueStorage';
+export {
+	InMemoryLocalStorageBackend,
+	FileSystemLocalStorageBackend,
+	FileSystemPromises,
+	FileSystemLocalStorageBackendOptions,
+} from './common/LocalStorageBackend';
 export * from './types';
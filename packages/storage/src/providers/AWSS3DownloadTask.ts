@@ -0,0 +1,431 @@
+import {
+	S3Client,
+	GetObjectCommand,
+	GetObjectCommandInput,
+	HeadObjectCommand,
+} from '@aws-sdk/client-s3';
+import * as events from 'events';
+import axios, { Canceler, CancelTokenSource } from 'axios';
+import { HttpHandlerOptions } from '@aws-sdk/types';
+import { Logger } from '@aws-amplify/core';
+import { DownloadTask } from '../types/Provider';
+import {
+	AWSS3ProviderDownloadErrorStrings,
+	AWSS3ProviderUploadErrorStrings,
+} from '../common/StorageErrorStrings';
+import { UPLOADS_STORAGE_KEY } from '../common/StorageConstants';
+import { TaskEvents } from './AWSS3UploadTask';
+import { StorageAccessLevel } from '..';
+
+const logger = new Logger('AWSS3DownloadTask');
+export enum AWSS3DownloadTaskState {
+	INIT,
+	IN_PROGRESS,
+	PAUSED,
+	CANCELLED,
+	COMPLETED,
+}
+
+export interface AWSS3DownloadTaskParams {
+	s3Client: S3Client;
+	storage: Storage;
+	level: StorageAccessLevel;
+	params: GetObjectCommandInput;
+	emitter?: events.EventEmitter;
+}
+
+export interface DownloadPart {
+	partNumber: number;
+	// inclusive byte range of the object
+	start: number;
+	end: number;
+}
+
+export interface InProgressDownloadRequest {
+	part: DownloadPart;
+	s3Request: Promise<any>;
+	cancel: Canceler;
+}
+
+export interface CompletedDownloadPart extends DownloadPart {
+	body: Blob;
+}
+
+export interface DownloadTaskCompleteEvent {
+	key: string;
+	eTag: string;
+	body: Blob;
+}
+
+export interface DownloadTaskProgressEvent {
+	/**
+	 * bytes that has been received from S3 so far
+	 */
+	loaded: number;
+	/**
+	 * total bytes that needs to be received from S3
+	 */
+	total: number;
+}
+
+export interface DownloadMetadata {
+	bucket: string;
+	key: string;
+	versionId?: string;
+	eTag: string;
+	size: number;
+	// Unix timestamp in ms
+	lastTouched: number;
+	// byte ranges that have been received
+	completedRanges: DownloadPart[];
+}
+
+// 5MB in bytes
+const PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_QUEUE_SIZE = 4;
+
+function comparePartNumber(a: CompletedDownloadPart, b: CompletedDownloadPart) {
+	return a.partNumber - b.partNumber;
+}
+
+/**
+ * Downloads an object in ranged GetObject parts. Every part is requested with the ETag of the object when the task
+ * started, so the download fails instead of mixing the bytes of two versions of the object. The byte ranges received
+ * so far are persisted under UPLOADS_STORAGE_KEY next to the uploads. Part bodies are only kept in memory, so a paused
+ * task resumes where it stopped but a new task for the same object downloads it from zero and replaces the persisted
+ * progress.
+ */
+export class AWSS3DownloadTask implements DownloadTask {
+	private readonly emitter: events.EventEmitter;
+	private readonly partSize: number = PART_SIZE;
+	private readonly queueSize = DEFAULT_QUEUE_SIZE;
+	private readonly s3client: S3Client;
+	private readonly storage: Storage;
+	private readonly storageSync: Promise<any>;
+	private readonly fileId: string;
+	private readonly params: GetObjectCommandInput;
+	private completedRanges: DownloadPart[] = [];
+	private inProgress: InProgressDownloadRequest[] = [];
+	private completedParts: CompletedDownloadPart[] = [];
+	private queued: DownloadPart[] = [];
+	private bytesDownloaded: number = 0;
+	private totalBytes: number = 0;
+	private eTag: string;
+
+	public state: AWSS3DownloadTaskState = AWSS3DownloadTaskState.INIT;
+
+	constructor({
+		s3Client,
+		emitter,
+		storage,
+		params,
+		level,
+	}: AWSS3DownloadTaskParams) {
+		this.s3client = s3Client;
+		this.storage = storage;
+		this.storageSync = Promise.resolve();
+		if (typeof this.storage['sync'] === 'function') {
+			this.storageSync = this.storage['sync']();
+		}
+		this.params = params;
+		this.emitter = emitter;
+		this.fileId = this._getFileId(level);
+		// event emitter will re-throw an error if an event emits an error unless there's a listener, attaching a no-op
+		// function to it unless user adds their own onError callback
+		this.emitter.on(TaskEvents.ERROR, () => {});
+	}
+
+	get percent() {
+		return this.totalBytes
+			? (this.bytesDownloaded / this.totalBytes) * 100
+			: this.state === AWSS3DownloadTaskState.COMPLETED
+			? 100
+			: 0;
+	}
+
+	get isInProgress() {
+		return this.state === AWSS3DownloadTaskState.IN_PROGRESS;
+	}
+
+	private _emitEvent<T = any>(event: string, payload: T) {
+		this.emitter.emit(event, payload);
+	}
+
+	private _getFileId(level: StorageAccessLevel): string {
+		const { Bucket, Key, VersionId } = this.params;
+		const version = VersionId ? [VersionId] : [];
+		return ['download', Bucket, level, Key, ...version].join('-');
+	}
+
+	private async _listCachedDownloadTasks(): Promise<
+		Record<string, DownloadMetadata>
+	> {
+		await this.storageSync;
+		const tasks = this.storage.getItem(UPLOADS_STORAGE_KEY) || '{}';
+		return JSON.parse(tasks);
+	}
+
+	private async _removeFromCache(): Promise<void> {
+		const downloadRequests = await this._listCachedDownloadTasks();
+		delete downloadRequests[this.fileId];
+		this.storage.setItem(UPLOADS_STORAGE_KEY, JSON.stringify(downloadRequests));
+	}
+
+	private async _cacheProgress(): Promise<void> {
+		const downloadRequests = await this._listCachedDownloadTasks();
+		// the task could have been completed or cancelled while waiting for the storage
+		if (
+			this.state === AWSS3DownloadTaskState.COMPLETED ||
+			this.state === AWSS3DownloadTaskState.CANCELLED
+		) {
+			return;
+		}
+		downloadRequests[this.fileId] = {
+			bucket: this.params.Bucket,
+			key: this.params.Key,
+			versionId: this.params.VersionId,
+			eTag: this.eTag,
+			size: this.totalBytes,
+			lastTouched: Date.now(),
+			completedRanges: this.completedRanges,
+		};
+		this.storage.setItem(UPLOADS_STORAGE_KEY, JSON.stringify(downloadRequests));
+	}
+
+	private async _onPartDownloadCompletion(part: DownloadPart, body: Blob) {
+		this.completedParts.push({ ...part, body });
+		this.completedRanges.push(part);
+		this.bytesDownloaded += part.end - part.start + 1;
+		this._emitEvent<CompletedDownloadPart>(TaskEvents.DOWNLOAD_PART, {
+			...part,
+			body,
+		});
+		this._emitEvent<DownloadTaskProgressEvent>(TaskEvents.DOWNLOAD_PROGRESS, {
+			loaded: this.bytesDownloaded,
+			total: this.totalBytes,
+		});
+		// Remove the completed item from the inProgress array
+		this.inProgress = this.inProgress.filter(
+			job => job.part.partNumber !== part.partNumber
+		);
+		if (this.queued.length && this.state !== AWSS3DownloadTaskState.PAUSED)
+			this._startNextPart();
+		if (this._isDone()) {
+			await this._completeDownload();
+		} else {
+			await this._cacheProgress();
+		}
+	}
+
+	private async _completeDownload() {
+		this.state = AWSS3DownloadTaskState.COMPLETED;
+		await this._removeFromCache();
+		// Parts are not always completed in order, we need to manually sort them
+		const completedParts = this.completedParts.sort(comparePartNumber);
+		this._emitEvent<DownloadTaskCompleteEvent>(TaskEvents.DOWNLOAD_COMPLETE, {
+			key: `${this.params.Bucket}/${this.params.Key}`,
+			eTag: this.eTag,
+			body: new Blob(completedParts.map(part => part.body)),
+		});
+		this.completedParts = [];
+	}
+
+	private async _makeGetPartRequest(
+		part: DownloadPart,
+		cancelTokenSource: CancelTokenSource
+	) {
+		try {
+			const res = await this.s3client.send(
+				new GetObjectCommand({
+					...this.params,
+					Range: `bytes=${part.start}-${part.end}`,
+					IfMatch: this.eTag,
+				}),
+				{ cancelTokenSource } as HttpHandlerOptions
+			);
+			if (res.ETag !== this.eTag) {
+				throw new Error(AWSS3ProviderDownloadErrorStrings.ETAG_MISMATCH);
+			}
+			await this._onPartDownloadCompletion(part, res.Body as Blob);
+		} catch (err) {
+			if (this.state === AWSS3DownloadTaskState.PAUSED) {
+				logger.log('download paused');
+				return;
+			} else if (this.state === AWSS3DownloadTaskState.CANCELLED) {
+				logger.log('download aborted');
+				return;
+			}
+			// axios' cancel will also throw an error, however we don't need to emit an event in that case as it's an
+			// expected behavior
+			if (
+				axios.isCancel(err) ||
+				err.message === AWSS3ProviderUploadErrorStrings.UPLOAD_PAUSED_MESSAGE
+			) {
+				return;
+			}
+			logger.error('error downloading next part of object: ', err);
+			if (this._isPreconditionFailed(err)) {
+				// the object changed since the download started, the parts received so far can't be resumed
+				this._emitEvent(
+					TaskEvents.ERROR,
+					new Error(AWSS3ProviderDownloadErrorStrings.ETAG_MISMATCH)
+				);
+				await this._cancel();
+			} else {
+				this._emitEvent(TaskEvents.ERROR, err);
+				this.pause();
+			}
+		}
+	}
+
+	private _isPreconditionFailed(err: any) {
+		return (
+			err.message === AWSS3ProviderDownloadErrorStrings.ETAG_MISMATCH ||
+			(err.$metadata && err.$metadata.httpStatusCode === 412)
+		);
+	}
+
+	private _startNextPart() {
+		if (
+			this.queued.length > 0 &&
+			this.state !== AWSS3DownloadTaskState.PAUSED
+		) {
+			const cancelTokenSource = axios.CancelToken.source();
+			const nextPart = this.queued.shift();
+			this.inProgress.push({
+				part: nextPart,
+				s3Request: this._makeGetPartRequest(nextPart, cancelTokenSource),
+				cancel: cancelTokenSource.cancel,
+			});
+		}
+	}
+
+	private _isDone() {
+		return (
+			!this.queued.length &&
+			!this.inProgress.length &&
+			this.bytesDownloaded === this.totalBytes
+		);
+	}
+
+	private _createParts() {
+		const parts: DownloadPart[] = [];
+		for (let start = 0; start < this.totalBytes; start += this.partSize) {
+			parts.push({
+				partNumber: parts.length + 1,
+				start,
+				end: Math.min(start + this.partSize, this.totalBytes) - 1,
+			});
+		}
+		return parts;
+	}
+
+	private async _initializeDownloadTask() {
+		this.state = AWSS3DownloadTaskState.IN_PROGRESS;
+		try {
+			const {
+				Bucket,
+				Key,
+				SSECustomerAlgorithm,
+				SSECustomerKey,
+				SSECustomerKeyMD5,
+				VersionId,
+			} = this.params;
+			const head = await this.s3client.send(
+				new HeadObjectCommand({
+					Bucket,
+					Key,
+					SSECustomerAlgorithm,
+					SSECustomerKey,
+					SSECustomerKeyMD5,
+					VersionId,
+				})
+			);
+			this.eTag = head.ETag;
+			this.totalBytes = head.ContentLength || 0;
+			this.queued = this._createParts();
+			await this._cacheProgress();
+			if (this._isDone()) {
+				await this._completeDownload();
+			} else if (this.state === AWSS3DownloadTaskState.IN_PROGRESS) {
+				// the task could have been paused while the object was looked up
+				this._startDownload();
+			}
+		} catch (err) {
+			logger.error('Error initializing the download task', err);
+			this.state = AWSS3DownloadTaskState.INIT;
+			this._emitEvent(TaskEvents.ERROR, err);
+		}
+	}
+
+	public resume(): void {
+		if (this.state === AWSS3DownloadTaskState.CANCELLED) {
+			logger.warn('This task has already been cancelled');
+		} else if (this.state === AWSS3DownloadTaskState.COMPLETED) {
+			logger.warn('This task has already been completed');
+		} else if (this.state === AWSS3DownloadTaskState.IN_PROGRESS) {
+			logger.warn('Download task already in progress');
+			// first time running resume, find the size and ETag of the object before starting the download
+		} else if (!this.eTag) {
+			this._initializeDownloadTask();
+		} else {
+			this._startDownload();
+		}
+	}
+
+	private _startDownload() {
+		this.state = AWSS3DownloadTaskState.IN_PROGRESS;
+		for (let i = 0; i < this.queueSize; i++) {
+			this._startNextPart();
+		}
+	}
+
+	async _cancel(): Promise<boolean> {
+		if (this.state === AWSS3DownloadTaskState.CANCELLED) {
+			logger.warn('This task has already been cancelled');
+			return false;
+		} else if (this.state === AWSS3DownloadTaskState.COMPLETED) {
+			logger.warn('This task has already been completed');
+			return false;
+		} else {
+			this.pause();
+			this.queued = [];
+			this.completedParts = [];
+			this.completedRanges = [];
+			this.bytesDownloaded = 0;
+			this.state = AWSS3DownloadTaskState.CANCELLED;
+			try {
+				await this._removeFromCache();
+				return true;
+			} catch (err) {
+				logger.error('Error cancelling download task', err);
+				return false;
+			}
+		}
+	}
+
+	/**
+	 * pause this particular download task
+	 **/
+	public pause(): void {
+		if (this.state === AWSS3DownloadTaskState.CANCELLED) {
+			logger.warn('This task has already been cancelled');
+		} else if (this.state === AWSS3DownloadTaskState.COMPLETED) {
+			logger.warn('This task has already been completed');
+		} else if (this.state === AWSS3DownloadTaskState.PAUSED) {
+			logger.warn('This task is already paused');
+		}
+		this.state = AWSS3DownloadTaskState.PAUSED;
+		// Use axios cancel token to abort the part request immediately
+		// Add the inProgress parts back to pending
+		const removedInProgressReq = this.inProgress.splice(
+			0,
+			this.inProgress.length
+		);
+		removedInProgressReq.forEach(req => {
+			req.cancel(AWSS3ProviderUploadErrorStrings.UPLOAD_PAUSED_MESSAGE);
+		});
+		// Put all removed in progress parts back into the queue
+		this.queued.unshift(...removedInProgressReq.map(req => req.part));
+	}
+}
@@ -22,17 +22,28 @@ import {
 	S3Client,
 	GetObjectCommand,
 	DeleteObjectCommand,
+	DeleteObjectsCommand,
 	ListObjectsCommand,
+	ListObjectsCommandInput,
+	ListObjectVersionsCommand,
+	ListObjectVersionsCommandInput,
+	ListObjectVersionsCommandOutput,
 	GetObjectCommandOutput,
 	DeleteObjectCommandInput,
 	CopyObjectCommandInput,
+	HeadObjectCommand,
 	CopyObjectCommand,
+	GetObjectTaggingCommand,
+	PutObjectTaggingCommand,
+	PutObjectCommand,
 	PutObjectCommandInput,
 	GetObjectCommandInput,
+	HeadBucketCommand,
 } from '@aws-sdk/client-s3';
 import { formatUrl } from '@aws-sdk/util-format-url';
 import { createRequest } from '@aws-sdk/util-create-request';
 import { S3RequestPresigner } from '@aws-sdk/s3-request-presigner';
+import { SignatureV4 } from '@aws-sdk/signature-v4';
 import {
 	SEND_DOWNLOAD_PROGRESS_EVENT,
 	SEND_UPLOAD_PROGRESS_EVENT,
@@ -43,22 +54,55 @@ import {
 	S3ProviderGetConfig,
 	S3ProviderGetOuput,
 	S3ProviderPutConfig,
+	S3ProviderGetUploadUrlConfig,
+	S3ProviderGetPresignedPostConfig,
+	S3ProviderGetPresignedPostOutput,
+	S3PresignedPostCondition,
 	S3ProviderRemoveConfig,
 	S3ProviderListOutput,
 	S3ProviderListConfig,
+	S3ProviderListPage,
+	S3ProviderListPageOptions,
+	S3ProviderListItemsOptions,
+	S3ProviderListAllOutput,
+	S3ProviderListVersionsConfig,
+	S3ProviderListVersionsOutputItem,
+	S3ProviderRestoreVersionConfig,
+	S3ProviderRestoreVersionOutput,
 	S3ProviderCopyConfig,
 	S3ProviderCopyOutput,
+	S3ProviderMoveConfig,
+	S3ProviderMoveOutput,
+	S3ProviderGetPropertiesConfig,
+	S3ProviderGetPropertiesOutput,
+	S3ProviderUpdateMetadataConfig,
+	S3ProviderUpdateMetadataOutput,
+	S3ProviderTagsConfig,
+	S3ProviderTags,
+	S3ProviderSetTagsOutput,
 	S3CopySource,
 	S3CopyDestination,
 	StorageAccessLevel,
 	CustomPrefix,
 	S3ProviderRemoveOutput,
+	S3ProviderRemoveManyOutput,
 	S3ProviderPutOutput,
 	ResumableUploadConfig,
+	ResumableDownloadConfig,
 	UploadTask,
+	DownloadTask,
+	ClientSideEncryptionConfig,
 } from '../types';
-import { StorageErrorStrings } from '../common/StorageErrorStrings';
-import { dispatchStorageEvent } from '../common/StorageUtils';
+import {
+	StorageErrorStrings,
+	ClientSideEncryptionErrorStrings,
+} from '../common/StorageErrorStrings';
+import { dispatchStorageEvent, toBase64 } from '../common/StorageUtils';
+import {
+	decryptObject,
+	envelopeFromMetadata,
+	envelopeToMetadata,
+} from '../common/ClientSideEncryption';
 import {
 	createPrefixMiddleware,
 	prefixMiddlewareOptions,
@@ -68,7 +112,12 @@ import {
 	createS3Client,
 } from '../common/S3ClientUtils';
 import { AWSS3ProviderManagedUpload } from './AWSS3ProviderManagedUpload';
+import {
+	AWSS3ProviderMultipartCopier,
+	COPY_PROGRESS_EVENT,
+} from './AWSS3ProviderMultipartCopier';
 import { AWSS3UploadTask, TaskEvents } from './AWSS3UploadTask';
+import { AWSS3DownloadTask } from './AWSS3DownloadTask';
 import { UPLOADS_STORAGE_KEY } from '../common/StorageConstants';
 import * as events from 'events';
 import { CancelTokenSource } from 'axios';
@@ -77,6 +126,19 @@ const logger = new Logger('AWSS3Provider');
 
 const DEFAULT_STORAGE_LEVEL = 'public';
 const DEFAULT_PRESIGN_EXPIRATION = 900;
+// maximum number of keys of a DeleteObjects request
+const MAX_DELETE_OBJECTS = 1000;
+
+// orders versions by key, then newest version first
+function compareVersions(
+	a: S3ProviderListVersionsOutputItem,
+	b: S3ProviderListVersionsOutputItem
+) {
+	if (a.key !== b.key) {
+		return a.key < b.key ? -1 : 1;
+	}
+	return b.lastModified.getTime() - a.lastModified.getTime();
+}
 
 interface AddTaskInput {
 	accessLevel: StorageAccessLevel;
@@ -86,6 +148,8 @@ interface AddTaskInput {
 	key: string;
 	s3Client: S3Client;
 	params?: PutObjectCommandInput;
+	clientSideEncryption?: ClientSideEncryptionConfig;
+	checksum?: boolean;
 }
 
 /**
@@ -147,7 +211,15 @@ export class AWSS3Provider implements StorageProvider {
 		addTaskInput: AddTaskInput,
 		config: S3ProviderPutConfig & ResumableUploadConfig
 	): UploadTask {
-		const { s3Client, emitter, key, file, params } = addTaskInput;
+		const {
+			s3Client,
+			emitter,
+			key,
+			file,
+			params,
+			clientSideEncryption,
+			checksum,
+		} = addTaskInput;
 		const {
 			progressCallback,
 			completeCallback,
@@ -216,6 +288,8 @@ export class AWSS3Provider implements StorageProvider {
 			storage: this._storage,
 			params,
 			prefixPromise,
+			clientSideEncryption,
+			checksum,
 		});
 
 		dispatchStorageEvent(
@@ -263,13 +337,15 @@ export class AWSS3Provider implements StorageProvider {
 			SSECustomerKey,
 			SSECustomerKeyMD5,
 			SSEKMSKeyId,
+			queueSize,
+			progressCallback,
 		} = opt;
 		const {
 			level: srcLevel = DEFAULT_STORAGE_LEVEL,
 			identityId: srcIdentityId,
 			key: srcKey,
 		} = src;
-		const { level: destLevel = DEFAULT_STORAGE_LEVEL, key: destKey } = dest;
+		const { key: destKey } = dest;
 		if (!srcKey || typeof srcKey !== 'string') {
 			throw new Error(StorageErrorStrings.NO_SRC_KEY);
 		}
@@ -281,14 +357,8 @@ export class AWSS3Provider implements StorageProvider {
 				`You may copy files from another user if the source level is "protected", currently it's ${srcLevel}`
 			);
 		}
-		const srcPrefix = this._prefix({
-			...opt,
-			level: srcLevel,
-			...(srcIdentityId && { identityId: srcIdentityId }),
-		});
-		const destPrefix = this._prefix({ ...opt, level: destLevel });
-		const finalSrcKey = `${bucket}/${srcPrefix}${srcKey}`;
-		const finalDestKey = `${destPrefix}${destKey}`;
+		const finalSrcKey = `${bucket}/${this._copyTargetKey(src, opt)}`;
+		const finalDestKey = this._copyTargetKey(dest, opt);
 		logger.debug(`copying ${finalSrcKey} to ${finalDestKey}`);
 
 		const params: CopyObjectCommandInput = {
@@ -318,9 +388,31 @@ export class AWSS3Provider implements StorageProvider {
 		}
 		if (acl) params.ACL = acl;
 
+		const emitter = new events.EventEmitter();
+		if (progressCallback) {
+			if (typeof progressCallback === 'function') {
+				emitter.on(COPY_PROGRESS_EVENT, progress => {
+					progressCallback(progress);
+				});
+			} else {
+				logger.warn(
+					'progressCallback should be a function, not a ' +
+						typeof progressCallback
+				);
+			}
+		}
+
 		const s3 = this._createNewS3Client(opt);
 		try {
-			await s3.send(new CopyObjectCommand(params));
+			// objects above 5 GB are copied in parts
+			const copier = new AWSS3ProviderMultipartCopier({
+				params,
+				s3client: s3,
+				emitter,
+				queueSize,
+			});
+			await copier.copy();
+			emitter.removeAllListeners(COPY_PROGRESS_EVENT);
 			dispatchStorageEvent(
 				track,
 				'copy',
@@ -349,13 +441,165 @@ export class AWSS3Provider implements StorageProvider {
 		}
 	}
 
+	/**
+	 * Move an object to a new object within the same bucket: copies it, verifies that the ETag or the size of the copy
+	 * matches the source object, then removes the source object.
+	 *
+	 * @async
+	 * @param {S3CopySource} src - Key and optionally access level and identityId of the source object.
+	 * @param {S3CopyDestination} dest - Key and optionally access level of the destination object.
+	 * @param {S3ProviderMoveConfig} [config] - Optional configuration for s3 commands.
+	 * @return {Promise<S3ProviderMoveOutput>} The key of the moved object.
+	 */
+	public async move(
+		src: S3CopySource,
+		dest: S3CopyDestination,
+		config?: S3ProviderMoveConfig
+	): Promise<S3ProviderMoveOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const { key } = await this.copy(src, dest, { ...config, track: false });
+
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track } = opt;
+		const finalSrcKey = this._copyTargetKey(src, opt);
+		const finalDestKey = this._copyTargetKey(dest, opt);
+		const s3 = this._createNewS3Client(opt);
+		logger.debug(`removing ${finalSrcKey} moved to ${finalDestKey}`);
+
+		try {
+			const [srcHead, destHead] = await Promise.all(
+				[finalSrcKey, finalDestKey].map(Key =>
+					s3.send(new HeadObjectCommand({ Bucket: bucket, Key }))
+				)
+			);
+			if (
+				srcHead.ETag !== destHead.ETag &&
+				srcHead.ContentLength !== destHead.ContentLength
+			) {
+				throw new Error(StorageErrorStrings.MOVE_NOT_VERIFIED);
+			}
+
+			await s3.send(
+				new DeleteObjectCommand({ Bucket: bucket, Key: finalSrcKey })
+			);
+			dispatchStorageEvent(
+				track,
+				'move',
+				{ method: 'move', result: 'success' },
+				null,
+				`Move success from ${src.key} to ${dest.key}`
+			);
+			return { key };
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'move',
+				{ method: 'move', result: 'failed' },
+				null,
+				`Move failed from ${src.key} to ${dest.key}`
+			);
+			throw error;
+		}
+	}
+
+	private startResumableDownload(
+		s3Client: S3Client,
+		emitter: events.EventEmitter,
+		key: string,
+		params: GetObjectCommandInput,
+		config: S3ProviderGetConfig & ResumableDownloadConfig
+	): DownloadTask {
+		const {
+			progressCallback,
+			partCallback,
+			completeCallback,
+			errorCallback,
+			track = false,
+		} = config;
+
+		emitter.on(TaskEvents.DOWNLOAD_PROGRESS, event => {
+			if (progressCallback) {
+				if (typeof progressCallback === 'function') {
+					progressCallback(event);
+				} else {
+					logger.warn(
+						'progressCallback should be a function, not a ' +
+							typeof progressCallback
+					);
+				}
+			}
+		});
+
+		emitter.on(TaskEvents.DOWNLOAD_PART, event => {
+			if (partCallback) {
+				if (typeof partCallback === 'function') {
+					partCallback(event);
+				} else {
+					logger.warn(
+						'partCallback should be a function, not a ' + typeof partCallback
+					);
+				}
+			}
+		});
+
+		emitter.on(TaskEvents.DOWNLOAD_COMPLETE, event => {
+			if (completeCallback) {
+				if (typeof completeCallback === 'function') {
+					completeCallback(event);
+				} else {
+					logger.warn(
+						'completeCallback should be a function, not a ' +
+							typeof completeCallback
+					);
+				}
+			}
+		});
+
+		emitter.on(TaskEvents.ERROR, err => {
+			if (errorCallback) {
+				if (typeof errorCallback === 'function') {
+					errorCallback(err);
+				} else {
+					logger.warn(
+						'errorCallback should be a function, not a ' + typeof errorCallback
+					);
+				}
+			}
+		});
+
+		const task = new AWSS3DownloadTask({
+			s3Client,
+			emitter,
+			level: config.level,
+			storage: this._storage,
+			params,
+		});
+
+		dispatchStorageEvent(
+			track,
+			'download',
+			{ method: 'get', result: 'success' },
+			null,
+			`Download Task created successfully for ${key}`
+		);
+
+		// automatically start the download task
+		task.resume();
+
+		return task;
+	}
+
 	/**
 	 * Get a presigned URL of the file or the object data when download:true
 	 *
 	 * @param {string} key - key of the object
 	 * @param {S3ProviderGetConfig} [config] - Optional configuration for the underlying S3 command
-	 * @return {Promise<string | GetObjectCommandOutput>} - A promise resolves to Amazon S3 presigned URL or the
-	 * GetObjectCommandOutput if download is set to true on success
+	 * @return {Promise<string | GetObjectCommandOutput | DownloadTask>} - A promise resolves to Amazon S3 presigned
+	 * URL or the GetObjectCommandOutput if download is set to true on success, or an instance of AWSS3DownloadTask
+	 * if resumable is set to true as well
 	 */
 	public async get<T extends S3ProviderGetConfig & StorageOptions>(
 		key: string,
@@ -364,7 +608,7 @@ export class AWSS3Provider implements StorageProvider {
 	public async get(
 		key: string,
 		config?: S3ProviderGetConfig
-	): Promise<string | GetObjectCommandOutput> {
+	): Promise<string | GetObjectCommandOutput | DownloadTask> {
 		const credentialsOK = await this._ensureCredentials();
 		if (!credentialsOK || !this._isWithCredentials(this._config)) {
 			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
@@ -384,6 +628,9 @@ export class AWSS3Provider implements StorageProvider {
 			SSECustomerKey,
 			SSECustomerKeyMD5,
 			progressCallback,
+			resumable,
+			versionId,
+			clientSideEncryption,
 		} = opt;
 		const prefix = this._prefix(opt);
 		const final_key = prefix + key;
@@ -412,6 +659,23 @@ export class AWSS3Provider implements StorageProvider {
 		if (SSECustomerKeyMD5) {
 			params.SSECustomerKeyMD5 = SSECustomerKeyMD5;
 		}
+		if (versionId) params.VersionId = versionId;
+
+		if (download === true && resumable === true) {
+			if (clientSideEncryption) {
+				throw new Error(
+					ClientSideEncryptionErrorStrings.RESUMABLE_DOWNLOAD_NOT_SUPPORTED
+				);
+			}
+			// explicitly asserting the type here as Typescript could not infer that resumable is of type true
+			return this.startResumableDownload(
+				s3,
+				emitter,
+				key,
+				params,
+				opt as typeof opt & ResumableDownloadConfig
+			);
+		}
 
 		if (download === true) {
 			const getObjectCommand = new GetObjectCommand(params);
@@ -430,6 +694,15 @@ export class AWSS3Provider implements StorageProvider {
 				}
 				const response = await s3.send(getObjectCommand);
 				emitter.removeAllListeners(SEND_DOWNLOAD_PROGRESS_EVENT);
+				const envelope = envelopeFromMetadata(response.Metadata);
+				if (clientSideEncryption && envelope) {
+					response.Body = await decryptObject(
+						clientSideEncryption.keyProvider,
+						envelope,
+						response.Body as Blob
+					);
+					response.ContentLength = response.Body.size;
+				}
 				dispatchStorageEvent(
 					track,
 					'download',
@@ -499,7 +772,16 @@ export class AWSS3Provider implements StorageProvider {
 		config?: T
 	): S3ProviderPutOutput<T> {
 		const opt = Object.assign({}, this._config, config);
-		const { bucket, track, progressCallback, level, resumable } = opt;
+		const {
+			bucket,
+			track,
+			progressCallback,
+			level,
+			resumable,
+			clientSideEncryption,
+			checksum,
+			dedup,
+		} = opt;
 		const {
 			contentType,
 			contentDisposition,
@@ -559,6 +841,11 @@ export class AWSS3Provider implements StorageProvider {
 			params.SSEKMSKeyId = SSEKMSKeyId;
 		}
 
+		// the key of a deduplicated upload is the hash of its plaintext
+		if (dedup && clientSideEncryption) {
+			throw new Error(StorageErrorStrings.DEDUP_ENCRYPTION_NOT_SUPPORTED);
+		}
+
 		const emitter = new events.EventEmitter();
 		const uploader = new AWSS3ProviderManagedUpload(params, opt, emitter);
 
@@ -567,6 +854,9 @@ export class AWSS3Provider implements StorageProvider {
 		}
 
 		if (resumable === true) {
+			if (dedup) {
+				throw new Error(StorageErrorStrings.DEDUP_RESUMABLE_NOT_SUPPORTED);
+			}
 			const s3Client = this._createNewS3Client(opt);
 			// we are using aws sdk middleware to inject the prefix to key, this way we don't have to call
 			// this._ensureCredentials() which allows us to make this function sync so we can return non-Promise like UploadTask
@@ -582,6 +872,8 @@ export class AWSS3Provider implements StorageProvider {
 				emitter,
 				accessLevel: level,
 				params,
+				clientSideEncryption,
+				checksum,
 			};
 			// explicitly asserting the type here as Typescript could not infer that resumable is of type true
 			return this.startResumableUpload(
@@ -613,7 +905,8 @@ export class AWSS3Provider implements StorageProvider {
 					null,
 					`Upload success for ${key}`
 				);
-				return { key };
+				// the uploader appends the checksum of the content to the key of a deduplicated upload
+				return { key: params.Key };
 			}) as S3ProviderPutOutput<T>;
 		} catch (error) {
 			logger.warn('error uploading', error);
@@ -629,139 +922,948 @@ export class AWSS3Provider implements StorageProvider {
 	}
 
 	/**
-	 * Remove the object for specified key
+	 * Get a presigned URL to upload an object with a PUT request
 	 * @param {string} key - key of the object
-	 * @param {S3ProviderRemoveConfig} [config] - Optional configuration for the underlying S3 command
-	 * @return {Promise<S3ProviderRemoveOutput>} - Promise resolves upon successful removal of the object
+	 * @param {S3ProviderGetUploadUrlConfig} [config] - Optional configuration for the presigned URL
+	 * @return {Promise<string>} - A promise resolves to the presigned URL
 	 */
-	public async remove(
+	public async getUploadUrl(
 		key: string,
-		config?: S3ProviderRemoveConfig
-	): Promise<S3ProviderRemoveOutput> {
+		config?: S3ProviderGetUploadUrlConfig
+	): Promise<string> {
 		const credentialsOK = await this._ensureCredentials();
 		if (!credentialsOK || !this._isWithCredentials(this._config)) {
 			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
 		}
 		const opt = Object.assign({}, this._config, config);
-		const { bucket, track } = opt;
-
-		const prefix = this._prefix(opt);
-		const final_key = prefix + key;
+		const { bucket, track, expires, contentType } = opt;
 		const s3 = this._createNewS3Client(opt);
-		logger.debug('remove ' + key + ' from ' + final_key);
-
-		const params: DeleteObjectCommandInput = {
-			Bucket: bucket,
-			Key: final_key,
-		};
+		s3.middlewareStack.add(
+			createPrefixMiddleware(opt, key),
+			prefixMiddlewareOptions
+		);
+		logger.debug('get upload url for ' + key);
 
-		const deleteObjectCommand = new DeleteObjectCommand(params);
+		const params: PutObjectCommandInput = { Bucket: bucket, Key: key };
+		// the content type is signed, the upload must send the same header
+		if (contentType) params.ContentType = contentType;
 
 		try {
-			const response = await s3.send(deleteObjectCommand);
+			const signer = new S3RequestPresigner({ ...s3.config });
+			const request = await createRequest(s3, new PutObjectCommand(params));
+			const url = formatUrl(
+				await signer.presign(request, {
+					expiresIn: expires || DEFAULT_PRESIGN_EXPIRATION,
+				})
+			);
 			dispatchStorageEvent(
 				track,
-				'delete',
-				{ method: 'remove', result: 'success' },
+				'getUploadUrl',
+				{ method: 'getUploadUrl', result: 'success' },
 				null,
-				`Deleted ${key} successfully`
+				`Upload URL: ${url}`
 			);
-			return response;
+			return url;
 		} catch (error) {
+			logger.warn('get upload url error', error);
 			dispatchStorageEvent(
 				track,
-				'delete',
-				{ method: 'remove', result: 'failed' },
+				'getUploadUrl',
+				{ method: 'getUploadUrl', result: 'failed' },
 				null,
-				`Deletion of ${key} failed with ${error}`
+				`Could not get an upload URL for ${key}`
 			);
 			throw error;
 		}
 	}
 
 	/**
-	 * List bucket objects relative to the level and prefix specified
-	 * @param {string} path - the path that contains objects
-	 * @param {S3ProviderListConfig} [config] - Optional configuration for the underlying S3 command
-	 * @return {Promise<S3ProviderListOutput>} - Promise resolves to list of keys, eTags, lastModified and file size for
-	 * all objects in path
+	 * Get the URL and the fields of an HTML form to upload an object with a POST request, the policy of the form is
+	 * signed with the current credentials
+	 * @param {string} key - key of the object
+	 * @param {S3ProviderGetPresignedPostConfig} [config] - Optional configuration for the policy
+	 * @return {Promise<S3ProviderGetPresignedPostOutput>} - A promise resolves to the URL and the fields of the form
 	 */
-	public async list(
-		path: string,
-		config?: S3ProviderListConfig
-	): Promise<S3ProviderListOutput> {
+	public async getPresignedPost(
+		key: string,
+		config?: S3ProviderGetPresignedPostConfig
+	): Promise<S3ProviderGetPresignedPostOutput> {
 		const credentialsOK = await this._ensureCredentials();
 		if (!credentialsOK || !this._isWithCredentials(this._config)) {
 			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
 		}
 		const opt = Object.assign({}, this._config, config);
-		const { bucket, track, maxKeys } = opt;
-
-		const prefix = this._prefix(opt);
-		const final_path = prefix + path;
+		const {
+			bucket,
+			track,
+			expires,
+			contentType,
+			maxSize,
+			conditions = [],
+			credentials,
+		} = opt;
+		const final_key = this._prefix(opt) + key;
 		const s3 = this._createNewS3Client(opt);
-		logger.debug('list ' + path + ' from ' + final_path);
+		logger.debug('get presigned post for ' + key + ' to ' + final_key);
 
-		const params = {
-			Bucket: bucket,
-			Prefix: final_path,
-			MaxKeys: maxKeys,
-		};
+		try {
+			const region = await s3.config.region();
+			// the form is posted to the root of the bucket
+			const request = await createRequest(
+				s3,
+				new HeadBucketCommand({ Bucket: bucket })
+			);
+			const url = formatUrl({ ...request, query: {} });
 
-		const listObjectsCommand = new ListObjectsCommand(params);
+			const date = new Date();
+			const longDate = date.toISOString().replace(/[-:]|\.\d{3}/g, '');
+			const shortDate = longDate.slice(0, 8);
+			const fields: Record<string, string> = { key: final_key };
+			if (contentType) fields['Content-Type'] = contentType;
+			fields['X-Amz-Algorithm'] = 'AWS4-HMAC-SHA256';
+			fields[
+				'X-Amz-Credential'
+			] = `${credentials.accessKeyId}/${shortDate}/${region}/s3/aws4_request`;
+			fields['X-Amz-Date'] = longDate;
+			if (credentials.sessionToken) {
+				fields['X-Amz-Security-Token'] = credentials.sessionToken;
+			}
 
-		try {
-			const response = await s3.send(listObjectsCommand);
-			let list: S3ProviderListOutput = [];
-			if (response && response.Contents) {
-				list = response.Contents.map(item => {
-					return {
-						key: item.Key.substr(prefix.length),
-						eTag: item.ETag,
-						lastModified: item.LastModified,
-						size: item.Size,
-					};
-				});
+			// every field of the form but the policy and its signature must match a condition
+			const policyConditions: S3PresignedPostCondition[] = [
+				{ bucket },
+				...Object.keys(fields).map(field => ({ [field]: fields[field] })),
+			];
+			if (maxSize !== undefined) {
+				policyConditions.push(['content-length-range', 0, maxSize]);
 			}
+			const policy = {
+				expiration: new Date(
+					date.getTime() + (expires || DEFAULT_PRESIGN_EXPIRATION) * 1000
+				).toISOString(),
+				conditions: policyConditions.concat(conditions),
+			};
+			// the policy may hold non-Latin-1 characters, e.g. in the key
+			fields.Policy = toBase64(s3.config.utf8Decoder(JSON.stringify(policy)));
+			fields['X-Amz-Signature'] = await new SignatureV4({
+				credentials,
+				region,
+				service: 's3',
+				sha256: s3.config.sha256,
+			}).sign(fields.Policy, { signingDate: date });
+
 			dispatchStorageEvent(
 				track,
-				'list',
-				{ method: 'list', result: 'success' },
+				'getPresignedPost',
+				{ method: 'getPresignedPost', result: 'success' },
 				null,
-				`${list.length} items returned from list operation`
+				`Presigned post for ${key}`
 			);
-			logger.debug('list', list);
-			return list;
+			return { url, fields };
 		} catch (error) {
-			logger.warn('list error', error);
+			logger.warn('get presigned post error', error);
 			dispatchStorageEvent(
 				track,
-				'list',
-				{ method: 'list', result: 'failed' },
+				'getPresignedPost',
+				{ method: 'getPresignedPost', result: 'failed' },
 				null,
-				`Listing items failed: ${error.message}`
+				`Could not get a presigned post for ${key}`
 			);
 			throw error;
 		}
 	}
 
-	private async _ensureCredentials(): Promise<boolean> {
-		try {
-			const credentials = await Credentials.get();
-			if (!credentials) return false;
-			const cred = Credentials.shear(credentials);
-			logger.debug('set credentials for storage', cred);
-			this._config.credentials = cred;
+	/**
+	 * Get the properties of the object for specified key
+	 * @param {string} key - key of the object
+	 * @param {S3ProviderGetPropertiesConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderGetPropertiesOutput>} - Promise resolves to the size, content type, ETag, last
+	 * modified date, user metadata and version ID of the object
+	 */
+	public async getProperties(
+		key: string,
+		config?: S3ProviderGetPropertiesConfig
+	): Promise<S3ProviderGetPropertiesOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const {
+			bucket,
+			track,
+			SSECustomerAlgorithm,
+			SSECustomerKey,
+			SSECustomerKeyMD5,
+		} = opt;
+		const final_key = this._prefix(opt) + key;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('getProperties ' + key + ' from ' + final_key);
 
-			return true;
+		try {
+			const response = await s3.send(
+				new HeadObjectCommand({
+					Bucket: bucket,
+					Key: final_key,
+					...(SSECustomerAlgorithm && { SSECustomerAlgorithm }),
+					...(SSECustomerKey && { SSECustomerKey }),
+					...(SSECustomerKeyMD5 && { SSECustomerKeyMD5 }),
+				})
+			);
+			dispatchStorageEvent(
+				track,
+				'getProperties',
+				{ method: 'getProperties', result: 'success' },
+				null,
+				`getProperties success for ${key}`
+			);
+			return {
+				size: response.ContentLength,
+				contentType: response.ContentType,
+				eTag: response.ETag,
+				lastModified: response.LastModified,
+				metadata: response.Metadata,
+				versionId: response.VersionId,
+			};
 		} catch (error) {
-			logger.warn('ensure credentials error', error);
-			return false;
+			dispatchStorageEvent(
+				track,
+				'getProperties',
+				{ method: 'getProperties', result: 'failed' },
+				null,
+				`getProperties failed for ${key} with ${error}`
+			);
+			throw error;
 		}
 	}
 
-	private _isWithCredentials(
-		config: StorageOptions
+	/**
+	 * Replace the user metadata of the object for specified key, by copying the object onto itself
+	 * @param {string} key - key of the object
+	 * @param {Record<string, string>} metadata - the new user metadata of the object
+	 * @param {S3ProviderUpdateMetadataConfig} [config] - Optional configuration for the underlying S3 commands
+	 * @return {Promise<S3ProviderUpdateMetadataOutput>} - Promise resolves to the key of the object
+	 */
+	public async updateMetadata(
+		key: string,
+		metadata: Record<string, string>,
+		config?: S3ProviderUpdateMetadataConfig
+	): Promise<S3ProviderUpdateMetadataOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const {
+			bucket,
+			track,
+			SSECustomerAlgorithm,
+			SSECustomerKey,
+			SSECustomerKeyMD5,
+		} = opt;
+		const final_key = this._prefix(opt) + key;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('updateMetadata of ' + key + ' at ' + final_key);
+
+		const sseCustomerParams = {
+			...(SSECustomerAlgorithm && { SSECustomerAlgorithm }),
+			...(SSECustomerKey && { SSECustomerKey }),
+			...(SSECustomerKeyMD5 && { SSECustomerKeyMD5 }),
+		};
+
+		try {
+			const head = await s3.send(
+				new HeadObjectCommand({
+					Bucket: bucket,
+					Key: final_key,
+					...sseCustomerParams,
+				})
+			);
+			// an object encrypted on the client can not be decrypted without its envelope
+			const envelope = envelopeFromMetadata(head.Metadata);
+			// REPLACE also replaces the system metadata, so the current values are carried over
+			const params: CopyObjectCommandInput = {
+				Bucket: bucket,
+				CopySource: `${bucket}/${final_key}`,
+				Key: final_key,
+				MetadataDirective: 'REPLACE',
+				Metadata: {
+					...metadata,
+					...(envelope && envelopeToMetadata(envelope)),
+				},
+				CacheControl: head.CacheControl,
+				ContentDisposition: head.ContentDisposition,
+				ContentEncoding: head.ContentEncoding,
+				ContentLanguage: head.ContentLanguage,
+				ContentType: head.ContentType,
+				Expires: head.Expires,
+				...sseCustomerParams,
+			};
+			if (SSECustomerAlgorithm) {
+				params.CopySourceSSECustomerAlgorithm = SSECustomerAlgorithm;
+				params.CopySourceSSECustomerKey = SSECustomerKey;
+				params.CopySourceSSECustomerKeyMD5 = SSECustomerKeyMD5;
+			} else if (head.ServerSideEncryption) {
+				params.ServerSideEncryption = head.ServerSideEncryption;
+				if (head.SSEKMSKeyId) params.SSEKMSKeyId = head.SSEKMSKeyId;
+			}
+			await s3.send(new CopyObjectCommand(params));
+			dispatchStorageEvent(
+				track,
+				'updateMetadata',
+				{ method: 'updateMetadata', result: 'success' },
+				null,
+				`Metadata of ${key} updated successfully`
+			);
+			return { key };
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'updateMetadata',
+				{ method: 'updateMetadata', result: 'failed' },
+				null,
+				`Update of the metadata of ${key} failed with ${error}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Get the tags of the object for specified key
+	 * @param {string} key - key of the object
+	 * @param {S3ProviderTagsConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderTags>} - Promise resolves to the tags of the object, by tag key
+	 */
+	public async getTags(
+		key: string,
+		config?: S3ProviderTagsConfig
+	): Promise<S3ProviderTags> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track } = opt;
+		const final_key = this._prefix(opt) + key;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('getTags of ' + key + ' from ' + final_key);
+
+		try {
+			const response = await s3.send(
+				new GetObjectTaggingCommand({ Bucket: bucket, Key: final_key })
+			);
+			dispatchStorageEvent(
+				track,
+				'getTags',
+				{ method: 'getTags', result: 'success' },
+				null,
+				`getTags success for ${key}`
+			);
+			const tags: S3ProviderTags = {};
+			(response.TagSet || []).forEach(tag => {
+				tags[tag.Key] = tag.Value;
+			});
+			return tags;
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'getTags',
+				{ method: 'getTags', result: 'failed' },
+				null,
+				`getTags failed for ${key} with ${error}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Replace the tags of the object for specified key
+	 * @param {string} key - key of the object
+	 * @param {S3ProviderTags} tags - the new tags of the object, by tag key
+	 * @param {S3ProviderTagsConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderSetTagsOutput>} - Promise resolves to the key of the object
+	 */
+	public async setTags(
+		key: string,
+		tags: S3ProviderTags,
+		config?: S3ProviderTagsConfig
+	): Promise<S3ProviderSetTagsOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track } = opt;
+		const final_key = this._prefix(opt) + key;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('setTags of ' + key + ' at ' + final_key);
+
+		try {
+			await s3.send(
+				new PutObjectTaggingCommand({
+					Bucket: bucket,
+					Key: final_key,
+					Tagging: {
+						TagSet: Object.keys(tags).map(Key => ({ Key, Value: tags[Key] })),
+					},
+				})
+			);
+			dispatchStorageEvent(
+				track,
+				'setTags',
+				{ method: 'setTags', result: 'success' },
+				null,
+				`Tags of ${key} set successfully`
+			);
+			return { key };
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'setTags',
+				{ method: 'setTags', result: 'failed' },
+				null,
+				`Setting the tags of ${key} failed with ${error}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove the object for specified key
+	 * @param {string} key - key of the object
+	 * @param {S3ProviderRemoveConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderRemoveOutput>} - Promise resolves upon successful removal of the object
+	 */
+	public async remove(
+		key: string,
+		config?: S3ProviderRemoveConfig
+	): Promise<S3ProviderRemoveOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track, versionId } = opt;
+
+		const prefix = this._prefix(opt);
+		const final_key = prefix + key;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('remove ' + key + ' from ' + final_key);
+
+		const params: DeleteObjectCommandInput = {
+			Bucket: bucket,
+			Key: final_key,
+		};
+		if (versionId) params.VersionId = versionId;
+
+		const deleteObjectCommand = new DeleteObjectCommand(params);
+
+		try {
+			const response = await s3.send(deleteObjectCommand);
+			dispatchStorageEvent(
+				track,
+				'delete',
+				{ method: 'remove', result: 'success' },
+				null,
+				`Deleted ${key} successfully`
+			);
+			return response;
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'delete',
+				{ method: 'remove', result: 'failed' },
+				null,
+				`Deletion of ${key} failed with ${error}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove the objects for the specified keys, in batches of up to 1000 keys
+	 * @param {string[]} keys - keys of the objects
+	 * @param {S3ProviderRemoveConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderRemoveManyOutput>} - Promise resolves to the removed keys and the keys that could not
+	 * be removed
+	 */
+	public async removeMany(
+		keys: string[],
+		config?: S3ProviderRemoveConfig
+	): Promise<S3ProviderRemoveManyOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track } = opt;
+
+		const prefix = this._prefix(opt);
+		const s3 = this._createNewS3Client(opt);
+		logger.debug(`remove ${keys.length} keys from ${prefix}`);
+
+		const output: S3ProviderRemoveManyOutput = { deleted: [], errors: [] };
+
+		try {
+			for (let i = 0; i < keys.length; i += MAX_DELETE_OBJECTS) {
+				await this._deleteObjects(
+					s3,
+					bucket,
+					prefix,
+					keys.slice(i, i + MAX_DELETE_OBJECTS),
+					output
+				);
+			}
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'delete',
+				{ method: 'removeMany', result: 'failed' },
+				null,
+				`Deletion of ${keys.length} items failed with ${error}`
+			);
+			throw error;
+		}
+
+		this._dispatchRemoveManyEvent(track, 'removeMany', output);
+		return output;
+	}
+
+	/**
+	 * Remove all objects under the path relative to the level specified, deleting each page of the listing
+	 * @param {string} path - the path that contains objects
+	 * @param {S3ProviderRemoveConfig} [config] - Optional configuration for the underlying S3 commands
+	 * @return {Promise<S3ProviderRemoveManyOutput>} - Promise resolves to the removed keys and the keys that could not
+	 * be removed
+	 */
+	public async removePrefix(
+		path: string,
+		config?: S3ProviderRemoveConfig
+	): Promise<S3ProviderRemoveManyOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track } = opt;
+
+		const prefix = this._prefix(opt);
+		const final_path = prefix + path;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('remove all of ' + path + ' from ' + final_path);
+
+		const output: S3ProviderRemoveManyOutput = { deleted: [], errors: [] };
+		let nextToken: string;
+
+		try {
+			do {
+				const page = await this._listPage(
+					s3,
+					{
+						Bucket: bucket,
+						Prefix: final_path,
+						MaxKeys: MAX_DELETE_OBJECTS,
+						Marker: nextToken,
+					},
+					prefix
+				);
+				await this._deleteObjects(
+					s3,
+					bucket,
+					prefix,
+					page.results.map(({ key }) => key),
+					output
+				);
+				nextToken = page.nextToken;
+			} while (nextToken);
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'delete',
+				{ method: 'removePrefix', result: 'failed' },
+				null,
+				`Deletion of ${path} failed with ${error}`
+			);
+			throw error;
+		}
+
+		this._dispatchRemoveManyEvent(track, 'removePrefix', output);
+		return output;
+	}
+
+	private async _deleteObjects(
+		s3: S3Client,
+		bucket: string,
+		prefix: string,
+		keys: string[],
+		output: S3ProviderRemoveManyOutput
+	): Promise<void> {
+		if (keys.length === 0) {
+			return;
+		}
+
+		// in quiet mode S3 only returns the keys it could not delete
+		const response = await s3.send(
+			new DeleteObjectsCommand({
+				Bucket: bucket,
+				Delete: {
+					Objects: keys.map(key => ({ Key: prefix + key })),
+					Quiet: true,
+				},
+			})
+		);
+
+		const errors = ((response && response.Errors) || []).map(error => ({
+			key: error.Key.substr(prefix.length),
+			code: error.Code,
+			message: error.Message,
+		}));
+		const failedKeys = new Set(errors.map(({ key }) => key));
+
+		output.deleted.push(...keys.filter(key => !failedKeys.has(key)));
+		output.errors.push(...errors);
+	}
+
+	private _dispatchRemoveManyEvent(
+		track: boolean,
+		method: string,
+		{ deleted, errors }: S3ProviderRemoveManyOutput
+	) {
+		dispatchStorageEvent(
+			track,
+			'delete',
+			{ method, result: errors.length === 0 ? 'success' : 'failed' },
+			null,
+			errors.length === 0
+				? `Deleted ${deleted.length} items successfully`
+				: `Deleted ${deleted.length} items, deletion of ${errors.length} items failed`
+		);
+	}
+
+	/**
+	 * List bucket objects relative to the level and prefix specified
+	 * @param {string} path - the path that contains objects
+	 * @param {S3ProviderListConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderListOutput>} - Promise resolves to list of keys, eTags, lastModified and file size for
+	 * all objects in path, or to a S3ProviderListPage when pageSize, nextToken or delimiter is set
+	 */
+	public async list(
+		path: string,
+		config: S3ProviderListConfig & S3ProviderListPageOptions
+	): Promise<S3ProviderListPage>;
+	public async list(
+		path: string,
+		config?: S3ProviderListConfig & S3ProviderListItemsOptions
+	): Promise<S3ProviderListOutput>;
+	public async list(
+		path: string,
+		config?: S3ProviderListConfig
+	): Promise<S3ProviderListOutput | S3ProviderListPage>;
+	public async list(
+		path: string,
+		config?: S3ProviderListConfig
+	): Promise<S3ProviderListOutput | S3ProviderListPage> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track, maxKeys, pageSize, nextToken, delimiter } = opt;
+		const paginated =
+			pageSize !== undefined ||
+			nextToken !== undefined ||
+			delimiter !== undefined;
+
+		const prefix = this._prefix(opt);
+		const final_path = prefix + path;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('list ' + path + ' from ' + final_path);
+
+		const params: ListObjectsCommandInput = {
+			Bucket: bucket,
+			Prefix: final_path,
+			MaxKeys: pageSize !== undefined ? pageSize : maxKeys,
+		};
+		if (delimiter) params.Delimiter = delimiter;
+		if (nextToken) params.Marker = nextToken;
+
+		try {
+			const page = await this._listPage(s3, params, prefix);
+			dispatchStorageEvent(
+				track,
+				'list',
+				{ method: 'list', result: 'success' },
+				null,
+				`${page.results.length} items returned from list operation`
+			);
+			logger.debug('list', page);
+			return paginated ? page : page.results;
+		} catch (error) {
+			logger.warn('list error', error);
+			dispatchStorageEvent(
+				track,
+				'list',
+				{ method: 'list', result: 'failed' },
+				null,
+				`Listing items failed: ${error.message}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * List all bucket objects relative to the level and prefix specified, requesting the pages of the listing one
+	 * after the other
+	 * @param {string} path - the path that contains objects
+	 * @param {S3ProviderListConfig} [config] - Optional configuration for the underlying S3 command, pageSize sets
+	 * the number of items per request
+	 * @return {Promise<S3ProviderListAllOutput>} - Promise resolves to the items and prefixes of all pages
+	 */
+	public async listAll(
+		path: string,
+		config?: S3ProviderListConfig
+	): Promise<S3ProviderListAllOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track, pageSize, delimiter } = opt;
+
+		const prefix = this._prefix(opt);
+		const final_path = prefix + path;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('list all ' + path + ' from ' + final_path);
+
+		const params: ListObjectsCommandInput = {
+			Bucket: bucket,
+			Prefix: final_path,
+			MaxKeys: pageSize,
+		};
+		if (delimiter) params.Delimiter = delimiter;
+
+		const output: S3ProviderListAllOutput = { results: [], prefixes: [] };
+		let { nextToken } = opt;
+
+		try {
+			do {
+				const page = await this._listPage(
+					s3,
+					{ ...params, Marker: nextToken },
+					prefix
+				);
+				output.results.push(...page.results);
+				output.prefixes.push(...page.prefixes);
+				nextToken = page.nextToken;
+			} while (nextToken);
+
+			dispatchStorageEvent(
+				track,
+				'list',
+				{ method: 'listAll', result: 'success' },
+				null,
+				`${output.results.length} items returned from list operation`
+			);
+			logger.debug('list all', output);
+			return output;
+		} catch (error) {
+			logger.warn('list all error', error);
+			dispatchStorageEvent(
+				track,
+				'list',
+				{ method: 'listAll', result: 'failed' },
+				null,
+				`Listing items failed: ${error.message}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * List all versions of the bucket objects relative to the level and prefix specified, including the delete
+	 * markers of removed objects
+	 * @param {string} path - the path that contains objects
+	 * @param {S3ProviderListVersionsConfig} [config] - Optional configuration for the underlying S3 command, pageSize
+	 * sets the number of versions per request
+	 * @return {Promise<S3ProviderListVersionsOutputItem[]>} - Promise resolves to the versions of the objects, newest
+	 * version first for each key
+	 */
+	public async listVersions(
+		path: string,
+		config?: S3ProviderListVersionsConfig
+	): Promise<S3ProviderListVersionsOutputItem[]> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track, pageSize } = opt;
+
+		const prefix = this._prefix(opt);
+		const final_path = prefix + path;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug('list versions ' + path + ' from ' + final_path);
+
+		const params: ListObjectVersionsCommandInput = {
+			Bucket: bucket,
+			Prefix: final_path,
+			MaxKeys: pageSize,
+		};
+		const list: S3ProviderListVersionsOutputItem[] = [];
+
+		try {
+			let response: ListObjectVersionsCommandOutput;
+			do {
+				response = await s3.send(new ListObjectVersionsCommand({ ...params }));
+				const versions: S3ProviderListVersionsOutputItem[] = (
+					response.Versions || []
+				).map(item => ({
+					key: item.Key.substr(prefix.length),
+					versionId: item.VersionId,
+					isLatest: item.IsLatest,
+					lastModified: item.LastModified,
+					isDeleteMarker: false,
+					eTag: item.ETag,
+					size: item.Size,
+				}));
+				const deleteMarkers: S3ProviderListVersionsOutputItem[] = (
+					response.DeleteMarkers || []
+				).map(item => ({
+					key: item.Key.substr(prefix.length),
+					versionId: item.VersionId,
+					isLatest: item.IsLatest,
+					lastModified: item.LastModified,
+					isDeleteMarker: true,
+				}));
+				// S3 returns the versions and the delete markers separately, both ordered by key then newest first
+				list.push(...versions.concat(deleteMarkers).sort(compareVersions));
+				params.KeyMarker = response.NextKeyMarker;
+				params.VersionIdMarker = response.NextVersionIdMarker;
+			} while (response.IsTruncated);
+
+			dispatchStorageEvent(
+				track,
+				'list',
+				{ method: 'listVersions', result: 'success' },
+				null,
+				`${list.length} versions returned from list operation`
+			);
+			logger.debug('list versions', list);
+			return list;
+		} catch (error) {
+			logger.warn('list versions error', error);
+			dispatchStorageEvent(
+				track,
+				'list',
+				{ method: 'listVersions', result: 'failed' },
+				null,
+				`Listing versions failed: ${error.message}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Restore a previous version of the object for specified key, by copying it over the current version
+	 * @param {string} key - key of the object
+	 * @param {string} versionId - the version to restore
+	 * @param {S3ProviderRestoreVersionConfig} [config] - Optional configuration for the underlying S3 command
+	 * @return {Promise<S3ProviderRestoreVersionOutput>} - Promise resolves to the key of the object and the version
+	 * created by the restore
+	 */
+	public async restoreVersion(
+		key: string,
+		versionId: string,
+		config?: S3ProviderRestoreVersionConfig
+	): Promise<S3ProviderRestoreVersionOutput> {
+		const credentialsOK = await this._ensureCredentials();
+		if (!credentialsOK || !this._isWithCredentials(this._config)) {
+			throw new Error(StorageErrorStrings.NO_CREDENTIALS);
+		}
+		const opt = Object.assign({}, this._config, config);
+		const { bucket, track } = opt;
+
+		const final_key = this._prefix(opt) + key;
+		const s3 = this._createNewS3Client(opt);
+		logger.debug(`restore version ${versionId} of ${final_key}`);
+
+		try {
+			const response = await s3.send(
+				new CopyObjectCommand({
+					Bucket: bucket,
+					CopySource: `${bucket}/${final_key}?versionId=${encodeURIComponent(
+						versionId
+					)}`,
+					Key: final_key,
+				})
+			);
+			dispatchStorageEvent(
+				track,
+				'restoreVersion',
+				{ method: 'restoreVersion', result: 'success' },
+				null,
+				`Version ${versionId} of ${key} restored successfully`
+			);
+			return { key, versionId: response.VersionId };
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'restoreVersion',
+				{ method: 'restoreVersion', result: 'failed' },
+				null,
+				`Restoring version ${versionId} of ${key} failed with ${error}`
+			);
+			throw error;
+		}
+	}
+
+	private async _listPage(
+		s3: S3Client,
+		params: ListObjectsCommandInput,
+		prefix: string
+	): Promise<S3ProviderListPage> {
+		const response = await s3.send(new ListObjectsCommand(params));
+		const contents = (response && response.Contents) || [];
+		const commonPrefixes = (response && response.CommonPrefixes) || [];
+
+		const results = contents.map(item => {
+			return {
+				key: item.Key.substr(prefix.length),
+				eTag: item.ETag,
+				lastModified: item.LastModified,
+				size: item.Size,
+			};
+		});
+		const prefixes = commonPrefixes.map(item =>
+			item.Prefix.substr(prefix.length)
+		);
+
+		let nextToken: string;
+		if (response && response.IsTruncated) {
+			// S3 only returns NextMarker when listing with a delimiter, otherwise the listing continues after the last key
+			nextToken = response.NextMarker || contents[contents.length - 1].Key;
+		}
+
+		return { results, prefixes, nextToken };
+	}
+
+	private async _ensureCredentials(): Promise<boolean> {
+		try {
+			const credentials = await Credentials.get();
+			if (!credentials) return false;
+			const cred = Credentials.shear(credentials);
+			logger.debug('set credentials for storage', cred);
+			this._config.credentials = cred;
+
+			return true;
+		} catch (error) {
+			logger.warn('ensure credentials error', error);
+			return false;
+		}
+	}
+
+	private _isWithCredentials(
+		config: StorageOptions
 	): config is StorageOptions & { credentials: ICredentials } {
 		return typeof config === 'object' && config.hasOwnProperty('credentials');
 	}
@@ -799,6 +1901,22 @@ export class AWSS3Provider implements StorageProvider {
 		}
 	}
 
+	private _copyTargetKey(
+		target: S3CopySource,
+		config: {
+			credentials: ICredentials;
+			customPrefix?: CustomPrefix;
+		}
+	): string {
+		const { level = DEFAULT_STORAGE_LEVEL, identityId, key } = target;
+		const prefix = this._prefix({
+			...config,
+			level,
+			...(identityId && { identityId }),
+		});
+		return prefix + key;
+	}
+
 	/**
 	 * Creates an S3 client with new V3 aws sdk
 	 */
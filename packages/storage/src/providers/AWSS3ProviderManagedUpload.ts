@@ -15,6 +15,7 @@ import { ConsoleLogger as Logger } from '@aws-amplify/core';
 import {
 	PutObjectCommand,
 	PutObjectRequest,
+	HeadObjectCommand,
 	CreateMultipartUploadCommand,
 	UploadPartCommand,
 	CompleteMultipartUploadCommand,
@@ -37,6 +38,15 @@ import {
 	autoAdjustClockskewMiddlewareOptions,
 	createS3Client,
 } from '../common/S3ClientUtils';
+import {
+	EncryptionEnvelope,
+	createEncryptionEnvelope,
+	encryptPart,
+	encryptedSize,
+	envelopeToMetadata,
+	toBlob,
+} from '../common/ClientSideEncryption';
+import { calculateContentMd5, calculateSha256 } from '../common/Checksum';
 
 const logger = new Logger('AWSS3ProviderManagedUpload');
 
@@ -60,6 +70,7 @@ export class AWSS3ProviderManagedUpload {
 	private completedParts: CompletedPart[] = [];
 	private s3client: S3Client;
 	private uploadId = null;
+	private encryption: { envelope: EncryptionEnvelope; key: CryptoKey } = null;
 
 	// Progress reporting
 	private bytesUploaded = 0;
@@ -76,10 +87,25 @@ export class AWSS3ProviderManagedUpload {
 	public async upload() {
 		try {
 			this.body = await this.validateAndSanitizeBody(this.params.Body);
+			if (this.opts.dedup) {
+				const existingObject = await this.findDuplicate();
+				if (existingObject) {
+					logger.debug(`${this.params.Key} already exists, skipping upload`);
+					return existingObject;
+				}
+			}
+			if (this.opts.clientSideEncryption) {
+				await this.setupEncryption();
+			}
 			this.totalBytesToUpload = this.byteLength(this.body);
 			if (this.totalBytesToUpload <= this.minPartSize) {
 				// Multipart upload is not required. Upload the sanitized body as is
-				this.params.Body = this.body;
+				this.params.Body = this.encryption
+					? await this.encryptBodyPart(1, this.body)
+					: this.body;
+				if (this.opts.checksum) {
+					this.params.ContentMD5 = await this.contentMd5(this.params.Body);
+				}
 				const putObjectCommand = new PutObjectCommand(this.params);
 				return this.s3client.send(putObjectCommand);
 			} else {
@@ -120,6 +146,62 @@ export class AWSS3ProviderManagedUpload {
 		}
 	}
 
+	private async setupEncryption() {
+		// slice the body in bytes, the decryption relies on the size in bytes of the encrypted parts
+		this.body = toBlob(this.body);
+		const size = this.byteLength(this.body);
+		this.encryption = await createEncryptionEnvelope(
+			this.opts.clientSideEncryption.keyProvider,
+			size <= this.minPartSize ? size : this.minPartSize,
+			size
+		);
+		this.params.Metadata = {
+			...this.params.Metadata,
+			...envelopeToMetadata(this.encryption.envelope),
+		};
+	}
+
+	private encryptBodyPart(partNumber: number, bodyPart: any): Promise<Blob> {
+		const { envelope, key } = this.encryption;
+		return encryptPart(
+			this.opts.clientSideEncryption.keyProvider,
+			key,
+			envelope,
+			partNumber,
+			bodyPart
+		);
+	}
+
+	/**
+	 * Make the key content-addressed and look for an object which already has this key
+	 */
+	private async findDuplicate() {
+		this.params.Key += await calculateSha256(
+			this.s3client.config.sha256,
+			this.body,
+			this.minPartSize
+		);
+		// the prefix middleware of the client is bound to the key
+		this.s3client = this._createNewS3Client(this.opts, this.emitter);
+		try {
+			return await this.s3client.send(
+				new HeadObjectCommand({
+					Bucket: this.params.Bucket,
+					Key: this.params.Key,
+				})
+			);
+		} catch (error) {
+			if (error && error.$metadata && error.$metadata.httpStatusCode === 404) {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+
+	private contentMd5(body: any): Promise<string> {
+		return calculateContentMd5(this.s3client.config.md5, body);
+	}
+
 	private createParts(): Part[] {
 		try {
 			const parts: Part[] = [];
@@ -174,10 +256,16 @@ export class AWSS3ProviderManagedUpload {
 						SSECustomerKey,
 						SSECustomerKeyMD5,
 					} = this.params;
+					const body = this.encryption
+						? await this.encryptBodyPart(part.partNumber, part.bodyPart)
+						: part.bodyPart;
 					const res = await this.s3client.send(
 						new UploadPartCommand({
 							PartNumber: part.partNumber,
-							Body: part.bodyPart,
+							Body: body,
+							...(this.opts.checksum && {
+								ContentMD5: await this.contentMd5(body),
+							}),
 							UploadId: uploadId,
 							Key,
 							Bucket,
@@ -264,7 +352,13 @@ export class AWSS3ProviderManagedUpload {
 		this.bytesUploaded += incrementalUpdate;
 		this.emitter.emit(SEND_UPLOAD_PROGRESS_EVENT, {
 			loaded: this.bytesUploaded,
-			total: this.totalBytesToUpload,
+			// the encrypted parts are sent with their authentication tag
+			total: this.encryption
+				? encryptedSize(
+						this.totalBytesToUpload,
+						this.encryption.envelope.partSize
+				  )
+				: this.totalBytesToUpload,
 			part: partNumber,
 			key: this.params.Key,
 		});
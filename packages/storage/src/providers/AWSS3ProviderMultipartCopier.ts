@@ -0,0 +1,302 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import { ConsoleLogger as Logger } from '@aws-amplify/core';
+import {
+	S3Client,
+	HeadObjectCommand,
+	HeadObjectCommandOutput,
+	CopyObjectCommand,
+	CopyObjectCommandInput,
+	CreateMultipartUploadCommand,
+	UploadPartCopyCommand,
+	CompleteMultipartUploadCommand,
+	AbortMultipartUploadCommand,
+	ListPartsCommand,
+	CompletedPart,
+} from '@aws-sdk/client-s3';
+import * as events from 'events';
+import { AWSS3ProviderMultipartCopierErrors } from '../common/StorageErrorStrings';
+
+const logger = new Logger('AWSS3ProviderMultipartCopier');
+
+export const COPY_PROGRESS_EVENT = 'copyProgress';
+
+// CopyObject can copy objects up to 5 GB
+const MULTIPART_THRESHOLD = 5 * 1024 * 1024 * 1024;
+const MAX_NUM_PARTS = 10000;
+const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024;
+
+export interface AWSS3ProviderMultipartCopierParams {
+	params: CopyObjectCommandInput;
+	s3client: S3Client;
+	emitter?: events.EventEmitter;
+	queueSize?: number;
+}
+
+export interface CopyProgressEvent {
+	loaded: number;
+	total: number;
+	key: string;
+}
+
+export declare interface CopyPart {
+	partNumber: number;
+	// inclusive byte range of the source object
+	start: number;
+	end: number;
+}
+
+/**
+ * Copies an object with CopyObject, or with a multipart upload of UploadPartCopy requests when it is larger than
+ * CopyObject allows. `params.CopySource` is `bucket/key` of the source object.
+ */
+export class AWSS3ProviderMultipartCopier {
+	// Defaults
+	protected minPartSize = 100 * 1024 * 1024;
+	protected multipartThreshold = MULTIPART_THRESHOLD;
+	private queueSize = 4;
+
+	// Data for current copy
+	private params: CopyObjectCommandInput;
+	private s3client: S3Client;
+	private uploadId: string = null;
+	private completedParts: CompletedPart[] = [];
+
+	// Progress reporting
+	private bytesCopied = 0;
+	private totalBytesToCopy = 0;
+	private emitter: events.EventEmitter = null;
+
+	constructor({
+		params,
+		s3client,
+		emitter,
+		queueSize,
+	}: AWSS3ProviderMultipartCopierParams) {
+		if (!params.CopySource) {
+			throw new Error(AWSS3ProviderMultipartCopierErrors.NO_COPYSOURCE);
+		}
+		if (queueSize !== undefined) {
+			if (!Number.isInteger(queueSize) || queueSize < 1) {
+				throw new Error(AWSS3ProviderMultipartCopierErrors.INVALID_QUEUESIZE);
+			}
+			this.queueSize = queueSize;
+		}
+		this.params = params;
+		this.s3client = s3client;
+		this.emitter = emitter || new events.EventEmitter();
+	}
+
+	public async copy() {
+		const head = await this.headSourceObject();
+		this.totalBytesToCopy = head.ContentLength || 0;
+
+		if (this.totalBytesToCopy <= this.multipartThreshold) {
+			const response = await this.s3client.send(
+				new CopyObjectCommand(this.params)
+			);
+			this.progressChanged(this.totalBytesToCopy);
+			return response;
+		}
+
+		try {
+			// Step 1: Initiate the multipart upload with the metadata of the source object
+			this.uploadId = await this.createMultiPartUpload(head);
+
+			// Step 2: Copy ranges of the source object in parallel as requested
+			const parts = this.createParts();
+			for (let start = 0; start < parts.length; start += this.queueSize) {
+				await this.copyParts(parts.slice(start, start + this.queueSize));
+			}
+
+			// Step 3: Finalize the upload such that S3 can assemble the copy
+			return await this.finishMultiPartUpload();
+		} catch (error) {
+			logger.error('Error. Cancelling the multipart copy.');
+			await this.cleanup();
+			throw error;
+		}
+	}
+
+	private async headSourceObject(): Promise<HeadObjectCommandOutput> {
+		const { CopySource } = this.params;
+		const separator = CopySource.indexOf('/');
+
+		try {
+			return await this.s3client.send(
+				new HeadObjectCommand({
+					Bucket: CopySource.substr(0, separator),
+					Key: CopySource.substr(separator + 1),
+				})
+			);
+		} catch (error) {
+			if (error && error.$metadata && error.$metadata.httpStatusCode === 404) {
+				throw new Error(AWSS3ProviderMultipartCopierErrors.NO_OBJECT_FOUND);
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * @private Not to be extended outside of tests
+	 * @VisibleForTesting
+	 */
+	protected createParts(): CopyPart[] {
+		const partSize = Math.max(
+			this.minPartSize,
+			Math.ceil(this.totalBytesToCopy / MAX_NUM_PARTS)
+		);
+		if (partSize > MAX_PART_SIZE) {
+			throw new Error(
+				AWSS3ProviderMultipartCopierErrors.MAX_NUM_PARTS_EXCEEDED
+			);
+		}
+
+		const parts: CopyPart[] = [];
+		for (let start = 0; start < this.totalBytesToCopy; start += partSize) {
+			parts.push({
+				partNumber: parts.length + 1,
+				start,
+				end: Math.min(start + partSize, this.totalBytesToCopy) - 1,
+			});
+		}
+		return parts;
+	}
+
+	private async createMultiPartUpload(
+		head: HeadObjectCommandOutput
+	): Promise<string> {
+		const {
+			Bucket,
+			Key,
+			ACL,
+			CacheControl,
+			Expires,
+			ServerSideEncryption,
+			SSECustomerAlgorithm,
+			SSECustomerKey,
+			SSECustomerKeyMD5,
+			SSEKMSKeyId,
+			Tagging,
+		} = this.params;
+
+		// unlike CopyObject, a multipart copy does not carry over the metadata of the source object
+		const response = await this.s3client.send(
+			new CreateMultipartUploadCommand({
+				Bucket,
+				Key,
+				CacheControl: CacheControl || head.CacheControl,
+				ContentDisposition: head.ContentDisposition,
+				ContentEncoding: head.ContentEncoding,
+				ContentLanguage: head.ContentLanguage,
+				ContentType: head.ContentType,
+				Expires: Expires || head.Expires,
+				Metadata: head.Metadata,
+				...(ACL && { ACL }),
+				...(ServerSideEncryption && { ServerSideEncryption }),
+				...(SSECustomerAlgorithm && { SSECustomerAlgorithm }),
+				...(SSECustomerKey && { SSECustomerKey }),
+				...(SSECustomerKeyMD5 && { SSECustomerKeyMD5 }),
+				...(SSEKMSKeyId && { SSEKMSKeyId }),
+				...(Tagging && { Tagging }),
+			})
+		);
+		logger.debug(response.UploadId);
+		return response.UploadId;
+	}
+
+	private async copyParts(parts: CopyPart[]) {
+		const {
+			Bucket,
+			Key,
+			CopySource,
+			SSECustomerAlgorithm,
+			SSECustomerKey,
+			SSECustomerKeyMD5,
+		} = this.params;
+
+		const allResults = await Promise.all(
+			parts.map(async part => {
+				const response = await this.s3client.send(
+					new UploadPartCopyCommand({
+						Bucket,
+						Key,
+						CopySource,
+						CopySourceRange: `bytes=${part.start}-${part.end}`,
+						PartNumber: part.partNumber,
+						UploadId: this.uploadId,
+						...(SSECustomerAlgorithm && { SSECustomerAlgorithm }),
+						...(SSECustomerKey && { SSECustomerKey }),
+						...(SSECustomerKeyMD5 && { SSECustomerKeyMD5 }),
+					})
+				);
+				this.progressChanged(part.end - part.start + 1);
+				return response;
+			})
+		);
+
+		// The order of resolved promises is the same as input promise order.
+		for (let i = 0; i < allResults.length; i++) {
+			this.completedParts.push({
+				PartNumber: parts[i].partNumber,
+				ETag: allResults[i].CopyPartResult.ETag,
+			});
+		}
+	}
+
+	private async finishMultiPartUpload() {
+		return this.s3client.send(
+			new CompleteMultipartUploadCommand({
+				Bucket: this.params.Bucket,
+				Key: this.params.Key,
+				UploadId: this.uploadId,
+				MultipartUpload: { Parts: this.completedParts },
+			})
+		);
+	}
+
+	private async cleanup() {
+		this.completedParts = [];
+		this.bytesCopied = 0;
+
+		if (this.uploadId === null) {
+			return;
+		}
+
+		const input = {
+			Bucket: this.params.Bucket,
+			Key: this.params.Key,
+			UploadId: this.uploadId,
+		};
+
+		await this.s3client.send(new AbortMultipartUploadCommand(input));
+
+		// verify that all parts are removed.
+		const data = await this.s3client.send(new ListPartsCommand(input));
+
+		if (data && data.Parts && data.Parts.length > 0) {
+			throw new Error(AWSS3ProviderMultipartCopierErrors.CLEANUP_FAILED);
+		}
+	}
+
+	private progressChanged(incrementalUpdate: number) {
+		this.bytesCopied += incrementalUpdate;
+		const progress: CopyProgressEvent = {
+			loaded: this.bytesCopied,
+			total: this.totalBytesToCopy,
+			key: this.params.Key,
+		};
+		this.emitter.emit(COPY_PROGRESS_EVENT, progress);
+	}
+}
@@ -0,0 +1,366 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+
+import {
+	ConsoleLogger as Logger,
+	Reachability,
+	jitteredBackoff,
+} from '@aws-amplify/core';
+import { AWSS3Provider } from './AWSS3Provider';
+import { AWSS3UploadTask } from './AWSS3UploadTask';
+import { S3ProviderUploadQueueConfig } from '../types';
+import { dispatchStorageEvent, isBlob } from '../common/StorageUtils';
+import { AWSS3UploadQueueErrorStrings } from '../common/StorageErrorStrings';
+
+const logger = new Logger('AWSS3UploadQueue');
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+export enum UploadQueueItemState {
+	PENDING = 'pending',
+	UPLOADING = 'uploading',
+	COMPLETED = 'completed',
+	FAILED = 'failed',
+}
+
+// a Blob, or the uri of a file that is read when the upload starts
+export type UploadQueueBody = Blob | { uri: string };
+
+export interface UploadQueueItem {
+	id: string;
+	key: string;
+	body: UploadQueueBody;
+	config: S3ProviderUploadQueueConfig;
+	priority: number;
+	// Unix timestamp in ms
+	createdAt: number;
+	// number of failed attempts
+	attempts: number;
+	// Unix timestamp in ms before which the item is not retried
+	retryAt: number;
+	state: UploadQueueItemState;
+}
+
+/**
+ * Persists the items of the upload queue such that they survive app restarts
+ */
+export interface UploadQueueStorage {
+	getAll(): Promise<UploadQueueItem[]>;
+	save(item: UploadQueueItem): Promise<void>;
+	remove(id: string): Promise<void>;
+}
+
+export interface AWSS3UploadQueueParams {
+	provider: AWSS3Provider;
+	storage: UploadQueueStorage;
+	maxAttempts?: number;
+	// NetInfo of @react-native-community/netinfo, required to monitor the network on React Native
+	netInfo?: any;
+}
+
+function compareItems(a: UploadQueueItem, b: UploadQueueItem) {
+	return b.priority - a.priority || a.createdAt - b.createdAt;
+}
+
+/**
+ * Queues uploads in a persistent storage and uploads them one at a time, in priority order, while the device is
+ * online. Failed uploads are retried with a jittered backoff until `maxAttempts` is reached. Every change of the state
+ * of an item queued with `track` is dispatched as a `queue` event on the `storage` channel of Hub.
+ */
+export class AWSS3UploadQueue {
+	private readonly provider: AWSS3Provider;
+	private readonly storage: UploadQueueStorage;
+	private readonly maxAttempts: number = DEFAULT_MAX_ATTEMPTS;
+	private readonly netInfo: any;
+	private readonly backoff = jitteredBackoff();
+	private readonly tasks = new Map<string, AWSS3UploadTask>();
+	private items: UploadQueueItem[] = [];
+	private current: UploadQueueItem = null;
+	private loading: Promise<void> = null;
+	private online = false;
+	private started: Promise<void> = null;
+	private subscription: { unsubscribe(): void } = null;
+	private retryTimer: ReturnType<typeof setTimeout> = null;
+
+	constructor({
+		provider,
+		storage,
+		maxAttempts,
+		netInfo,
+	}: AWSS3UploadQueueParams) {
+		this.provider = provider;
+		this.storage = storage;
+		if (maxAttempts !== undefined) {
+			this.maxAttempts = maxAttempts;
+		}
+		this.netInfo = netInfo;
+	}
+
+	/**
+	 * Load the items persisted by a previous session and start uploading when the device is online
+	 */
+	public start(): Promise<void> {
+		if (!this.started) {
+			this.started = this._start();
+		}
+		return this.started;
+	}
+
+	private _load(): Promise<void> {
+		if (!this.loading) {
+			this.loading = this.storage.getAll().then(items => {
+				// uploads interrupted by an app restart are resumed from the cached multipart upload
+				items
+					.filter(item => item.state === UploadQueueItemState.UPLOADING)
+					.forEach(item => (item.state = UploadQueueItemState.PENDING));
+				this.items = items;
+			});
+		}
+		return this.loading;
+	}
+
+	private async _start() {
+		await this._load();
+		this.subscription = new Reachability()
+			.networkMonitor(this.netInfo)
+			.subscribe(({ online }) => {
+				this.online = online;
+				const task = this.current && this.tasks.get(this.current.id);
+				if (task && online) {
+					task.resume();
+				} else if (task) {
+					task.pause();
+				} else if (online) {
+					this._drain();
+				}
+			});
+	}
+
+	/**
+	 * Stop uploading, the in progress upload is paused and resumed by the next start
+	 */
+	public async stop(): Promise<void> {
+		if (!this.started) return;
+		await this.started;
+		this.started = null;
+		this.online = false;
+		this.subscription.unsubscribe();
+		clearTimeout(this.retryTimer);
+		const task = this.current && this.tasks.get(this.current.id);
+		if (task) {
+			task.pause();
+		}
+	}
+
+	/**
+	 * Add an upload to the queue
+	 *
+	 * @param {string} key - key of the object
+	 * @param {UploadQueueBody} body - a Blob, or the uri of a file
+	 * @param {S3ProviderUploadQueueConfig} [config] - Optional configuration of the upload
+	 * @return {Promise<string>} - A promise resolves to the id of the queued item
+	 */
+	public async enqueue(
+		key: string,
+		body: UploadQueueBody,
+		config: S3ProviderUploadQueueConfig = {}
+	): Promise<string> {
+		await this._load();
+		const { priority = 0, ...putConfig } = config;
+		const item: UploadQueueItem = {
+			id: `${Date.now()}-${Math.random().toString(36).substr(2)}`,
+			key,
+			body,
+			config: putConfig,
+			priority,
+			createdAt: Date.now(),
+			attempts: 0,
+			retryAt: 0,
+			state: UploadQueueItemState.PENDING,
+		};
+		await this.storage.save(item);
+		this.items.push(item);
+		this._dispatch(item, `Upload of ${key} queued`);
+		this._drain();
+		return item.id;
+	}
+
+	/**
+	 * List the items of the queue in the order they are uploaded
+	 */
+	public async list(): Promise<UploadQueueItem[]> {
+		await this._load();
+		return this.items.slice().sort(compareItems);
+	}
+
+	/**
+	 * Get the upload task of an item, once its upload has started
+	 */
+	public getTask(id: string): AWSS3UploadTask | undefined {
+		return this.tasks.get(id);
+	}
+
+	/**
+	 * Queue a failed item again
+	 */
+	public async retry(id: string): Promise<void> {
+		await this._load();
+		const item = this._findItem(id);
+		if (item.state !== UploadQueueItemState.FAILED) {
+			logger.warn(`Upload of ${item.key} has not failed`);
+			return;
+		}
+		item.state = UploadQueueItemState.PENDING;
+		item.attempts = 0;
+		item.retryAt = 0;
+		await this.storage.save(item);
+		this._dispatch(item, `Upload of ${item.key} queued`);
+		this._drain();
+	}
+
+	/**
+	 * Remove an item from the queue, its upload is cancelled if it has started
+	 */
+	public async remove(id: string): Promise<void> {
+		await this._load();
+		const item = this._findItem(id);
+		const task = this.tasks.get(id);
+		if (item === this.current) {
+			this.current = null;
+		}
+		this.tasks.delete(id);
+		this.items = this.items.filter(i => i !== item);
+		await this.storage.remove(id);
+		if (task) {
+			await task._cancel();
+		}
+		this._drain();
+	}
+
+	private _findItem(id: string): UploadQueueItem {
+		const item = this.items.find(i => i.id === id);
+		if (!item) {
+			throw new Error(AWSS3UploadQueueErrorStrings.NO_ITEM_FOUND);
+		}
+		return item;
+	}
+
+	private _dispatch(item: UploadQueueItem, message: string) {
+		dispatchStorageEvent(
+			item.config.track,
+			'queue',
+			{
+				method: 'queue',
+				result:
+					item.state === UploadQueueItemState.FAILED ? 'failed' : 'success',
+				state: item.state,
+				id: item.id,
+				key: item.key,
+			},
+			{ attempts: item.attempts },
+			message
+		);
+	}
+
+	private _drain() {
+		if (!this.started || !this.online || this.current) return;
+
+		clearTimeout(this.retryTimer);
+		const now = Date.now();
+		const pending = this.items
+			.filter(item => item.state === UploadQueueItemState.PENDING)
+			.sort(compareItems);
+		const next = pending.find(item => item.retryAt <= now);
+		if (next) {
+			this._upload(next).catch(err => this._onUnhandledError(next, err));
+		} else if (pending.length) {
+			const retryAt = Math.min(...pending.map(item => item.retryAt));
+			this.retryTimer = setTimeout(() => this._drain(), retryAt - now);
+		}
+	}
+
+	private async _upload(item: UploadQueueItem) {
+		this.current = item;
+		item.state = UploadQueueItemState.UPLOADING;
+		try {
+			await this.storage.save(item);
+			const body = isBlob(item.body)
+				? item.body
+				: await (await fetch(item.body.uri)).blob();
+			// the item is removed from the queue while its body is read
+			if (item !== this.current) return;
+			const task = this.provider.put(item.key, body, {
+				...item.config,
+				resumable: true,
+				completeCallback: () =>
+					this._onComplete(item).catch(err =>
+						this._onUnhandledError(item, err)
+					),
+				errorCallback: err =>
+					this._onError(item, err).catch(error =>
+						this._onUnhandledError(item, error)
+					),
+			}) as AWSS3UploadTask;
+			this.tasks.set(item.id, task);
+			this._dispatch(item, `Upload of ${item.key} started`);
+		} catch (err) {
+			await this._onError(item, err);
+		}
+	}
+
+	private async _onComplete(item: UploadQueueItem) {
+		if (item !== this.current) return;
+		this.current = null;
+		this.tasks.delete(item.id);
+		this.items = this.items.filter(i => i !== item);
+		item.state = UploadQueueItemState.COMPLETED;
+		await this.storage.remove(item.id);
+		this._dispatch(item, `Upload of ${item.key} completed`);
+		this._drain();
+	}
+
+	private async _onError(item: UploadQueueItem, err: any) {
+		if (item !== this.current) return;
+		this.current = null;
+		this.tasks.delete(item.id);
+		// uploads that fail while the device is offline are retried once it is back online
+		if (this.online) {
+			item.attempts++;
+		}
+		const delay = this.backoff(item.attempts, [], err);
+		if (item.attempts >= this.maxAttempts || delay === false) {
+			logger.error(`Upload of ${item.key} failed`, err);
+			item.state = UploadQueueItemState.FAILED;
+		} else {
+			logger.debug(`Upload of ${item.key} failed, retrying in ${delay} ms`);
+			item.state = UploadQueueItemState.PENDING;
+			item.retryAt = Date.now() + delay;
+		}
+		await this.storage.save(item);
+		this._dispatch(
+			item,
+			`Upload of ${item.key} failed with ${err && err.message}`
+		);
+		this._drain();
+	}
+
+	// the state of an item failed to be persisted, the queue goes on with the next item instead of stalling
+	private _onUnhandledError(item: UploadQueueItem, err: any) {
+		logger.error(`Upload queue failed to update ${item.key}`, err);
+		if (item === this.current) {
+			this.current = null;
+			this.tasks.delete(item.id);
+		}
+		this._drain();
+	}
+}
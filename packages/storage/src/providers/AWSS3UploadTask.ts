@@ -22,7 +22,16 @@ import {
 	SET_CONTENT_LENGTH_HEADER,
 	UPLOADS_STORAGE_KEY,
 } from '../common/StorageConstants';
-import { StorageAccessLevel } from '..';
+import { StorageAccessLevel, ClientSideEncryptionConfig } from '..';
+import {
+	EncryptionEnvelope,
+	TAG_LENGTH,
+	createEncryptionEnvelope,
+	encryptPart,
+	encryptedSize,
+	envelopeToMetadata,
+} from '../common/ClientSideEncryption';
+import { calculateContentMd5 } from '../common/Checksum';
 
 const logger = new Logger('AWSS3UploadTask');
 export enum AWSS3UploadTaskState {
@@ -37,6 +46,9 @@ export enum TaskEvents {
 	CANCEL = 'cancel',
 	UPLOAD_COMPLETE = 'uploadComplete',
 	UPLOAD_PROGRESS = 'uploadPartProgress',
+	DOWNLOAD_COMPLETE = 'downloadComplete',
+	DOWNLOAD_PROGRESS = 'downloadPartProgress',
+	DOWNLOAD_PART = 'downloadPart',
 	ERROR = 'error',
 }
 
@@ -48,6 +60,9 @@ export interface AWSS3UploadTaskParams {
 	params: PutObjectCommandInput;
 	prefixPromise: Promise<string>;
 	emitter?: events.EventEmitter;
+	clientSideEncryption?: ClientSideEncryptionConfig;
+	// send the Content-MD5 of every part
+	checksum?: boolean;
 }
 
 export interface InProgressRequest {
@@ -78,6 +93,8 @@ export interface FileMetadata {
 	// Unix timestamp in ms
 	lastTouched: number;
 	uploadId: string;
+	// the parts of a resumed upload must be encrypted with the same envelope
+	encryption?: EncryptionEnvelope;
 }
 
 // maximum number of parts per upload request according the S3 spec,
@@ -102,6 +119,9 @@ export class AWSS3UploadTask implements UploadTask {
 	private readonly fileId: string;
 	private readonly params: PutObjectCommandInput;
 	private readonly prefixPromise: Promise<string>;
+	private readonly clientSideEncryption: ClientSideEncryptionConfig;
+	private readonly checksum: boolean;
+	private encryption: { envelope: EncryptionEnvelope; key: CryptoKey } = null;
 	private inProgress: InProgressRequest[] = [];
 	private completedParts: CompletedPart[] = [];
 	private queued: UploadPartCommandInput[] = [];
@@ -119,8 +139,12 @@ export class AWSS3UploadTask implements UploadTask {
 		params,
 		level,
 		prefixPromise,
+		clientSideEncryption,
+		checksum = false,
 	}: AWSS3UploadTaskParams) {
 		this.prefixPromise = prefixPromise;
+		this.clientSideEncryption = clientSideEncryption;
+		this.checksum = checksum;
 		this.s3client = s3Client;
 		this.s3client.middlewareStack.remove(SET_CONTENT_LENGTH_HEADER);
 		this.storage = storage;
@@ -169,6 +193,8 @@ export class AWSS3UploadTask implements UploadTask {
 	}
 
 	private _getFileId(level: StorageAccessLevel): string {
+		// an encrypted upload can not be resumed by an unencrypted one and vice versa
+		const encrypted = this.clientSideEncryption ? ['encrypted'] : [];
 		// We should check if it's a File first because File is also instance of a Blob
 		if (isFile(this.file)) {
 			return [
@@ -179,6 +205,7 @@ export class AWSS3UploadTask implements UploadTask {
 				this.params.Bucket,
 				level,
 				this.params.Key,
+				...encrypted,
 			].join('-');
 		} else {
 			return [
@@ -187,6 +214,7 @@ export class AWSS3UploadTask implements UploadTask {
 				this.params.Bucket,
 				level,
 				this.params.Key,
+				...encrypted,
 			].join('-');
 		}
 	}
@@ -194,6 +222,7 @@ export class AWSS3UploadTask implements UploadTask {
 	private async _findCachedUploadParts(): Promise<{
 		parts: Part[];
 		uploadId: string;
+		encryption?: EncryptionEnvelope;
 	}> {
 		const uploadRequests = await this._listCachedUploadTasks();
 
@@ -219,6 +248,7 @@ export class AWSS3UploadTask implements UploadTask {
 		return {
 			parts: listPartsOutput.Parts || [],
 			uploadId: cachedUploadFileData.uploadId,
+			encryption: cachedUploadFileData.encryption,
 		};
 	}
 
@@ -319,9 +349,30 @@ export class AWSS3UploadTask implements UploadTask {
 		cancelTokenSource: CancelTokenSource
 	) {
 		try {
-			const res = await this.s3client.send(new UploadPartCommand(input), {
-				cancelTokenSource,
-			} as HttpHandlerOptions);
+			const body = this.encryption
+				? await encryptPart(
+						this.clientSideEncryption.keyProvider,
+						this.encryption.key,
+						this.encryption.envelope,
+						input.PartNumber,
+						input.Body
+				  )
+				: input.Body;
+			const res = await this.s3client.send(
+				new UploadPartCommand({
+					...input,
+					Body: body,
+					...(this.checksum && {
+						ContentMD5: await calculateContentMd5(
+							this.s3client.config.md5,
+							body
+						),
+					}),
+				}),
+				{
+					cancelTokenSource,
+				} as HttpHandlerOptions
+			);
 			await this._onPartUploadCompletion({
 				eTag: res.ETag,
 				partNumber: input.PartNumber,
@@ -370,7 +421,10 @@ export class AWSS3UploadTask implements UploadTask {
 			key: this.params.Key,
 			bucket: this.params.Bucket,
 		});
-		const valid = Boolean(obj && obj.Size === this.file.size);
+		const size = this.encryption
+			? encryptedSize(this.file.size, this.encryption.envelope.partSize)
+			: this.file.size;
+		const valid = Boolean(obj && obj.Size === size);
 		if (!valid) {
 			throw new Error(
 				'File size does not match between local file and file on s3'
@@ -405,7 +459,12 @@ export class AWSS3UploadTask implements UploadTask {
 	}
 
 	private _initCachedUploadParts(cachedParts: Part[]) {
-		this.bytesUploaded += cachedParts.reduce((acc, part) => acc + part.Size, 0);
+		// the progress is reported in bytes of the file, without the authentication tags of the encrypted parts
+		const tagLength = this.encryption ? TAG_LENGTH : 0;
+		this.bytesUploaded += cachedParts.reduce(
+			(acc, part) => acc + part.Size - tagLength,
+			0
+		);
 		// Find the set of part numbers that have already been uploaded
 		const uploadedPartNumSet = new Set(
 			cachedParts.map(part => part.PartNumber)
@@ -433,21 +492,49 @@ export class AWSS3UploadTask implements UploadTask {
 			bucket: this.params.Bucket,
 			key: this.params.Key,
 			fileName: this.file instanceof File ? this.file.name : '',
+			...(this.encryption && { encryption: this.encryption.envelope }),
 		});
 		return res.UploadId;
 	}
 
+	private async _initEncryption() {
+		this.encryption = await createEncryptionEnvelope(
+			this.clientSideEncryption.keyProvider,
+			this.partSize,
+			this.file.size
+		);
+		this.params.Metadata = {
+			...this.params.Metadata,
+			...envelopeToMetadata(this.encryption.envelope),
+		};
+	}
+
 	private async _initializeUploadTask() {
 		this.state = AWSS3UploadTaskState.IN_PROGRESS;
 		try {
 			if (await this._isCached()) {
-				const { parts, uploadId } = await this._findCachedUploadParts();
+				const {
+					parts,
+					uploadId,
+					encryption,
+				} = await this._findCachedUploadParts();
+				if (encryption) {
+					this.encryption = {
+						envelope: encryption,
+						key: await this.clientSideEncryption.keyProvider.getDecryptionKey(
+							encryption.keyId
+						),
+					};
+				}
 				this.uploadId = uploadId;
 				this.queued = this._createParts();
 				this._initCachedUploadParts(parts);
 				this._startUpload();
 			} else {
 				if (!this.uploadId) {
+					if (this.clientSideEncryption) {
+						await this._initEncryption();
+					}
 					const uploadId = await this._initMultipartUpload();
 					this.uploadId = uploadId;
 					this.queued = this._createParts();
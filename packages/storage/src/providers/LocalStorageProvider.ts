@@ -0,0 +1,569 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { ConsoleLogger as Logger, ICredentials } from '@aws-amplify/core';
+import { GetObjectCommandOutput } from '@aws-sdk/client-s3';
+import {
+	StorageProvider,
+	StorageAccessLevel,
+	CustomPrefix,
+	UploadTask,
+	LocalStorageBackend,
+	LocalStorageObject,
+	LocalStorageOptions,
+	LocalStorageProviderGetConfig,
+	LocalStorageProviderGetOutput,
+	LocalStorageProviderPutConfig,
+	LocalStorageProviderRemoveConfig,
+	LocalStorageProviderListConfig,
+	LocalStorageProviderCopyConfig,
+	ResumableUploadConfig,
+	S3ProviderPutOutput,
+	S3ProviderRemoveOutput,
+	S3ProviderListOutput,
+	S3ProviderListOutputItem,
+	S3ProviderListPage,
+	S3ProviderListPageOptions,
+	S3ProviderListItemsOptions,
+	S3ProviderCopyOutput,
+	S3CopySource,
+	S3CopyDestination,
+} from '../types';
+import {
+	StorageErrorStrings,
+	LocalStorageProviderErrorStrings,
+} from '../common/StorageErrorStrings';
+import { dispatchStorageEvent, isBlob } from '../common/StorageUtils';
+import { getPrefix } from '../common/S3ClientUtils';
+import { InMemoryLocalStorageBackend } from '../common/LocalStorageBackend';
+import {
+	UploadTaskCompleteEvent,
+	UploadTaskProgressEvent,
+} from './AWSS3UploadTask';
+
+const logger = new Logger('LocalStorageProvider');
+
+const DEFAULT_STORAGE_LEVEL = 'public';
+// identity of the private and protected keys when no identityId is configured
+const DEFAULT_IDENTITY_ID = 'local';
+// the progress of an upload task is reported for every part, like for the parts of a multipart upload
+const PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Provide the storage methods against a local backend, in memory by default, such that apps and their tests can use
+ * Storage without network. The keys, access levels and outputs are the ones of the AWSS3Provider.
+ */
+export class LocalStorageProvider implements StorageProvider {
+	static readonly CATEGORY = 'Storage';
+	static readonly PROVIDER_NAME = 'LocalStorage';
+	private _config: LocalStorageOptions;
+	private _backend: LocalStorageBackend;
+
+	/**
+	 * Initialize the provider with its backend
+	 * @param {LocalStorageOptions} config - Configuration object for the provider
+	 */
+	constructor(config?: LocalStorageOptions) {
+		this._config = config ? config : {};
+		this._backend = this._config.backend || new InMemoryLocalStorageBackend();
+		logger.debug('Storage Options', this._config);
+	}
+
+	/**
+	 * get the category of the plugin
+	 */
+	public getCategory(): string {
+		return LocalStorageProvider.CATEGORY;
+	}
+
+	/**
+	 * get provider name of the plugin
+	 */
+	getProviderName(): 'LocalStorage' {
+		return LocalStorageProvider.PROVIDER_NAME;
+	}
+
+	/**
+	 * Configure the provider
+	 * @param {Object} config - Configuration of the provider
+	 * @return {Object} - Current configuration
+	 */
+	public configure(config?: LocalStorageOptions): object {
+		logger.debug('configure Storage', config);
+		if (!config) return this._config;
+		this._config = Object.assign({}, this._config, config);
+		if (config.backend) {
+			this._backend = config.backend;
+		}
+		return this._config;
+	}
+
+	/**
+	 * Get a URL or the content of the object for specified key
+	 * @param {string} key - key of the object
+	 * @param {LocalStorageProviderGetConfig} [config] - { level, identityId, download }
+	 * @return {Promise<string | GetObjectCommandOutput>} - A promise resolves to the URL of the object, or to its
+	 * content like the output of GetObjectCommand when download is true
+	 */
+	public async get<T extends LocalStorageProviderGetConfig>(
+		key: string,
+		config?: T
+	): Promise<LocalStorageProviderGetOutput<T>>;
+	public async get(
+		key: string,
+		config?: LocalStorageProviderGetConfig
+	): Promise<string | GetObjectCommandOutput> {
+		const opt = Object.assign({}, this._config, config);
+		const { download, track } = opt;
+		const final_key = this._prefix(opt) + key;
+		logger.debug('get ' + key + ' from ' + final_key);
+
+		try {
+			const object = await this._getObject(final_key);
+			if (download === true) {
+				dispatchStorageEvent(
+					track,
+					'download',
+					{ method: 'get', result: 'success' },
+					{ fileSize: object.body.size },
+					`Download success for ${key}`
+				);
+				return {
+					$metadata: {},
+					Body: object.body,
+					ContentLength: object.body.size,
+					ContentType: object.contentType,
+					ETag: object.eTag,
+					LastModified: object.lastModified,
+					Metadata: object.metadata,
+				};
+			}
+			const url = await this._backend.getUrl(final_key);
+			dispatchStorageEvent(
+				track,
+				'getSignedUrl',
+				{ method: 'get', result: 'success' },
+				null,
+				`Signed URL: ${url}`
+			);
+			return url;
+		} catch (error) {
+			logger.warn('get error', error);
+			dispatchStorageEvent(
+				track,
+				download === true ? 'download' : 'getSignedUrl',
+				{ method: 'get', result: 'failed' },
+				null,
+				`Get failed for ${key}: ${error.message}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * Put an object for specified key
+	 * @param key - key of the object
+	 * @param object - content of the object, other objects than Blobs, strings and ArrayBuffers are stored as JSON
+	 * @param [config] - { level, contentType, metadata, progressCallback, resumable }
+	 * @return an UploadTask when resumable is true or a promise that resolves to an object with the new object's key
+	 */
+	public put<T extends LocalStorageProviderPutConfig>(
+		key: string,
+		object: any,
+		config?: T
+	): S3ProviderPutOutput<T> {
+		const opt = Object.assign({}, this._config, config);
+		const {
+			track,
+			contentType,
+			metadata = {},
+			progressCallback,
+			resumable,
+		} = opt;
+		const final_key = this._prefix(opt) + key;
+		const body = this._toBlob(object, contentType);
+		logger.debug('put ' + key + ' to ' + final_key);
+
+		const task = new LocalUploadTask({
+			key,
+			body,
+			onProgress: progressCallback,
+			store: () =>
+				this._backend.setItem(final_key, {
+					body,
+					contentType: body.type || 'binary/octet-stream',
+					metadata,
+					lastModified: new Date(),
+					eTag: createETag(body),
+				}),
+		});
+
+		if (resumable === true) {
+			const { completeCallback, errorCallback } = opt as typeof opt &
+				ResumableUploadConfig;
+			task.onComplete = completeCallback;
+			task.onError = errorCallback;
+			dispatchStorageEvent(
+				track,
+				'upload',
+				{ method: 'put', result: 'success' },
+				null,
+				`Upload Task created successfully for ${key}`
+			);
+			// automatically start the upload task, like the upload tasks of the AWSS3Provider
+			task.resume();
+			return (task as UploadTask) as S3ProviderPutOutput<T>;
+		}
+
+		return new Promise((resolve, reject) => {
+			task.onComplete = () => {
+				dispatchStorageEvent(
+					track,
+					'upload',
+					{ method: 'put', result: 'success' },
+					null,
+					`Upload success for ${key}`
+				);
+				resolve({ key });
+			};
+			task.onError = error => {
+				dispatchStorageEvent(
+					track,
+					'upload',
+					{ method: 'put', result: 'failed' },
+					null,
+					`Error uploading ${key}`
+				);
+				reject(error);
+			};
+			task.resume();
+		}) as S3ProviderPutOutput<T>;
+	}
+
+	/**
+	 * Remove the object for specified key, removing an object which does not exist succeeds like in S3
+	 * @param {string} key - key of the object
+	 * @param {LocalStorageProviderRemoveConfig} [config] - { level }
+	 * @return {Promise<S3ProviderRemoveOutput>} - Promise resolves upon successful removal of the object
+	 */
+	public async remove(
+		key: string,
+		config?: LocalStorageProviderRemoveConfig
+	): Promise<S3ProviderRemoveOutput> {
+		const opt = Object.assign({}, this._config, config);
+		const { track } = opt;
+		const final_key = this._prefix(opt) + key;
+		logger.debug('remove ' + key + ' from ' + final_key);
+
+		try {
+			await this._backend.removeItem(final_key);
+			dispatchStorageEvent(
+				track,
+				'delete',
+				{ method: 'remove', result: 'success' },
+				null,
+				`Deletion of ${key} succeeded`
+			);
+			return { $metadata: {} };
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'delete',
+				{ method: 'remove', result: 'failed' },
+				null,
+				`Deletion of ${key} failed with ${error}`
+			);
+			throw error;
+		}
+	}
+
+	/**
+	 * List the objects relative to the level and prefix specified
+	 * @param {string} path - the path that contains objects
+	 * @param {LocalStorageProviderListConfig} [config] - { level, identityId, pageSize, nextToken, delimiter }
+	 * @return {Promise<S3ProviderListOutput>} - Promise resolves to the list of items, or to a page of the list when
+	 * listing with a pageSize, nextToken or delimiter
+	 */
+	public async list(
+		path: string,
+		config: LocalStorageProviderListConfig & S3ProviderListPageOptions
+	): Promise<S3ProviderListPage>;
+	public async list(
+		path: string,
+		config?: LocalStorageProviderListConfig & S3ProviderListItemsOptions
+	): Promise<S3ProviderListOutput>;
+	public async list(
+		path: string,
+		config?: LocalStorageProviderListConfig
+	): Promise<S3ProviderListOutput | S3ProviderListPage>;
+	public async list(
+		path: string,
+		config?: LocalStorageProviderListConfig
+	): Promise<S3ProviderListOutput | S3ProviderListPage> {
+		const opt = Object.assign({}, this._config, config);
+		const { track, pageSize, nextToken, delimiter } = opt;
+		const paginated =
+			pageSize !== undefined ||
+			nextToken !== undefined ||
+			delimiter !== undefined;
+		const prefix = this._prefix(opt);
+		const final_path = prefix + path;
+		logger.debug('list ' + path + ' from ' + final_path);
+
+		// like S3, the keys are listed in lexicographical order and the listing continues after the nextToken
+		const keys = (await this._backend.keys())
+			.filter(
+				key => key.startsWith(final_path) && (!nextToken || key > nextToken)
+			)
+			.sort();
+		const results: S3ProviderListOutputItem[] = [];
+		const prefixes: string[] = [];
+		let lastKey: string;
+		for (const key of keys) {
+			if (
+				pageSize !== undefined &&
+				results.length + prefixes.length >= pageSize
+			) {
+				break;
+			}
+			const delimiterIndex = delimiter
+				? key.indexOf(delimiter, final_path.length)
+				: -1;
+			if (delimiterIndex === -1) {
+				const { body, eTag, lastModified } = await this._backend.getItem(key);
+				results.push({
+					key: key.substr(prefix.length),
+					eTag,
+					lastModified,
+					size: body.size,
+				});
+				lastKey = key;
+			} else {
+				const commonPrefix = key.substr(0, delimiterIndex + delimiter.length);
+				if (prefixes.indexOf(commonPrefix.substr(prefix.length)) === -1) {
+					prefixes.push(commonPrefix.substr(prefix.length));
+				}
+				// the listing continues after the keys of the common prefix
+				lastKey = commonPrefix + '\uffff';
+			}
+		}
+		const page: S3ProviderListPage = { results, prefixes };
+		// the page is truncated when keys remain after its last key
+		if (lastKey !== undefined && keys[keys.length - 1] > lastKey) {
+			page.nextToken = lastKey;
+		}
+
+		dispatchStorageEvent(
+			track,
+			'list',
+			{ method: 'list', result: 'success' },
+			null,
+			`${results.length} items returned from list operation`
+		);
+		return paginated ? page : page.results;
+	}
+
+	/**
+	 * Copy an object to a new object, the source object can be a protected object of another user
+	 * @param {S3CopySource} src - Key and optionally access level and identityId of the source object.
+	 * @param {S3CopyDestination} dest - Key and optionally access level of the destination object.
+	 * @param {LocalStorageProviderCopyConfig} [config] - Optional configuration
+	 * @return {Promise<S3ProviderCopyOutput>} The key of the copied object.
+	 */
+	public async copy(
+		src: S3CopySource,
+		dest: S3CopyDestination,
+		config?: LocalStorageProviderCopyConfig
+	): Promise<S3ProviderCopyOutput> {
+		const opt = Object.assign({}, this._config, config);
+		const { track } = opt;
+		const { key: srcKey } = src;
+		const { key: destKey } = dest;
+		if (!srcKey || typeof srcKey !== 'string') {
+			throw new Error(StorageErrorStrings.NO_SRC_KEY);
+		}
+		if (!destKey || typeof destKey !== 'string') {
+			throw new Error(StorageErrorStrings.NO_DEST_KEY);
+		}
+		const finalSrcKey = this._copyTargetKey(src, opt);
+		const finalDestKey = this._copyTargetKey(dest, opt);
+		logger.debug(`copying ${finalSrcKey} to ${finalDestKey}`);
+
+		try {
+			const object = await this._getObject(finalSrcKey);
+			await this._backend.setItem(finalDestKey, {
+				...object,
+				lastModified: new Date(),
+			});
+			dispatchStorageEvent(
+				track,
+				'copy',
+				{ method: 'copy', result: 'success' },
+				null,
+				`Copy success from ${srcKey} to ${destKey}`
+			);
+			return { key: destKey };
+		} catch (error) {
+			dispatchStorageEvent(
+				track,
+				'copy',
+				{ method: 'copy', result: 'failed' },
+				null,
+				`Copy failed from ${srcKey} to ${destKey}`
+			);
+			throw error;
+		}
+	}
+
+	private async _getObject(key: string): Promise<LocalStorageObject> {
+		const object = await this._backend.getItem(key);
+		if (!object) {
+			// the error of S3, such that the apps handle missing objects the same way
+			throw Object.assign(
+				new Error(LocalStorageProviderErrorStrings.NO_SUCH_KEY),
+				{ name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } }
+			);
+		}
+		return object;
+	}
+
+	private _toBlob(object: any, contentType?: string): Blob {
+		if (isBlob(object) && (!contentType || object.type === contentType)) {
+			return object;
+		}
+		const content =
+			typeof object === 'string' ||
+			isBlob(object) ||
+			object instanceof ArrayBuffer ||
+			ArrayBuffer.isView(object)
+				? object
+				: JSON.stringify(object);
+		return new Blob([content], { type: contentType });
+	}
+
+	private _prefix(config: {
+		level?: StorageAccessLevel;
+		customPrefix?: CustomPrefix;
+		identityId?: string;
+	}): string {
+		// the keys are the ones of the AWSS3Provider for an identity which is not signed in to AWS
+		const credentials = { identityId: DEFAULT_IDENTITY_ID } as ICredentials;
+		return getPrefix({ level: DEFAULT_STORAGE_LEVEL, ...config, credentials });
+	}
+
+	private _copyTargetKey(
+		target: S3CopySource,
+		config: { customPrefix?: CustomPrefix; identityId?: string }
+	): string {
+		const { level = DEFAULT_STORAGE_LEVEL, identityId, key } = target;
+		return (
+			this._prefix({ ...config, level, ...(identityId && { identityId }) }) +
+			key
+		);
+	}
+}
+
+const createETag = (body: Blob) =>
+	`"${Date.now().toString(16)}-${body.size.toString(16)}"`;
+
+interface LocalUploadTaskParams {
+	key: string;
+	body: Blob;
+	store: () => Promise<void>;
+	onProgress?: (progress: UploadTaskProgressEvent) => any;
+}
+
+/**
+ * Reports the progress of a local upload for every part, the object is stored once all parts are "uploaded"
+ */
+class LocalUploadTask implements UploadTask {
+	public onComplete: (event: UploadTaskCompleteEvent) => any;
+	public onError: (error: any) => any;
+	private readonly key: string;
+	private readonly body: Blob;
+	private readonly store: () => Promise<void>;
+	private readonly onProgress: (progress: UploadTaskProgressEvent) => any;
+	private bytesUploaded = 0;
+	private inProgress = false;
+	private completed = false;
+	// a task paused and resumed between two parts keeps uploading them
+	private uploading = false;
+
+	constructor({ key, body, store, onProgress }: LocalUploadTaskParams) {
+		this.key = key;
+		this.body = body;
+		this.store = store;
+		this.onProgress = onProgress;
+	}
+
+	get percent() {
+		return this.body.size ? (this.bytesUploaded / this.body.size) * 100 : 100;
+	}
+
+	get isInProgress() {
+		return this.inProgress;
+	}
+
+	public resume(): void {
+		if (this.completed) {
+			logger.warn('This task has already been completed');
+		} else if (this.inProgress) {
+			logger.warn('Upload task already in progress');
+		} else {
+			this.inProgress = true;
+			if (!this.uploading) {
+				this._uploadParts();
+			}
+		}
+	}
+
+	public pause(): void {
+		this.inProgress = false;
+	}
+
+	private async _uploadParts() {
+		this.uploading = true;
+		try {
+			while (this.inProgress && this.bytesUploaded < this.body.size) {
+				// yield between the parts such that the task can be paused
+				await Promise.resolve();
+				this.bytesUploaded = Math.min(
+					this.bytesUploaded + PART_SIZE,
+					this.body.size
+				);
+				if (typeof this.onProgress === 'function') {
+					this.onProgress({
+						loaded: this.bytesUploaded,
+						total: this.body.size,
+					});
+				}
+			}
+			this.uploading = false;
+			if (!this.inProgress) {
+				return;
+			}
+			await this.store();
+			this.inProgress = false;
+			this.completed = true;
+			if (typeof this.onComplete === 'function') {
+				this.onComplete({ key: this.key });
+			}
+		} catch (error) {
+			this.uploading = false;
+			this.inProgress = false;
+			logger.error('error uploading', error);
+			if (typeof this.onError === 'function') {
+				this.onError(error);
+			}
+		}
+	}
+}
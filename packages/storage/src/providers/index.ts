@@ -1 +1,8 @@
 export { AWSS3Provider } from './AWSS3Provider';
+export { LocalStorageProvider } from './LocalStorageProvider';
+export {
+	AWSS3UploadQueue,
+	UploadQueueItem,
+	UploadQueueItemState,
+	UploadQueueStorage,
+} from './AWSS3UploadQueue';
@@ -3,7 +3,11 @@ import {
 	GetObjectCommandOutput,
 	PutObjectRequest,
 	CopyObjectRequest,
+	HeadObjectRequest,
+	HeadObjectCommandOutput,
 	_Object,
+	_Error,
+	ObjectVersion,
 	DeleteObjectCommandOutput,
 } from '@aws-sdk/client-s3';
 import { StorageOptions, StorageAccessLevel } from './Storage';
@@ -11,7 +15,13 @@ import {
 	UploadTaskCompleteEvent,
 	UploadTaskProgressEvent,
 } from '../providers/AWSS3UploadTask';
-import { UploadTask } from './Provider';
+import {
+	CompletedDownloadPart,
+	DownloadTaskCompleteEvent,
+	DownloadTaskProgressEvent,
+} from '../providers/AWSS3DownloadTask';
+import { CopyProgressEvent } from '../providers/AWSS3ProviderMultipartCopier';
+import { UploadTask, DownloadTask } from './Provider';
 
 type ListObjectsCommandOutputContent = _Object;
 
@@ -32,7 +42,30 @@ export type CommonStorageOptions = Omit<
 	| 'dangerouslyConnectToHttpEndpointForTesting'
 >;
 
-export type S3ProviderGetConfig = CommonStorageOptions & {
+/**
+ * The part of WebCrypto the client side encryption uses
+ */
+export type ClientSideEncryptionCrypto = Pick<Crypto, 'getRandomValues'> & {
+	subtle: Pick<SubtleCrypto, 'encrypt' | 'decrypt'>;
+};
+
+/**
+ * Provides the AES-GCM keys of the client side encryption
+ */
+export interface ClientSideEncryptionKeyProvider {
+	// the key to encrypt new objects with, its id is stored in the metadata of the objects
+	getEncryptionKey(): Promise<{ keyId: string; key: CryptoKey }>;
+	// the key an object was encrypted with
+	getDecryptionKey(keyId: string): Promise<CryptoKey>;
+	// the WebCrypto implementation of the keys, defaults to the global `crypto`
+	crypto?: ClientSideEncryptionCrypto;
+}
+
+export type ClientSideEncryptionConfig = {
+	keyProvider: ClientSideEncryptionKeyProvider;
+};
+
+type _S3ProviderGetConfig = {
 	download?: boolean;
 	track?: boolean;
 	expires?: number;
@@ -47,10 +80,34 @@ export type S3ProviderGetConfig = CommonStorageOptions & {
 	SSECustomerAlgorithm?: GetObjectRequest['SSECustomerAlgorithm'];
 	SSECustomerKey?: GetObjectRequest['SSECustomerKey'];
 	SSECustomerKeyMD5?: GetObjectRequest['SSECustomerKeyMD5'];
+	// version of the object to get, defaults to the current version
+	versionId?: GetObjectRequest['VersionId'];
+	// decrypt the objects encrypted on the client when downloading them
+	clientSideEncryption?: ClientSideEncryptionConfig;
+	resumable?: boolean;
+};
+
+export type ResumableDownloadConfig = {
+	download: true;
+	resumable: true;
+	progressCallback?: (progress: DownloadTaskProgressEvent) => any;
+	// called with the byte range and body of every part as it is received
+	partCallback?: (part: CompletedDownloadPart) => any;
+	completeCallback?: (event: DownloadTaskCompleteEvent) => any;
+	errorCallback?: (err: any) => any;
 };
 
+export type S3ProviderGetConfig = CommonStorageOptions &
+	(
+		| _S3ProviderGetConfig
+		// discriminated union so users won't be able to add resumable specific callbacks without the resumable flag
+		| (_S3ProviderGetConfig & ResumableDownloadConfig)
+	);
+
 export type S3ProviderGetOuput<T> = T extends { download: true }
-	? GetObjectCommandOutput
+	? T extends { resumable: true }
+		? DownloadTask
+		: GetObjectCommandOutput
 	: string;
 
 type _S3ProviderPutConfig = {
@@ -72,6 +129,14 @@ type _S3ProviderPutConfig = {
 	metadata?: PutObjectRequest['Metadata'];
 	tagging?: PutObjectRequest['Tagging'];
 	useAccelerateEndpoint?: boolean;
+	// encrypt the object on the client before uploading it
+	clientSideEncryption?: ClientSideEncryptionConfig;
+	// send the Content-MD5 of every part such that S3 rejects the parts corrupted in transit
+	checksum?: boolean;
+	// the key is treated as a prefix: the object is uploaded under `key` followed by the hex encoded SHA-256 of its
+	// content, e.g. `photos/` becomes `photos/<sha256>`, unless such an object already exists. `put` resolves with
+	// that key. Not supported along with clientSideEncryption.
+	dedup?: boolean;
 	resumable?: boolean;
 };
 
@@ -89,18 +154,128 @@ export type S3ProviderPutConfig = CommonStorageOptions &
 		| (_S3ProviderPutConfig & ResumableUploadConfig)
 	);
 
+export type S3ProviderUploadQueueConfig = CommonStorageOptions &
+	// the key provider can not be persisted with the queued items, configure it on the provider instead
+	Omit<
+		_S3ProviderPutConfig,
+		'progressCallback' | 'resumable' | 'clientSideEncryption' | 'dedup'
+	> & {
+		// items with a higher priority are uploaded first, defaults to 0
+		priority?: number;
+	};
+
+export type S3ProviderGetPropertiesConfig = CommonStorageOptions & {
+	bucket?: string;
+	provider?: 'AWSS3';
+	track?: boolean;
+	identityId?: string;
+	SSECustomerAlgorithm?: HeadObjectRequest['SSECustomerAlgorithm'];
+	SSECustomerKey?: HeadObjectRequest['SSECustomerKey'];
+	SSECustomerKeyMD5?: HeadObjectRequest['SSECustomerKeyMD5'];
+};
+
+export interface S3ProviderGetPropertiesOutput {
+	size: HeadObjectCommandOutput['ContentLength'];
+	contentType: HeadObjectCommandOutput['ContentType'];
+	eTag: HeadObjectCommandOutput['ETag'];
+	lastModified: HeadObjectCommandOutput['LastModified'];
+	metadata: HeadObjectCommandOutput['Metadata'];
+	versionId: HeadObjectCommandOutput['VersionId'];
+}
+
+export type S3ProviderUpdateMetadataConfig = Omit<
+	S3ProviderGetPropertiesConfig,
+	'identityId'
+>;
+
+export type S3ProviderUpdateMetadataOutput = {
+	key: string;
+};
+
+export type S3ProviderTagsConfig = CommonStorageOptions & {
+	bucket?: string;
+	provider?: 'AWSS3';
+	track?: boolean;
+	identityId?: string;
+};
+
+export type S3ProviderTags = Record<string, string>;
+
+export type S3ProviderSetTagsOutput = {
+	key: string;
+};
+
+export type S3ProviderGetUploadUrlConfig = CommonStorageOptions & {
+	bucket?: PutObjectRequest['Bucket'];
+	provider?: 'AWSS3';
+	track?: boolean;
+	// seconds until the URL expires, defaults to 900
+	expires?: number;
+	// signed with the URL, the upload must send the same Content-Type header
+	contentType?: PutObjectRequest['ContentType'];
+	useAccelerateEndpoint?: boolean;
+};
+
+/**
+ * A condition of a POST policy, see: https://docs.aws.amazon.com/AmazonS3/latest/API/sigv4-HTTPPOSTConstructPolicy.html
+ */
+export type S3PresignedPostCondition =
+	| Record<string, string>
+	| ['eq' | 'starts-with', string, string]
+	| ['content-length-range', number, number];
+
+export type S3ProviderGetPresignedPostConfig = CommonStorageOptions & {
+	bucket?: PutObjectRequest['Bucket'];
+	provider?: 'AWSS3';
+	track?: boolean;
+	// seconds until the policy expires, defaults to 900
+	expires?: number;
+	contentType?: PutObjectRequest['ContentType'];
+	// maximum size of the uploaded file in bytes
+	maxSize?: number;
+	// additional conditions of the policy, the form must send a field for each of them
+	conditions?: S3PresignedPostCondition[];
+	useAccelerateEndpoint?: boolean;
+};
+
+export interface S3ProviderGetPresignedPostOutput {
+	url: string;
+	// fields of the form, the file must be the last field
+	fields: Record<string, string>;
+}
+
 export type S3ProviderRemoveConfig = CommonStorageOptions & {
 	bucket?: string;
 	provider?: 'AWSS3';
+	// version of the object to permanently remove, without it a delete marker is added to a versioned object
+	versionId?: string;
 };
 
 export type S3ProviderRemoveOutput = DeleteObjectCommandOutput;
 
+export interface S3ProviderRemoveError {
+	key: string;
+	code: _Error['Code'];
+	message: _Error['Message'];
+}
+
+export interface S3ProviderRemoveManyOutput {
+	// keys of the removed objects, relative to the level
+	deleted: string[];
+	errors: S3ProviderRemoveError[];
+}
+
 export type S3ProviderListConfig = CommonStorageOptions & {
 	bucket?: string;
 	maxKeys?: number;
 	provider?: 'AWSS3';
 	identityId?: string;
+	// number of items per page, listing with it returns a S3ProviderListPage
+	pageSize?: number;
+	// token of the page to list, from the previous S3ProviderListPage
+	nextToken?: string;
+	// groups the keys under the path up to the delimiter into prefixes, e.g. '/' to list folders
+	delimiter?: string;
 };
 
 export interface S3ProviderListOutputItem {
@@ -110,8 +285,60 @@ export interface S3ProviderListOutputItem {
 	size: ListObjectsCommandOutputContent['Size'];
 }
 
+export type S3ProviderListVersionsConfig = CommonStorageOptions & {
+	bucket?: string;
+	provider?: 'AWSS3';
+	identityId?: string;
+	// number of versions per request
+	pageSize?: number;
+};
+
+export interface S3ProviderListVersionsOutputItem {
+	key: ObjectVersion['Key'];
+	versionId: ObjectVersion['VersionId'];
+	isLatest: ObjectVersion['IsLatest'];
+	lastModified: ObjectVersion['LastModified'];
+	// a delete marker has no eTag and size
+	isDeleteMarker: boolean;
+	eTag?: ObjectVersion['ETag'];
+	size?: ObjectVersion['Size'];
+}
+
+export type S3ProviderRestoreVersionConfig = CommonStorageOptions & {
+	bucket?: string;
+	provider?: 'AWSS3';
+};
+
+export type S3ProviderRestoreVersionOutput = {
+	key: string;
+	// the version created by the restore
+	versionId: string;
+};
+
+export interface S3ProviderListPage {
+	results: S3ProviderListOutputItem[];
+	prefixes: string[];
+	// undefined on the last page
+	nextToken?: string;
+}
+
+// listing with any of these options returns a S3ProviderListPage
+export type S3ProviderListPageOptions =
+	| { pageSize: number }
+	| { nextToken: string }
+	| { delimiter: string };
+
+// listing without the page options returns the items only
+export type S3ProviderListItemsOptions = {
+	pageSize?: undefined;
+	nextToken?: undefined;
+	delimiter?: undefined;
+};
+
 export type S3ProviderListOutput = S3ProviderListOutputItem[];
 
+export type S3ProviderListAllOutput = Omit<S3ProviderListPage, 'nextToken'>;
+
 export interface S3CopyTarget {
 	key: string;
 	level?: StorageAccessLevel;
@@ -138,12 +365,21 @@ export type S3ProviderCopyConfig = Omit<CommonStorageOptions, 'level'> & {
 	SSECustomerKey?: CopyObjectRequest['SSECustomerKey'];
 	SSECustomerKeyMD5?: CopyObjectRequest['SSECustomerKeyMD5'];
 	SSEKMSKeyId?: CopyObjectRequest['SSEKMSKeyId'];
+	// number of parts copied in parallel when the object is copied in parts
+	queueSize?: number;
+	progressCallback?: (progress: CopyProgressEvent) => any;
 };
 
 export type S3ProviderCopyOutput = {
 	key: string;
 };
 
+export type S3ProviderMoveConfig = S3ProviderCopyConfig;
+
+export type S3ProviderMoveOutput = {
+	key: string;
+};
+
 export type PutResult = {
 	key: string;
 };
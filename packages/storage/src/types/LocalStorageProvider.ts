@@ -0,0 +1,91 @@
+/*
+ * Copyright 2017-2022 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License"). You may not use this file except in compliance with
+ * the License. A copy of the License is located at
+ *
+ *     http://aws.amazon.com/apache2.0/
+ *
+ * or in the "license" file accompanying this file. This file is distributed on an "AS IS" BASIS, WITHOUT WARRANTIES OR
+ * CONDITIONS OF ANY KIND, either express or implied. See the License for the specific language governing permissions
+ * and limitations under the License.
+ */
+import { GetObjectCommandOutput } from '@aws-sdk/client-s3';
+import { StorageAccessLevel, CustomPrefix } from './Storage';
+import { CommonStorageOptions, ResumableUploadConfig } from './AWSS3Provider';
+
+/**
+ * An object stored by the LocalStorageProvider
+ */
+export interface LocalStorageObject {
+	body: Blob;
+	contentType: string;
+	metadata: Record<string, string>;
+	lastModified: Date;
+	eTag: string;
+}
+
+/**
+ * Stores the objects of the LocalStorageProvider, the keys include the prefix of their access level
+ */
+export interface LocalStorageBackend {
+	getItem(key: string): Promise<LocalStorageObject | undefined>;
+	setItem(key: string, object: LocalStorageObject): Promise<void>;
+	removeItem(key: string): Promise<void>;
+	keys(): Promise<string[]>;
+	// URL of an object which exists
+	getUrl(key: string): Promise<string>;
+}
+
+export interface LocalStorageOptions {
+	// defaults to an InMemoryLocalStorageBackend
+	backend?: LocalStorageBackend;
+	level?: StorageAccessLevel;
+	customPrefix?: CustomPrefix;
+	// identity of the signed in user, used in the keys of the private and protected objects
+	identityId?: string;
+	track?: boolean;
+}
+
+export type LocalStorageProviderGetConfig = CommonStorageOptions & {
+	provider?: 'LocalStorage';
+	download?: boolean;
+	identityId?: string;
+};
+
+export type LocalStorageProviderGetOutput<T> = T extends { download: true }
+	? GetObjectCommandOutput
+	: string;
+
+type _LocalStorageProviderPutConfig = {
+	provider?: 'LocalStorage';
+	progressCallback?: (progress: any) => any;
+	contentType?: string;
+	metadata?: Record<string, string>;
+	resumable?: boolean;
+};
+
+export type LocalStorageProviderPutConfig = CommonStorageOptions &
+	(
+		| _LocalStorageProviderPutConfig
+		| (_LocalStorageProviderPutConfig & ResumableUploadConfig)
+	);
+
+export type LocalStorageProviderRemoveConfig = CommonStorageOptions & {
+	provider?: 'LocalStorage';
+};
+
+export type LocalStorageProviderListConfig = CommonStorageOptions & {
+	provider?: 'LocalStorage';
+	identityId?: string;
+	// number of items per page, listing with it returns a S3ProviderListPage
+	pageSize?: number;
+	// token of the page to list, from the previous S3ProviderListPage
+	nextToken?: string;
+	// groups the keys under the path up to the delimiter into prefixes
+	delimiter?: string;
+};
+
+export type LocalStorageProviderCopyConfig = CommonStorageOptions & {
+	provider?: 'LocalStorage';
+};
@@ -24,6 +24,29 @@ export interface StorageProvider {
 		config?
 	): Promise<any>;
 
+	// move object from src to dest
+	move?(
+		src: StorageCopySource,
+		dest: StorageCopyDestination,
+		config?
+	): Promise<any>;
+
+	// get the properties of an object
+	getProperties?(key: string, options?): Promise<any>;
+
+	// replace the user metadata of an object
+	updateMetadata?(
+		key: string,
+		metadata: Record<string, string>,
+		options?
+	): Promise<any>;
+
+	// get the tags of an object
+	getTags?(key: string, options?): Promise<any>;
+
+	// replace the tags of an object
+	setTags?(key: string, tags: Record<string, string>, options?): Promise<any>;
+
 	// configure your provider
 	configure(config: object): object;
 
@@ -36,9 +59,30 @@ export interface StorageProvider {
 	// remove object
 	remove(key: string, options?): Promise<any>;
 
+	// remove objects in batches
+	removeMany?(keys: string[], options?): Promise<any>;
+
+	// remove all objects under the path
+	removePrefix?(path: string, options?): Promise<any>;
+
 	// list objects for the path
 	list(path, options?): Promise<any>;
 
+	// list objects for the path, across all the pages of the listing
+	listAll?(path, options?): Promise<any>;
+
+	// list all versions of the objects for the path
+	listVersions?(path: string, options?): Promise<any>;
+
+	// restore a previous version of an object
+	restoreVersion?(key: string, versionId: string, options?): Promise<any>;
+
+	// get a presigned URL to upload an object with a PUT request
+	getUploadUrl?(key: string, options?): Promise<any>;
+
+	// get the URL and fields of a form to upload an object with a POST request
+	getPresignedPost?(key: string, options?): Promise<any>;
+
 	// return 'Storage';
 	getCategory(): string;
 
@@ -53,6 +97,13 @@ export interface UploadTask {
 	isInProgress: boolean;
 }
 
+export interface DownloadTask {
+	resume(): any;
+	pause(): any;
+	percent: number;
+	isInProgress: boolean;
+}
+
 export interface StorageProviderWithCopy extends StorageProvider {
 	// copy object from src to dest
 	copy(
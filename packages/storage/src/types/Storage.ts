@@ -22,9 +22,27 @@ import {
 	StorageProviderWithCopy,
 	S3ProviderGetOuput,
 	S3ProviderRemoveOutput,
+	S3ProviderRemoveManyOutput,
 	S3ProviderListOutput,
+	S3ProviderListPage,
+	S3ProviderListAllOutput,
 	S3ProviderCopyOutput,
+	S3ProviderMoveOutput,
 	S3ProviderPutOutput,
+	S3ProviderGetPropertiesConfig,
+	S3ProviderGetPropertiesOutput,
+	S3ProviderUpdateMetadataConfig,
+	S3ProviderUpdateMetadataOutput,
+	S3ProviderTagsConfig,
+	S3ProviderTags,
+	S3ProviderSetTagsOutput,
+	S3ProviderListVersionsConfig,
+	S3ProviderListVersionsOutputItem,
+	S3ProviderRestoreVersionConfig,
+	S3ProviderRestoreVersionOutput,
+	S3ProviderGetUploadUrlConfig,
+	S3ProviderGetPresignedPostConfig,
+	S3ProviderGetPresignedPostOutput,
 } from '../';
 
 type Tail<T extends any[]> = ((...t: T) => void) extends (
@@ -112,6 +130,34 @@ export type StorageCopyConfig<T> = T extends StorageProviderWithCopy
 	? StorageOperationConfig<T, 'copy'>
 	: StorageOperationConfigMap<StorageOperationConfig<AWSS3Provider, 'copy'>, T>;
 
+export type StorageGetPropertiesConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderGetPropertiesConfig, T>;
+
+export type StorageUpdateMetadataConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderUpdateMetadataConfig, T>;
+
+export type StorageTagsConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderTagsConfig, T>;
+
+export type StorageListVersionsConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderListVersionsConfig, T>;
+
+export type StorageRestoreVersionConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderRestoreVersionConfig, T>;
+
+export type StorageGetUploadUrlConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderGetUploadUrlConfig, T>;
+
+export type StorageGetPresignedPostConfig<
+	T extends Record<string, any>
+> = StorageOperationConfigMap<S3ProviderGetPresignedPostConfig, T>;
+
 /**
  * Utility type for checking if the generic type is a provider or a Record that has the key 'provider'.
  * If it's a provider, check if it's the S3 Provider, use the default type else use the generic's 'get' method
@@ -150,18 +196,90 @@ export type StorageRemoveOutput<T> = PickProviderOutput<
 	'remove'
 >;
 
+export type StorageRemoveManyOutput<T> = PickProviderOutput<
+	Promise<S3ProviderRemoveManyOutput>,
+	T,
+	'remove'
+>;
+
 export type StorageListOutput<T> = PickProviderOutput<
 	Promise<S3ProviderListOutput>,
 	T,
 	'list'
 >;
 
+export type StorageListPageOutput<T> = PickProviderOutput<
+	Promise<S3ProviderListPage>,
+	T,
+	'list'
+>;
+
+export type StorageListAllOutput<T> = PickProviderOutput<
+	Promise<S3ProviderListAllOutput>,
+	T,
+	'list'
+>;
+
 export type StorageCopyOutput<T> = PickProviderOutput<
 	Promise<S3ProviderCopyOutput>,
 	T,
 	'copy'
 >;
 
+export type StorageMoveOutput<T> = PickProviderOutput<
+	Promise<S3ProviderMoveOutput>,
+	T,
+	'copy'
+>;
+
+export type StorageGetPropertiesOutput<T> = PickProviderOutput<
+	Promise<S3ProviderGetPropertiesOutput>,
+	T,
+	'get'
+>;
+
+export type StorageUpdateMetadataOutput<T> = PickProviderOutput<
+	Promise<S3ProviderUpdateMetadataOutput>,
+	T,
+	'put'
+>;
+
+export type StorageGetTagsOutput<T> = PickProviderOutput<
+	Promise<S3ProviderTags>,
+	T,
+	'get'
+>;
+
+export type StorageSetTagsOutput<T> = PickProviderOutput<
+	Promise<S3ProviderSetTagsOutput>,
+	T,
+	'put'
+>;
+
+export type StorageListVersionsOutput<T> = PickProviderOutput<
+	Promise<S3ProviderListVersionsOutputItem[]>,
+	T,
+	'list'
+>;
+
+export type StorageRestoreVersionOutput<T> = PickProviderOutput<
+	Promise<S3ProviderRestoreVersionOutput>,
+	T,
+	'copy'
+>;
+
+export type StorageGetUploadUrlOutput<T> = PickProviderOutput<
+	Promise<string>,
+	T,
+	'put'
+>;
+
+export type StorageGetPresignedPostOutput<T> = PickProviderOutput<
+	Promise<S3ProviderGetPresignedPostOutput>,
+	T,
+	'put'
+>;
+
 /**
  * Utility type to allow custom provider to use any config keys, if provider is set to AWSS3 then it should use
  * AWSS3Provider's config.
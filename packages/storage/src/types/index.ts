@@ -14,3 +14,4 @@
 export * from './Storage';
 export * from './Provider';
 export * from './AWSS3Provider';
+export * from './LocalStorageProvider';